@@ -0,0 +1,2 @@
+// Settings modules read at import time; real values come from .env outside tests
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'jest-secret';
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."SyncTrigger" AS ENUM ('MANUAL', 'SCHEDULED', 'WEBHOOK');
+
+-- CreateEnum
+CREATE TYPE "public"."SyncRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'PARTIAL', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."sync_runs" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "trigger" "public"."SyncTrigger" NOT NULL DEFAULT 'MANUAL',
+    "status" "public"."SyncRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "entities" TEXT[],
+    "stats" JSONB,
+    "errors" TEXT[],
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_runs_storeId_startedAt_idx" ON "public"."sync_runs"("storeId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "sync_runs_tenantId_idx" ON "public"."sync_runs"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "sync_runs_status_idx" ON "public"."sync_runs"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_runs" ADD CONSTRAINT "sync_runs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."sync_cursors" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "entity" TEXT NOT NULL,
+    "highWaterMark" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_cursors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_cursors_storeId_entity_key" ON "public"."sync_cursors"("storeId", "entity");
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_cursors" ADD CONSTRAINT "sync_cursors_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
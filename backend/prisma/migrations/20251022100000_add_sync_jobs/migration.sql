@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."SyncJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."stores" ADD COLUMN     "nextSyncAt" TIMESTAMP(3),
+ADD COLUMN     "syncIntervalMinutes" INTEGER,
+ADD COLUMN     "syncPaused" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."sync_jobs" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "status" "public"."SyncJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "syncRunId" TEXT,
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_status_runAt_idx" ON "public"."sync_jobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_storeId_status_idx" ON "public"."sync_jobs"("storeId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_jobs" ADD CONSTRAINT "sync_jobs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
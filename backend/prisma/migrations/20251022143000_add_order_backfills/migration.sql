@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."OrderBackfillStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."order_backfills" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "status" "public"."OrderBackfillStatus" NOT NULL DEFAULT 'RUNNING',
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "checkpoint" TIMESTAMP(3) NOT NULL,
+    "windowDays" INTEGER NOT NULL DEFAULT 30,
+    "ordersImported" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_backfills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_backfills_storeId_key" ON "public"."order_backfills"("storeId");
+
+-- CreateIndex
+CREATE INDEX "order_backfills_status_idx" ON "public"."order_backfills"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."order_backfills" ADD CONSTRAINT "order_backfills_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
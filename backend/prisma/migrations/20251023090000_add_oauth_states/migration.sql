@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."oauth_states" (
+    "id" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oauth_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_states_state_key" ON "public"."oauth_states"("state");
+
+-- CreateIndex
+CREATE INDEX "oauth_states_expiresAt_idx" ON "public"."oauth_states"("expiresAt");
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."UserRole" AS ENUM ('OWNER', 'ADMIN', 'ANALYST', 'VIEWER');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "role" "public"."UserRole" NOT NULL DEFAULT 'OWNER';
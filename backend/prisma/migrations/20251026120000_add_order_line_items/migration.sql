@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "public"."order_line_items" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "shopifyId" TEXT,
+    "productId" TEXT,
+    "variantId" TEXT,
+    "sku" TEXT,
+    "title" TEXT NOT NULL,
+    "variantTitle" TEXT,
+    "vendor" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "totalDiscount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "discountAllocations" JSONB,
+    "orderCreatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_line_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_line_items_orderId_idx" ON "public"."order_line_items"("orderId");
+
+-- CreateIndex
+CREATE INDEX "order_line_items_storeId_orderCreatedAt_idx" ON "public"."order_line_items"("storeId", "orderCreatedAt");
+
+-- CreateIndex
+CREATE INDEX "order_line_items_storeId_productId_idx" ON "public"."order_line_items"("storeId", "productId");
+
+-- CreateIndex
+CREATE INDEX "order_line_items_storeId_sku_idx" ON "public"."order_line_items"("storeId", "sku");
+
+-- AddForeignKey
+ALTER TABLE "public"."order_line_items" ADD CONSTRAINT "order_line_items_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."order_line_items" ADD CONSTRAINT "order_line_items_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill from orders.lineItems. The Shopify sync stored that column as a
+-- JSON-encoded string of raw (snake_case) line items and the data sync as a
+-- JSON array of camelCase ones, so unwrap strings and read both spellings.
+INSERT INTO "public"."order_line_items" (
+    "id", "orderId", "storeId", "tenantId", "shopifyId", "productId", "variantId", "sku",
+    "title", "variantTitle", "vendor", "quantity", "price", "totalDiscount", "discountAllocations", "orderCreatedAt"
+)
+SELECT
+    'li_' || md5(o."id" || ':' || item.position),
+    o."id",
+    o."storeId",
+    o."tenantId",
+    item.value->>'id',
+    COALESCE(item.value->>'product_id', item.value->>'productId'),
+    COALESCE(item.value->>'variant_id', item.value->>'variantId'),
+    NULLIF(item.value->>'sku', ''),
+    COALESCE(item.value->>'title', item.value->>'name', 'Untitled item'),
+    COALESCE(item.value->>'variant_title', item.value->>'variantTitle'),
+    NULLIF(item.value->>'vendor', ''),
+    COALESCE((item.value->>'quantity')::INTEGER, 0),
+    COALESCE(NULLIF(item.value->>'price', '')::DOUBLE PRECISION, 0),
+    COALESCE(NULLIF(COALESCE(item.value->>'total_discount', item.value->>'totalDiscount'), '')::DOUBLE PRECISION, 0),
+    COALESCE(item.value->'discount_allocations', item.value->'discountAllocations'),
+    o."createdAt"
+FROM (
+    SELECT
+        "id", "storeId", "tenantId", "createdAt",
+        CASE WHEN jsonb_typeof("lineItems") = 'string' THEN ("lineItems" #>> '{}')::jsonb ELSE "lineItems" END AS "items"
+    FROM "public"."orders"
+) o
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(o."items") = 'array' THEN o."items" ELSE '[]'::jsonb END
+) WITH ORDINALITY AS item(value, position);
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "public"."stores" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- Existing stores take the currency most of their orders were placed in
+UPDATE "public"."stores" s
+SET "currency" = c."currency"
+FROM (
+    SELECT DISTINCT ON ("storeId") "storeId", "currency"
+    FROM "public"."orders"
+    GROUP BY "storeId", "currency"
+    ORDER BY "storeId", COUNT(*) DESC
+) c
+WHERE c."storeId" = s."id";
+
+-- CreateTable
+CREATE TABLE "public"."fx_rates" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "base" TEXT NOT NULL,
+    "quote" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fx_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fx_rates_date_base_quote_key" ON "public"."fx_rates"("date", "base", "quote");
+
+-- CreateIndex
+CREATE INDEX "fx_rates_base_quote_date_idx" ON "public"."fx_rates"("base", "quote", "date");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."stores" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,24 @@
+-- Orders synced before Shopify's timestamps were carried through kept their
+-- insert time in "createdAt". Shopify's created_at and processed_at match for
+-- orders placed in the store, so a later "createdAt" is taken to be the insert
+-- time and replaced with processed_at, the closest Shopify timestamp stored.
+-- The next full sync rewrites both from Shopify, which restores created_at for
+-- imported orders processed before they were created.
+UPDATE "public"."orders" SET "processedAt" = "createdAt" WHERE "processedAt" IS NULL;
+UPDATE "public"."orders" SET "createdAt" = "processedAt" WHERE "createdAt" > "processedAt";
+
+-- AlterTable
+ALTER TABLE "public"."orders" ALTER COLUMN "processedAt" SET NOT NULL,
+ALTER COLUMN "createdAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "orders_storeId_processedAt_idx" ON "public"."orders"("storeId", "processedAt");
+
+-- Line items copy the order's processedAt instead of its createdAt
+ALTER TABLE "public"."order_line_items" RENAME COLUMN "orderCreatedAt" TO "orderProcessedAt";
+ALTER INDEX "public"."order_line_items_storeId_orderCreatedAt_idx" RENAME TO "order_line_items_storeId_orderProcessedAt_idx";
+
+UPDATE "public"."order_line_items" li
+SET "orderProcessedAt" = o."processedAt"
+FROM "public"."orders" o
+WHERE o."id" = li."orderId" AND li."orderProcessedAt" <> o."processedAt";
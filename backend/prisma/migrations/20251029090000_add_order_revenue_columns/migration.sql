@@ -0,0 +1,69 @@
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN "totalShipping" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "refundedSubtotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "refundedTax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "refundedShipping" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "test" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."order_line_items" ADD COLUMN "refundedQuantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "refundedSubtotal" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill from the stored shipping lines and refunds, which like lineItems
+-- may be JSON-encoded strings. The test flag wasn't stored, so test orders
+-- only drop out once the next full sync rewrites them.
+CREATE TEMP TABLE "order_json" AS
+SELECT
+    "id",
+    CASE WHEN jsonb_typeof("shippingLines") = 'string' THEN ("shippingLines" #>> '{}')::jsonb ELSE "shippingLines" END AS "shippingLines",
+    CASE WHEN jsonb_typeof("refunds") = 'string' THEN ("refunds" #>> '{}')::jsonb ELSE "refunds" END AS "refunds"
+FROM "public"."orders";
+
+CREATE TEMP TABLE "refund_lines" AS
+SELECT
+    o."id" AS "orderId",
+    line.value->>'line_item_id' AS "lineItemId",
+    COALESCE((line.value->>'quantity')::INTEGER, 0) AS "quantity",
+    COALESCE(NULLIF(line.value->>'subtotal', '')::DOUBLE PRECISION, 0) AS "subtotal",
+    COALESCE(NULLIF(line.value->>'total_tax', '')::DOUBLE PRECISION, 0) AS "tax"
+FROM "order_json" o
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(o."refunds") = 'array' THEN o."refunds" ELSE '[]'::jsonb END
+) AS refund(value)
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(refund.value->'refund_line_items') = 'array' THEN refund.value->'refund_line_items' ELSE '[]'::jsonb END
+) AS line(value);
+
+UPDATE "public"."orders" o
+SET "totalShipping" = COALESCE((
+        SELECT SUM(COALESCE(NULLIF(line.value->>'price', '')::DOUBLE PRECISION, 0))
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(j."shippingLines") = 'array' THEN j."shippingLines" ELSE '[]'::jsonb END) AS line(value)
+    ), 0),
+    "refundedSubtotal" = COALESCE((SELECT SUM(r."subtotal") FROM "refund_lines" r WHERE r."orderId" = o."id"), 0),
+    "refundedTax" = COALESCE((SELECT SUM(r."tax") FROM "refund_lines" r WHERE r."orderId" = o."id"), 0)
+        - COALESCE(adjustments."tax", 0),
+    "refundedShipping" = -COALESCE(adjustments."amount", 0)
+FROM "order_json" j
+LEFT JOIN LATERAL (
+    SELECT
+        SUM(COALESCE(NULLIF(adjustment.value->>'amount', '')::DOUBLE PRECISION, 0)) AS "amount",
+        SUM(COALESCE(NULLIF(adjustment.value->>'tax_amount', '')::DOUBLE PRECISION, 0)) AS "tax"
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(j."refunds") = 'array' THEN j."refunds" ELSE '[]'::jsonb END) AS refund(value)
+    CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(refund.value->'order_adjustments') = 'array' THEN refund.value->'order_adjustments' ELSE '[]'::jsonb END
+    ) AS adjustment(value)
+    WHERE adjustment.value->>'kind' = 'shipping_refund'
+) adjustments ON TRUE
+WHERE j."id" = o."id";
+
+UPDATE "public"."order_line_items" li
+SET "refundedQuantity" = r."quantity", "refundedSubtotal" = r."subtotal"
+FROM (
+    SELECT "orderId", "lineItemId", SUM("quantity")::INTEGER AS "quantity", SUM("subtotal") AS "subtotal"
+    FROM "refund_lines"
+    GROUP BY "orderId", "lineItemId"
+) r
+WHERE li."orderId" = r."orderId" AND li."shopifyId" = r."lineItemId";
+
+DROP TABLE "order_json";
+DROP TABLE "refund_lines";
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."events" ADD COLUMN "webhookId" TEXT,
+ADD COLUMN "processedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN "shopifyUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."products" ADD COLUMN "shopifyUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."customers" ADD COLUMN "shopifyUpdatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "events_webhookId_key" ON "public"."events"("webhookId");
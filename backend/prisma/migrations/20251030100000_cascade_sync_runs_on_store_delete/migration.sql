@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "public"."sync_runs" DROP CONSTRAINT "sync_runs_storeId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_runs" ADD CONSTRAINT "sync_runs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
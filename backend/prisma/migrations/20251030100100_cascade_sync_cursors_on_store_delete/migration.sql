@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "public"."sync_cursors" DROP CONSTRAINT "sync_cursors_storeId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_cursors" ADD CONSTRAINT "sync_cursors_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
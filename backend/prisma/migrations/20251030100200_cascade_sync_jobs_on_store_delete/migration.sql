@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "public"."sync_jobs" DROP CONSTRAINT "sync_jobs_storeId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_jobs" ADD CONSTRAINT "sync_jobs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "public"."order_backfills" DROP CONSTRAINT "order_backfills_storeId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "public"."order_backfills" ADD CONSTRAINT "order_backfills_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "public"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
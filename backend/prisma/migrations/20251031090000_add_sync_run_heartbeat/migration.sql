@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."sync_runs" ADD COLUMN "workerId" TEXT,
+ADD COLUMN "heartbeatAt" TIMESTAMP(3);
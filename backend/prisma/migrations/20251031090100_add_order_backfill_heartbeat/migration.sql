@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."order_backfills" ADD COLUMN "workerId" TEXT,
+ADD COLUMN "heartbeatAt" TIMESTAMP(3);
@@ -0,0 +1,18 @@
+-- Only the newest of several runs left RUNNING for a store can still be live
+UPDATE "public"."sync_runs" r
+SET "status" = 'FAILED',
+    "errors" = ARRAY['Interrupted: another sync was running for this store'],
+    "finishedAt" = CURRENT_TIMESTAMP
+WHERE r."status" = 'RUNNING'
+  AND r."trigger" <> 'WEBHOOK'
+  AND EXISTS (
+    SELECT 1 FROM "public"."sync_runs" newer
+    WHERE newer."storeId" = r."storeId"
+      AND newer."status" = 'RUNNING'
+      AND newer."trigger" <> 'WEBHOOK'
+      AND (newer."startedAt", newer."id") > (r."startedAt", r."id")
+  );
+
+-- CreateIndex
+-- Webhook deliveries apply a single record and may overlap a sync, so they aren't counted
+CREATE UNIQUE INDEX "sync_runs_storeId_running_key" ON "public"."sync_runs"("storeId") WHERE "status" = 'RUNNING' AND "trigger" <> 'WEBHOOK';
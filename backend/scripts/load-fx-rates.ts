@@ -0,0 +1,47 @@
+import 'dotenv/config';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import logger from '../src/utils/logger';
+import { FxService, parseFxCsv } from '../src/services/fx.service';
+
+/**
+ * Load exchange rates used to convert tenant totals into a reporting currency.
+ *
+ *   npm run fx:load -- rates.csv             # insert or overwrite the file's rates
+ *   npm run fx:load -- rates.csv --dry-run   # validate the file only
+ *
+ * The file needs a `date,base,quote,rate` header; each row says one unit of
+ * `base` bought `rate` units of `quote` on `date` (YYYY-MM-DD). There is no live
+ * feed, so load a new file whenever rates should move. See
+ * scripts/fixtures/fx-rates.csv for the format.
+ */
+
+async function main() {
+  const file = process.argv.slice(2).find((arg) => !arg.startsWith('--'));
+  const dryRun = process.argv.includes('--dry-run');
+  if (!file) {
+    logger.error('Usage: npm run fx:load -- <rates.csv> [--dry-run]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const prisma = new PrismaClient();
+  try {
+    const rows = parseFxCsv(readFileSync(file, 'utf8'));
+    const pairs = new Set(rows.map((row) => `${row.base}/${row.quote}`));
+    logger.info(`Read ${rows.length} rate(s) for ${pairs.size} pair(s) from ${file}${dryRun ? ' (dry run)' : ''}`);
+
+    if (!dryRun) {
+      const count = await new FxService(prisma).import(rows, path.basename(file));
+      logger.info(`Loaded ${count} rate(s)`);
+    }
+  } catch (err: any) {
+    logger.error('Loading FX rates failed:', err?.message || err);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
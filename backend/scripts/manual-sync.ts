@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client';
 import path from 'path';
 import { ShopifySyncService } from '../src/services/shopify.service';
 import logger from '../src/utils/logger';
+import { decryptToken, encryptToken } from '../src/utils/crypto';
 
 async function main() {
   const prisma = new PrismaClient();
@@ -32,15 +33,15 @@ async function main() {
         data: {
           name: domain,
           domain,
-          accessToken,
+          accessToken: encryptToken(accessToken),
           tenantId: tenant.id,
         },
       });
       logger.info(`Created store ${store.id} for domain ${domain}`);
-    } else if (store.accessToken !== accessToken) {
+    } else if (!store.accessToken || decryptToken(store.accessToken) !== accessToken) {
       store = await prisma.store.update({
         where: { id: store.id },
-        data: { accessToken },
+        data: { accessToken: encryptToken(accessToken) },
       });
       logger.info(`Updated access token for store ${store.id}`);
     }
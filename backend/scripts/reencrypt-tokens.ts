@@ -0,0 +1,75 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import logger from '../src/utils/logger';
+import { decryptToken, encryptToken, getActiveTokenKeyId, getTokenKeyId } from '../src/utils/crypto';
+
+/**
+ * Re-encrypt every stored Shopify access token under one master key.
+ *
+ *   npm run tokens:reencrypt                  # rewrap under TOKEN_ENCRYPTION_ACTIVE_KEY
+ *   npm run tokens:reencrypt -- --key 2025-06 # rewrap under a specific key
+ *   npm run tokens:reencrypt -- --dry-run     # report what would change
+ *
+ * To rotate: add the new key to TOKEN_ENCRYPTION_KEYS, make it active, run this,
+ * and remove the old key once no store reports it. Plain-text tokens written
+ * before encryption was enabled are encrypted as well.
+ */
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index > -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const prisma = new PrismaClient();
+  const dryRun = process.argv.includes('--dry-run');
+  const targetKeyId = argValue('--key') || getActiveTokenKeyId();
+  const counts = { reencrypted: 0, current: 0, failed: 0 };
+
+  try {
+    const stores = await prisma.store.findMany({
+      where: { accessToken: { not: null } },
+      select: { id: true, domain: true, accessToken: true },
+    });
+    logger.info(`Re-encrypting ${stores.length} store token(s) under key "${targetKeyId}"${dryRun ? ' (dry run)' : ''}`);
+
+    for (const store of stores) {
+      const currentKeyId = getTokenKeyId(store.accessToken);
+      if (currentKeyId === targetKeyId) {
+        counts.current++;
+        continue;
+      }
+
+      try {
+        const reencrypted = encryptToken(decryptToken(store.accessToken!), targetKeyId);
+        if (!dryRun) {
+          // Only overwrite the value we read, in case the token changed meanwhile
+          const { count } = await prisma.store.updateMany({
+            where: { id: store.id, accessToken: store.accessToken },
+            data: { accessToken: reencrypted },
+          });
+          if (count === 0) {
+            throw new Error('token changed while re-encrypting; run again');
+          }
+        }
+        counts.reencrypted++;
+        logger.info(`${store.domain}: ${currentKeyId ?? 'plain text'} -> ${targetKeyId}`);
+      } catch (err: any) {
+        counts.failed++;
+        logger.error(`${store.domain}: ${err?.message || err}`);
+      }
+    }
+  } catch (err: any) {
+    logger.error('Token re-encryption failed:', err?.message || err);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+
+  logger.info(`Done: ${counts.reencrypted} re-encrypted, ${counts.current} already current, ${counts.failed} failed`);
+  if (counts.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
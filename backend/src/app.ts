@@ -10,6 +10,9 @@ import logger from './utils/logger';
 import { errorHandler, notFound } from './middleware/error.middleware';
 import { rateLimiter, authLimiter, apiLimiter } from './middleware/rate-limit.middleware';
 import { serveFile } from './utils/fileUpload';
+import { syncRunService } from './services/sync-run.service';
+import { syncScheduler } from './services/sync-scheduler.service';
+import { orderBackfillService } from './services/order-backfill.service';
 
 // Load environment variables
 const envPath = path.resolve(__dirname, '../.env');
@@ -24,11 +27,14 @@ console.log('DATABASE_URL:', process.env.DATABASE_URL ? '***REDACTED***' : 'Not
 // Import routes
 import authRoutes from './routes/auth.routes';
 import tenantRoutes from './routes/tenant.routes';
+import invitationRoutes from './routes/invitation.routes';
 import storeRoutes from './routes/store.routes';
 import testRoutes from './routes/test.routes';
 import otpRoutes from './routes/otp.routes';
+import shopifyOAuthRoutes from './routes/shopify-oauth.routes';
 import shopifyRoutes from './routes/shopify.routes';
 import dataSyncRoutes from './routes/data-sync.routes';
+import webhookRoutes from './routes/webhook.routes';
 
 // Initialize Prisma Client
 export const prisma = new PrismaClient({
@@ -104,6 +110,10 @@ class App {
       next();
     });
 
+    // Shopify webhooks need the unparsed body for HMAC verification,
+    // so they are mounted ahead of the JSON body parser
+    this.app.use('/api/webhooks', webhookRoutes);
+
     // Parse JSON bodies
     this.app.use(express.json({ limit: '10kb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '10kb' }));
@@ -140,8 +150,11 @@ class App {
     // API routes with rate limiting
     this.app.use('/api/auth', authRoutes);
     this.app.use('/api/tenants', tenantRoutes);
+    this.app.use('/api/invitations', invitationRoutes);
     this.app.use('/api/stores', storeRoutes);
     this.app.use('/api/otp', otpRoutes);
+    // OAuth routes go first: the callback is public, while shopifyRoutes protects everything
+    this.app.use('/api/shopify', shopifyOAuthRoutes);
     this.app.use('/api/shopify', shopifyRoutes);
     this.app.use('/api/sync', dataSyncRoutes);
 
@@ -184,6 +197,12 @@ class App {
       
       // Apply database migrations
       await this.runMigrations();
+
+      // Syncs this process's predecessor left running will never finish; other
+      // instances' work is only taken over once its heartbeat goes stale
+      await syncRunService.failInterruptedRuns();
+      await syncScheduler.requeueInterruptedJobs();
+      await orderBackfillService.resumeInterruptedBackfills();
     } catch (error) {
       logger.error('Error connecting to the database:', error);
       process.exit(1);
@@ -209,6 +228,10 @@ class App {
       logger.info(`Server is running on port ${port} in ${process.env.NODE_ENV || 'development'} mode`);
       logger.info(`API Documentation: http://localhost:${port}/api-docs`);
     });
+
+    if (process.env.SYNC_SCHEDULER_ENABLED !== 'false') {
+      syncScheduler.start();
+    }
   }
 }
 
@@ -237,6 +260,7 @@ process.on('uncaughtException', (error: Error) => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received. Shutting down gracefully...');
+  syncScheduler.stop();
   try {
     await prisma.$disconnect();
     logger.info('Database connection closed');
@@ -0,0 +1,54 @@
+import express from 'express';
+import request from 'supertest';
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import shopifyOAuthRoutes from '../../routes/shopify-oauth.routes';
+import { shopifyOAuthService } from '../../services/shopify-oauth.service';
+import { AppError, UnauthorizedError } from '../../utils/errors';
+
+const SHOP = 'oauth-check.myshopify.com';
+const savedFrontendUrl = process.env.FRONTEND_BASE_URL;
+
+beforeAll(() => {
+  process.env.FRONTEND_BASE_URL = 'http://frontend.test';
+});
+
+afterAll(() => {
+  process.env.FRONTEND_BASE_URL = savedFrontendUrl;
+});
+
+describe('GET /api/shopify/callback', () => {
+  const app = express();
+  app.use('/api/shopify', shopifyOAuthRoutes);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends repeated or missing parameters back as invalid_request without handling them', async () => {
+    const handleCallback = jest.spyOn(shopifyOAuthService, 'handleCallback');
+
+    const repeated = await request(app).get(`/api/shopify/callback?shop=${SHOP}&shop=evil.myshopify.com&code=c&state=s&hmac=h`);
+    const missing = await request(app).get('/api/shopify/callback?code=c&state=s');
+
+    for (const res of [repeated, missing]) {
+      expect(res.status).toBe(302);
+      expect(res.headers.location).toBe('http://frontend.test/stores/connect?error=invalid_request');
+    }
+    expect(handleCallback).not.toHaveBeenCalled();
+  });
+
+  it('maps failures to a fixed code instead of echoing the error message', async () => {
+    jest
+      .spyOn(shopifyOAuthService, 'handleCallback')
+      .mockRejectedValueOnce(new AppError('Shopify token exchange failed: upstream detail', 502))
+      .mockRejectedValueOnce(new UnauthorizedError('OAuth state is invalid or has expired'));
+    // The service is stubbed, so the signature itself doesn't matter here
+    const url = `/api/shopify/callback?shop=${SHOP}&code=c&state=s&hmac=h&timestamp=1700000000`;
+
+    const failed = await request(app).get(url);
+    expect(failed.headers.location).toBe('http://frontend.test/stores/connect?error=connect_failed');
+
+    const unauthorized = await request(app).get(url);
+    expect(unauthorized.headers.location).toBe('http://frontend.test/stores/connect?error=unauthorized');
+  });
+});
@@ -0,0 +1,196 @@
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { createHmac } from 'crypto';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { Event, PrismaClient } from '@prisma/client';
+import webhookRoutes from '../../routes/webhook.routes';
+import { errorHandler } from '../../middleware/error.middleware';
+import { ShopifyWebhookService, shopifyWebhookService } from '../../services/webhook.service';
+import type { SyncRunResults } from '../../services/sync-run.service';
+
+// Upserts lock rows with raw SQL, so the data layer is stubbed; what's under
+// test is signing, routing and how redeliveries are recorded
+const mockSync = {
+  applyOrder: jest.fn(async (): Promise<string> => 'created'),
+  applyProduct: jest.fn(async (): Promise<string> => 'created'),
+  applyCustomer: jest.fn(async (): Promise<string> => 'created'),
+  removeProduct: jest.fn(async (): Promise<string> => 'deleted'),
+  removeCustomer: jest.fn(async (): Promise<string> => 'deleted'),
+};
+const mockRuns: SyncRunResults[] = [];
+
+jest.mock('../../services/data-sync.service', () => ({ DataSyncService: jest.fn(() => mockSync) }));
+jest.mock('../../services/sync-run.service', () => ({
+  SyncRunService: jest.fn(() => ({
+    track: async (_store: unknown, _trigger: unknown, _entities: unknown, work: (run: unknown) => Promise<SyncRunResults>) => {
+      mockRuns.push(await work({}));
+      return {};
+    },
+  })),
+}));
+jest.mock('../../services/shopify.service', () => ({
+  ...jest.requireActual<object>('../../services/shopify.service'),
+  ShopifyService: jest.fn(),
+}));
+
+const SHOP = 'harness-test.myshopify.com';
+const SECRET = 'webhook-test-secret';
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'webhooks');
+
+type Fixture = { file: string; topic: string; payload: any };
+
+const fixtures: Fixture[] = fs
+  .readdirSync(FIXTURES_DIR)
+  .filter((f) => f.endsWith('.json'))
+  .sort()
+  .map((file) => ({ file, ...JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) }));
+const fixture = (topic: string) => fixtures.find((f) => f.topic === topic)!;
+
+const sign = (body: string, secret = SECRET) => createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+
+const app = express();
+app.use('/api/webhooks', webhookRoutes);
+app.use(errorHandler);
+
+const deliver = (
+  { topic, payload }: Pick<Fixture, 'topic' | 'payload'>,
+  { webhookId, hmac, shop = SHOP }: { webhookId?: string; hmac?: string; shop?: string } = {}
+) => {
+  const body = JSON.stringify(payload);
+  const req = request(app)
+    .post('/api/webhooks/shopify')
+    .set('Content-Type', 'application/json')
+    .set('X-Shopify-Topic', topic)
+    .set('X-Shopify-Shop-Domain', shop)
+    .set('X-Shopify-Hmac-Sha256', hmac ?? sign(body));
+  return (webhookId ? req.set('X-Shopify-Webhook-Id', webhookId) : req).send(body);
+};
+
+const savedSecret = process.env.SHOPIFY_WEBHOOK_SECRET;
+
+beforeAll(() => {
+  process.env.SHOPIFY_WEBHOOK_SECRET = SECRET;
+});
+
+afterAll(() => {
+  process.env.SHOPIFY_WEBHOOK_SECRET = savedSecret;
+});
+
+describe('POST /api/webhooks/shopify', () => {
+  let events: Event[];
+
+  beforeEach(() => {
+    events = [];
+    mockRuns.length = 0;
+    const byWebhookId = (webhookId: string) => events.find((e) => e.webhookId === webhookId);
+    const create = (data: Partial<Event>) => {
+      const event = { id: `event-${events.length + 1}`, webhookId: null, processedAt: null, ...data } as Event;
+      events.push(event);
+      return event;
+    };
+    const prisma = {
+      store: {
+        findUnique: async ({ where }: { where: { domain: string } }) =>
+          where.domain === SHOP ? { id: 'store-1', tenantId: 'tenant-1', domain: SHOP, isActive: true } : null,
+      },
+      event: {
+        create: async ({ data }: { data: Partial<Event> }) => create(data),
+        upsert: async ({ where, create: data }: { where: { webhookId: string }; create: Partial<Event> }) =>
+          byWebhookId(where.webhookId) ?? create(data),
+        update: async ({ where, data }: { where: { id: string }; data: Partial<Event> }) =>
+          Object.assign(events.find((e) => e.id === where.id)!, data),
+      },
+    } as unknown as PrismaClient;
+    const service = new ShopifyWebhookService(prisma);
+    jest.spyOn(shopifyWebhookService, 'handleDelivery').mockImplementation((delivery) => service.handleDelivery(delivery));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('rejects a tampered signature without recording it', async () => {
+    const probe = fixtures[0];
+    const body = JSON.stringify(probe.payload);
+
+    const tampered = await deliver(probe, { hmac: sign(body + ' ') });
+    const otherSecret = await deliver(probe, { hmac: sign(body, 'other-secret') });
+
+    expect(tampered.status).toBe(401);
+    expect(otherSecret.status).toBe(401);
+    expect(events).toHaveLength(0);
+  });
+
+  it('rejects a signed delivery without topic or shop headers', async () => {
+    const body = JSON.stringify(fixtures[0].payload);
+    const res = await request(app)
+      .post('/api/webhooks/shopify')
+      .set('Content-Type', 'application/json')
+      .set('X-Shopify-Hmac-Sha256', sign(body))
+      .send(body);
+
+    expect(res.status).toBe(400);
+    expect(events).toHaveLength(0);
+  });
+
+  it('answers 404 for a shop that is not connected', async () => {
+    const res = await deliver(fixtures[0], { shop: 'unknown.myshopify.com' });
+    expect(res.status).toBe(404);
+    expect(events).toHaveLength(0);
+  });
+
+  it('records and applies every fixture once', async () => {
+    for (const [i, f] of fixtures.entries()) {
+      const res = await deliver(f, { webhookId: `fixture-${i}` });
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ received: true, outcome: 'applied' });
+    }
+
+    expect(events).toHaveLength(fixtures.length);
+    expect(events.every((e) => e.processedAt)).toBe(true);
+    expect(mockSync.applyOrder).toHaveBeenCalledTimes(fixtures.filter((f) => f.topic.startsWith('orders/')).length);
+    expect(mockSync.removeProduct).toHaveBeenCalledWith(fixture('products/delete').payload.id);
+  });
+
+  it('acknowledges a redelivery without applying it again', async () => {
+    const order = fixture('orders/create');
+
+    const first = await deliver(order, { webhookId: 'redelivered' });
+    const again = await deliver(order, { webhookId: 'redelivered' });
+
+    expect(first.body.outcome).toBe('applied');
+    expect(again.status).toBe(200);
+    expect(again.body).toEqual({ received: true, outcome: 'duplicate', eventId: first.body.eventId });
+    expect(mockSync.applyOrder).toHaveBeenCalledTimes(1);
+    expect(events).toHaveLength(1);
+  });
+
+  it('applies a retry of a delivery that failed, reusing its event', async () => {
+    const order = fixture('orders/create');
+    mockSync.applyOrder.mockRejectedValueOnce(new Error('database unavailable'));
+
+    const failed = await deliver(order, { webhookId: 'retried' });
+    expect(failed.status).toBe(500);
+    expect(events[0].processedAt).toBeNull();
+
+    const retried = await deliver(order, { webhookId: 'retried' });
+    expect(retried.body.outcome).toBe('applied');
+    expect(mockSync.applyOrder).toHaveBeenCalledTimes(2);
+    expect(events).toHaveLength(1);
+  });
+
+  it('reports what the delivery changed in the sync run', async () => {
+    mockSync.applyOrder.mockResolvedValueOnce('updated').mockResolvedValueOnce('skipped');
+
+    await deliver(fixture('orders/updated'), { webhookId: 'newer' });
+    await deliver(fixture('orders/updated'), { webhookId: 'stale' });
+
+    expect(mockRuns.map((run) => run.orders)).toEqual([
+      expect.objectContaining({ message: 'orders/updated: updated', stats: { total: 1, created: 0, updated: 1, errors: 0 } }),
+      expect.objectContaining({ message: 'orders/updated: skipped', stats: { total: 1, created: 0, updated: 0, errors: 0 } }),
+    ]);
+  });
+});
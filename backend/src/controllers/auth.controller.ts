@@ -1,69 +1,90 @@
 import { Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import type { User as PrismaUser } from '@prisma/client';
 import { AppError, catchAsync, isAuthenticated } from '../middleware/error.middleware';
 import emailService from '../services/email.service';
+import {
+  sessionService,
+  sessionContext,
+  setSessionCookies,
+  clearSessionCookies,
+  REFRESH_COOKIE,
+} from '../services/session.service';
+import { invitationService } from '../services/invitation.service';
+import { mfaService } from '../services/mfa.service';
+import { auditContext, auditService } from '../services/audit.service';
+import { signMfaChallengeToken, verifyMfaChallengeToken } from '../utils/jwt';
 import logger from '../utils/logger';
+import { ConflictError } from '../utils/errors';
 import { otpLimiter, authLimiter } from '../middleware/rate-limit.middleware';
 
 type User = PrismaUser;
 const prisma = new PrismaClient();
 
-// Generate JWT token
-const signToken = (id: string): string => {
-  const secret = process.env.JWT_SECRET;
-  
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined');
-  }
-  
-  // Use a fixed expiration time in seconds (7 days)
-  const expiresIn = 7 * 24 * 60 * 60; // 7 days in seconds
-  
-  // Create the JWT payload
-  const payload = { id };
-  
-  // Sign the token with the secret and options
-  return jwt.sign(payload, secret, { expiresIn });
-};
-
-// Create and send JWT token
-const createSendToken = (
+// Start a session and send its tokens: the access token in the body and
+// cookie, the refresh token only in an httpOnly cookie
+const createSendToken = async (
   user: User,
   statusCode: number,
+  req: Request,
   res: Response
-): void => {
-  const token = signToken(user.id);
-  const isProd = (process.env.NODE_ENV || 'development') === 'production';
-  const cookieOptions = {
-    expires: new Date(
-      Date.now() +
-        (parseInt(process.env.JWT_COOKIE_EXPIRES_IN || '7', 10) * 24 * 60 * 60 * 1000)
-    ),
-    httpOnly: true,
-    secure: isProd, // only require HTTPS in production
-    sameSite: (isProd ? 'none' : 'lax') as 'none' | 'lax',
-  };
+): Promise<void> => {
+  const session = await sessionService.issue(user.id, sessionContext(req));
+  setSessionCookies(res, session);
 
   // Remove password from output
   (user.passwordHash as any) = undefined;
   user.otp = null;
   user.otpExpiresAt = null;
+  (user.mfaSecret as any) = undefined;
+  (user.mfaRecoveryCodes as any) = undefined;
 
-  res.status(statusCode).cookie('token', token, cookieOptions).json({
+  res.status(statusCode).json({
     status: 'success',
-    token,
+    token: session.accessToken,
     data: {
       user,
     },
   });
 };
 
+// Finish a password check: users with 2FA on get a challenge token to trade,
+// along with a code from their authenticator app, for a session
+const sendLoginResponse = async (
+  user: Pick<User, 'id' | 'mfaEnabled'>,
+  req: Request,
+  res: Response
+): Promise<void> => {
+  if (user.mfaEnabled) {
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      mfaRequired: true,
+      mfaToken: signMfaChallengeToken(user.id),
+    });
+    return;
+  }
+  await createSendToken(user as User, StatusCodes.OK, req, res);
+};
+
+// Account security events go in the user's tenant log, with the user as the
+// actor even on public routes like password reset
+const auditAccount = async (
+  req: Request,
+  user: { id: string; email: string; tenantId?: string | null },
+  action: string,
+  metadata?: Record<string, unknown>
+) => {
+  if (!user.tenantId) return;
+  await auditService.record(
+    { ...auditContext(req), actorType: 'USER', actorId: user.id, actorLabel: user.email },
+    { tenantId: user.tenantId, action, targetType: 'user', targetId: user.id, metadata }
+  );
+};
+
 // Generate OTP
 const generateOTP = (): string => {
   return Math.floor(100000 + Math.random() * 900000).toString(); // 6-digit OTP
@@ -87,7 +108,7 @@ export const signup = catchAsync(
       );
     }
 
-    const { email, username, password, passwordConfirm } = req.body;
+    const { email, username, password, passwordConfirm, invitationToken } = req.body;
 
     // 2) Check if passwords match
     if (password !== passwordConfirm) {
@@ -107,6 +128,18 @@ export const signup = catchAsync(
       );
     }
 
+    // Invited users join the inviting tenant instead of getting their own.
+    // The emailed link already proved the address, so skip the OTP step.
+    if (invitationToken) {
+      const invitedUser = await invitationService.acceptForSignup(invitationToken, {
+        email,
+        username,
+        passwordHash: await bcrypt.hash(password, 12),
+      }, auditContext(req));
+
+      return createSendToken(invitedUser, StatusCodes.CREATED, req, res);
+    }
+
     // 4) Create a new tenant with a unique name by appending a random string
     const tenant = await prisma.tenant.create({
       data: {
@@ -317,7 +350,7 @@ export const verifyOTP = catchAsync(
       });
     } else {
       // Log the user in by sending JWT for email verification
-      createSendToken(updatedUser, StatusCodes.OK, res);
+      await createSendToken(updatedUser, StatusCodes.OK, req, res);
     }
   }
 );
@@ -437,20 +470,46 @@ export const login = catchAsync(
       }
     });
 
-    // 7) If everything is ok, send token to client
-    createSendToken(user, StatusCodes.OK, res);
+    // 7) If everything is ok, send token to client (or ask for the second factor)
+    await sendLoginResponse(user, req, res);
+  }
+);
+
+// Second step of a 2FA login
+export const verifyLoginMfa = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError('Validation failed', StatusCodes.UNPROCESSABLE_ENTITY, errors.array()));
+    }
+
+    const { mfaToken, code, recoveryCode } = req.body;
+
+    let userId: string;
+    try {
+      userId = await verifyMfaChallengeToken(mfaToken);
+    } catch {
+      return next(new AppError('Your sign-in attempt expired. Please sign in again.', StatusCodes.UNAUTHORIZED));
+    }
+
+    await mfaService.verify(userId, { code, recoveryCode });
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return next(new AppError('User not found', StatusCodes.NOT_FOUND));
+    }
+
+    await createSendToken(user, StatusCodes.OK, req, res);
   }
 );
 
 // Logout user
-export const logout = (req: Request, res: Response) => {
-  const isProd = (process.env.NODE_ENV || 'development') === 'production';
-  res.cookie('token', 'loggedout', {
-    expires: new Date(Date.now() + 10 * 1000), // 10 seconds
-    httpOnly: true,
-    secure: isProd,
-    sameSite: (isProd ? 'none' : 'lax') as 'none' | 'lax',
-  });
+export const logout = async (req: Request, res: Response) => {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+  if (refreshToken) {
+    await sessionService.revokeByRefreshToken(refreshToken);
+  }
+  clearSessionCookies(res);
 
   res.status(StatusCodes.OK).json({
     status: 'success',
@@ -458,6 +517,90 @@ export const logout = (req: Request, res: Response) => {
   });
 };
 
+// Exchange the refresh token cookie for a new access token
+export const refresh = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const refreshToken = req.cookies?.[REFRESH_COOKIE] || req.body?.refreshToken;
+    if (!refreshToken) {
+      return next(new AppError('No refresh token provided', StatusCodes.UNAUTHORIZED));
+    }
+
+    try {
+      const session = await sessionService.rotate(refreshToken, sessionContext(req));
+      setSessionCookies(res, session);
+
+      res.status(StatusCodes.OK).json({
+        status: 'success',
+        token: session.accessToken,
+      });
+    } catch (error) {
+      // Losing a race with another tab's refresh isn't a reason to sign out;
+      // that tab's response carries the new cookies
+      if (!(error instanceof ConflictError)) {
+        clearSessionCookies(res);
+      }
+      throw error;
+    }
+  }
+);
+
+// List the current user's signed-in devices
+export const getSessions = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const sessions = await sessionService.list(req.user.id);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      results: sessions.length,
+      data: {
+        sessions: sessions.map((session) => ({ ...session, current: session.id === req.user!.sessionId })),
+      },
+    });
+  }
+);
+
+// Sign out a single device
+export const revokeSession = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const revoked = await sessionService.revoke(req.user.id, req.params.sessionId);
+    if (!revoked) {
+      return next(new AppError('Session not found', StatusCodes.NOT_FOUND));
+    }
+
+    if (req.params.sessionId === req.user.sessionId) {
+      clearSessionCookies(res);
+    }
+
+    res.status(StatusCodes.NO_CONTENT).send();
+  }
+);
+
+// Sign out everywhere, including this device
+export const revokeAllSessions = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const revoked = await sessionService.revokeAll(req.user.id);
+    await auditAccount(req, req.user, 'user.sessions_revoked', { count: revoked });
+    clearSessionCookies(res);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      message: `Signed out of ${revoked} session(s)`,
+    });
+  }
+);
+
 // Request password reset
 export const forgotPassword = catchAsync(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -567,6 +710,9 @@ export const getCurrentUser = catchAsync(
         email: true,
         username: true,
         isVerified: true,
+        tenantId: true,
+        role: true,
+        mfaEnabled: true,
         createdAt: true,
         updatedAt: true
       }
@@ -673,6 +819,7 @@ export const resetPassword = catchAsync(
         username: true,
         isVerified: true,
         tenantId: true,
+        mfaEnabled: true,
         createdAt: true,
         updatedAt: true
       }
@@ -682,8 +829,11 @@ export const resetPassword = catchAsync(
       return next(new AppError('User not found after password reset', StatusCodes.INTERNAL_SERVER_ERROR));
     }
 
-    // 6) Log the user in, send JWT
-    createSendToken(userWithNewPassword as User, StatusCodes.OK, res);
+    // 6) End sessions started with the old password, then log the user in.
+    // An emailed reset code isn't a second factor, so 2FA still applies.
+    await sessionService.revokeAll(user.id);
+    await auditAccount(req, user, 'user.password_reset');
+    await sendLoginResponse(userWithNewPassword, req, res);
   }
 );
 
@@ -734,7 +884,112 @@ export const updatePassword = catchAsync(
       },
     });
 
-    // 5) Log user in, send JWT
-    createSendToken(user, StatusCodes.OK, res);
+    // 5) Sign out every other device, then log this one back in
+    await sessionService.revokeAll(user.id);
+    await auditAccount(req, user, 'user.password_changed');
+    await createSendToken(user, StatusCodes.OK, req, res);
+  }
+);
+
+// Two-factor status for the signed-in user
+export const getMfaStatus = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const mfa = await mfaService.status(req.user.id);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: { mfa },
+    });
+  }
+);
+
+// Start 2FA enrollment: returns the secret and a QR code for authenticator apps
+export const setupMfa = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const enrollment = await mfaService.startEnrollment(req.user.id);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: enrollment,
+    });
+  }
+);
+
+// Confirm enrollment with a code from the app; returns the recovery codes
+export const enableMfa = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError('Validation failed', StatusCodes.UNPROCESSABLE_ENTITY, errors.array()));
+    }
+
+    const recoveryCodes = await mfaService.confirmEnrollment(req.user.id, req.body.code);
+    await auditAccount(req, req.user, 'user.mfa_enabled');
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes },
+    });
+  }
+);
+
+export const regenerateRecoveryCodes = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError('Validation failed', StatusCodes.UNPROCESSABLE_ENTITY, errors.array()));
+    }
+
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(req.user.id, {
+      code: req.body.code,
+      recoveryCode: req.body.recoveryCode,
+    });
+    await auditAccount(req, req.user, 'user.recovery_codes_regenerated');
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: { recoveryCodes },
+    });
+  }
+);
+
+// Turning 2FA off needs the password as well as a second factor
+export const disableMfa = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError('Validation failed', StatusCodes.UNPROCESSABLE_ENTITY, errors.array()));
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.id }, select: { passwordHash: true } });
+    if (!user || !(await bcrypt.compare(req.body.password, user.passwordHash))) {
+      return next(new AppError('Your password is incorrect', StatusCodes.BAD_REQUEST));
+    }
+
+    await mfaService.disable(req.user.id, { code: req.body.code, recoveryCode: req.body.recoveryCode });
+    await auditAccount(req, req.user, 'user.mfa_disabled');
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      message: 'Two-factor authentication disabled',
+    });
   }
 );
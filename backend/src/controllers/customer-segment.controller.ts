@@ -0,0 +1,208 @@
+import { Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import logger from '../utils/logger';
+import { ensureStoreAccess } from '../utils/store-access';
+import { toCsv, CsvColumn } from '../utils/csv';
+import { auditContext, auditService, diffChanges } from '../services/audit.service';
+import { customerSegmentService, CustomerProfile, PageOptions } from '../services/customer-segment.service';
+
+const pageOptions = (req: Request): PageOptions => ({
+  page: Math.max(parseInt((req.query.page as string) || '1', 10) || 1, 1),
+  limit: Math.min(Math.max(parseInt((req.query.limit as string) || '50', 10) || 50, 1), 200),
+});
+
+const MEMBER_COLUMNS: CsvColumn<CustomerProfile>[] = [
+  { header: 'Customer ID', value: (c) => c.id },
+  { header: 'Email', value: (c) => c.email },
+  { header: 'First name', value: (c) => c.firstName },
+  { header: 'Last name', value: (c) => c.lastName },
+  { header: 'Tags', value: (c) => c.tags },
+  { header: 'Orders', value: (c) => c.ordersCount },
+  { header: 'Total spend', value: (c) => c.totalSpend },
+  { header: 'Last order', value: (c) => c.lastOrderDate },
+  { header: 'Days since last order', value: (c) => c.recencyDays },
+  { header: 'R', value: (c) => c.rfm?.recency },
+  { header: 'F', value: (c) => c.rfm?.frequency },
+  { header: 'M', value: (c) => c.rfm?.monetary },
+  { header: 'RFM segment', value: (c) => c.rfm?.segment },
+];
+
+// ?format=csv exports every member instead of a page of them
+const sendMembers = (
+  req: Request,
+  res: Response,
+  filename: string,
+  currency: string,
+  load: (options?: PageOptions) => Promise<{ customers: CustomerProfile[]; pagination: unknown }>
+) => {
+  if (req.query.format === 'csv') {
+    return load().then(({ customers }) => {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      res.status(StatusCodes.OK).send(toCsv(customers, MEMBER_COLUMNS));
+    });
+  }
+  return load(pageOptions(req)).then((result) => {
+    res.status(StatusCodes.OK).json({ status: 'success', data: { ...result, currency } });
+  });
+};
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'segment';
+
+/**
+ * RFM segment sizes and value for a store
+ */
+export const getRfmSegments = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const summary = await customerSegmentService.rfmSummary(store.id);
+
+    res.status(StatusCodes.OK).json({ status: 'success', data: { ...summary, currency: store.currency } });
+  } catch (error) {
+    logger.error('Error getting RFM segments:', error);
+    next(error);
+  }
+};
+
+export const getRfmSegmentMembers = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const { storeId, segment } = req.params;
+    await sendMembers(req, res, `rfm-${segment}`, store.currency, (options) =>
+      customerSegmentService.rfmMembers(storeId, segment, options)
+    );
+  } catch (error) {
+    logger.error('Error getting RFM segment members:', error);
+    next(error);
+  }
+};
+
+export const getSavedSegments = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await ensureStoreAccess(req, next))) return;
+
+    const segments = await customerSegmentService.listWithCounts(req.params.storeId);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      results: segments.length,
+      data: {
+        segments,
+      },
+    });
+  } catch (error) {
+    logger.error('Error getting saved segments:', error);
+    next(error);
+  }
+};
+
+export const createSavedSegment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const { name, description, filters } = req.body;
+    const segment = await customerSegmentService.create({
+      storeId: store.id,
+      createdById: req.user?.id,
+      name,
+      description,
+      filters,
+    });
+
+    await auditService.record(auditContext(req), {
+      tenantId: store.tenantId,
+      action: 'segment.created',
+      targetType: 'segment',
+      targetId: segment.id,
+      metadata: { storeId: store.id, name: segment.name, filters: segment.filters },
+    });
+
+    res.status(StatusCodes.CREATED).json({
+      status: 'success',
+      data: {
+        segment,
+      },
+    });
+  } catch (error) {
+    logger.error('Error creating saved segment:', error);
+    next(error);
+  }
+};
+
+export const updateSavedSegment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const { name, description, filters } = req.body;
+    const { before, after } = await customerSegmentService.update(store.id, req.params.segmentId, {
+      name,
+      description,
+      filters,
+    });
+
+    await auditService.record(auditContext(req), {
+      tenantId: store.tenantId,
+      action: 'segment.updated',
+      targetType: 'segment',
+      targetId: after.id,
+      changes: diffChanges(before, after, ['name', 'description', 'filters']),
+      metadata: { storeId: store.id },
+    });
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: {
+        segment: after,
+      },
+    });
+  } catch (error) {
+    logger.error('Error updating saved segment:', error);
+    next(error);
+  }
+};
+
+export const deleteSavedSegment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const segment = await customerSegmentService.delete(store.id, req.params.segmentId);
+
+    await auditService.record(auditContext(req), {
+      tenantId: store.tenantId,
+      action: 'segment.deleted',
+      targetType: 'segment',
+      targetId: segment.id,
+      metadata: { storeId: store.id, name: segment.name },
+    });
+
+    res.status(StatusCodes.NO_CONTENT).json({
+      status: 'success',
+      data: null,
+    });
+  } catch (error) {
+    logger.error('Error deleting saved segment:', error);
+    next(error);
+  }
+};
+
+export const getSavedSegmentMembers = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const segment = await customerSegmentService.get(store.id, req.params.segmentId);
+    await sendMembers(req, res, `segment-${slug(segment.name)}`, store.currency, (options) =>
+      customerSegmentService.members(store.id, segment.id, options)
+    );
+  } catch (error) {
+    logger.error('Error getting saved segment members:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,213 @@
+import { Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { parseJsonColumn } from '../utils/json';
+import { NotFoundError } from '../utils/errors';
+import { ensureStoreAccess } from '../utils/store-access';
+import { toAddress } from '../utils/address';
+import { customerValueService, valueCustomer, CustomerValue, CLV_HORIZON_DAYS } from '../services/customer-value.service';
+
+export const CUSTOMER_SORT_FIELDS = [
+  'name',
+  'createdAt',
+  'predictedClv',
+  'historicalClv',
+  'expectedNextOrderDate',
+  'probabilityAlive',
+  'ordersCount',
+  'lastOrderDate',
+] as const;
+type CustomerSortField = (typeof CUSTOMER_SORT_FIELDS)[number];
+
+// Timeline length on the detail page
+const TIMELINE_ORDERS = 100;
+
+const CUSTOMER_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  tags: true,
+  acceptsMarketing: true,
+  totalSpend: true,
+  ordersCount: true,
+  lastOrderDate: true,
+  createdAt: true,
+} as const;
+
+type CustomerRow = Prisma.CustomerGetPayload<{ select: typeof CUSTOMER_SELECT }> & { value: CustomerValue };
+
+const displayName = (customer: CustomerRow) =>
+  [customer.firstName, customer.lastName].filter(Boolean).join(' ').toLowerCase() || customer.email?.toLowerCase() || '';
+
+const sortKey = (row: CustomerRow, field: CustomerSortField): string | number | null => {
+  if (field === 'name') return displayName(row);
+  if (field === 'createdAt') return row.createdAt.getTime();
+  const raw = row.value[field];
+  return raw instanceof Date ? raw.getTime() : raw;
+};
+
+const compareRows = (a: CustomerRow, b: CustomerRow, field: CustomerSortField, order: 'asc' | 'desc') => {
+  const x = sortKey(a, field);
+  const y = sortKey(b, field);
+  // Missing values (e.g. no next order for customers who never ordered) sort last either way
+  if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+  const diff = typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number);
+  return order === 'asc' ? diff : -diff;
+};
+
+/**
+ * Search and filters that can run in the database. Every word of the search
+ * has to appear in the first name, last name or email.
+ */
+const customerWhere = (storeId: string, query: Request['query']): Prisma.CustomerWhereInput => {
+  const search = typeof query.search === 'string' ? query.search.trim() : '';
+  const tags = typeof query.tags === 'string' ? query.tags.split(',').map((tag) => tag.trim()).filter(Boolean) : [];
+  return {
+    storeId,
+    AND: search.split(/\s+/).filter(Boolean).map((word) => ({
+      OR: [
+        { firstName: { contains: word, mode: 'insensitive' as const } },
+        { lastName: { contains: word, mode: 'insensitive' as const } },
+        { email: { contains: word, mode: 'insensitive' as const } },
+      ],
+    })),
+    ...(tags.length ? { tags: { hasSome: tags } } : {}),
+    ...(query.acceptsMarketing === 'true' || query.acceptsMarketing === 'false'
+      ? { acceptsMarketing: query.acceptsMarketing === 'true' }
+      : {}),
+  };
+};
+
+/**
+ * Customers in a store with their lifetime value. Searchable by name or email,
+ * filterable by tags, marketing consent and spend, and sortable by any column.
+ */
+export const getCustomers = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const page = Math.max(parseInt((req.query.page as string) || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt((req.query.limit as string) || '25', 10) || 25, 1), 100);
+    const sort = ((req.query.sort as string) || 'predictedClv') as CustomerSortField;
+    const order = req.query.order === 'asc' ? 'asc' : 'desc';
+    const minSpend = req.query.minSpend !== undefined ? Number(req.query.minSpend) : undefined;
+    const maxSpend = req.query.maxSpend !== undefined ? Number(req.query.maxSpend) : undefined;
+
+    const [customers, { values, baseline }] = await Promise.all([
+      prisma.customer.findMany({ where: customerWhere(store.id, req.query), select: CUSTOMER_SELECT }),
+      customerValueService.forStore(store.id),
+    ]);
+
+    const rows: CustomerRow[] = customers.map((customer) => ({
+      ...customer,
+      // Customers whose orders haven't been synced keep their Shopify spend
+      value:
+        values.get(customer.id) ??
+        valueCustomer(
+          customer.id,
+          { ordersCount: customer.ordersCount, revenue: customer.totalSpend, firstOrderDate: null, lastOrderDate: null },
+          baseline
+        ),
+    }));
+
+    // Spend comes from the orders, so its range is applied after valuing
+    const filtered = rows.filter(
+      (row) =>
+        (minSpend === undefined || row.value.historicalClv >= minSpend) &&
+        (maxSpend === undefined || row.value.historicalClv <= maxSpend)
+    );
+
+    filtered.sort((a, b) => compareRows(a, b, sort, order));
+    const customersPage = filtered.slice((page - 1) * limit, page * limit);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      results: customersPage.length,
+      data: {
+        customers: customersPage,
+        horizonDays: CLV_HORIZON_DAYS,
+        currency: store.currency,
+      },
+      pagination: { page, limit, total: filtered.length, pages: Math.ceil(filtered.length / limit) },
+    });
+  } catch (error) {
+    logger.error('Error getting customers:', error);
+    next(error);
+  }
+};
+
+/**
+ * A single customer with their addresses, lifetime value and order timeline
+ */
+export const getCustomer = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const customer = await prisma.customer.findFirst({
+      where: { id: req.params.customerId, storeId: store.id },
+      select: {
+        ...CUSTOMER_SELECT,
+        phone: true,
+        state: true,
+        verifiedEmail: true,
+        addresses: true,
+        defaultAddress: true,
+      },
+    });
+    if (!customer) {
+      return next(new NotFoundError('Customer not found'));
+    }
+
+    const [value, orders, ordersTotal] = await Promise.all([
+      customerValueService.forCustomer(store.id, customer.id),
+      prisma.order.findMany({
+        where: { storeId: store.id, customerId: customer.id },
+        orderBy: { createdAt: 'desc' },
+        take: TIMELINE_ORDERS,
+        select: {
+          id: true,
+          orderNumber: true,
+          totalPrice: true,
+          totalDiscounts: true,
+          currency: true,
+          financialStatus: true,
+          fulfillmentStatus: true,
+          lineItems: true,
+          createdAt: true,
+        },
+      }),
+      prisma.order.count({ where: { storeId: store.id, customerId: customer.id } }),
+    ]);
+
+    const { addresses, defaultAddress, ...profile } = customer;
+    const primaryAddress = toAddress(parseJsonColumn<any>(defaultAddress, null));
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: {
+        customer: {
+          ...profile,
+          value: value.ordersCount ? value : { ...value, historicalClv: customer.totalSpend },
+          defaultAddress: primaryAddress && { ...primaryAddress, isDefault: true },
+          addresses: parseJsonColumn<any[]>(addresses, []).map(toAddress).filter(Boolean),
+          // Newest first; ordersTotal says whether the timeline was cut short
+          orders: orders.map(({ lineItems, ...order }) => ({
+            ...order,
+            itemsCount: parseJsonColumn<any[]>(lineItems, []).reduce((sum, item) => sum + Number(item.quantity || 0), 0),
+          })),
+          ordersTotal,
+        },
+        horizonDays: CLV_HORIZON_DAYS,
+        currency: store.currency,
+      },
+    });
+  } catch (error) {
+    logger.error('Error getting customer:', error);
+    next(error);
+  }
+};
@@ -2,37 +2,101 @@ import { Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { prisma } from '../utils/prisma';
 import logger from '../utils/logger';
+import { ensureStoreAccess } from '../utils/store-access';
+import { orderLineItemService } from '../services/order-line-item.service';
+import { customerKey, orderAnalyticsService } from '../services/order-analytics.service';
+import { parseZonedBound, startOfZonedDay, zonedParts } from '../utils/timezone';
+import { netSalesOf, revenueWhere, toRevenueBreakdown, type RevenueOptions } from '../utils/order-revenue';
+import { COMPARE_MODES, comparisonRange, delta, deltas, type CompareMode, type TimeRange } from '../utils/comparison';
+
+// Every amount below is in the store's currency, which each response carries
+// alongside it.
+
+// startDate/endDate from the query, the last 30 days by default. Plain
+// YYYY-MM-DD values are calendar days in the store's timezone.
+function rangeFrom(req: Request, timezone: string) {
+  const startDateQ = req.query.startDate as string | undefined;
+  const endDateQ = req.query.endDate as string | undefined;
+  return {
+    start: startDateQ ? parseZonedBound(startDateQ, timezone, 'start') : new Date(Date.now() - 30 * 24 * 3600_000),
+    end: endDateQ ? parseZonedBound(endDateQ, timezone, 'end') : new Date(),
+  };
+}
 
-// Validate store access helper (strict: must match tenant always)
-async function ensureStoreAccess(storeId: string, tenantId: string | undefined, next: NextFunction) {
-  const store = await prisma.store.findUnique({ where: { id: storeId }, select: { id: true, tenantId: true } });
-  if (!store) {
-    return next({ statusCode: StatusCodes.NOT_FOUND, message: 'Store not found' });
-  }
-  if (store.tenantId !== tenantId) {
-    return next({ statusCode: StatusCodes.FORBIDDEN, message: 'Forbidden' });
+// Revenue leaves out test, voided and cancelled orders; ?includeCancelled=true
+// keeps cancelled ones
+function revenueOptionsFrom(req: Request): RevenueOptions {
+  return { includeCancelled: req.query.includeCancelled === 'true' };
+}
+
+// The range to compare against from ?compare=previous|lastYear|custom (custom
+// reads compareStartDate/compareEndDate), or undefined without one
+function comparisonFrom(req: Request, timezone: string, range: TimeRange) {
+  const mode = req.query.compare as CompareMode | undefined;
+  if (!mode || !COMPARE_MODES.includes(mode)) return undefined;
+  if (mode === 'custom') {
+    return {
+      mode,
+      start: parseZonedBound(req.query.compareStartDate as string, timezone, 'start'),
+      end: parseZonedBound(req.query.compareEndDate as string, timezone, 'end'),
+    };
   }
-  return store;
+  return { mode, ...comparisonRange(range, mode, timezone) };
 }
 
+const comparedRange = (compare: TimeRange & { mode: CompareMode }) => ({
+  mode: compare.mode,
+  startDate: compare.start.toISOString(),
+  endDate: compare.end.toISOString(),
+});
+
 export const getStoreAnalytics = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { storeId } = req.params;
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency, timezone } = store;
 
-    const [productsCount, customersCount, ordersCount, revenueAgg] = await Promise.all([
+    // Orders and revenue are all-time unless a range or comparison is asked for
+    const ranged = Boolean(req.query.startDate || req.query.endDate || req.query.compare);
+    const range = ranged ? rangeFrom(req, timezone) : undefined;
+    const compare = range && comparisonFrom(req, timezone, range);
+    const options = revenueOptionsFrom(req);
+
+    const [productsCount, customersCount, summary, previous] = await Promise.all([
       prisma.product.count({ where: { storeId } }),
       prisma.customer.count({ where: { storeId } }),
-      prisma.order.count({ where: { storeId } }),
-      prisma.order.aggregate({ where: { storeId }, _sum: { totalPrice: true } }),
+      orderAnalyticsService.revenueSummary(storeId, range, options),
+      compare ? orderAnalyticsService.revenueSummary(storeId, compare, options) : undefined,
     ]);
+    const totals = (row: typeof summary) => {
+      const revenue = toRevenueBreakdown(row);
+      // total_revenue is net sales; the full finance report breakdown is under `revenue`
+      return { total_orders: Number(row?.orders ?? 0), total_revenue: revenue.netSales, revenue };
+    };
+    const current = totals(summary);
+
+    let comparison;
+    if (compare && previous) {
+      const before = totals(previous);
+      comparison = {
+        ...comparedRange(compare),
+        ...before,
+        deltas: deltas(
+          { orders: current.total_orders, ...current.revenue },
+          { orders: before.total_orders, ...before.revenue }
+        ),
+      };
+    }
 
     res.status(StatusCodes.OK).json({
       total_products: productsCount,
       total_customers: customersCount,
-      total_orders: ordersCount,
-      total_revenue: revenueAgg._sum.totalPrice || 0,
+      ...current,
+      currency,
+      timezone,
+      ...(range && { startDate: range.start.toISOString(), endDate: range.end.toISOString() }),
+      ...(comparison && { comparison }),
     });
   } catch (err) {
     logger.error('getStoreAnalytics error:', err);
@@ -44,61 +108,69 @@ export const getStoreAnalytics = async (req: Request, res: Response, next: NextF
 export const getCustomerSplit = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { storeId } = req.params;
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency, timezone } = store;
+
+    const { start, end } = rangeFrom(req, timezone);
+    const revenueOptions = revenueOptionsFrom(req);
+
+    const splitBetween = async (start: Date, end: Date) => {
+      // Orders processed in range that count towards revenue, oldest first
+      const orders = await prisma.order.findMany({
+        where: { storeId, processedAt: { gte: start, lte: end }, ...revenueWhere(revenueOptions) },
+        select: {
+          id: true, processedAt: true, customerId: true, customerEmail: true,
+          totalLineItemsPrice: true, totalDiscounts: true, refundedSubtotal: true,
+        },
+        orderBy: { processedAt: 'asc' },
+      });
+
+      // A customer is returning from their second order on, whether the
+      // first fell before the range or earlier in it. Orders with neither a
+      // customer nor an email can't be matched up, so they count as new.
+      const keys = [...new Set(orders.map(customerKey).filter((key): key is string => !!key))];
+      const firstOrderAt = await orderAnalyticsService.firstOrderDates(storeId, keys, revenueOptions);
+
+      let newOrders = 0, newRevenue = 0, retOrders = 0, retRevenue = 0;
+      const seenInRange = new Set<string>();
+      for (const o of orders) {
+        const key = customerKey(o);
+        const first = key ? firstOrderAt.get(key) : undefined;
+        const returning = !!key && ((!!first && first < start) || seenInRange.has(key));
+        if (returning) {
+          retOrders += 1; retRevenue += netSalesOf(o);
+        } else {
+          newOrders += 1; newRevenue += netSalesOf(o);
+          if (key) seenInRange.add(key);
+        }
+      }
 
-    const startDateQ = req.query.startDate as string | undefined;
-    const endDateQ = req.query.endDate as string | undefined;
-    const start = startDateQ ? new Date(startDateQ) : new Date(new Date().getTime() - 30 * 24 * 3600_000);
-    const end = endDateQ ? new Date(endDateQ) : new Date();
+      return {
+        new: { orders: newOrders, revenue: Math.round(newRevenue) },
+        returning: { orders: retOrders, revenue: Math.round(retRevenue) },
+      };
+    };
 
-    // Orders in range (sorted chronologically)
-    const orders = await prisma.order.findMany({
-      where: { storeId, createdAt: { gte: start, lte: end } },
-      select: { id: true, totalPrice: true, createdAt: true, customerId: true, customerEmail: true },
-      orderBy: { createdAt: 'asc' },
+    const compare = comparisonFrom(req, timezone, { start, end });
+    const [split, previous] = await Promise.all([
+      splitBetween(start, end),
+      compare ? splitBetween(compare.start, compare.end) : undefined,
+    ]);
+    const flat = (x: typeof split) => ({
+      newOrders: x.new.orders,
+      newRevenue: x.new.revenue,
+      returningOrders: x.returning.orders,
+      returningRevenue: x.returning.revenue,
     });
 
-    // For each unique customer (by email if id missing), determine if they had an order before start
-    const customerKeys = new Set<string>();
-    for (const o of orders) {
-      const key = (o.customerId || o.customerEmail || 'unknown').toString();
-      customerKeys.add(key);
-    }
-    const keysArr = Array.from(customerKeys);
-
-    // Fetch earliest order date per customer prior to range
-    const preOrders = await Promise.all(keysArr.map(async (key) => {
-      // Prefer id lookups when available
-      if (key.startsWith('cm') || key.length > 20) {
-        const first = await prisma.order.findFirst({ where: { storeId, customerId: key, createdAt: { lt: start } }, orderBy: { createdAt: 'asc' }, select: { id: true } });
-        return { key, hasPre: !!first };
-      } else {
-        const first = await prisma.order.findFirst({ where: { storeId, customerEmail: key, createdAt: { lt: start } }, orderBy: { createdAt: 'asc' }, select: { id: true } });
-        return { key, hasPre: !!first };
-      }
-    }));
-    const preMap = new Map(preOrders.map(p => [p.key, p.hasPre]));
-
-    let newOrders = 0, newRevenue = 0, retOrders = 0, retRevenue = 0;
-    const seenInRange = new Map<string, boolean>();
-    for (const o of orders) {
-      const key = (o.customerId || o.customerEmail || 'unknown').toString();
-      const hadPre = preMap.get(key) === true;
-      const seen = seenInRange.get(key) === true;
-      const returning = hadPre || seen; // if had pre-range orders OR already had an order in this range
-      if (returning) {
-        retOrders += 1; retRevenue += Number(o.totalPrice || 0);
-      } else {
-        newOrders += 1; newRevenue += Number(o.totalPrice || 0);
-        seenInRange.set(key, true);
-      }
-    }
-
     res.status(StatusCodes.OK).json({
-      new: { orders: newOrders, revenue: Math.round(newRevenue) },
-      returning: { orders: retOrders, revenue: Math.round(retRevenue) },
+      ...split,
+      currency,
       startDate: start.toISOString(), endDate: end.toISOString(),
+      ...(compare && previous && {
+        comparison: { ...comparedRange(compare), ...previous, deltas: deltas(flat(split), flat(previous)) },
+      }),
     });
   } catch (err) {
     logger.error('getCustomerSplit error:', err);
@@ -110,29 +182,13 @@ export const getCustomerSplit = async (req: Request, res: Response, next: NextFu
 export const getSalesByType = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { storeId } = req.params;
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency, timezone } = store;
 
-    const startDateQ = req.query.startDate as string | undefined;
-    const endDateQ = req.query.endDate as string | undefined;
     const groupBy = ((req.query.groupBy as string) || 'productType') as 'productType' | 'vendor';
-    const start = startDateQ ? new Date(startDateQ) : new Date(new Date().getTime() - 30 * 24 * 3600_000);
-    const end = endDateQ ? new Date(endDateQ) : new Date();
+    const { start, end } = rangeFrom(req, timezone);
 
-    const orders = await prisma.order.findMany({ where: { storeId, createdAt: { gte: start, lte: end } }, select: { lineItems: true } });
-    const totals = new Map<string, { revenue: number; orders: number }>();
-
-    // Build map shopifyId -> product meta
-    const allShopifyIds = new Set<string>();
-    for (const o of orders) {
-      if (!o.lineItems) continue; let items: any[] = [];
-      try { items = JSON.parse(o.lineItems as unknown as string) || []; } catch { items = []; }
-      for (const li of items) {
-        const sid = (li.product_id ?? li.productId)?.toString();
-        if (sid) allShopifyIds.add(sid);
-      }
-    }
-    const products = await prisma.product.findMany({ where: { storeId, shopifyId: { in: Array.from(allShopifyIds) } }, select: { shopifyId: true, productType: true, vendor: true, title: true } });
     const normalize = (s?: string | null): string => {
       if (!s) return 'Uncategorized';
       const v = s.toString().trim().toLowerCase();
@@ -144,34 +200,44 @@ export const getSalesByType = async (req: Request, res: Response, next: NextFunc
       if (/(dress|kurti|gown)/i.test(v)) return 'Dresses';
       return v.replace(/\s+/g, ' ').replace(/\b\w/g, (m) => m.toUpperCase());
     };
-    const meta = new Map(products.map(p => [p.shopifyId!, { productType: normalize(p.productType), vendor: p.vendor || 'Unknown', title: p.title || '' }]));
 
-    for (const o of orders) {
-      if (!o.lineItems) continue; let items: any[] = [];
-      try { items = JSON.parse(o.lineItems as unknown as string) || []; } catch { items = []; }
-      const seenGroups = new Set<string>();
-      for (const li of items) {
-        const sid = (li.product_id ?? li.productId)?.toString();
-        if (!sid) continue;
-        const m = meta.get(sid) || { productType: 'Uncategorized', vendor: 'Unknown', title: '' };
-        let key = (groupBy === 'vendor' ? m.vendor : m.productType) || 'Uncategorized';
+    const salesBetween = async (start: Date, end: Date) => {
+      const rows = await orderLineItemService.salesByProductField(storeId, groupBy, start, end, revenueOptionsFrom(req));
+      // Rows whose raw types normalize to the same category are merged, so an
+      // order with items of both can be counted twice in that category
+      const totals = new Map<string, { revenue: number; orders: number }>();
+      for (const row of rows) {
+        let key = groupBy === 'vendor' ? row.key || 'Unknown' : normalize(row.key);
         if (key === 'Uncategorized') {
           // Try to infer from title if available
-          const t = (m.title || '').toLowerCase();
+          const t = (row.title || '').toLowerCase();
           if (/(t\s*-?\s*shirt|tee\b|tshirt|tees)/i.test(t)) key = 'T-Shirts';
         }
-        const qty = Number(li.quantity || 0);
-        const price = Number(parseFloat(li.price || '0'));
         const prev = totals.get(key) || { revenue: 0, orders: 0 };
-        prev.revenue += qty * price;
-        // Count order once per group key
-        if (!seenGroups.has(key)) { prev.orders += 1; seenGroups.add(key); }
+        prev.revenue += Number(row.revenue);
+        prev.orders += Number(row.orders);
         totals.set(key, prev);
       }
-    }
+      return Array.from(totals.entries()).map(([type, v]) => ({ type, revenue: Math.round(v.revenue), orders: v.orders, currency }));
+    };
 
-    const result = Array.from(totals.entries()).map(([type, v]) => ({ type, revenue: Math.round(v.revenue), orders: v.orders }));
-    res.status(StatusCodes.OK).json(result);
+    const compare = comparisonFrom(req, timezone, { start, end });
+    const [result, previous] = await Promise.all([
+      salesBetween(start, end),
+      compare ? salesBetween(compare.start, compare.end) : undefined,
+    ]);
+    // Revenue deltas are keyed by type
+    const previousRevenue = new Map(previous?.map((row) => [row.type, row.revenue]));
+    res.status(StatusCodes.OK).json({
+      groupBy, data: result, currency, startDate: start.toISOString(), endDate: end.toISOString(),
+      ...(compare && previous && {
+        comparison: {
+          ...comparedRange(compare),
+          data: previous,
+          deltas: Object.fromEntries(result.map((row) => [row.type, delta(row.revenue, previousRevenue.get(row.type) ?? 0)])),
+        },
+      }),
+    });
   } catch (err) {
     logger.error('getSalesByType error:', err);
     next(err);
@@ -182,26 +248,36 @@ export const getSalesByType = async (req: Request, res: Response, next: NextFunc
 export const getTrafficHeatmap = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { storeId } = req.params;
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency, timezone } = store;
 
-    const startDateQ = req.query.startDate as string | undefined;
-    const endDateQ = req.query.endDate as string | undefined;
     const metric = ((req.query.metric as string) || 'orders') as 'orders' | 'revenue';
-    const start = startDateQ ? new Date(startDateQ) : new Date(new Date().getTime() - 30 * 24 * 3600_000);
-    const end = endDateQ ? new Date(endDateQ) : new Date();
+    const { start, end } = rangeFrom(req, timezone);
+
+    const heatmapBetween = async (start: Date, end: Date) => {
+      // Weekday (0 = Sunday) and hour on the store's clock
+      const rows = await orderAnalyticsService.hourlyActivity(storeId, timezone, start, end, revenueOptionsFrom(req));
+      // Build 7x24 matrix
+      const heat: number[][] = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => 0));
+      for (const row of rows) {
+        heat[row.dow][row.hour] = metric === 'revenue' ? Number(row.revenue || 0) : Number(row.orders);
+      }
+      return heat;
+    };
+    const sum = (heat: number[][]) => heat.flat().reduce((total, value) => total + value, 0);
 
-    const orders = await prisma.order.findMany({ where: { storeId, createdAt: { gte: start, lte: end } }, select: { createdAt: true, totalPrice: true } });
-    // Build 7x24 matrix
-    const heat: number[][] = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => 0));
-    for (const o of orders) {
-      const d = o.createdAt;
-      const dow = d.getDay(); // 0-6
-      const hr = d.getHours(); // 0-23
-      if (metric === 'revenue') heat[dow][hr] += Number(o.totalPrice || 0);
-      else heat[dow][hr] += 1;
-    }
-    res.status(StatusCodes.OK).json({ metric, heatmap: heat, startDate: start.toISOString(), endDate: end.toISOString() });
+    const compare = comparisonFrom(req, timezone, { start, end });
+    const [heat, previous] = await Promise.all([
+      heatmapBetween(start, end),
+      compare ? heatmapBetween(compare.start, compare.end) : undefined,
+    ]);
+    res.status(StatusCodes.OK).json({
+      metric, heatmap: heat, currency, timezone, startDate: start.toISOString(), endDate: end.toISOString(),
+      ...(compare && previous && {
+        comparison: { ...comparedRange(compare), heatmap: previous, deltas: { total: delta(sum(heat), sum(previous)) } },
+      }),
+    });
   } catch (err) {
     logger.error('getTrafficHeatmap error:', err);
     next(err);
@@ -212,31 +288,38 @@ export const getTrafficHeatmap = async (req: Request, res: Response, next: NextF
 export const getDiscountsSummary = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { storeId } = req.params;
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency, timezone } = store;
 
-    const startDateQ = req.query.startDate as string | undefined;
-    const endDateQ = req.query.endDate as string | undefined;
-    const start = startDateQ ? new Date(startDateQ) : new Date(new Date().getTime() - 30 * 24 * 3600_000);
-    const end = endDateQ ? new Date(endDateQ) : new Date();
+    const { start, end } = rangeFrom(req, timezone);
 
-    const agg = await prisma.order.aggregate({
-      where: { storeId, createdAt: { gte: start, lte: end } },
-      _sum: { totalPrice: true, totalDiscounts: true },
-      _count: { _all: true },
-    });
-    const totalDiscounts = Number(agg._sum.totalDiscounts || 0);
-    const totalRevenue = Number(agg._sum.totalPrice || 0);
-    const ordersCount = Number((agg as any)._count?._all || 0);
-    const avgDiscountPerOrder = ordersCount > 0 ? totalDiscounts / ordersCount : 0;
-    const netRevenue = totalRevenue - totalDiscounts;
+    const summaryBetween = async (range: TimeRange) => {
+      const summary = await orderAnalyticsService.revenueSummary(storeId, range, revenueOptionsFrom(req));
+      const revenue = toRevenueBreakdown(summary);
+      const ordersCount = Number(summary?.orders ?? 0);
+      const avgDiscountPerOrder = ordersCount > 0 ? revenue.discounts / ordersCount : 0;
+      return {
+        totalDiscounts: Math.round(revenue.discounts),
+        avgDiscountPerOrder: Math.round(avgDiscountPerOrder),
+        // Net sales: gross sales less discounts and returns
+        netRevenue: Math.round(revenue.netSales),
+        revenue,
+        ordersCount,
+      };
+    };
+    const headline = ({ revenue, ...figures }: Awaited<ReturnType<typeof summaryBetween>>) => figures;
+
+    const compare = comparisonFrom(req, timezone, { start, end });
+    const [summary, previous] = await Promise.all([summaryBetween({ start, end }), compare ? summaryBetween(compare) : undefined]);
 
     res.status(StatusCodes.OK).json({
-      totalDiscounts: Math.round(totalDiscounts),
-      avgDiscountPerOrder: Math.round(avgDiscountPerOrder),
-      netRevenue: Math.round(netRevenue),
-      ordersCount,
+      ...summary,
+      currency,
       startDate: start.toISOString(), endDate: end.toISOString(),
+      ...(compare && previous && {
+        comparison: { ...comparedRange(compare), ...previous, deltas: deltas(headline(summary), headline(previous)) },
+      }),
     });
   } catch (err) {
     logger.error('getDiscountsSummary error:', err);
@@ -244,61 +327,114 @@ export const getDiscountsSummary = async (req: Request, res: Response, next: Nex
   }
 };
 
-export const getTopProducts = async (req: Request, res: Response, next: NextFunction) => {
+// Monthly acquisition cohorts: for customers whose first order fell in each
+// month, the share who ordered again N months later and the revenue they brought
+export const getCustomerCohorts = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { storeId } = req.params;
-    const limit = Math.min(parseInt((req.query.limit as string) || '5', 10), 50);
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency, timezone } = store;
 
-    // 1) Read all orders for this store (could be optimized with date filters if needed)
-    const orders = await prisma.order.findMany({
-      where: { storeId },
-      select: { lineItems: true },
-    });
+    const cohortCount = Math.min(Math.max(parseInt((req.query.months as string) || '12', 10) || 12, 1), 24);
+    const horizon = 12;
+
+    // Months are counted in the store's timezone as yyyy * 12 + mm so offsets
+    // are plain subtraction
+    const monthLabel = (i: number) => `${Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`;
+    const today = zonedParts(new Date(), timezone);
+    const currentMonth = today.year * 12 + today.month - 1;
+    const firstCohort = currentMonth - cohortCount + 1;
+
+    // Every order is needed to know when a customer really first ordered
+    const orders = await orderAnalyticsService.ordersByMonth(storeId, timezone, revenueOptionsFrom(req));
+
+    type Cohort = { customers: Set<string>; active: Set<string>[]; revenue: number[] };
+    const cohorts = new Map<number, Cohort>();
+    const firstMonthByCustomer = new Map<string, number>();
 
-    // 2) Accumulate sold counts and revenue per Shopify product ID
-    const soldMap = new Map<string, { sold: number; revenue: number }>();
     for (const o of orders) {
-      if (!o.lineItems) continue;
-      let items: any[] = [];
-      try {
-        items = JSON.parse(o.lineItems as unknown as string) || [];
-      } catch {
-        items = [];
-      }
-      for (const li of items) {
-        const shopifyProductId = (li.product_id ?? li.productId)?.toString();
-        if (!shopifyProductId) continue;
-        const qty = Number(li.quantity || 0);
-        const price = Number(parseFloat(li.price || '0'));
-        const prev = soldMap.get(shopifyProductId) || { sold: 0, revenue: 0 };
-        soldMap.set(shopifyProductId, { sold: prev.sold + qty, revenue: prev.revenue + qty * price });
-      }
+      const key = customerKey(o);
+      if (!key) continue;
+      const month = Number(o.month);
+      if (!firstMonthByCustomer.has(key)) firstMonthByCustomer.set(key, month);
+      const acquired = firstMonthByCustomer.get(key)!;
+      if (acquired < firstCohort) continue;
+
+      const offset = month - acquired;
+      if (offset > horizon) continue;
+      const cohort = cohorts.get(acquired) || {
+        customers: new Set<string>(),
+        active: Array.from({ length: horizon + 1 }, () => new Set<string>()),
+        revenue: Array.from({ length: horizon + 1 }, () => 0),
+      };
+      cohort.customers.add(key);
+      cohort.active[offset].add(key);
+      cohort.revenue[offset] += Number(o.netSales || 0);
+      cohorts.set(acquired, cohort);
     }
 
-    // 3) Load product details for the top by sold
-    const ranked = Array.from(soldMap.entries())
-      .sort((a, b) => b[1].sold - a[1].sold)
-      .slice(0, limit);
+    const result = Array.from({ length: cohortCount }, (_, i) => firstCohort + i).map((month) => {
+      const cohort = cohorts.get(month);
+      const size = cohort?.customers.size ?? 0;
+      const baseRevenue = cohort?.revenue[0] ?? 0;
+      // Later months haven't happened yet for recent cohorts, hence the triangle
+      const elapsed = Math.min(currentMonth - month, horizon);
+      return {
+        cohort: monthLabel(month),
+        customers: size,
+        revenue: Math.round(baseRevenue),
+        retention: Array.from({ length: elapsed + 1 }, (_, offset) => {
+          const active = cohort?.active[offset].size ?? 0;
+          const revenue = cohort?.revenue[offset] ?? 0;
+          return {
+            month: offset,
+            customers: active,
+            rate: size > 0 ? Math.round((active / size) * 1000) / 10 : 0,
+            revenue: Math.round(revenue),
+            revenueRate: baseRevenue > 0 ? Math.round((revenue / baseRevenue) * 1000) / 10 : 0,
+          };
+        }),
+      };
+    });
+
+    res.status(StatusCodes.OK).json({ months: cohortCount, horizon, currency, timezone, cohorts: result });
+  } catch (err) {
+    logger.error('getCustomerCohorts error:', err);
+    next(err);
+  }
+};
+
+export const getTopProducts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { storeId } = req.params;
+    const limit = Math.min(parseInt((req.query.limit as string) || '5', 10), 50);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency } = store;
 
-    const topShopifyIds = ranked.map(([shopId]) => shopId);
+    // 1) Units kept and net sales per Shopify product ID, summed in the database
+    const ranked = await orderLineItemService.topProducts(storeId, limit, revenueOptionsFrom(req));
+
+    // 2) Load product details for the top by sold
+    const topShopifyIds = ranked.map((row) => row.productId);
     const topProducts = await prisma.product.findMany({
       where: { storeId, shopifyId: { in: topShopifyIds } },
       select: { id: true, shopifyId: true, title: true, price: true },
     });
 
-    // 4) Build response preserving rank order
+    // 3) Build response preserving rank order
     const productByShopifyId = new Map(topProducts.map(p => [p.shopifyId, p]));
-    const result = ranked.map(([shopifyId, agg]) => {
-      const p = productByShopifyId.get(shopifyId);
+    const result = ranked.map((agg) => {
+      const p = productByShopifyId.get(agg.productId);
       if (!p) return null;
       return {
         id: p.id,
         title: p.title,
         price: p.price,
-        sold: agg.sold,
-        revenue: Math.round(agg.revenue),
+        sold: Number(agg.units),
+        revenue: Math.round(Number(agg.revenue)),
+        currency,
       };
     }).filter(Boolean);
 
@@ -309,21 +445,63 @@ export const getTopProducts = async (req: Request, res: Response, next: NextFunc
   }
 };
 
+// Units sold per SKU per day, from the normalized order_line_items table
+export const getSkuSales = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { storeId } = req.params;
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency, timezone } = store;
+
+    const { start, end } = rangeFrom(req, timezone);
+
+    const rowsBetween = async (start: Date, end: Date) => {
+      const rows = await orderLineItemService.skuDailySales(storeId, timezone, start, end, revenueOptionsFrom(req));
+      return rows.map((r) => ({ ...r, units: Number(r.units), revenue: Math.round(Number(r.revenue) * 100) / 100 }));
+    };
+    const totals = (rows: Awaited<ReturnType<typeof rowsBetween>>) => ({
+      units: rows.reduce((sum, r) => sum + r.units, 0),
+      revenue: Math.round(rows.reduce((sum, r) => sum + r.revenue, 0) * 100) / 100,
+    });
+
+    const compare = comparisonFrom(req, timezone, { start, end });
+    const [rows, previous] = await Promise.all([
+      rowsBetween(start, end),
+      compare ? rowsBetween(compare.start, compare.end) : undefined,
+    ]);
+
+    res.status(StatusCodes.OK).json({
+      rows,
+      currency,
+      timezone,
+      startDate: start.toISOString(), endDate: end.toISOString(),
+      ...(compare && previous && {
+        comparison: { ...comparedRange(compare), rows: previous, deltas: deltas(totals(rows), totals(previous)) },
+      }),
+    });
+  } catch (err) {
+    logger.error('getSkuSales error:', err);
+    next(err);
+  }
+};
+
 export const getRecentOrders = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { storeId } = req.params;
     const limit = Math.min(parseInt((req.query.limit as string) || '5', 10), 50);
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency } = store;
 
     const orders = await prisma.order.findMany({
       where: { storeId },
-      orderBy: { createdAt: 'desc' },
+      orderBy: { processedAt: 'desc' },
       take: limit,
       select: {
         id: true,
         orderNumber: true,
         createdAt: true,
+        processedAt: true,
         financialStatus: true,
         totalPrice: true,
         customer: { select: { firstName: true, lastName: true, email: true } },
@@ -331,12 +509,14 @@ export const getRecentOrders = async (req: Request, res: Response, next: NextFun
     });
 
     res.status(StatusCodes.OK).json(
-      orders.map((o: { id: string; orderNumber: string; createdAt: Date; financialStatus: string | null; totalPrice: number; customer?: { firstName: string | null; lastName: string | null; email: string | null } | null; }) => ({
+      orders.map((o: { id: string; orderNumber: string; createdAt: Date; processedAt: Date; financialStatus: string | null; totalPrice: number; customer?: { firstName: string | null; lastName: string | null; email: string | null } | null; }) => ({
         id: o.id,
         name: o.orderNumber,
         createdAt: o.createdAt.toISOString(),
+        processedAt: o.processedAt.toISOString(),
         financialStatus: o.financialStatus || 'pending',
         totalPrice: o.totalPrice.toString(),
+        currency,
         customer: o.customer ? {
           firstName: o.customer.firstName || '',
           lastName: o.customer.lastName || '',
@@ -356,51 +536,53 @@ export const getSalesData = async (req: Request, res: Response, next: NextFuncti
     const period = (req.query.period as string) || 'week';
     const startDateQ = req.query.startDate as string | undefined;
     const endDateQ = req.query.endDate as string | undefined;
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency, timezone } = store;
 
     // Determine range
     let since: Date;
     let until: Date | undefined;
     if (startDateQ || endDateQ) {
       // Use explicit range if provided
-      since = startDateQ ? new Date(startDateQ) : new Date(0);
-      until = endDateQ ? new Date(endDateQ) : undefined;
+      since = startDateQ ? parseZonedBound(startDateQ, timezone, 'start') : new Date(0);
+      until = endDateQ ? parseZonedBound(endDateQ, timezone, 'end') : undefined;
     } else {
-      // Aggregate orders by day for last N days depending on period
+      // The last N calendar days in the store's timezone, today included,
+      // starting at its local midnight
       const days = period === 'day' ? 1 : period === 'month' ? 30 : 7;
-      since = new Date();
-      since.setDate(since.getDate() - days);
-    }
-
-    const orders = await prisma.order.findMany({
-      where: { 
-        storeId, 
-        createdAt: { 
-          gte: since, 
-          ...(until ? { lte: until } : {})
-        } 
-      },
-      orderBy: { createdAt: 'asc' },
-      select: { createdAt: true, totalPrice: true },
-    });
-
-    const buckets = new Map<string, { sales: number; orders: number }>();
-    for (const o of orders) {
-      const key = o.createdAt.toISOString().slice(0, 10);
-      const prev = buckets.get(key) || { sales: 0, orders: 0 };
-      prev.sales += o.totalPrice;
-      prev.orders += 1;
-      buckets.set(key, prev);
+      const today = zonedParts(new Date(), timezone);
+      since = startOfZonedDay(today.year, today.month, today.day - (days - 1), timezone);
     }
 
-    const data = Array.from(buckets.entries()).map(([date, v]) => ({
-      date,
-      sales: Math.round(v.sales),
-      orders: v.orders,
-    }));
+    // Days are the store's calendar days, not UTC or the server's
+    const salesBetween = async (start: Date, end?: Date) => {
+      const rows = await orderAnalyticsService.dailySales(storeId, timezone, start, end, revenueOptionsFrom(req));
+      return rows.map(({ date, orders, ...amounts }) => {
+        const revenue = toRevenueBreakdown(amounts);
+        // `sales` is net sales, the rest of the finance report lines sit beside it
+        return { date, sales: Math.round(revenue.netSales), orders: Number(orders), ...revenue, currency };
+      });
+    };
+    const totals = (rows: Awaited<ReturnType<typeof salesBetween>>) => {
+      const sales = rows.reduce((sum, r) => sum + r.sales, 0);
+      const orders = rows.reduce((sum, r) => sum + r.orders, 0);
+      return { sales, orders, averageOrderValue: orders > 0 ? Math.round((sales / orders) * 100) / 100 : 0 };
+    };
 
-    res.status(StatusCodes.OK).json(data);
+    const end = until ?? new Date();
+    const compare = comparisonFrom(req, timezone, { start: since, end });
+    // Comparison days are listed on their own dates, for charts to line up by position
+    const [data, previous] = await Promise.all([
+      salesBetween(since, until),
+      compare ? salesBetween(compare.start, compare.end) : undefined,
+    ]);
+    res.status(StatusCodes.OK).json({
+      data, currency, timezone, startDate: since.toISOString(), endDate: end.toISOString(),
+      ...(compare && previous && {
+        comparison: { ...comparedRange(compare), data: previous, deltas: deltas(totals(data), totals(previous)) },
+      }),
+    });
   } catch (err) {
     logger.error('getSalesData error:', err);
     next(err);
@@ -410,15 +592,19 @@ export const getSalesData = async (req: Request, res: Response, next: NextFuncti
 export const getCustomerInsights = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { storeId } = req.params;
-    const tenantId = (req.user as any)?.tenantId as string | undefined;
-    await ensureStoreAccess(storeId, tenantId, next);
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+    const { currency } = store;
 
-    // Compute from orders to ensure correct totals even if aggregates were not materialized
+    // Compute from orders to ensure correct totals even if aggregates were not
+    // materialized. Spend is net sales: after discounts and returns.
     const orders = await prisma.order.findMany({
-      where: { storeId },
+      where: { storeId, ...revenueWhere(revenueOptionsFrom(req)) },
       select: {
-        totalPrice: true,
-        createdAt: true,
+        totalLineItemsPrice: true,
+        totalDiscounts: true,
+        refundedSubtotal: true,
+        processedAt: true,
         customerEmail: true,
         customer: {
           select: { id: true, firstName: true, lastName: true, email: true }
@@ -434,8 +620,8 @@ export const getCustomerInsights = async (req: Request, res: Response, next: Nex
       const key = email.toLowerCase();
       const prev = aggByKey.get(key) || { ordersCount: 0, totalSpend: 0, lastOrderDate: new Date(0), firstName: o.customer?.firstName || null, lastName: o.customer?.lastName || null, email };
       prev.ordersCount += 1;
-      prev.totalSpend += Number(o.totalPrice || 0);
-      if (o.createdAt && o.createdAt > prev.lastOrderDate) prev.lastOrderDate = o.createdAt;
+      prev.totalSpend += o.totalLineItemsPrice - o.totalDiscounts - o.refundedSubtotal;
+      if (o.processedAt > prev.lastOrderDate) prev.lastOrderDate = o.processedAt;
       // prefer non-empty names if available later
       if (!prev.firstName && o.customer?.firstName) prev.firstName = o.customer.firstName;
       if (!prev.lastName && o.customer?.lastName) prev.lastName = o.customer.lastName;
@@ -453,6 +639,7 @@ export const getCustomerInsights = async (req: Request, res: Response, next: Nex
         totalSpend: Math.round(v.totalSpend),
         ordersCount: v.ordersCount,
         lastOrderDate: v.lastOrderDate,
+        currency,
       }));
 
     res.status(StatusCodes.OK).json(ranked);
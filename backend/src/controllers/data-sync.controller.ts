@@ -1,8 +1,18 @@
 import { Request, Response } from 'express';
+import { OrderBackfillStatus, SyncTrigger } from '@prisma/client';
 import { prisma } from '../app';
-import { DataSyncService } from '../services/data-sync.service';
+import { DataSyncService, SyncEntity } from '../services/data-sync.service';
 import { ShopifyService } from '../services/shopify.service';
+import { syncRunService } from '../services/sync-run.service';
+import { orderBackfillService } from '../services/order-backfill.service';
+import {
+  syncScheduler,
+  MIN_SYNC_INTERVAL_MINUTES,
+  MAX_SYNC_INTERVAL_MINUTES,
+} from '../services/sync-scheduler.service';
 import logger from '../utils/logger';
+import { ConflictError } from '../utils/errors';
+import { auditContext, auditService, diffChanges } from '../services/audit.service';
 import { AuthUser } from '../types/auth';
 
 // Extend the Express Request type to include the user property
@@ -17,7 +27,26 @@ declare global {
 // Type for authenticated requests
 type AuthRequest = Request;
 
+const ALL_ENTITIES: SyncEntity[] = ['products', 'customers', 'orders'];
+
 export class DataSyncController {
+  // Load a store and confirm it belongs to the requesting user's tenant
+  private static async findAccessibleStore(storeId: string, userId: string) {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { id: true, tenantId: true, syncIntervalMinutes: true, syncPaused: true },
+    });
+    if (!store) return { error: 404 as const };
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { tenantId: true },
+    });
+    if (!user || user.tenantId !== store.tenantId) return { error: 403 as const };
+
+    return { store };
+  }
+
   // Sync all data for a store
   static async syncStoreData(req: AuthRequest, res: Response) {
     try {
@@ -51,22 +80,54 @@ export class DataSyncController {
         return res.status(400).json({ error: 'Store is not configured with an access token.' });
       }
 
+      const activeRun = await syncRunService.getActiveRun(store.id);
+      if (activeRun) {
+        return res.status(409).json({
+          error: 'A sync is already running for this store',
+          runId: activeRun.id,
+          startedAt: activeRun.startedAt,
+        });
+      }
+
       // Initialize services
       const shopifyService = new ShopifyService(store);
       const syncService = new DataSyncService(shopifyService, store);
+      const run = await syncRunService.start(store, SyncTrigger.MANUAL, ALL_ENTITIES);
+
+      // Incremental by default; ?full=true ignores the stored high-water marks
+      const full = req.query.full === 'true';
+
+      // Start sync in background; the SyncRun records how it ends
+      const stopHeartbeat = syncRunService.keepAlive(run.id);
+      syncService.syncAllData({ full })
+        .then((result) => syncRunService.complete(run.id, result.entities))
+        .catch(async (error: Error) => {
+          logger.error(`Background sync failed for store ${store.id}:`, error);
+          await syncRunService.fail(run.id, error).catch((err) => logger.error(`Failed to record sync run ${run.id}:`, err));
+        })
+        .finally(stopHeartbeat);
 
-      // Start sync in background
-      syncService.syncAllData().catch((error: Error) => {
-        logger.error(`Background sync failed for store ${store.id}:`, error);
+      await auditService.record(auditContext(req), {
+        tenantId: store.tenantId,
+        action: 'sync.triggered',
+        targetType: 'store',
+        targetId: store.id,
+        metadata: { runId: run.id, entities: ALL_ENTITIES, full },
       });
 
       return res.json({ 
         success: true, 
         message: 'Sync started in background',
         storeId: store.id,
-        startedAt: new Date().toISOString(),
+        mode: full ? 'full' : 'incremental',
+        runId: run.id,
+        startedAt: run.startedAt.toISOString(),
       });
     } catch (error) {
+      // Another request opened a run between the check above and ours
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       logger.error('Error in syncStoreData:', error);
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       return res.status(500).json({ 
@@ -95,6 +156,9 @@ export class DataSyncController {
           domain: true,
           lastSyncedAt: true,
           tenantId: true,
+          syncIntervalMinutes: true,
+          syncPaused: true,
+          nextSyncAt: true,
           _count: {
             select: {
               products: true,
@@ -119,11 +183,26 @@ export class DataSyncController {
         return res.status(403).json({ error: 'Access denied' });
       }
 
+      const [activeRun, lastRun, pendingJob] = await Promise.all([
+        syncRunService.getActiveRun(store.id),
+        syncRunService.getLastRun(store.id),
+        syncScheduler.getPendingJob(store.id),
+      ]);
+
       return res.json({
         storeId: store.id,
         storeName: store.name,
         domain: store.domain,
         lastSyncedAt: store.lastSyncedAt,
+        isSyncing: !!activeRun,
+        activeRun,
+        lastRun,
+        schedule: {
+          intervalMinutes: store.syncIntervalMinutes,
+          paused: store.syncPaused,
+          nextSyncAt: store.nextSyncAt,
+          pendingJob,
+        },
         stats: {
           products: store._count.products,
           customers: store._count.customers,
@@ -184,22 +263,34 @@ export class DataSyncController {
 
       const shopifyService = new ShopifyService(store);
       const syncService = new DataSyncService(shopifyService, store);
+      const entity = dataType as SyncEntity;
+      const options = { full: req.query.full === 'true' };
       let result;
 
+      // Recorded up front: the sync runs inline and may fail after it started
+      await auditService.record(auditContext(req), {
+        tenantId: store.tenantId,
+        action: 'sync.triggered',
+        targetType: 'store',
+        targetId: store.id,
+        metadata: { entities: [entity], full: options.full },
+      });
+
       // Call the appropriate sync method based on dataType
-      switch (dataType) {
-        case 'products':
-          result = await syncService.syncProducts();
-          break;
-        case 'customers':
-          result = await syncService.syncCustomers();
-          break;
-        case 'orders':
-          result = await syncService.syncOrders();
-          break;
-        default:
-          return res.status(400).json({ error: 'Invalid data type' });
-      }
+      const run = await syncRunService.track(store, SyncTrigger.MANUAL, [entity], async () => {
+        switch (entity) {
+          case 'products':
+            result = await syncService.syncProducts(options);
+            break;
+          case 'customers':
+            result = await syncService.syncCustomers(options);
+            break;
+          case 'orders':
+            result = await syncService.syncOrders(options);
+            break;
+        }
+        return { [entity]: result };
+      });
 
       // Update last synced time for the store
       await prisma.store.update({
@@ -212,10 +303,15 @@ export class DataSyncController {
         message: `${dataType} sync completed`,
         storeId: store.id,
         dataType,
+        runId: run.id,
+        status: run.status,
         result,
         syncedAt: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       logger.error(`Error in syncStoreDataType (${req.params.dataType}):`, error);
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       return res.status(500).json({ 
@@ -224,6 +320,254 @@ export class DataSyncController {
       });
     }
   }
+
+  // List sync runs for a store, newest first
+  static async getSyncRuns(req: AuthRequest, res: Response) {
+    try {
+      const { storeId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const access = await DataSyncController.findAccessibleStore(storeId, userId);
+      if (access.error === 404) {
+        return res.status(404).json({ error: 'Store not found' });
+      }
+      if (access.error === 403) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const page = Math.max(parseInt((req.query.page as string) || '1', 10) || 1, 1);
+      const limit = Math.min(Math.max(parseInt((req.query.limit as string) || '20', 10) || 20, 1), 100);
+      const trigger = (req.query.trigger as string | undefined)?.toUpperCase();
+      if (trigger && !(trigger in SyncTrigger)) {
+        return res.status(400).json({ error: 'Invalid trigger', validTriggers: Object.values(SyncTrigger) });
+      }
+
+      const { runs, total } = await syncRunService.listRuns(storeId, {
+        page,
+        limit,
+        trigger: trigger as SyncTrigger | undefined,
+      });
+
+      return res.json({
+        storeId,
+        runs,
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      });
+    } catch (error) {
+      logger.error('Error in getSyncRuns:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      return res.status(500).json({ 
+        error: 'Failed to get sync runs',
+        details: errorMessage,
+      });
+    }
+  }
+
+  // Get a single sync run with its per-entity stats and errors
+  static async getSyncRun(req: AuthRequest, res: Response) {
+    try {
+      const { storeId, runId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const access = await DataSyncController.findAccessibleStore(storeId, userId);
+      if (access.error === 404) {
+        return res.status(404).json({ error: 'Store not found' });
+      }
+      if (access.error === 403) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const run = await syncRunService.getRun(storeId, runId);
+      if (!run) {
+        return res.status(404).json({ error: 'Sync run not found' });
+      }
+
+      return res.json(run);
+    } catch (error) {
+      logger.error('Error in getSyncRun:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      return res.status(500).json({ 
+        error: 'Failed to get sync run',
+        details: errorMessage,
+      });
+    }
+  }
+
+  // Set, pause or clear a store's scheduled sync interval
+  static async updateSyncSchedule(req: AuthRequest, res: Response) {
+    try {
+      const { storeId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const access = await DataSyncController.findAccessibleStore(storeId, userId);
+      if (access.error === 404) {
+        return res.status(404).json({ error: 'Store not found' });
+      }
+      if (access.error === 403) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const { intervalMinutes, paused } = req.body ?? {};
+      if (intervalMinutes === undefined && paused === undefined) {
+        return res.status(400).json({ error: 'Provide intervalMinutes and/or paused' });
+      }
+      if (
+        intervalMinutes !== undefined &&
+        intervalMinutes !== null &&
+        (!Number.isInteger(intervalMinutes) ||
+          intervalMinutes < MIN_SYNC_INTERVAL_MINUTES ||
+          intervalMinutes > MAX_SYNC_INTERVAL_MINUTES)
+      ) {
+        return res.status(400).json({
+          error: `intervalMinutes must be an integer between ${MIN_SYNC_INTERVAL_MINUTES} and ${MAX_SYNC_INTERVAL_MINUTES}, or null`,
+        });
+      }
+      if (paused !== undefined && typeof paused !== 'boolean') {
+        return res.status(400).json({ error: 'paused must be a boolean' });
+      }
+
+      const store = await syncScheduler.updateSchedule(storeId, { intervalMinutes, paused });
+
+      await auditService.record(auditContext(req), {
+        tenantId: store.tenantId,
+        action: 'sync.schedule_updated',
+        targetType: 'store',
+        targetId: store.id,
+        changes: diffChanges(access.store, store, ['syncIntervalMinutes', 'syncPaused']),
+      });
+
+      return res.json({
+        storeId: store.id,
+        schedule: {
+          intervalMinutes: store.syncIntervalMinutes,
+          paused: store.syncPaused,
+          nextSyncAt: store.nextSyncAt,
+        },
+      });
+    } catch (error) {
+      logger.error('Error in updateSyncSchedule:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      return res.status(500).json({ 
+        error: 'Failed to update sync schedule',
+        details: errorMessage,
+      });
+    }
+  }
+
+  // Start or resume the full order history backfill for a store
+  static async startOrderBackfill(req: AuthRequest, res: Response) {
+    try {
+      const { storeId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const access = await DataSyncController.findAccessibleStore(storeId, userId);
+      if (access.error === 404) {
+        return res.status(404).json({ error: 'Store not found' });
+      }
+      if (access.error === 403) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const store = await prisma.store.findUnique({ where: { id: storeId } });
+      if (!store?.accessToken) {
+        return res.status(400).json({ error: 'Store is not configured with an access token.' });
+      }
+
+      const activeRun = await syncRunService.getActiveRun(store.id);
+      if (activeRun || (await orderBackfillService.isRunning(store.id))) {
+        return res.status(409).json({
+          error: 'A sync or backfill is already running for this store',
+          runId: activeRun?.id,
+        });
+      }
+
+      const windowDays = req.query.windowDays ? parseInt(req.query.windowDays as string, 10) : undefined;
+      if (windowDays !== undefined && (isNaN(windowDays) || windowDays < 1 || windowDays > 365)) {
+        return res.status(400).json({ error: 'windowDays must be between 1 and 365' });
+      }
+
+      const backfill = await orderBackfillService.start(store, {
+        restart: req.query.restart === 'true',
+        windowDays,
+      });
+
+      await auditService.record(auditContext(req), {
+        tenantId: store.tenantId,
+        action: 'sync.backfill_started',
+        targetType: 'store',
+        targetId: store.id,
+        metadata: { restart: req.query.restart === 'true', ...(windowDays ? { windowDays } : {}) },
+      });
+
+      return res.status(202).json({
+        success: true,
+        message: backfill.status === OrderBackfillStatus.COMPLETED ? 'Order backfill already completed' : 'Order backfill started in background',
+        backfill,
+        progress: orderBackfillService.describeProgress(backfill),
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      logger.error('Error in startOrderBackfill:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      return res.status(500).json({ 
+        error: 'Failed to start order backfill',
+        details: errorMessage,
+      });
+    }
+  }
+
+  // Get the order backfill checkpoint and progress for a store
+  static async getOrderBackfill(req: AuthRequest, res: Response) {
+    try {
+      const { storeId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const access = await DataSyncController.findAccessibleStore(storeId, userId);
+      if (access.error === 404) {
+        return res.status(404).json({ error: 'Store not found' });
+      }
+      if (access.error === 403) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const backfill = await orderBackfillService.getBackfill(storeId);
+      return res.json({
+        storeId,
+        backfill,
+        isRunning: await orderBackfillService.isRunning(storeId),
+        progress: backfill ? orderBackfillService.describeProgress(backfill) : null,
+      });
+    } catch (error) {
+      logger.error('Error in getOrderBackfill:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      return res.status(500).json({ 
+        error: 'Failed to get order backfill',
+        details: errorMessage,
+      });
+    }
+  }
 }
 
 export default DataSyncController;
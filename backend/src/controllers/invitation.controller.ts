@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { invitationService } from '../services/invitation.service';
+import { auditContext } from '../services/audit.service';
+import { UnauthorizedError } from '../utils/errors';
+import logger from '../utils/logger';
+import { AuthUser } from '../types/auth';
+
+/**
+ * What the accept page shows before the invitee signs up or signs in
+ */
+export const getInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invitation = await invitationService.preview(req.params.token);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: {
+        invitation,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Accept an invitation as the signed-in user. New accounts accept through
+ * signup with an `invitationToken` instead.
+ */
+export const acceptInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as AuthUser;
+    if (!user?.id) {
+      return next(new UnauthorizedError());
+    }
+
+    const updated = await invitationService.acceptForUser(req.params.token, user.id, auditContext(req));
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: {
+        user: updated,
+      },
+    });
+  } catch (error) {
+    logger.error('Error accepting invitation:', error);
+    next(error);
+  }
+};
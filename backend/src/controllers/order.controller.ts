@@ -0,0 +1,282 @@
+import { Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { parseJsonColumn } from '../utils/json';
+import { NotFoundError } from '../utils/errors';
+import { ensureStoreAccess } from '../utils/store-access';
+import { toAddress } from '../utils/address';
+
+const ORDER_LIST_SELECT = {
+  id: true,
+  orderNumber: true,
+  customerEmail: true,
+  financialStatus: true,
+  fulfillmentStatus: true,
+  currency: true,
+  totalPrice: true,
+  totalDiscounts: true,
+  lineItems: true,
+  discountCodes: true,
+  tags: true,
+  cancelledAt: true,
+  createdAt: true,
+  customer: { select: { id: true, firstName: true, lastName: true, email: true } },
+} as const;
+
+const list = (value: unknown) =>
+  typeof value === 'string' ? value.split(',').map((item) => item.trim()).filter(Boolean) : [];
+
+const num = (value: unknown) => (value === undefined || value === '' ? undefined : Number(value));
+
+// The two sync paths store line items in snake_case (raw Shopify) and camelCase
+const pick = (raw: any, camel: string, snake: string) => raw?.[camel] ?? raw?.[snake];
+
+const money = (value: unknown) => {
+  const n = parseFloat(value as string);
+  return Number.isFinite(n) ? n : 0;
+};
+
+/**
+ * Filters from the query string. Shopify leaves fulfillment_status null for
+ * unfulfilled orders, so `unfulfilled` matches those as well.
+ */
+const orderWhere = (storeId: string, query: Request['query']): Prisma.OrderWhereInput => {
+  const and: Prisma.OrderWhereInput[] = [];
+
+  const financial = list(query.financialStatus);
+  if (financial.length) and.push({ financialStatus: { in: financial } });
+
+  const fulfillment = list(query.fulfillmentStatus);
+  if (fulfillment.length) {
+    and.push({
+      OR: [
+        { fulfillmentStatus: { in: fulfillment } },
+        ...(fulfillment.includes('unfulfilled') ? [{ fulfillmentStatus: null }] : []),
+      ],
+    });
+  }
+
+  if (query.from || query.to) {
+    and.push({
+      createdAt: {
+        ...(query.from ? { gte: new Date(query.from as string) } : {}),
+        ...(query.to ? { lte: new Date(query.to as string) } : {}),
+      },
+    });
+  }
+
+  const minTotal = num(query.minTotal);
+  const maxTotal = num(query.maxTotal);
+  if (minTotal !== undefined || maxTotal !== undefined) {
+    and.push({
+      totalPrice: {
+        ...(minTotal !== undefined ? { gte: minTotal } : {}),
+        ...(maxTotal !== undefined ? { lte: maxTotal } : {}),
+      },
+    });
+  }
+
+  if (typeof query.discountCode === 'string' && query.discountCode.trim()) {
+    const code = query.discountCode.trim();
+    // discountCodes is either a JSON array or, from the Shopify sync, a
+    // stringified one, so match both forms
+    and.push({
+      OR: [
+        { discountCodes: { array_contains: [{ code }] } },
+        { discountCodes: { string_contains: `"code":${JSON.stringify(code)}` } },
+      ],
+    });
+  }
+
+  const tags = list(query.tag);
+  if (tags.length) and.push({ tags: { hasSome: tags } });
+
+  if (typeof query.customerId === 'string' && query.customerId) {
+    and.push({ customerId: query.customerId });
+  } else if (typeof query.customer === 'string' && query.customer.trim()) {
+    const words = query.customer.trim().split(/\s+/);
+    and.push(
+      ...words.map((word) => ({
+        OR: [
+          { customerEmail: { contains: word, mode: 'insensitive' as const } },
+          { customer: { firstName: { contains: word, mode: 'insensitive' as const } } },
+          { customer: { lastName: { contains: word, mode: 'insensitive' as const } } },
+          { customer: { email: { contains: word, mode: 'insensitive' as const } } },
+        ],
+      }))
+    );
+  }
+
+  if (typeof query.orderNumber === 'string' && query.orderNumber.trim()) {
+    and.push({ orderNumber: { contains: query.orderNumber.trim().replace(/^#/, '') } });
+  }
+
+  return { storeId, AND: and };
+};
+
+const toLineItem = (raw: any) => {
+  const quantity = Number(raw?.quantity || 0);
+  const price = money(raw?.price);
+  const totalDiscount = money(pick(raw, 'totalDiscount', 'total_discount'));
+  return {
+    id: raw?.id != null ? String(raw.id) : null,
+    productId: pick(raw, 'productId', 'product_id') != null ? String(pick(raw, 'productId', 'product_id')) : null,
+    title: raw?.title || raw?.name || 'Untitled item',
+    variantTitle: pick(raw, 'variantTitle', 'variant_title') || null,
+    sku: raw?.sku || null,
+    vendor: raw?.vendor || null,
+    quantity,
+    price,
+    totalDiscount,
+    total: Math.round((price * quantity - totalDiscount) * 100) / 100,
+    fulfillmentStatus: pick(raw, 'fulfillmentStatus', 'fulfillment_status') || null,
+  };
+};
+
+const toShippingLine = (raw: any) => ({
+  title: raw?.title || raw?.code || 'Shipping',
+  code: raw?.code || null,
+  source: raw?.source || null,
+  price: money(raw?.price),
+  discountedPrice: money(raw?.discounted_price ?? raw?.price),
+});
+
+const toTransaction = (raw: any) => ({
+  id: raw?.id != null ? String(raw.id) : null,
+  kind: raw?.kind || null,
+  status: raw?.status || null,
+  gateway: raw?.gateway || null,
+  amount: money(raw?.amount),
+  currency: raw?.currency || null,
+  createdAt: raw?.created_at || null,
+});
+
+const toRefund = (raw: any) => {
+  const transactions = (Array.isArray(raw?.transactions) ? raw.transactions : []).map(toTransaction);
+  return {
+    id: raw?.id != null ? String(raw.id) : null,
+    createdAt: raw?.created_at || raw?.processed_at || null,
+    note: raw?.note || null,
+    restock: !!raw?.restock,
+    lineItems: (Array.isArray(raw?.refund_line_items) ? raw.refund_line_items : []).map((item: any) => ({
+      title: item?.line_item?.title || 'Item',
+      variantTitle: item?.line_item?.variant_title || null,
+      quantity: Number(item?.quantity || 0),
+      subtotal: money(item?.subtotal),
+    })),
+    transactions,
+    amount: transactions
+      .filter((t: ReturnType<typeof toTransaction>) => t.kind === 'refund' && t.status !== 'failure')
+      .reduce((sum: number, t: ReturnType<typeof toTransaction>) => sum + t.amount, 0),
+  };
+};
+
+const toDiscountCode = (raw: any) => ({
+  code: raw?.code || null,
+  type: raw?.type || null,
+  amount: money(raw?.amount),
+});
+
+const arrayColumn = <T>(value: unknown, map: (raw: any) => T): T[] => {
+  const parsed = parseJsonColumn<unknown>(value, []);
+  return Array.isArray(parsed) ? parsed.map(map) : [];
+};
+
+/**
+ * Orders in a store, newest first, with cursor pagination. Pass the returned
+ * `nextCursor` as `cursor` to get the following page.
+ */
+export const getOrders = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const limit = Math.min(Math.max(parseInt((req.query.limit as string) || '25', 10) || 25, 1), 100);
+    const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+    const where = orderWhere(store.id, req.query);
+
+    const [orders, total] = await Promise.all([
+      prisma.order.findMany({
+        where,
+        // id breaks ties between orders created in the same millisecond
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: ORDER_LIST_SELECT,
+      }),
+      prisma.order.count({ where }),
+    ]);
+
+    const hasMore = orders.length > limit;
+    const pageOrders = orders.slice(0, limit);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      results: pageOrders.length,
+      data: {
+        orders: pageOrders.map(({ lineItems, discountCodes, ...order }) => ({
+          ...order,
+          itemsCount: arrayColumn(lineItems, toLineItem).reduce((sum, item) => sum + item.quantity, 0),
+          discountCodes: arrayColumn(discountCodes, toDiscountCode)
+            .map((discount) => discount.code)
+            .filter(Boolean),
+        })),
+        currency: store.currency,
+      },
+      pagination: {
+        limit,
+        total,
+        hasMore,
+        nextCursor: hasMore ? pageOrders[pageOrders.length - 1].id : null,
+      },
+    });
+  } catch (error) {
+    logger.error('Error getting orders:', error);
+    next(error);
+  }
+};
+
+/**
+ * One order with its line items, shipping, discounts, refunds and payments
+ * unpacked from the stored Shopify JSON
+ */
+export const getOrder = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const store = await ensureStoreAccess(req, next);
+    if (!store) return;
+
+    const order = await prisma.order.findFirst({
+      where: { id: req.params.orderId, storeId: store.id },
+      include: { customer: { select: { id: true, firstName: true, lastName: true, email: true } } },
+    });
+    if (!order) {
+      return next(new NotFoundError('Order not found'));
+    }
+
+    const { lineItems, shippingLines, discountCodes, refunds, transactions, shippingAddress, billingAddress, ...rest } =
+      order;
+    const refundList = arrayColumn(refunds, toRefund);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: {
+        order: {
+          ...rest,
+          lineItems: arrayColumn(lineItems, toLineItem),
+          shippingLines: arrayColumn(shippingLines, toShippingLine),
+          discountCodes: arrayColumn(discountCodes, toDiscountCode),
+          refunds: refundList,
+          transactions: arrayColumn(transactions, toTransaction),
+          shippingAddress: toAddress(parseJsonColumn<any>(shippingAddress, null)),
+          billingAddress: toAddress(parseJsonColumn<any>(billingAddress, null)),
+          totalRefunded: Math.round(refundList.reduce((sum, refund) => sum + refund.amount, 0) * 100) / 100,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('Error getting order:', error);
+    next(error);
+  }
+};
@@ -3,7 +3,7 @@ import { prisma } from '../app';
 import { sendEmail } from '../utils/email';
 import crypto from 'crypto';
 import logger from '../utils/logger';
-import { createAuthToken } from '../utils/jwt';
+import { sessionService, sessionContext, setSessionCookies } from '../services/session.service';
 
 // Store OTPs in memory (in production, use Redis or database)
 const otpStore: Record<string, { otp: string; expiresAt: Date }> = {};
@@ -149,8 +149,10 @@ export const verifyOTP = async (req: Request, res: Response) => {
       createdAt: user.createdAt,
     };
 
-    // Generate JWT token
-    const token = createAuthToken(userData);
+    // Start a session for the newly verified user
+    const session = await sessionService.issue(user.id, sessionContext(req));
+    setSessionCookies(res, session);
+    const token = session.accessToken;
 
     return res.status(200).json({
       success: true,
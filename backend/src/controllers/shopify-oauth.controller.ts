@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import { matchedData, validationResult } from 'express-validator';
+import { StatusCodes } from 'http-status-codes';
+import { SyncTrigger } from '@prisma/client';
+import { shopifyOAuthService, OAuthCallbackQuery } from '../services/shopify-oauth.service';
+import { DataSyncService } from '../services/data-sync.service';
+import { ShopifyService } from '../services/shopify.service';
+import { syncRunService } from '../services/sync-run.service';
+import { UnauthorizedError, ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+import { AuthUser } from '../types/auth';
+
+const frontendUrl = () => (process.env.FRONTEND_BASE_URL || process.env.FRONTEND_URL || 'http://localhost:3000')
+  .split(',')[0]
+  .trim()
+  .replace(/\/$/, '');
+
+// The connect page turns these into messages; details stay in the server log
+const callbackErrorCode = (error: unknown) => {
+  if (error instanceof ValidationError) return 'invalid_request';
+  if (error instanceof UnauthorizedError) return 'unauthorized';
+  return 'connect_failed';
+};
+
+/**
+ * Start the Shopify install flow for the signed-in user's tenant.
+ * Browsers navigating here are redirected; XHR callers (Accept: application/json)
+ * get the authorize URL back instead, since they can't follow a cross-site 302.
+ */
+export const installShopifyApp = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as AuthUser;
+    if (!user?.tenantId) {
+      return next(new UnauthorizedError());
+    }
+
+    const authorizeUrl = await shopifyOAuthService.createAuthorizeUrl({
+      shop: String(req.query.shop || ''),
+      tenantId: user.tenantId,
+      userId: user.id,
+    });
+
+    if (req.accepts(['html', 'json']) === 'json') {
+      return res.status(StatusCodes.OK).json({ status: 'success', data: { authorizeUrl } });
+    }
+    res.redirect(StatusCodes.MOVED_TEMPORARILY, authorizeUrl);
+  } catch (error) {
+    logger.error('Error starting Shopify install:', error);
+    next(error);
+  }
+};
+
+/**
+ * Shopify redirects here after the merchant approves the install. The user's
+ * browser ends up back on the frontend either way, with the outcome in the query.
+ */
+export const shopifyOAuthCallback = async (req: Request, res: Response) => {
+  try {
+    if (!validationResult(req).isEmpty()) {
+      throw new ValidationError('Missing or invalid OAuth callback parameters');
+    }
+    const query = matchedData(req, { locations: ['query'] }) as OAuthCallbackQuery;
+    const store = await shopifyOAuthService.handleCallback(query);
+
+    // First sync in the background, as the token-paste flow does from the connect page
+    syncRunService
+      .track(store, SyncTrigger.MANUAL, ['products', 'customers', 'orders'], async () => {
+        const result = await new DataSyncService(new ShopifyService(store), store).syncAllData();
+        return result.entities;
+      })
+      .catch((error) => logger.error(`Initial sync failed for store ${store.id}:`, error));
+
+    res.redirect(StatusCodes.MOVED_TEMPORARILY, `${frontendUrl()}/stores?connected=${encodeURIComponent(store.id)}`);
+  } catch (error) {
+    logger.error('Shopify OAuth callback failed:', error);
+    res.redirect(StatusCodes.MOVED_TEMPORARILY, `${frontendUrl()}/stores/connect?error=${callbackErrorCode(error)}`);
+  }
+};
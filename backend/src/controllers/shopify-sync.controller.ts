@@ -1,16 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
-import { PrismaClient, Store } from '@prisma/client';
+import { PrismaClient, Store, SyncRun, SyncTrigger } from '@prisma/client';
 import { AppError, catchAsync } from '../middleware/error.middleware';
 import logger from '../utils/logger';
 import { ShopifyService, ShopifySyncService } from '../services/shopify.service';
+import { SyncRunService } from '../services/sync-run.service';
 import { AuthUser } from '../types/auth';
+import { auditContext, auditService } from '../services/audit.service';
 
 interface RequestWithUser extends Request {
   user?: AuthUser;
 }
 
 const prisma = new PrismaClient();
+const syncRunService = new SyncRunService(prisma);
 
 export class ShopifySyncController {
   private static async resolveStoreForRequest(storeId: string, req: RequestWithUser, next: NextFunction) {
@@ -30,6 +33,17 @@ export class ShopifySyncController {
     }
     return store;
   }
+
+  private static auditSync(req: RequestWithUser, store: Store, entities: string[]) {
+    return auditService.record(auditContext(req), {
+      tenantId: store.tenantId,
+      action: 'sync.triggered',
+      targetType: 'store',
+      targetId: store.id,
+      metadata: { entities },
+    });
+  }
+
   /**
    * Trigger a full data sync for a store
    */
@@ -42,8 +56,13 @@ export class ShopifySyncController {
       return next(new AppError('Store is not connected to Shopify', StatusCodes.BAD_REQUEST));
     }
 
-    // Start sync in background
-    ShopifySyncController.startBackgroundSync(store);
+    // Opened before responding so a sync already running answers 409
+    const run = await syncRunService.start(store, SyncTrigger.MANUAL, ['products', 'customers', 'orders']);
+
+    // Start sync in background; failures are recorded on the SyncRun
+    ShopifySyncController.startBackgroundSync(store, run).catch(() => undefined);
+
+    await ShopifySyncController.auditSync(req, store, ['products', 'customers', 'orders']);
 
     res.status(StatusCodes.ACCEPTED).json({
       status: 'success',
@@ -52,6 +71,7 @@ export class ShopifySyncController {
         storeId: store.id,
         domain: store.domain,
         lastSyncedAt: store.lastSyncedAt,
+        runId: run.id,
       },
     });
   });
@@ -96,8 +116,9 @@ export class ShopifySyncController {
   /**
    * Helper method to start sync in background
    */
-  private static async startBackgroundSync(store: Store) {
+  private static async startBackgroundSync(store: Store, run: SyncRun) {
     const syncService = new ShopifySyncService(store, prisma);
+    const stopHeartbeat = syncRunService.keepAlive(run.id);
     
     try {
       logger.info(`Starting background sync for store: ${store.domain}`);
@@ -111,14 +132,17 @@ export class ShopifySyncController {
       });
 
       // Perform the sync operations
-      await syncService.syncAllData();
+      await syncRunService.complete(run.id, await syncService.syncAllData());
       
       logger.info(`Completed background sync for store: ${store.domain}`);
       
       return true;
     } catch (error) {
       logger.error(`Background sync failed for store ${store.domain}:`, error);
-      throw error; // Re-throw to be handled by the catchAsync wrapper
+      await syncRunService.fail(run.id, error).catch((err) => logger.error(`Failed to record sync run ${run.id}:`, err));
+      throw error;
+    } finally {
+      stopHeartbeat();
     }
   }
 
@@ -134,12 +158,22 @@ export class ShopifySyncController {
       return next(new AppError('Store is not connected to Shopify', StatusCodes.BAD_REQUEST));
     }
 
+    await ShopifySyncController.auditSync(req, store, ['products']);
+
     const syncService = new ShopifySyncService(store, prisma);
-    await syncService.syncProducts();
+    const run = await syncRunService.track(store, SyncTrigger.MANUAL, ['products'], async () => ({
+      products: await syncService.syncProducts(),
+    }));
 
     res.status(StatusCodes.OK).json({
       status: 'success',
       message: 'Products synced successfully',
+      data: {
+        runId: run.id,
+        status: run.status,
+        stats: run.stats,
+        errors: run.errors,
+      },
     });
   });
 
@@ -155,12 +189,22 @@ export class ShopifySyncController {
       return next(new AppError('Store is not connected to Shopify', StatusCodes.BAD_REQUEST));
     }
 
+    await ShopifySyncController.auditSync(req, store, ['customers']);
+
     const syncService = new ShopifySyncService(store, prisma);
-    await syncService.syncCustomers();
+    const run = await syncRunService.track(store, SyncTrigger.MANUAL, ['customers'], async () => ({
+      customers: await syncService.syncCustomers(),
+    }));
 
     res.status(StatusCodes.OK).json({
       status: 'success',
       message: 'Customers synced successfully',
+      data: {
+        runId: run.id,
+        status: run.status,
+        stats: run.stats,
+        errors: run.errors,
+      },
     });
   });
 
@@ -177,6 +221,8 @@ export class ShopifySyncController {
       return next(new AppError('Store is not connected to Shopify', StatusCodes.BAD_REQUEST));
     }
 
+    await ShopifySyncController.auditSync(req, store, ['orders']);
+
     const syncService = new ShopifySyncService(store, prisma);
     
     // Default to last 30 days if no dates provided
@@ -184,10 +230,12 @@ export class ShopifySyncController {
     const start = startDate ? new Date(startDate as string) : new Date();
     start.setDate(start.getDate() - 30);
 
-    await syncService.syncOrders({
-      created_at_min: start.toISOString(),
-      created_at_max: end.toISOString()
-    });
+    const run = await syncRunService.track(store, SyncTrigger.MANUAL, ['orders'], async () => ({
+      orders: await syncService.syncOrders({
+        created_at_min: start.toISOString(),
+        created_at_max: end.toISOString()
+      }),
+    }));
 
     res.status(StatusCodes.OK).json({
       status: 'success',
@@ -195,6 +243,10 @@ export class ShopifySyncController {
       data: {
         startDate: start.toISOString(),
         endDate: end.toISOString(),
+        runId: run.id,
+        status: run.status,
+        stats: run.stats,
+        errors: run.errors,
       },
     });
   });
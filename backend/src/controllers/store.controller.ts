@@ -3,8 +3,10 @@ import { StatusCodes } from 'http-status-codes';
 import { AppError } from '../utils/errors';
 import logger from '../utils/logger';
 import { AuthUser } from '../types/auth';
-import { storeService } from '../services/store.service';
+import { storeService, toPublicStore } from '../services/store.service';
 import { prisma } from '../utils/prisma';
+import { decryptToken, encryptToken } from '../utils/crypto';
+import { auditContext, auditService, diffChanges } from '../services/audit.service';
 
 /**
  * Connect a new Shopify store to the tenant
@@ -49,15 +51,20 @@ export const connectStore = async (req: Request, res: Response, next: NextFuncti
 
     // Update last sync time
     await storeService.updateLastSync(store.id);
+    const connected = await storeService.refreshShopSettings(store);
 
-    // Remove sensitive data from response
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { accessToken: _, ...storeWithoutToken } = store;
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'store.connected',
+      targetType: 'store',
+      targetId: store.id,
+      metadata: { domain: store.domain, method: 'access_token' },
+    });
 
     res.status(StatusCodes.CREATED).json({
       status: 'success',
       data: {
-        store: storeWithoutToken,
+        store: toPublicStore(connected),
       },
     });
   } catch (error) {
@@ -99,9 +106,13 @@ export const getStores = async (req: Request, res: Response, next: NextFunction)
           id: true,
           name: true,
           domain: true,
+          currency: true,
           shopifyId: true,
           isActive: true,
           lastSyncedAt: true,
+          syncIntervalMinutes: true,
+          syncPaused: true,
+          nextSyncAt: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -173,7 +184,7 @@ export const getStore = async (req: Request, res: Response, next: NextFunction)
     // Get recent orders with customer info
     const recentOrders = await prisma.order.findMany({
       where: { storeId: id },
-      orderBy: { createdAt: 'desc' },
+      orderBy: { processedAt: 'desc' },
       take: 5,
       select: {
         id: true,
@@ -182,6 +193,7 @@ export const getStore = async (req: Request, res: Response, next: NextFunction)
         financialStatus: true,
         fulfillmentStatus: true,
         createdAt: true,
+        processedAt: true,
         customer: {
           select: {
             id: true,
@@ -207,14 +219,11 @@ export const getStore = async (req: Request, res: Response, next: NextFunction)
       }),
     ]);
 
-    // Remove sensitive data
-    const { accessToken, ...storeWithoutSensitiveData } = store;
-
     res.status(StatusCodes.OK).json({
       status: 'success',
       data: {
         store: {
-          ...storeWithoutSensitiveData,
+          ...toPublicStore(store),
           stats: stats[0] || {},
           recentOrders,
         },
@@ -261,8 +270,8 @@ export const updateStore = async (req: Request, res: Response, next: NextFunctio
     if (isActive !== undefined) updateData.isActive = isActive;
     
     // Only update access token if provided and different
-    if (accessToken && accessToken !== store.accessToken) {
-      updateData.accessToken = accessToken;
+    if (accessToken && (!store.accessToken || accessToken !== decryptToken(store.accessToken))) {
+      updateData.accessToken = encryptToken(accessToken);
       
       // Verify the new token if provided
       const isConnected = await storeService.verifyStoreConnection({
@@ -284,13 +293,20 @@ export const updateStore = async (req: Request, res: Response, next: NextFunctio
       data: updateData,
     });
 
-    // Remove sensitive data from the response
-    const { accessToken: _, ...storeWithoutSensitiveData } = updatedStore;
+    // The token itself never goes in the log, only the fact that it changed
+    await auditService.record(auditContext(req), {
+      tenantId: store.tenantId,
+      action: 'store.updated',
+      targetType: 'store',
+      targetId: id,
+      changes: diffChanges(store, updatedStore, ['name', 'isActive']),
+      metadata: { domain: store.domain, ...(updateData.accessToken ? { accessTokenChanged: true } : {}) },
+    });
 
     res.status(StatusCodes.OK).json({
       status: 'success',
       data: {
-        store: storeWithoutSensitiveData,
+        store: toPublicStore(updatedStore),
       },
     });
   } catch (error) {
@@ -341,12 +357,23 @@ export const deleteStore = async (req: Request, res: Response, next: NextFunctio
       prisma.event.deleteMany({
         where: { storeId: id },
       }),
+      prisma.customerSegment.deleteMany({
+        where: { storeId: id },
+      }),
       // Finally, delete the store
       prisma.store.delete({
         where: { id },
       }),
     ]);
 
+    await auditService.record(auditContext(req), {
+      tenantId: store.tenantId,
+      action: 'store.deleted',
+      targetType: 'store',
+      targetId: id,
+      metadata: { domain: store.domain, name: store.name },
+    });
+
     res.status(StatusCodes.NO_CONTENT).json({
       status: 'success',
       data: null,
@@ -403,7 +430,7 @@ export const getStoreStats = async (req: Request, res: Response, next: NextFunct
         }),
         prisma.order.findMany({
           where: { storeId: store.id },
-          orderBy: { createdAt: 'desc' },
+          orderBy: { processedAt: 'desc' },
           take: 5,
           select: {
             id: true,
@@ -412,6 +439,7 @@ export const getStoreStats = async (req: Request, res: Response, next: NextFunct
             financialStatus: true,
             fulfillmentStatus: true,
             createdAt: true,
+            processedAt: true,
           },
         }),
         prisma.customer.findMany({
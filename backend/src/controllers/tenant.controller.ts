@@ -1,16 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { prisma } from '../utils/prisma';
+import { UserRole } from '@prisma/client';
 import type { Prisma, PrismaClient } from '@prisma/client';
 import { AppError } from '../middleware/error.middleware';
 import logger from '../utils/logger';
 import { AuthUser } from '../types/auth';
+import { invitationService } from '../services/invitation.service';
+import { apiKeyService, type ApiKeyScope } from '../services/api-key.service';
+import { auditContext, auditService, diffChanges } from '../services/audit.service';
+import { fxService } from '../services/fx.service';
+import { netSalesOf, revenueWhere } from '../utils/order-revenue';
 
 // Type guard to check if user is authenticated with tenant
 const hasTenant = (user: any): user is AuthUser & { tenantId: string } => {
   return user && user.id && user.tenantId;
 };
 
+// Only owners can hand out, take away or act on the OWNER role
+const canManageRole = (actor: AuthUser, ...roles: UserRole[]) =>
+  actor.role === UserRole.OWNER || !roles.includes(UserRole.OWNER);
+
 export const createTenant = async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user || !hasTenant(req.user)) {
@@ -20,23 +30,33 @@ export const createTenant = async (req: Request, res: Response, next: NextFuncti
     const { name } = req.body;
     const userId = req.user.id;
 
-    // Create tenant and assign the current user as the owner
-    const tenant = await prisma.tenant.create({
-      data: {
-        name,
-        users: {
-          connect: { id: userId },
-        },
-      },
-      include: {
-        users: {
-          select: {
-            id: true,
-            email: true,
-            username: true,
-          },
+    // Don't leave the user's current team without an owner
+    if (req.user.role === UserRole.OWNER) {
+      const [owners, members] = await Promise.all([
+        prisma.user.count({ where: { tenantId: req.user.tenantId, role: UserRole.OWNER } }),
+        prisma.user.count({ where: { tenantId: req.user.tenantId } }),
+      ]);
+      if (owners <= 1 && members > 1) {
+        return next(
+          new AppError('Make someone else an owner of your current tenant before creating another', StatusCodes.CONFLICT)
+        );
+      }
+    }
+
+    // Create tenant and move the current user into it as its owner
+    const tenant = await prisma.$transaction(async (tx) => {
+      const created = await tx.tenant.create({ data: { name } });
+      const owner = await tx.user.update({
+        where: { id: userId },
+        data: { tenantId: created.id, role: UserRole.OWNER },
+        select: {
+          id: true,
+          email: true,
+          username: true,
+          role: true,
         },
-      },
+      });
+      return { ...created, users: [owner] };
     });
 
     res.status(StatusCodes.CREATED).json({
@@ -67,6 +87,7 @@ export const getTenant = async (req: Request, res: Response, next: NextFunction)
             id: true,
             email: true,
             username: true,
+            role: true,
           },
         },
         stores: {
@@ -133,11 +154,20 @@ export const updateTenant = async (req: Request, res: Response, next: NextFuncti
       );
     }
 
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
     const updatedTenant = await prisma.tenant.update({
       where: { id: tenantId },
       data: updateData,
     });
 
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'tenant.updated',
+      targetType: 'tenant',
+      targetId: tenantId,
+      changes: tenant ? diffChanges(tenant, updatedTenant, ['name']) : null,
+    });
+
     res.status(StatusCodes.OK).json({
       status: 'success',
       data: {
@@ -168,10 +198,26 @@ export const deleteTenant = async (req: Request, res: Response, next: NextFuncti
     // Use a transaction to ensure data consistency
     await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
       // Delete all related data
+      await tx.customerSegment.deleteMany({
+        where: { store: { tenantId } },
+      });
+
       await tx.store.deleteMany({
         where: { tenantId },
       });
 
+      await tx.invitation.deleteMany({
+        where: { tenantId },
+      });
+
+      await tx.apiKey.deleteMany({
+        where: { tenantId },
+      });
+
+      await tx.auditLog.deleteMany({
+        where: { tenantId },
+      });
+
       // Update all users to remove them from the tenant using raw SQL
       await tx.$executeRaw`
         UPDATE "User"
@@ -216,6 +262,7 @@ export const getTenantUsers = async (req: Request, res: Response, next: NextFunc
         id: true,
         email: true,
         username: true,
+        role: true,
         isVerified: true,
         createdAt: true,
       },
@@ -241,7 +288,7 @@ export const addUserToTenant = async (req: Request, res: Response, next: NextFun
     }
 
     const { tenantId } = req.params;
-    const { email, role = 'MEMBER' } = req.body;
+    const { email, role = UserRole.VIEWER } = req.body as { email: string; role?: UserRole };
 
     // Check if the user has permission to add users to this tenant
     if (req.user.tenantId !== tenantId) {
@@ -250,6 +297,10 @@ export const addUserToTenant = async (req: Request, res: Response, next: NextFun
       );
     }
 
+    if (!canManageRole(req.user, role)) {
+      return next(new AppError('Only owners can add other owners', StatusCodes.FORBIDDEN));
+    }
+
     // Find the user by email
     const user = await prisma.user.findUnique({
       where: { email },
@@ -270,12 +321,21 @@ export const addUserToTenant = async (req: Request, res: Response, next: NextFun
     await prisma.user.update({
       where: { id: user.id },
       data: {
+        role,
         tenant: {
           connect: { id: tenantId },
         },
       },
     });
 
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'tenant.user_added',
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { email: user.email, role },
+    });
+
     res.status(StatusCodes.OK).json({
       status: 'success',
       message: 'User added to tenant successfully',
@@ -308,6 +368,15 @@ export const removeUserFromTenant = async (req: Request, res: Response, next: Ne
       );
     }
 
+    const member = await prisma.user.findFirst({
+      where: { id: userId, tenantId },
+      select: { email: true, role: true },
+    });
+
+    if (member && !canManageRole(req.user, member.role)) {
+      return next(new AppError('Only owners can remove other owners', StatusCodes.FORBIDDEN));
+    }
+
     // Remove user from tenant by directly updating the tenantId to null
     await prisma.$executeRaw`
       UPDATE "User"
@@ -315,6 +384,16 @@ export const removeUserFromTenant = async (req: Request, res: Response, next: Ne
       WHERE id = ${userId} AND "tenantId" = ${tenantId}
     `;
 
+    if (member) {
+      await auditService.record(auditContext(req), {
+        tenantId,
+        action: 'tenant.user_removed',
+        targetType: 'user',
+        targetId: userId,
+        metadata: { email: member.email, role: member.role },
+      });
+    }
+
     res.status(StatusCodes.NO_CONTENT).json({
       status: 'success',
       data: null,
@@ -324,3 +403,456 @@ export const removeUserFromTenant = async (req: Request, res: Response, next: Ne
     next(error);
   }
 };
+
+export const updateUserRole = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId, userId } = req.params;
+    const { role } = req.body as { role: UserRole };
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to manage users in this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const member = await prisma.user.findFirst({
+      where: { id: userId, tenantId },
+      select: { id: true, role: true },
+    });
+
+    if (!member) {
+      return next(new AppError('No user found with that ID in this tenant', StatusCodes.NOT_FOUND));
+    }
+
+    if (!canManageRole(req.user, member.role, role)) {
+      return next(new AppError('Only owners can grant or change the owner role', StatusCodes.FORBIDDEN));
+    }
+
+    // A tenant always keeps at least one owner
+    if (member.role === UserRole.OWNER && role !== UserRole.OWNER) {
+      const owners = await prisma.user.count({ where: { tenantId, role: UserRole.OWNER } });
+      if (owners <= 1) {
+        return next(new AppError('A tenant must have at least one owner', StatusCodes.BAD_REQUEST));
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id: member.id },
+      data: { role },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+      },
+    });
+
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'tenant.user_role_changed',
+      targetType: 'user',
+      targetId: user.id,
+      changes: diffChanges(member, user, ['role']),
+      metadata: { email: user.email },
+    });
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: {
+        user,
+      },
+    });
+  } catch (error) {
+    logger.error('Error updating user role:', error);
+    next(error);
+  }
+};
+
+export const getTenantInvitations = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId } = req.params;
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to view invitations for this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const invitations = await invitationService.listOpen(tenantId);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      results: invitations.length,
+      data: {
+        invitations,
+      },
+    });
+  } catch (error) {
+    logger.error('Error getting tenant invitations:', error);
+    next(error);
+  }
+};
+
+export const inviteUserToTenant = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId } = req.params;
+    const { email, role = UserRole.VIEWER } = req.body as { email: string; role?: UserRole };
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to invite users to this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    if (!canManageRole(req.user, role)) {
+      return next(new AppError('Only owners can invite other owners', StatusCodes.FORBIDDEN));
+    }
+
+    const invitation = await invitationService.invite({ tenantId, email, role, invitedById: req.user.id });
+
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'invitation.sent',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      metadata: { email: invitation.email, role: invitation.role },
+    });
+
+    res.status(StatusCodes.CREATED).json({
+      status: 'success',
+      data: {
+        invitation,
+      },
+    });
+  } catch (error) {
+    logger.error('Error inviting user to tenant:', error);
+    next(error);
+  }
+};
+
+export const resendInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId, invitationId } = req.params;
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to manage invitations for this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const invitation = await invitationService.resend(tenantId, invitationId);
+
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'invitation.resent',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      metadata: { email: invitation.email },
+    });
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: {
+        invitation,
+      },
+    });
+  } catch (error) {
+    logger.error('Error resending invitation:', error);
+    next(error);
+  }
+};
+
+export const revokeInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId, invitationId } = req.params;
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to manage invitations for this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const invitation = await invitationService.revoke(tenantId, invitationId);
+
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'invitation.revoked',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      metadata: { email: invitation.email },
+    });
+
+    res.status(StatusCodes.NO_CONTENT).json({
+      status: 'success',
+      data: null,
+    });
+  } catch (error) {
+    logger.error('Error revoking invitation:', error);
+    next(error);
+  }
+};
+
+export const getTenantApiKeys = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId } = req.params;
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to view API keys for this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const apiKeys = await apiKeyService.list(tenantId);
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      results: apiKeys.length,
+      data: {
+        apiKeys,
+      },
+    });
+  } catch (error) {
+    logger.error('Error getting tenant API keys:', error);
+    next(error);
+  }
+};
+
+// The full key is only in this response; afterwards just its prefix is known
+export const createApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId } = req.params;
+    const { name, scopes, expiresAt } = req.body as { name: string; scopes: ApiKeyScope[]; expiresAt?: string | null };
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to manage API keys for this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const { apiKey, key } = await apiKeyService.create({
+      tenantId,
+      createdById: req.user.id,
+      name,
+      scopes,
+      expiresAt: expiresAt ? new Date(expiresAt) : null,
+    });
+
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'api_key.created',
+      targetType: 'api_key',
+      targetId: apiKey.id,
+      metadata: { name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt },
+    });
+
+    res.status(StatusCodes.CREATED).json({
+      status: 'success',
+      data: {
+        apiKey,
+        key,
+      },
+    });
+  } catch (error) {
+    logger.error('Error creating API key:', error);
+    next(error);
+  }
+};
+
+export const revokeApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId, apiKeyId } = req.params;
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to manage API keys for this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const apiKey = await apiKeyService.revoke(tenantId, apiKeyId);
+
+    await auditService.record(auditContext(req), {
+      tenantId,
+      action: 'api_key.revoked',
+      targetType: 'api_key',
+      targetId: apiKey.id,
+      metadata: { name: apiKey.name, prefix: apiKey.prefix },
+    });
+
+    res.status(StatusCodes.NO_CONTENT).json({
+      status: 'success',
+      data: null,
+    });
+  } catch (error) {
+    logger.error('Error revoking API key:', error);
+    next(error);
+  }
+};
+
+export const getTenantAuditLog = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId } = req.params;
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to view the audit log for this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const page = Math.max(parseInt((req.query.page as string) || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt((req.query.limit as string) || '50', 10) || 50, 1), 100);
+    const { action, actorId, targetType, targetId, from, to } = req.query as Record<string, string | undefined>;
+
+    const { entries, total } = await auditService.list(
+      tenantId,
+      {
+        action,
+        actorId,
+        targetType,
+        targetId,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      },
+      { page, limit }
+    );
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      results: entries.length,
+      data: {
+        entries,
+      },
+      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    logger.error('Error getting tenant audit log:', error);
+    next(error);
+  }
+};
+
+/**
+ * Net sales and orders across every store in the tenant, converted into one
+ * reporting currency. Test, voided and cancelled orders are left out as in
+ * the store dashboards. Orders are converted from the currency they were placed
+ * in at the latest loaded rate on or before the end of the range; amounts in
+ * currencies with no rate are left out of the total and listed in missingRates.
+ */
+export const getTenantTotals = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !hasTenant(req.user)) {
+      return next(new AppError('You are not logged in', StatusCodes.UNAUTHORIZED));
+    }
+
+    const { tenantId } = req.params;
+
+    if (req.user.tenantId !== tenantId) {
+      return next(
+        new AppError('You do not have permission to view totals for this tenant', StatusCodes.FORBIDDEN)
+      );
+    }
+
+    const currency = ((req.query.currency as string) || 'USD').toUpperCase();
+    const start = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+    const end = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+    const revenueOptions = { includeCancelled: req.query.includeCancelled === 'true' };
+
+    const [stores, groups] = await Promise.all([
+      prisma.store.findMany({
+        where: { tenantId },
+        select: { id: true, name: true, domain: true, currency: true },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.order.groupBy({
+        by: ['storeId', 'currency'],
+        where: { tenantId, processedAt: { ...(start ? { gte: start } : {}), lte: end }, ...revenueWhere(revenueOptions) },
+        _sum: { totalLineItemsPrice: true, totalDiscounts: true, refundedSubtotal: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const rates = await fxService.ratesTo(
+      groups.map((group) => group.currency),
+      currency,
+      end
+    );
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const missingRates = new Set<string>();
+
+    const storeTotals = stores.map((store) => {
+      const amounts = groups
+        .filter((group) => group.storeId === store.id)
+        .map((group) => {
+          const rate = rates.get(group.currency.toUpperCase()) ?? null;
+          if (rate === null) missingRates.add(group.currency.toUpperCase());
+          const revenue = netSalesOf(group._sum);
+          return {
+            currency: group.currency,
+            orders: group._count._all,
+            revenue: round(revenue),
+            rate,
+            converted: rate === null ? null : round(revenue * rate),
+          };
+        });
+      return {
+        storeId: store.id,
+        name: store.name,
+        domain: store.domain,
+        currency: store.currency,
+        orders: amounts.reduce((sum, amount) => sum + amount.orders, 0),
+        revenue: round(amounts.reduce((sum, amount) => sum + (amount.converted ?? 0), 0)),
+        amounts,
+      };
+    });
+
+    res.status(StatusCodes.OK).json({
+      status: 'success',
+      data: {
+        currency,
+        startDate: start?.toISOString() ?? null,
+        endDate: end.toISOString(),
+        totalRevenue: round(storeTotals.reduce((sum, store) => sum + store.revenue, 0)),
+        totalOrders: storeTotals.reduce((sum, store) => sum + store.orders, 0),
+        stores: storeTotals,
+        missingRates: Array.from(missingRates).sort(),
+      },
+    });
+  } catch (error) {
+    logger.error('Error getting tenant totals:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { verifyWebhookHmac } from '../services/shopify.service';
+import { shopifyWebhookService } from '../services/webhook.service';
+import { AppError, NotFoundError, UnauthorizedError, ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * Receive a Shopify webhook delivery.
+ * Expects the body as a raw Buffer (see webhook.routes.ts) so the HMAC is
+ * computed over the exact bytes Shopify signed.
+ */
+export const receiveShopifyWebhook = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const secret = process.env.SHOPIFY_WEBHOOK_SECRET || process.env.SHOPIFY_API_SECRET;
+    if (!secret) {
+      logger.error('Shopify webhook received but SHOPIFY_API_SECRET is not configured');
+      return next(new AppError('Webhook receiver is not configured', StatusCodes.INTERNAL_SERVER_ERROR));
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const hmac = req.get('X-Shopify-Hmac-Sha256') || '';
+    if (!verifyWebhookHmac(rawBody, hmac, secret)) {
+      return next(new UnauthorizedError('Invalid webhook signature'));
+    }
+
+    const topic = req.get('X-Shopify-Topic');
+    const shopDomain = req.get('X-Shopify-Shop-Domain');
+    if (!topic || !shopDomain) {
+      return next(new ValidationError('Missing X-Shopify-Topic or X-Shopify-Shop-Domain header'));
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      return next(new ValidationError('Webhook body is not valid JSON'));
+    }
+
+    const result = await shopifyWebhookService.handleDelivery({
+      topic,
+      shopDomain,
+      webhookId: req.get('X-Shopify-Webhook-Id'),
+      payload,
+    });
+
+    if (result.outcome === 'store_not_found') {
+      return next(new NotFoundError('Store not found'));
+    }
+
+    res.status(StatusCodes.OK).json({ received: true, outcome: result.outcome, eventId: result.eventId });
+  } catch (err) {
+    logger.error('receiveShopifyWebhook error:', err);
+    next(err);
+  }
+};
@@ -1,9 +1,46 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { StatusCodes } from 'http-status-codes';
+import { UserRole } from '@prisma/client';
 import { prisma } from '../utils/prisma';
 import logger from '../utils/logger';
 import { AuthUser } from '../types/auth';
+import { sessionService } from '../services/session.service';
+import { apiKeyService, isApiKey, type ApiKeyScope } from '../services/api-key.service';
+
+// API keys act for a tenant, not a user. Routers opt in to them with
+// acceptApiKeys before protect, so account and tenant administration stay
+// user-only.
+export const acceptApiKeys = (req: Request, res: Response, next: NextFunction) => {
+  res.locals.acceptApiKeys = true;
+  next();
+};
+
+const authenticateApiKey = async (key: string, req: Request, res: Response, next: NextFunction) => {
+  if (!res.locals.acceptApiKeys) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      error: 'API keys cannot be used for this route',
+    });
+  }
+
+  const apiKey = await apiKeyService.authenticate(key);
+  if (!apiKey) {
+    return res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      error: 'API key is invalid, expired or revoked',
+    });
+  }
+
+  // No role, so authorize() turns keys away; requireScope() admits them
+  req.user = {
+    id: apiKey.id,
+    email: '',
+    tenantId: apiKey.tenantId,
+    apiKey: { id: apiKey.id, prefix: apiKey.prefix, scopes: apiKey.scopes as ApiKeyScope[] },
+  };
+  next();
+};
 
 export const protect = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -12,7 +49,11 @@ export const protect = async (req: Request, res: Response, next: NextFunction) =
     // Get token from header
     if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
       token = req.headers.authorization.split(' ')[1];
-    } 
+    }
+    // API keys may also come in their own header
+    else if (req.get('x-api-key')) {
+      token = req.get('x-api-key');
+    }
     // Get token from cookies
     else if (req.cookies && req.cookies.token) {
       token = req.cookies.token;
@@ -26,8 +67,20 @@ export const protect = async (req: Request, res: Response, next: NextFunction) =
       });
     }
 
+    if (isApiKey(token)) {
+      return await authenticateApiKey(token, req, res, next);
+    }
+
     // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { id: string };
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { id: string; sid?: string };
+
+    // Access tokens belong to a session; a revoked session stops working right away
+    if (!decoded.sid || !(await sessionService.isActive(decoded.sid, decoded.id))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session has expired or been revoked',
+      });
+    }
 
     // Get user from the token
     const user = await prisma.user.findUnique({
@@ -36,6 +89,7 @@ export const protect = async (req: Request, res: Response, next: NextFunction) =
         id: true,
         email: true,
         tenantId: true,
+        role: true,
       },
     });
 
@@ -47,7 +101,7 @@ export const protect = async (req: Request, res: Response, next: NextFunction) =
     }
 
     // Add user to request with proper typing
-    (req as any).user = user as AuthUser;
+    (req as any).user = { ...user, sessionId: decoded.sid } as AuthUser;
     next();
   } catch (error) {
     logger.error('Error in auth middleware:', error);
@@ -87,3 +141,64 @@ export const checkTenantAccess = (req: Request, res: Response, next: NextFunctio
     });
   }
 };
+
+// Role groups for route rules: managers run the tenant, analysts may also trigger syncs
+export const MANAGER_ROLES: UserRole[] = [UserRole.OWNER, UserRole.ADMIN];
+export const SYNC_ROLES: UserRole[] = [...MANAGER_ROLES, UserRole.ANALYST];
+
+// Restricts a route to users holding one of the given roles; use after protect
+export const authorize = (...roles: UserRole[]) => (req: Request, res: Response, next: NextFunction) => {
+  const user = req.user as AuthUser | undefined;
+
+  if (!user) {
+    return res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      error: 'Not authorized',
+    });
+  }
+
+  if (!user.role || !roles.includes(user.role)) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      error: 'Your role does not allow this action',
+    });
+  }
+
+  next();
+};
+
+// For API keys, requires the scope; for users, one of the roles (any role if
+// none are given). Use after protect.
+export const requireScope = (scope: ApiKeyScope, ...roles: UserRole[]) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const user = req.user as AuthUser | undefined;
+
+  if (!user) {
+    return res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      error: 'Not authorized',
+    });
+  }
+
+  if (user.apiKey) {
+    if (!user.apiKey.scopes.includes(scope)) {
+      return res.status(StatusCodes.FORBIDDEN).json({
+        success: false,
+        error: `This API key is missing the ${scope} scope`,
+      });
+    }
+    return next();
+  }
+
+  if (roles.length && (!user.role || !roles.includes(user.role))) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      error: 'Your role does not allow this action',
+    });
+  }
+
+  next();
+};
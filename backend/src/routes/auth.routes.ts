@@ -3,7 +3,7 @@ import { body } from 'express-validator';
 import * as authController from '../controllers/auth.controller';
 import { catchAsync } from '../middleware/error.middleware';
 import { protect } from '../middleware/auth.middleware';
-import { otpLimiter } from '../middleware/rate-limit.middleware';
+import { authLimiter, otpLimiter } from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
@@ -36,6 +36,7 @@ const signupValidation = [
       }
       return true;
     }),
+  body('invitationToken').optional().isString().withMessage('Invalid invitation link'),
 ];
 
 const loginValidation = [
@@ -52,6 +53,42 @@ const verifyOtpValidation = [
     .withMessage('OTP must contain only numbers'),
 ];
 
+const totpCode = (field: string) =>
+  body(field)
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits');
+
+// A second factor is either an authenticator code or a recovery code
+const mfaProofValidation = [
+  totpCode('code'),
+  body('recoveryCode').optional().isString().trim(),
+  body().custom((value) => {
+    if (!value?.code && !value?.recoveryCode) {
+      throw new Error('Provide an authentication code or a recovery code');
+    }
+    return true;
+  }),
+];
+
+const loginMfaValidation = [
+  body('mfaToken').notEmpty().withMessage('Sign-in token is required'),
+  ...mfaProofValidation,
+];
+
+const enableMfaValidation = [
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits'),
+];
+
+const disableMfaValidation = [
+  body('password').notEmpty().withMessage('Password is required'),
+  ...mfaProofValidation,
+];
+
 const forgotPasswordValidation = [
   body('email').isEmail().withMessage('Please provide a valid email'),
 ];
@@ -90,6 +127,7 @@ const updatePasswordValidation = [
 // Public routes
 router.post('/signup', signupValidation, catchAsync(authController.signup));
 router.post('/login', loginValidation, catchAsync(authController.login));
+router.post('/login/mfa', authLimiter, loginMfaValidation, catchAsync(authController.verifyLoginMfa));
 router.post('/verify-otp', otpLimiter, verifyOtpValidation, catchAsync(authController.verifyOTP));
 // Forgot/reset password should be public (no token yet)
 router.post(
@@ -103,11 +141,21 @@ router.post(
   resetPasswordValidation,
   catchAsync(authController.resetPassword)
 );
+// Session renewal and logout work from the refresh cookie, so they don't need a live access token
+router.post('/refresh', catchAsync(authController.refresh));
+router.get('/logout', catchAsync(authController.logout));
 
 // Protected routes
 router.use(protect);
 router.get('/me', catchAsync(authController.getCurrentUser));
-router.get('/logout', catchAsync(authController.logout));
+router.get('/sessions', catchAsync(authController.getSessions));
+router.delete('/sessions', catchAsync(authController.revokeAllSessions));
+router.delete('/sessions/:sessionId', catchAsync(authController.revokeSession));
+router.get('/mfa', catchAsync(authController.getMfaStatus));
+router.post('/mfa/setup', catchAsync(authController.setupMfa));
+router.post('/mfa/enable', enableMfaValidation, catchAsync(authController.enableMfa));
+router.post('/mfa/recovery-codes', mfaProofValidation, catchAsync(authController.regenerateRecoveryCodes));
+router.post('/mfa/disable', disableMfaValidation, catchAsync(authController.disableMfa));
 router.patch(
   '/update-password',
   updatePasswordValidation,
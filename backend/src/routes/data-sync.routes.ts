@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { DataSyncController } from '../controllers/data-sync.controller';
-import { protect } from '../middleware/auth.middleware';
+import { protect, authorize, MANAGER_ROLES, SYNC_ROLES } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -11,7 +11,7 @@ router.use(protect);
  * @swagger
  * /api/sync/store/{storeId}:
  *   post:
- *     summary: Trigger a full data sync for a store
+ *     summary: Trigger a data sync for a store (incremental unless full=true)
  *     tags: [Data Sync]
  *     security:
  *       - bearerAuth: []
@@ -22,6 +22,11 @@ router.use(protect);
  *         schema:
  *           type: string
  *         description: The store ID
+ *       - in: query
+ *         name: full
+ *         schema:
+ *           type: boolean
+ *         description: Ignore the stored high-water marks and re-pull every record
  *     responses:
  *       200:
  *         description: Sync started successfully
@@ -30,7 +35,7 @@ router.use(protect);
  *       404:
  *         description: Store not found
  */
-router.post('/store/:storeId', DataSyncController.syncStoreData);
+router.post('/store/:storeId', authorize(...SYNC_ROLES), DataSyncController.syncStoreData);
 
 /**
  * @swagger
@@ -57,6 +62,174 @@ router.post('/store/:storeId', DataSyncController.syncStoreData);
  */
 router.get('/store/:storeId/status', DataSyncController.getSyncStatus);
 
+/**
+ * @swagger
+ * /api/sync/store/{storeId}/runs:
+ *   get:
+ *     summary: List sync runs for a store, newest first
+ *     tags: [Data Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: storeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The store ID
+ *       - in: query
+ *         name: trigger
+ *         schema:
+ *           type: string
+ *           enum: [MANUAL, SCHEDULED, WEBHOOK]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Sync runs retrieved successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Store not found
+ */
+router.get('/store/:storeId/runs', DataSyncController.getSyncRuns);
+
+/**
+ * @swagger
+ * /api/sync/store/{storeId}/runs/{runId}:
+ *   get:
+ *     summary: Get a sync run with per-entity stats and errors
+ *     tags: [Data Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: storeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The store ID
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The sync run ID
+ *     responses:
+ *       200:
+ *         description: Sync run retrieved successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Store or sync run not found
+ */
+router.get('/store/:storeId/runs/:runId', DataSyncController.getSyncRun);
+
+/**
+ * @swagger
+ * /api/sync/store/{storeId}/schedule:
+ *   patch:
+ *     summary: Set, pause or clear a store's scheduled sync interval
+ *     tags: [Data Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: storeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The store ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               intervalMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *                 minimum: 15
+ *                 maximum: 10080
+ *                 description: Minutes between incremental syncs; null removes the schedule
+ *               paused:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Schedule updated
+ *       400:
+ *         description: Invalid interval or paused flag
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Store not found
+ */
+router.patch('/store/:storeId/schedule', authorize(...MANAGER_ROLES), DataSyncController.updateSyncSchedule);
+
+/**
+ * @swagger
+ * /api/sync/store/{storeId}/backfill:
+ *   post:
+ *     summary: Start or resume importing a store's full order history
+ *     tags: [Data Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: storeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The store ID
+ *       - in: query
+ *         name: restart
+ *         schema:
+ *           type: boolean
+ *         description: Discard the checkpoint and start again from the shop's creation date
+ *       - in: query
+ *         name: windowDays
+ *         schema:
+ *           type: integer
+ *         description: Days of orders fetched per window (default 30)
+ *     responses:
+ *       202:
+ *         description: Backfill started or resumed in the background
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Store not found
+ *       409:
+ *         description: A sync or backfill is already running
+ *   get:
+ *     summary: Get the order backfill checkpoint and progress for a store
+ *     tags: [Data Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: storeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The store ID
+ *     responses:
+ *       200:
+ *         description: Backfill progress retrieved successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Store not found
+ */
+router.post('/store/:storeId/backfill', authorize(...SYNC_ROLES), DataSyncController.startOrderBackfill);
+router.get('/store/:storeId/backfill', DataSyncController.getOrderBackfill);
+
 /**
  * @swagger
  * /api/sync/store/{storeId}/{dataType}:
@@ -79,6 +252,11 @@ router.get('/store/:storeId/status', DataSyncController.getSyncStatus);
  *           type: string
  *           enum: [products, customers, orders]
  *         description: The type of data to sync
+ *       - in: query
+ *         name: full
+ *         schema:
+ *           type: boolean
+ *         description: Ignore the stored high-water mark and re-pull every record
  *     responses:
  *       200:
  *         description: Data sync completed successfully
@@ -89,6 +267,6 @@ router.get('/store/:storeId/status', DataSyncController.getSyncStatus);
  *       404:
  *         description: Store not found
  */
-router.post('/store/:storeId/:dataType', DataSyncController.syncStoreDataType);
+router.post('/store/:storeId/:dataType', authorize(...SYNC_ROLES), DataSyncController.syncStoreDataType);
 
 export default router;
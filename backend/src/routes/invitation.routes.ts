@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { param } from 'express-validator';
+import { protect } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate-request.middleware';
+import { acceptInvitation, getInvitation } from '../controllers/invitation.controller';
+
+const router = Router();
+
+const tokenValidation = [param('token').isString().isLength({ min: 20 }).withMessage('Invalid invitation link'), validateRequest];
+
+/**
+ * @swagger
+ * /api/invitations/{token}:
+ *   get:
+ *     summary: Look up an invitation from its emailed link
+ *     tags: [Invitations]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tenant, role and whether the invitee already has an account
+ *       400:
+ *         description: The invitation has expired
+ *       404:
+ *         description: The invitation was revoked, used or replaced
+ */
+router.get('/:token', tokenValidation, getInvitation);
+
+/**
+ * @swagger
+ * /api/invitations/{token}/accept:
+ *   post:
+ *     summary: Join the invited tenant as the signed-in user
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The user now belongs to the invited tenant
+ *       403:
+ *         description: The invitation was sent to a different email address
+ *       409:
+ *         description: The user is the only owner of a tenant with other members
+ */
+router.post('/:token/accept', protect, tokenValidation, acceptInvitation);
+
+export default router;
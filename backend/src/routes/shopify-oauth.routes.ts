@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { protect, authorize, MANAGER_ROLES } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate-request.middleware';
+import { installShopifyApp, shopifyOAuthCallback } from '../controllers/shopify-oauth.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/shopify/install:
+ *   get:
+ *     summary: Start the Shopify OAuth install flow for a shop
+ *     tags: [Shopify]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: shop
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The shop's myshopify.com domain
+ *     responses:
+ *       200:
+ *         description: Authorize URL (when the request accepts JSON)
+ *       302:
+ *         description: Redirect to Shopify's authorize page
+ *       400:
+ *         description: Invalid shop domain
+ *       403:
+ *         description: Only owners and admins can connect stores
+ */
+router.get(
+  '/install',
+  protect,
+  authorize(...MANAGER_ROLES),
+  [query('shop').isString().notEmpty().withMessage('shop is required'), validateRequest],
+  installShopifyApp
+);
+
+// Every parameter Shopify sends is part of the signed message, so each must be a single string
+const callbackQuery = [
+  query('*').isString(),
+  query(['shop', 'code', 'state', 'hmac']).isString().notEmpty(),
+];
+
+/**
+ * @swagger
+ * /api/shopify/callback:
+ *   get:
+ *     summary: OAuth redirect target; verifies the callback and connects the store
+ *     tags: [Shopify]
+ *     responses:
+ *       302:
+ *         description: Redirect back to the frontend with the outcome
+ */
+router.get('/callback', callbackQuery, shopifyOAuthCallback);
+
+export default router;
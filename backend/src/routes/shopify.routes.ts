@@ -1,6 +1,6 @@
 import { Router } from 'express';
-import { param, query } from 'express-validator';
-import { protect } from '../middleware/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { protect, acceptApiKeys, requireScope, authorize, SYNC_ROLES } from '../middleware/auth.middleware';
 import { catchAsync } from '../middleware/error.middleware';
 import { ShopifySyncController } from '../controllers/shopify-sync.controller';
 import { 
@@ -10,22 +10,31 @@ import {
   getCustomerInsights,
   getSalesData,
   getCustomerSplit,
+  getCustomerCohorts,
   getSalesByType,
   getTrafficHeatmap,
-  getDiscountsSummary
+  getDiscountsSummary,
+  getSkuSales
 } from '../controllers/dashboard.controller';
+import * as segmentController from '../controllers/customer-segment.controller';
+import * as customerController from '../controllers/customer.controller';
+import * as orderController from '../controllers/order.controller';
+import { RFM_SEGMENTS } from '../services/customer-segment.service';
+import { COMPARE_MODES } from '../utils/comparison';
 import { validateRequest } from '../middleware/validate-request.middleware';
 
 const router = Router();
 
 // Remove unauthenticated dev routes: all routes below are protected
 
-// Apply protect middleware to all other (and production) routes
-router.use(protect);
+// Apply protect middleware to all other (and production) routes. Tenant API
+// keys work here too: read:analytics for GETs, write:sync to trigger syncs.
+router.use(acceptApiKeys, protect);
 
 // Store endpoints
 router.get(
   '/stores/:storeId',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
@@ -39,6 +48,7 @@ router.get(
 // Sync endpoints
 router.post(
   '/stores/:storeId/sync',
+  requireScope('write:sync', ...SYNC_ROLES),
   [
     param('storeId')
       .isString()
@@ -51,6 +61,7 @@ router.post(
 
 router.get(
   '/stores/:storeId/sync/status',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
@@ -63,6 +74,7 @@ router.get(
 
 router.post(
   '/stores/:storeId/sync/products',
+  requireScope('write:sync', ...SYNC_ROLES),
   [
     param('storeId')
       .isString()
@@ -75,6 +87,7 @@ router.post(
 
 router.post(
   '/stores/:storeId/sync/customers',
+  requireScope('write:sync', ...SYNC_ROLES),
   [
     param('storeId')
       .isString()
@@ -87,6 +100,7 @@ router.post(
 
 router.post(
   '/stores/:storeId/sync/orders',
+  requireScope('write:sync', ...SYNC_ROLES),
   [
     param('storeId')
       .isString()
@@ -101,14 +115,33 @@ router.post(
 
 export default router;
 
-// Analytics routes for dashboard
+// Analytics routes for dashboard. Revenue endpoints leave cancelled orders
+// out unless includeCancelled is true.
+const includeCancelledQuery = query('includeCancelled')
+  .optional()
+  .isBoolean()
+  .withMessage('includeCancelled must be true or false');
+
+// Range endpoints can also return the same figures for a comparison range:
+// the previous period, the same dates last year, or compareStartDate..compareEndDate
+const compareQuery = [
+  query('compare').optional().isIn(COMPARE_MODES).withMessage('compare must be previous, lastYear or custom'),
+  query(['compareStartDate', 'compareEndDate'])
+    .if(query('compare').equals('custom'))
+    .isISO8601()
+    .withMessage('compareStartDate and compareEndDate must be ISO 8601 dates when compare is custom'),
+];
+
 router.get(
   '/stores/:storeId/analytics',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
       .isLength({ min: 12 })
       .withMessage('Invalid store ID'),
+    includeCancelledQuery,
+    ...compareQuery,
     validateRequest,
   ],
   catchAsync(getStoreAnalytics)
@@ -116,18 +149,38 @@ router.get(
 
 router.get(
   '/stores/:storeId/products/top',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
       .isLength({ min: 12 })
       .withMessage('Invalid store ID'),
+    includeCancelledQuery,
     validateRequest,
   ],
   catchAsync(getTopProducts)
 );
 
+router.get(
+  '/stores/:storeId/products/sku-sales',
+  requireScope('read:analytics'),
+  [
+    param('storeId')
+      .isString()
+      .isLength({ min: 12 })
+      .withMessage('Invalid store ID'),
+    query('startDate').optional().isISO8601().withMessage('startDate must be an ISO 8601 date'),
+    query('endDate').optional().isISO8601().withMessage('endDate must be an ISO 8601 date'),
+    includeCancelledQuery,
+    ...compareQuery,
+    validateRequest,
+  ],
+  catchAsync(getSkuSales)
+);
+
 router.get(
   '/stores/:storeId/orders/recent',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
@@ -140,11 +193,13 @@ router.get(
 
 router.get(
   '/stores/:storeId/customers/insights',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
       .isLength({ min: 12 })
       .withMessage('Invalid store ID'),
+    includeCancelledQuery,
     validateRequest,
   ],
   catchAsync(getCustomerInsights)
@@ -152,11 +207,14 @@ router.get(
 
 router.get(
   '/stores/:storeId/sales',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
       .isLength({ min: 12 })
       .withMessage('Invalid store ID'),
+    includeCancelledQuery,
+    ...compareQuery,
     validateRequest,
   ],
   catchAsync(getSalesData)
@@ -165,23 +223,47 @@ router.get(
 // New analytics endpoints
 router.get(
   '/stores/:storeId/customers/split',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
       .isLength({ min: 12 })
       .withMessage('Invalid store ID'),
+    includeCancelledQuery,
+    ...compareQuery,
     validateRequest,
   ],
   catchAsync(getCustomerSplit)
 );
 
+router.get(
+  '/stores/:storeId/customers/cohorts',
+  requireScope('read:analytics'),
+  [
+    param('storeId')
+      .isString()
+      .isLength({ min: 12 })
+      .withMessage('Invalid store ID'),
+    query('months')
+      .optional()
+      .isInt({ min: 1, max: 24 })
+      .withMessage('months must be between 1 and 24'),
+    includeCancelledQuery,
+    validateRequest,
+  ],
+  catchAsync(getCustomerCohorts)
+);
+
 router.get(
   '/stores/:storeId/sales/by-type',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
       .isLength({ min: 12 })
       .withMessage('Invalid store ID'),
+    includeCancelledQuery,
+    ...compareQuery,
     validateRequest,
   ],
   catchAsync(getSalesByType)
@@ -189,11 +271,14 @@ router.get(
 
 router.get(
   '/stores/:storeId/traffic/heatmap',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
       .isLength({ min: 12 })
       .withMessage('Invalid store ID'),
+    includeCancelledQuery,
+    ...compareQuery,
     validateRequest,
   ],
   catchAsync(getTrafficHeatmap)
@@ -201,12 +286,150 @@ router.get(
 
 router.get(
   '/stores/:storeId/discounts/summary',
+  requireScope('read:analytics'),
   [
     param('storeId')
       .isString()
       .isLength({ min: 12 })
       .withMessage('Invalid store ID'),
+    includeCancelledQuery,
+    ...compareQuery,
     validateRequest,
   ],
   catchAsync(getDiscountsSummary)
 );
+
+// Customer segments. Reads work with read:analytics keys; saved segments are
+// managed by signed-in users only (authorize() turns keys away).
+const storeIdParam = param('storeId').isString().isLength({ min: 12 }).withMessage('Invalid store ID');
+const memberQuery = [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200'),
+  query('format').optional().isIn(['json', 'csv']).withMessage('Format must be json or csv'),
+];
+const segmentBody = (optional: boolean) => [
+  (optional ? body('name').optional() : body('name'))
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+  body('description')
+    .optional({ values: 'null' })
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters'),
+  (optional ? body('filters').optional() : body('filters'))
+    .isObject()
+    .withMessage('Filters must be an object'),
+];
+
+router.get(
+  '/stores/:storeId/customers/rfm',
+  requireScope('read:analytics'),
+  [storeIdParam, validateRequest],
+  catchAsync(segmentController.getRfmSegments)
+);
+
+router.get(
+  '/stores/:storeId/customers/rfm/:segment/members',
+  requireScope('read:analytics'),
+  [
+    storeIdParam,
+    param('segment')
+      .isIn(RFM_SEGMENTS.map((segment) => segment.key))
+      .withMessage('Unknown RFM segment'),
+    ...memberQuery,
+    validateRequest,
+  ],
+  catchAsync(segmentController.getRfmSegmentMembers)
+);
+
+router
+  .route('/stores/:storeId/customers/segments')
+  .get(requireScope('read:analytics'), [storeIdParam, validateRequest], catchAsync(segmentController.getSavedSegments))
+  .post(
+    authorize(...SYNC_ROLES),
+    [storeIdParam, ...segmentBody(false), validateRequest],
+    catchAsync(segmentController.createSavedSegment)
+  );
+
+router
+  .route('/stores/:storeId/customers/segments/:segmentId')
+  .patch(
+    authorize(...SYNC_ROLES),
+    [storeIdParam, ...segmentBody(true), validateRequest],
+    catchAsync(segmentController.updateSavedSegment)
+  )
+  .delete(authorize(...SYNC_ROLES), [storeIdParam, validateRequest], catchAsync(segmentController.deleteSavedSegment));
+
+router.get(
+  '/stores/:storeId/customers/segments/:segmentId/members',
+  requireScope('read:analytics'),
+  [storeIdParam, ...memberQuery, validateRequest],
+  catchAsync(segmentController.getSavedSegmentMembers)
+);
+
+// Customers with lifetime value. Registered last so the fixed
+// /customers/... paths above win over :customerId.
+router.get(
+  '/stores/:storeId/customers',
+  requireScope('read:analytics'),
+  [
+    storeIdParam,
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('sort')
+      .optional()
+      .isIn(customerController.CUSTOMER_SORT_FIELDS)
+      .withMessage(`Sort must be one of ${customerController.CUSTOMER_SORT_FIELDS.join(', ')}`),
+    query('order').optional().isIn(['asc', 'desc']).withMessage('Order must be asc or desc'),
+    query('search').optional().isString().isLength({ max: 200 }),
+    query('tags').optional().isString().isLength({ max: 500 }),
+    query('acceptsMarketing').optional().isBoolean().withMessage('acceptsMarketing must be true or false'),
+    query('minSpend').optional().isFloat({ min: 0 }).withMessage('minSpend must be a non-negative number'),
+    query('maxSpend').optional().isFloat({ min: 0 }).withMessage('maxSpend must be a non-negative number'),
+    validateRequest,
+  ],
+  catchAsync(customerController.getCustomers)
+);
+
+router.get(
+  '/stores/:storeId/customers/:customerId',
+  requireScope('read:analytics'),
+  [storeIdParam, validateRequest],
+  catchAsync(customerController.getCustomer)
+);
+
+// Order explorer. /orders/recent above is registered first, so it isn't
+// taken for an :orderId.
+router.get(
+  '/stores/:storeId/orders',
+  requireScope('read:analytics'),
+  [
+    storeIdParam,
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('cursor').optional().isString().isLength({ max: 100 }),
+    query('financialStatus').optional().isString().isLength({ max: 200 }),
+    query('fulfillmentStatus').optional().isString().isLength({ max: 200 }),
+    query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+    query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date'),
+    query('minTotal').optional().isFloat({ min: 0 }).withMessage('minTotal must be a non-negative number'),
+    query('maxTotal').optional().isFloat({ min: 0 }).withMessage('maxTotal must be a non-negative number'),
+    query('discountCode').optional().isString().isLength({ max: 100 }),
+    query('tag').optional().isString().isLength({ max: 500 }),
+    query('customerId').optional().isString().isLength({ max: 100 }),
+    query('customer').optional().isString().isLength({ max: 200 }),
+    query('orderNumber').optional().isString().isLength({ max: 50 }),
+    validateRequest,
+  ],
+  catchAsync(orderController.getOrders)
+);
+
+router.get(
+  '/stores/:storeId/orders/:orderId',
+  requireScope('read:analytics'),
+  [storeIdParam, validateRequest],
+  catchAsync(orderController.getOrder)
+);
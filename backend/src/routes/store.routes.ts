@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { body, param, query } from 'express-validator';
 import * as storeController from '../controllers/store.controller';
-import { protect } from '../middleware/auth.middleware';
+import { protect, authorize, MANAGER_ROLES } from '../middleware/auth.middleware';
 import { catchAsync } from '../middleware/error.middleware';
 
 const router = Router();
@@ -15,6 +15,7 @@ router
   // In dev the GET above already exists; registering this again after protect keeps prod behavior
   .get(catchAsync(storeController.getStores))
   .post(
+    authorize(...MANAGER_ROLES),
     [
       body('name')
         .optional()
@@ -43,6 +44,7 @@ router
     catchAsync(storeController.getStore)
   )
   .patch(
+    authorize(...MANAGER_ROLES),
     [
       param('storeId').isUUID().withMessage('Invalid store ID'),
       body('name')
@@ -63,6 +65,7 @@ router
     catchAsync(storeController.updateStore)
   )
   .delete(
+    authorize(...MANAGER_ROLES),
     [param('storeId').isUUID().withMessage('Invalid store ID')],
     catchAsync(storeController.deleteStore)
   );
@@ -1,8 +1,11 @@
 import { Router } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import * as tenantController from '../controllers/tenant.controller';
-import { protect, checkTenantAccess } from '../middleware/auth.middleware';
+import { UserRole } from '@prisma/client';
+import { protect, checkTenantAccess, authorize, MANAGER_ROLES } from '../middleware/auth.middleware';
 import { catchAsync } from '../middleware/error.middleware';
+import { validateRequest } from '../middleware/validate-request.middleware';
+import { API_KEY_SCOPES } from '../services/api-key.service';
 
 const router = Router();
 
@@ -37,6 +40,7 @@ router
   .route('/:tenantId')
   .get(catchAsync(tenantController.getTenant))
   .patch(
+    authorize(...MANAGER_ROLES),
     [
       body('name')
         .optional()
@@ -48,24 +52,142 @@ router
     ],
     catchAsync(tenantController.updateTenant)
   )
-  .delete(catchAsync(tenantController.deleteTenant));
+  .delete(authorize(UserRole.OWNER), catchAsync(tenantController.deleteTenant));
 
 // User management routes
 router
   .route('/:tenantId/users')
   .get(catchAsync(tenantController.getTenantUsers))
   .post(
+    authorize(...MANAGER_ROLES),
     [
       body('email')
         .isEmail()
         .withMessage('Please provide a valid email')
         .normalizeEmail(),
+      body('role')
+        .optional()
+        .isIn(Object.values(UserRole))
+        .withMessage(`Role must be one of ${Object.values(UserRole).join(', ')}`),
+      validateRequest,
     ],
     catchAsync(tenantController.addUserToTenant)
   );
 
 router
   .route('/:tenantId/users/:userId')
-  .delete(catchAsync(tenantController.removeUserFromTenant));
+  .delete(authorize(...MANAGER_ROLES), catchAsync(tenantController.removeUserFromTenant));
+
+router
+  .route('/:tenantId/users/:userId/role')
+  .patch(
+    authorize(...MANAGER_ROLES),
+    [
+      body('role')
+        .isIn(Object.values(UserRole))
+        .withMessage(`Role must be one of ${Object.values(UserRole).join(', ')}`),
+      validateRequest,
+    ],
+    catchAsync(tenantController.updateUserRole)
+  );
+
+// Invitation routes
+router
+  .route('/:tenantId/invitations')
+  .get(authorize(...MANAGER_ROLES), catchAsync(tenantController.getTenantInvitations))
+  .post(
+    authorize(...MANAGER_ROLES),
+    [
+      body('email')
+        .isEmail()
+        .withMessage('Please provide a valid email')
+        .normalizeEmail(),
+      body('role')
+        .optional()
+        .isIn(Object.values(UserRole))
+        .withMessage(`Role must be one of ${Object.values(UserRole).join(', ')}`),
+      validateRequest,
+    ],
+    catchAsync(tenantController.inviteUserToTenant)
+  );
+
+router
+  .route('/:tenantId/invitations/:invitationId')
+  .delete(authorize(...MANAGER_ROLES), catchAsync(tenantController.revokeInvitation));
+
+router.post(
+  '/:tenantId/invitations/:invitationId/resend',
+  authorize(...MANAGER_ROLES),
+  catchAsync(tenantController.resendInvitation)
+);
+
+// API key routes
+router
+  .route('/:tenantId/api-keys')
+  .get(authorize(...MANAGER_ROLES), catchAsync(tenantController.getTenantApiKeys))
+  .post(
+    authorize(...MANAGER_ROLES),
+    [
+      body('name')
+        .trim()
+        .notEmpty()
+        .withMessage('Name is required')
+        .isLength({ max: 100 })
+        .withMessage('Name must be at most 100 characters'),
+      body('scopes')
+        .isArray({ min: 1 })
+        .withMessage('Choose at least one scope'),
+      body('scopes.*')
+        .isIn(API_KEY_SCOPES)
+        .withMessage(`Scopes must be among ${API_KEY_SCOPES.join(', ')}`),
+      body('expiresAt')
+        .optional({ values: 'null' })
+        .isISO8601()
+        .withMessage('Expiry must be an ISO 8601 date'),
+      validateRequest,
+    ],
+    catchAsync(tenantController.createApiKey)
+  );
+
+router
+  .route('/:tenantId/api-keys/:apiKeyId')
+  .delete(authorize(...MANAGER_ROLES), catchAsync(tenantController.revokeApiKey));
+
+// Audit log
+router.get(
+  '/:tenantId/audit',
+  authorize(...MANAGER_ROLES),
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('action')
+      .optional()
+      .matches(/^[a-z_]+(\.[a-z_]+)?$/)
+      .withMessage('Action must be an action such as store.deleted or a category such as store'),
+    query('actorId').optional().isString(),
+    query('targetType').optional().isString(),
+    query('targetId').optional().isString(),
+    query('from').optional().isISO8601().withMessage('From must be an ISO 8601 date'),
+    query('to').optional().isISO8601().withMessage('To must be an ISO 8601 date'),
+    validateRequest,
+  ],
+  catchAsync(tenantController.getTenantAuditLog)
+);
+
+// Sales across the tenant's stores in one reporting currency
+router.get(
+  '/:tenantId/totals',
+  [
+    query('currency')
+      .optional()
+      .matches(/^[A-Za-z]{3}$/)
+      .withMessage('Currency must be a 3-letter ISO 4217 code'),
+    query('startDate').optional().isISO8601().withMessage('Start date must be an ISO 8601 date'),
+    query('endDate').optional().isISO8601().withMessage('End date must be an ISO 8601 date'),
+    query('includeCancelled').optional().isBoolean().withMessage('includeCancelled must be true or false'),
+    validateRequest,
+  ],
+  catchAsync(tenantController.getTenantTotals)
+);
 
 export default router;
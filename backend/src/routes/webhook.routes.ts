@@ -0,0 +1,10 @@
+import express, { Router } from 'express';
+import { receiveShopifyWebhook } from '../controllers/webhook.controller';
+
+const router = Router();
+
+// Webhooks are authenticated by HMAC, not by user session. The body is kept
+// raw so the signature can be checked against the bytes Shopify sent.
+router.post('/shopify', express.raw({ type: 'application/json', limit: '2mb' }), receiveShopifyWebhook);
+
+export default router;
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { PrismaClient } from '@prisma/client';
+import { DataSyncService } from '../data-sync.service';
+import type { ShopifyService } from '../shopify.service';
+
+const store = { id: 'store-1', tenantId: 'tenant-1', domain: 'harness-test.myshopify.com' };
+
+const order = (updatedAt: string) => ({
+  id: 9500000001,
+  order_number: 9001,
+  email: 'buyer@example.com',
+  total_price: '52.50',
+  created_at: '2025-01-12T14:30:00-05:00',
+  processed_at: '2025-01-12T14:30:00-05:00',
+  updated_at: updatedAt,
+  line_items: [{ id: 1, product_id: 9100000001, title: 'Mug', price: '25.00', quantity: 2 }],
+});
+
+const product = (updatedAt: string) => ({
+  id: 9100000001,
+  title: 'Mug',
+  vendor: 'Harness',
+  handle: 'mug',
+  created_at: '2025-01-10T09:00:00-05:00',
+  updated_at: updatedAt,
+  variants: [],
+});
+
+describe('DataSyncService webhook payloads', () => {
+  // What the row lock in each upsert returns, i.e. the stored record if any
+  let stored: { id: string; shopifyUpdatedAt: Date | null }[];
+  let tx: Record<string, any>;
+  let sync: DataSyncService;
+
+  beforeEach(() => {
+    stored = [];
+    tx = {
+      $queryRaw: jest.fn(async () => stored),
+      order: { upsert: jest.fn(async () => ({ id: 'order-1', storeId: store.id, tenantId: store.tenantId, processedAt: new Date(), refunds: [] })) },
+      orderLineItem: { deleteMany: jest.fn(async () => ({ count: 0 })), createMany: jest.fn(async () => ({ count: 1 })) },
+      product: { upsert: jest.fn(async () => ({ id: 'product-1' })) },
+    };
+    const prisma = {
+      $transaction: (work: (client: typeof tx) => Promise<unknown>) => work(tx),
+      product: { deleteMany: jest.fn(async () => ({ count: 0 })) },
+    } as unknown as PrismaClient;
+    sync = new DataSyncService({} as ShopifyService, store, prisma);
+  });
+
+  it('creates an order it has not stored yet', async () => {
+    await expect(sync.applyOrder(order('2025-01-12T14:30:00-05:00') as any)).resolves.toBe('created');
+    expect(tx.order.upsert).toHaveBeenCalledTimes(1);
+    expect(tx.orderLineItem.createMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('updates an order from a newer payload', async () => {
+    stored = [{ id: 'order-1', shopifyUpdatedAt: new Date('2025-01-12T19:30:00Z') }];
+    await expect(sync.applyOrder(order('2025-01-13T10:00:00-05:00') as any)).resolves.toBe('updated');
+    expect(tx.order.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies a payload with the same timestamp again', async () => {
+    stored = [{ id: 'order-1', shopifyUpdatedAt: new Date('2025-01-12T19:30:00Z') }];
+    await expect(sync.applyOrder(order('2025-01-12T14:30:00-05:00') as any)).resolves.toBe('updated');
+  });
+
+  it('skips an order payload older than the stored record', async () => {
+    stored = [{ id: 'order-1', shopifyUpdatedAt: new Date('2025-01-13T15:00:00Z') }];
+    await expect(sync.applyOrder(order('2025-01-12T14:30:00-05:00') as any)).resolves.toBe('skipped');
+    expect(tx.order.upsert).not.toHaveBeenCalled();
+    expect(tx.orderLineItem.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('updates rows stored before Shopify timestamps were kept', async () => {
+    stored = [{ id: 'order-1', shopifyUpdatedAt: null }];
+    await expect(sync.applyOrder(order('2025-01-12T14:30:00-05:00') as any)).resolves.toBe('updated');
+  });
+
+  it('skips a product payload older than the stored record', async () => {
+    stored = [{ id: 'product-1', shopifyUpdatedAt: new Date('2025-02-01T00:00:00Z') }];
+    await expect(sync.applyProduct(product('2025-01-15T09:00:00-05:00') as any)).resolves.toBe('skipped');
+    expect(tx.product.upsert).not.toHaveBeenCalled();
+  });
+
+  it('reports a delete of an unknown product as skipped', async () => {
+    await expect(sync.removeProduct(9100000001)).resolves.toBe('skipped');
+  });
+});
@@ -0,0 +1,180 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import type { Store } from '@prisma/client';
+import { LeakyBucket, ShopifyClient, ShopifyClientOptions, getBucketForShop, parseRetryAfter } from '../shopify-client';
+import { StoreService } from '../store.service';
+import {
+  ShopifyAuthError,
+  ShopifyNotFoundError,
+  ShopifyServerError,
+  ShopifyThrottledError,
+} from '../../utils/errors';
+
+type MockReply = { status: number; headers?: Record<string, string>; body?: any };
+
+// Replies are queued per shop domain; the mock pops one per request
+const replies = new Map<string, MockReply[]>();
+const hits = new Map<string, number>();
+
+function queue(shop: string, ...items: MockReply[]) {
+  replies.set(shop, items);
+  hits.set(shop, 0);
+}
+
+const ok = (body: any = { shop: { name: 'ok' } }, callLimit = '1/40'): MockReply => ({
+  status: 200,
+  headers: { 'X-Shopify-Shop-Api-Call-Limit': callLimit },
+  body,
+});
+
+// A local stand-in for the Admin API. Every test uses its own shop, passed as
+// the first path segment, to keep the mock stateless.
+const server = http.createServer((req, res) => {
+  const shop = new URL(req.url || '/', 'http://mock').pathname.split('/')[1];
+  hits.set(shop, (hits.get(shop) || 0) + 1);
+  const reply = replies.get(shop)?.shift() || { status: 200, body: { shop: { name: shop } } };
+  res.writeHead(reply.status, { 'Content-Type': 'application/json', ...(reply.headers || {}) });
+  res.end(JSON.stringify(reply.body ?? { errors: `mock ${reply.status}` }));
+});
+
+let origin = '';
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// Small delays so the retry tests take milliseconds
+const options = (shop: string): ShopifyClientOptions => ({
+  baseURL: `${origin}/${shop}`,
+  baseDelayMs: 20,
+  maxDelayMs: 100,
+  maxRetries: 3,
+  timeoutMs: 2000,
+});
+const client = (shop: string) => new ShopifyClient(shop, 'test-token', options(shop));
+
+describe('parseRetryAfter', () => {
+  it('reads seconds, including fractions, as milliseconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0.25')).toBe(250);
+  });
+
+  it('reads an HTTP date as the time until then', () => {
+    const ms = parseRetryAfter(new Date(Date.now() + 5000).toUTCString());
+    expect(ms).toBeGreaterThan(3000);
+    expect(ms).toBeLessThanOrEqual(5000);
+  });
+
+  it('never returns a negative delay', () => {
+    expect(parseRetryAfter('-3')).toBe(0);
+    expect(parseRetryAfter(new Date(Date.now() - 60_000).toUTCString())).toBe(0);
+  });
+
+  it('ignores missing or unparseable values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('LeakyBucket', () => {
+  it('takes its level and capacity from the call-limit header', () => {
+    const bucket = new LeakyBucket();
+    bucket.observe('32/80');
+    expect(bucket.usage.capacity).toBe(80);
+    expect(bucket.usage.level).toBeGreaterThan(31);
+  });
+
+  it('ignores malformed call-limit headers', () => {
+    const bucket = new LeakyBucket(40);
+    bucket.observe('not-a-limit');
+    expect(bucket.usage).toEqual({ level: 0, capacity: 40 });
+  });
+
+  it('makes a caller wait for a slot once full', async () => {
+    const bucket = new LeakyBucket(2, 10);
+    bucket.fill();
+    const started = Date.now();
+    await bucket.acquire();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(80);
+  });
+});
+
+describe('ShopifyClient', () => {
+  it('retries a 429 after the advertised Retry-After', async () => {
+    queue('retry-after', { status: 429, headers: { 'Retry-After': '0.3' } }, ok());
+    const started = Date.now();
+    await client('retry-after').get('/shop.json');
+    expect(hits.get('retry-after')).toBe(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(300);
+  });
+
+  it('retries a 503 with backoff until it succeeds', async () => {
+    queue('flaky', { status: 503 }, { status: 503 }, ok());
+    const res = await client('flaky').get<any>('/shop.json');
+    expect(hits.get('flaky')).toBe(3);
+    expect(res.data.shop.name).toBe('ok');
+  });
+
+  it('raises ShopifyThrottledError when 429s outlast the retries', async () => {
+    const throttled = { status: 429, headers: { 'Retry-After': '0.01' } };
+    queue('throttled', throttled, throttled, throttled, throttled, throttled);
+    const error = await client('throttled').get('/shop.json').catch((err) => err);
+    expect(error).toBeInstanceOf(ShopifyThrottledError);
+    expect((error as ShopifyThrottledError).retryAfterMs).toBe(10);
+    expect(hits.get('throttled')).toBe(4);
+  });
+
+  it('raises ShopifyServerError when 500s outlast the retries', async () => {
+    queue('down', { status: 500 }, { status: 500 }, { status: 500 }, { status: 500 });
+    await expect(client('down').get('/shop.json')).rejects.toBeInstanceOf(ShopifyServerError);
+    expect(hits.get('down')).toBe(4);
+  });
+
+  it('raises ShopifyAuthError on a 401 without retrying', async () => {
+    queue('revoked', { status: 401, body: { errors: '[API] Invalid API key or access token' } });
+    await expect(client('revoked').get('/shop.json')).rejects.toBeInstanceOf(ShopifyAuthError);
+    expect(hits.get('revoked')).toBe(1);
+  });
+
+  it('raises ShopifyNotFoundError on a 404 without retrying', async () => {
+    queue('missing', { status: 404 });
+    await expect(client('missing').get('/products/1.json')).rejects.toBeInstanceOf(ShopifyNotFoundError);
+    expect(hits.get('missing')).toBe(1);
+  });
+
+  it('waits before the next request when the call limit is near capacity', async () => {
+    // Capacity 4 leaking 2/s: "4/4" means the next slot frees up in ~500ms
+    queue('busy', ok(undefined, '4/4'), ok(undefined, '1/4'));
+    const busy = client('busy');
+    await busy.get('/shop.json');
+    const usage = getBucketForShop('busy').usage;
+    const started = Date.now();
+    await busy.get('/shop.json');
+    expect(usage.capacity).toBe(4);
+    expect(usage.level).toBeGreaterThan(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(400);
+  });
+});
+
+describe('StoreService.verifyStoreConnection', () => {
+  const storeService = new StoreService();
+  const store = (domain: string) => ({ id: domain, domain, accessToken: 'test-token' }) as Store;
+
+  it('returns false for a revoked token', async () => {
+    queue('verify-revoked', { status: 401 });
+    await expect(storeService.verifyStoreConnection(store('verify-revoked'), options('verify-revoked'))).resolves.toBe(false);
+  });
+
+  it('throws on a Shopify outage instead of returning false', async () => {
+    queue('verify-down', { status: 502 }, { status: 502 }, { status: 502 }, { status: 502 });
+    await expect(
+      storeService.verifyStoreConnection(store('verify-down'), options('verify-down'))
+    ).rejects.toBeInstanceOf(ShopifyServerError);
+  });
+});
@@ -0,0 +1,179 @@
+import http from 'http';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { PrismaClient, Store } from '@prisma/client';
+import { ShopifyOAuthService, isValidShopDomain, verifyOAuthHmac } from '../shopify-oauth.service';
+import type { StoreService } from '../store.service';
+import { UnauthorizedError, ValidationError } from '../../utils/errors';
+
+// Audit entries would need a database; the flow itself is what's under test
+jest.mock('../audit.service', () => ({ auditService: { record: jest.fn() } }));
+
+const SHOP = 'oauth-check.myshopify.com';
+const API_KEY = 'stub-api-key';
+const API_SECRET = 'stub-api-secret';
+const CODE = 'stub-authorization-code';
+const ACCESS_TOKEN = 'shpat_stub_oauth_token';
+const GRANTED_SCOPE = 'read_products,read_customers,read_orders';
+
+function sign(params: Record<string, string>, secret = API_SECRET): Record<string, string> {
+  const message = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  return { ...params, hmac: createHmac('sha256', secret).update(message).digest('hex') };
+}
+
+// Just enough of Shopify for the token exchange and the shop lookup after it
+const stub = express();
+stub.use(express.json());
+stub.post('/admin/oauth/access_token', (req, res) => {
+  const { client_id, client_secret, code } = req.body || {};
+  if (client_id !== API_KEY || client_secret !== API_SECRET || code !== CODE) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'bad client credentials or code' });
+  }
+  res.json({ access_token: ACCESS_TOKEN, scope: GRANTED_SCOPE });
+});
+stub.get('/admin/api/:version/shop.json', (req, res) => {
+  if (req.get('X-Shopify-Access-Token') !== ACCESS_TOKEN) {
+    return res.status(401).json({ errors: '[API] Invalid API key or access token' });
+  }
+  res.json({ shop: { id: 88000001, name: 'OAuth Check Shop', currency: 'EUR', iana_timezone: 'Europe/Berlin' } });
+});
+const stubServer = http.createServer(stub);
+
+const savedEnv = { ...process.env };
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => stubServer.listen(0, '127.0.0.1', resolve));
+  process.env.SHOPIFY_API_BASE_URL = `http://127.0.0.1:${(stubServer.address() as AddressInfo).port}`;
+  process.env.SHOPIFY_API_KEY = API_KEY;
+  process.env.SHOPIFY_API_SECRET = API_SECRET;
+});
+
+afterAll(async () => {
+  process.env = savedEnv;
+  await new Promise((resolve) => stubServer.close(resolve));
+});
+
+describe('verifyOAuthHmac', () => {
+  const params = { code: CODE, shop: SHOP, state: 'abc', timestamp: '1700000000' };
+
+  it('accepts a callback signed with the app secret', () => {
+    expect(verifyOAuthHmac(sign(params), API_SECRET)).toBe(true);
+  });
+
+  it('ignores the legacy signature parameter', () => {
+    expect(verifyOAuthHmac({ ...sign(params), signature: 'legacy' }, API_SECRET)).toBe(true);
+  });
+
+  it('rejects a tampered parameter, another secret or a missing hmac', () => {
+    expect(verifyOAuthHmac({ ...sign(params), code: 'other-code' }, API_SECRET)).toBe(false);
+    expect(verifyOAuthHmac(sign(params, 'other-secret'), API_SECRET)).toBe(false);
+    expect(verifyOAuthHmac(params, API_SECRET)).toBe(false);
+  });
+});
+
+describe('isValidShopDomain', () => {
+  it('only accepts myshopify.com domains', () => {
+    expect(isValidShopDomain(SHOP)).toBe(true);
+    expect(isValidShopDomain('evil.example.com')).toBe(false);
+    expect(isValidShopDomain('oauth-check.myshopify.com.evil.com')).toBe(false);
+    expect(isValidShopDomain(undefined)).toBe(false);
+  });
+});
+
+describe('ShopifyOAuthService', () => {
+  type SavedState = { id: string; state: string; shop: string; tenantId: string; userId: string; expiresAt: Date };
+  let states: Map<string, SavedState>;
+  let connectStore: jest.Mock<StoreService['connectStore']>;
+  let service: ShopifyOAuthService;
+
+  beforeEach(() => {
+    states = new Map();
+    const prisma = {
+      oAuthState: {
+        deleteMany: async () => ({ count: 0 }),
+        create: async ({ data }: { data: Omit<SavedState, 'id'> }) => {
+          const row = { ...data, id: data.state };
+          states.set(row.state, row);
+          return row;
+        },
+        findUnique: async ({ where }: { where: { state: string } }) => states.get(where.state) ?? null,
+        delete: async ({ where }: { where: { id: string } }) => states.delete(where.id),
+      },
+      user: { findUnique: async () => ({ email: 'owner@example.com' }) },
+    } as unknown as PrismaClient;
+    connectStore = jest.fn(async (params) => ({ id: 'store-1', domain: params.domain, tenantId: params.tenantId }) as Store);
+    service = new ShopifyOAuthService(prisma, { connectStore } as unknown as StoreService);
+  });
+
+  const install = async () => {
+    const url = new URL(await service.createAuthorizeUrl({ shop: SHOP, tenantId: 'tenant-1', userId: 'user-1' }));
+    return url.searchParams.get('state') || '';
+  };
+  const callback = (state: string, overrides: Record<string, string> = {}) =>
+    sign({ code: CODE, shop: SHOP, state, timestamp: String(Math.floor(Date.now() / 1000)), ...overrides });
+
+  it('builds the authorize URL with the client id and a stored state', async () => {
+    const url = new URL(await service.createAuthorizeUrl({ shop: SHOP, tenantId: 'tenant-1', userId: 'user-1' }));
+    expect(url.host).toBe(SHOP);
+    expect(url.pathname).toBe('/admin/oauth/authorize');
+    expect(url.searchParams.get('client_id')).toBe(API_KEY);
+    expect(states.has(url.searchParams.get('state') || '')).toBe(true);
+  });
+
+  it('refuses to start an install for a non-myshopify domain', async () => {
+    await expect(
+      service.createAuthorizeUrl({ shop: 'evil.example.com', tenantId: 'tenant-1', userId: 'user-1' })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('exchanges the code and connects the store with the granted scopes', async () => {
+    const store = await service.handleCallback(callback(await install()));
+
+    expect(store.id).toBe('store-1');
+    expect(connectStore).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      domain: SHOP,
+      accessToken: ACCESS_TOKEN,
+      shopifyId: '88000001',
+      name: 'OAuth Check Shop',
+      scope: GRANTED_SCOPE.split(','),
+      currency: 'EUR',
+      timezone: 'Europe/Berlin',
+    });
+  });
+
+  it('rejects a callback with a bad HMAC', async () => {
+    const state = await install();
+    await expect(service.handleCallback({ ...callback(state), code: 'other-code' })).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(connectStore).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown state', async () => {
+    await expect(service.handleCallback(callback('never-issued'))).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('only accepts a state once', async () => {
+    const state = await install();
+    await service.handleCallback(callback(state));
+    await expect(service.handleCallback(callback(state))).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(connectStore).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an expired state', async () => {
+    const state = await install();
+    states.get(state)!.expiresAt = new Date(Date.now() - 1000);
+    await expect(service.handleCallback(callback(state))).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('rejects a state issued for another shop', async () => {
+    const state = await install();
+    await expect(
+      service.handleCallback(callback(state, { shop: 'other-shop.myshopify.com' }))
+    ).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+});
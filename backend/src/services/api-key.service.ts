@@ -0,0 +1,117 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKey, PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export const API_KEY_SCOPES = ['read:analytics', 'write:sync'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Every key starts with this, so protect() can tell keys from JWTs
+export const API_KEY_PREFIX = 'xk_';
+
+// How many characters of the key are kept in the clear to identify it
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Don't write lastUsedAt on every request from a busy script
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+const toPublicApiKey = ({ keyHash: _, ...apiKey }: ApiKey): PublicApiKey => apiKey;
+
+export const isApiKey = (token: string) => token.startsWith(API_KEY_PREFIX);
+
+/**
+ * Tenant API keys. A key is shown once when created; afterwards only its
+ * prefix is known, and requests are matched by the key's hash.
+ */
+export class ApiKeyService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  async create(params: {
+    tenantId: string;
+    createdById: string;
+    name: string;
+    scopes: ApiKeyScope[];
+    expiresAt?: Date | null;
+  }): Promise<{ apiKey: PublicApiKey; key: string }> {
+    if (!params.scopes.length) {
+      throw new ValidationError('An API key needs at least one scope');
+    }
+    if (params.expiresAt && params.expiresAt <= new Date()) {
+      throw new ValidationError('Expiry must be in the future');
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const apiKey = await this.prismaClient.apiKey.create({
+      data: {
+        tenantId: params.tenantId,
+        createdById: params.createdById,
+        name: params.name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashKey(key),
+        scopes: Array.from(new Set(params.scopes)),
+        expiresAt: params.expiresAt ?? null,
+      },
+    });
+
+    logger.info(`API key ${apiKey.prefix} created for tenant ${params.tenantId}`);
+    return { apiKey: toPublicApiKey(apiKey), key };
+  }
+
+  /**
+   * Keys that haven't been revoked, including expired ones
+   */
+  async list(tenantId: string) {
+    const apiKeys = await this.prismaClient.apiKey.findMany({
+      where: { tenantId, revokedAt: null },
+      include: { createdBy: { select: { id: true, email: true, username: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+    return apiKeys.map(({ keyHash: _, ...apiKey }) => ({
+      ...apiKey,
+      isExpired: !!apiKey.expiresAt && apiKey.expiresAt < new Date(),
+    }));
+  }
+
+  async revoke(tenantId: string, apiKeyId: string): Promise<PublicApiKey> {
+    const existing = await this.prismaClient.apiKey.findFirst({
+      where: { id: apiKeyId, tenantId, revokedAt: null },
+    });
+    if (!existing) {
+      throw new NotFoundError('API key not found');
+    }
+
+    const apiKey = await this.prismaClient.apiKey.update({
+      where: { id: apiKeyId },
+      data: { revokedAt: new Date() },
+    });
+    logger.info(`API key ${apiKey.prefix} revoked for tenant ${tenantId}`);
+    return toPublicApiKey(apiKey);
+  }
+
+  /**
+   * Look up the live key for a request, or null if it's unknown, revoked or
+   * expired
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const apiKey = await this.prismaClient.apiKey.findUnique({ where: { keyHash: hashKey(key) } });
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+      return null;
+    }
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      this.prismaClient.apiKey
+        .update({ where: { id: apiKey.id }, data: { lastUsedAt: now } })
+        .catch((error) => logger.warn(`Failed to record use of API key ${apiKey.prefix}:`, error));
+    }
+
+    return apiKey;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
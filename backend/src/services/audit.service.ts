@@ -0,0 +1,133 @@
+import type { Request } from 'express';
+import type { AuditLog, Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+
+export type AuditActorType = 'USER' | 'API_KEY' | 'SYSTEM';
+
+// Who did something, and from where
+export interface AuditContext {
+  actorType: AuditActorType;
+  actorId?: string;
+  actorLabel?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEntry {
+  tenantId: string;
+  action: string;
+  targetType?: string;
+  targetId?: string;
+  changes?: AuditChanges | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditFilters {
+  // An exact action (store.deleted) or a category (store)
+  action?: string;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export const SYSTEM_ACTOR: AuditContext = { actorType: 'SYSTEM', actorLabel: 'system' };
+
+export const auditContext = (req: Request): AuditContext => {
+  const user = req.user;
+  const origin = { ipAddress: req.ip, userAgent: req.get('user-agent')?.slice(0, 255) };
+
+  if (user?.apiKey) {
+    return { actorType: 'API_KEY', actorId: user.apiKey.id, actorLabel: user.apiKey.prefix, ...origin };
+  }
+  if (user) {
+    return { actorType: 'USER', actorId: user.id, actorLabel: user.email, ...origin };
+  }
+  return { ...SYSTEM_ACTOR, ...origin };
+};
+
+/**
+ * Field-level before/after for the given fields, or null if none changed
+ */
+export function diffChanges<T extends Record<string, unknown>>(
+  before: Partial<T>,
+  after: Partial<T>,
+  fields: (keyof T & string)[]
+): AuditChanges | null {
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    if (!(field in after)) continue;
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { before: before[field] ?? null, after: after[field] ?? null };
+    }
+  }
+  return Object.keys(changes).length ? changes : null;
+}
+
+/**
+ * Append-only audit trail. Writing an entry never fails the action being
+ * audited: errors are logged and swallowed.
+ */
+export class AuditService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  async record(context: AuditContext, entry: AuditEntry): Promise<void> {
+    try {
+      await this.prismaClient.auditLog.create({
+        data: {
+          tenantId: entry.tenantId,
+          actorType: context.actorType,
+          actorId: context.actorId,
+          actorLabel: context.actorLabel,
+          action: entry.action,
+          targetType: entry.targetType,
+          targetId: entry.targetId,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          changes: (entry.changes ?? undefined) as Prisma.InputJsonValue | undefined,
+          metadata: entry.metadata as Prisma.InputJsonValue | undefined,
+        },
+      });
+    } catch (error) {
+      logger.warn(`Failed to write audit entry ${entry.action} for tenant ${entry.tenantId}:`, error);
+    }
+  }
+
+  async list(
+    tenantId: string,
+    filters: AuditFilters,
+    options: { page: number; limit: number }
+  ): Promise<{ entries: AuditLog[]; total: number }> {
+    const where: Prisma.AuditLogWhereInput = {
+      tenantId,
+      ...(filters.action
+        ? filters.action.includes('.')
+          ? { action: filters.action }
+          : { action: { startsWith: `${filters.action}.` } }
+        : {}),
+      ...(filters.actorId ? { actorId: filters.actorId } : {}),
+      ...(filters.targetType ? { targetType: filters.targetType } : {}),
+      ...(filters.targetId ? { targetId: filters.targetId } : {}),
+      ...(filters.from || filters.to
+        ? { createdAt: { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lte: filters.to } : {}) } }
+        : {}),
+    };
+
+    const [entries, total] = await Promise.all([
+      this.prismaClient.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      this.prismaClient.auditLog.count({ where }),
+    ]);
+    return { entries, total };
+  }
+}
+
+export const auditService = new AuditService();
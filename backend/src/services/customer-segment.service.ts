@@ -0,0 +1,471 @@
+import { Prisma } from '@prisma/client';
+import type { CustomerSegment, PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { netSalesOf, revenueWhere } from '../utils/order-revenue';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Score = 1 | 2 | 3 | 4 | 5;
+
+export interface RfmSegmentDefinition {
+  key: string;
+  name: string;
+  description: string;
+  // r is the recency score, fm the rounded mean of frequency and monetary
+  matches: (r: Score, fm: Score) => boolean;
+}
+
+// Checked in order; together they cover every recency/frequency-monetary pair
+export const RFM_SEGMENTS: RfmSegmentDefinition[] = [
+  {
+    key: 'champions',
+    name: 'Champions',
+    description: 'Bought recently, buy often and spend the most',
+    matches: (r, fm) => (r === 5 && fm >= 4) || (r === 4 && fm === 5),
+  },
+  {
+    key: 'loyal',
+    name: 'Loyal Customers',
+    description: 'Spend well and keep coming back',
+    matches: (r, fm) => r >= 3 && fm >= 4,
+  },
+  {
+    key: 'potential_loyalists',
+    name: 'Potential Loyalists',
+    description: 'Recent customers with a few orders behind them',
+    matches: (r, fm) => r >= 4 && fm >= 2,
+  },
+  {
+    key: 'new_customers',
+    name: 'New Customers',
+    description: 'Ordered for the first time very recently',
+    matches: (r) => r === 5,
+  },
+  {
+    key: 'promising',
+    name: 'Promising',
+    description: 'Recent shoppers who haven’t spent much yet',
+    matches: (r) => r === 4,
+  },
+  {
+    key: 'need_attention',
+    name: 'Need Attention',
+    description: 'Average on every measure and starting to drift',
+    matches: (r, fm) => r === 3 && fm === 3,
+  },
+  {
+    key: 'about_to_sleep',
+    name: 'About to Sleep',
+    description: 'Low spend and haven’t ordered for a while',
+    matches: (r) => r === 3,
+  },
+  {
+    key: 'cant_lose',
+    name: 'Can’t Lose Them',
+    description: 'Used to be among the best customers but haven’t returned',
+    matches: (r, fm) => r <= 2 && fm === 5,
+  },
+  {
+    key: 'at_risk',
+    name: 'At Risk',
+    description: 'Spent well in the past but haven’t ordered in a long time',
+    matches: (r, fm) => r <= 2 && fm >= 3,
+  },
+  {
+    key: 'hibernating',
+    name: 'Hibernating',
+    description: 'Few, small orders a long time ago',
+    matches: (r) => r === 2,
+  },
+  {
+    key: 'lost',
+    name: 'Lost',
+    description: 'Lowest recency, frequency and spend',
+    matches: () => true,
+  },
+];
+
+export interface SegmentFilters {
+  // Customers with any of these tags
+  tags?: string[];
+  minSpend?: number;
+  maxSpend?: number;
+  minOrders?: number;
+  maxOrders?: number;
+  lastOrderAfter?: string;
+  lastOrderBefore?: string;
+  // Relative windows, so a saved segment doesn't go stale
+  lastOrderWithinDays?: number;
+  noOrderForDays?: number;
+  // Limit to these RFM segments
+  rfmSegments?: string[];
+}
+
+export interface CustomerProfile {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  tags: string[];
+  ordersCount: number;
+  totalSpend: number;
+  lastOrderDate: Date | null;
+  recencyDays: number | null;
+  // Null for customers who haven't ordered yet
+  rfm: { recency: Score; frequency: Score; monetary: Score; segment: string } | null;
+}
+
+export interface PageOptions {
+  page: number;
+  limit: number;
+}
+
+const NUMBER_FILTERS = ['minSpend', 'maxSpend', 'minOrders', 'maxOrders', 'lastOrderWithinDays', 'noOrderForDays'] as const;
+const DATE_FILTERS = ['lastOrderAfter', 'lastOrderBefore'] as const;
+
+/**
+ * Score each value 1-5 by where it falls in the distribution (quintiles).
+ * Ties share a score, so a store where most customers ordered once doesn't
+ * split identical customers across scores.
+ */
+function quintileScores(values: number[]): Score[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const lowerBound = (v: number) => {
+    let lo = 0;
+    let hi = n;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < v) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const upperBound = (v: number) => {
+    let lo = 0;
+    let hi = n;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] <= v) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  return values.map((v) => {
+    // Mid-rank percentile of the value
+    const position = (lowerBound(v) + upperBound(v)) / 2 / n;
+    return Math.min(5, Math.floor(position * 5) + 1) as Score;
+  });
+}
+
+export function rfmSegmentFor(recency: Score, frequency: Score, monetary: Score): RfmSegmentDefinition {
+  const fm = Math.round((frequency + monetary) / 2) as Score;
+  return RFM_SEGMENTS.find((segment) => segment.matches(recency, fm))!;
+}
+
+/**
+ * Check and normalise filters from a request body; unknown keys are dropped
+ */
+export function parseSegmentFilters(input: unknown): SegmentFilters {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('filters must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+  const filters: SegmentFilters = {};
+
+  if (raw.tags !== undefined) {
+    if (!Array.isArray(raw.tags) || raw.tags.some((tag) => typeof tag !== 'string')) {
+      throw new ValidationError('filters.tags must be a list of tags');
+    }
+    const tags = raw.tags.map((tag: string) => tag.trim()).filter(Boolean);
+    if (tags.length) filters.tags = Array.from(new Set(tags));
+  }
+  for (const key of NUMBER_FILTERS) {
+    const value = raw[key];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new ValidationError(`filters.${key} must be a non-negative number`);
+    }
+    filters[key] = value;
+  }
+  for (const key of DATE_FILTERS) {
+    const value = raw[key];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+      throw new ValidationError(`filters.${key} must be a date`);
+    }
+    filters[key] = new Date(value).toISOString();
+  }
+  if (raw.rfmSegments !== undefined) {
+    const keys = RFM_SEGMENTS.map((segment) => segment.key);
+    if (!Array.isArray(raw.rfmSegments) || raw.rfmSegments.some((key) => !keys.includes(key as string))) {
+      throw new ValidationError(`filters.rfmSegments must be among ${keys.join(', ')}`);
+    }
+    if (raw.rfmSegments.length) filters.rfmSegments = raw.rfmSegments as string[];
+  }
+
+  if (filters.minSpend !== undefined && filters.maxSpend !== undefined && filters.minSpend > filters.maxSpend) {
+    throw new ValidationError('filters.minSpend is above filters.maxSpend');
+  }
+  if (filters.minOrders !== undefined && filters.maxOrders !== undefined && filters.minOrders > filters.maxOrders) {
+    throw new ValidationError('filters.minOrders is above filters.maxOrders');
+  }
+  if (!Object.keys(filters).length) {
+    throw new ValidationError('A segment needs at least one filter');
+  }
+  return filters;
+}
+
+export function matchesFilters(profile: CustomerProfile, filters: SegmentFilters, now = new Date()): boolean {
+  if (filters.tags && !filters.tags.some((tag) => profile.tags.some((t) => t.toLowerCase() === tag.toLowerCase()))) {
+    return false;
+  }
+  if (filters.minSpend !== undefined && profile.totalSpend < filters.minSpend) return false;
+  if (filters.maxSpend !== undefined && profile.totalSpend > filters.maxSpend) return false;
+  if (filters.minOrders !== undefined && profile.ordersCount < filters.minOrders) return false;
+  if (filters.maxOrders !== undefined && profile.ordersCount > filters.maxOrders) return false;
+
+  const last = profile.lastOrderDate?.getTime();
+  if (filters.lastOrderAfter && (last === undefined || last < Date.parse(filters.lastOrderAfter))) return false;
+  if (filters.lastOrderBefore && (last === undefined || last > Date.parse(filters.lastOrderBefore))) return false;
+  if (filters.lastOrderWithinDays !== undefined) {
+    if (last === undefined || last < now.getTime() - filters.lastOrderWithinDays * DAY_MS) return false;
+  }
+  // Customers who never ordered count as not having ordered for any period
+  if (filters.noOrderForDays !== undefined && last !== undefined && last >= now.getTime() - filters.noOrderForDays * DAY_MS) {
+    return false;
+  }
+  if (filters.rfmSegments && (!profile.rfm || !filters.rfmSegments.includes(profile.rfm.segment))) return false;
+  return true;
+}
+
+const paginate = <T>(items: T[], { page, limit }: PageOptions) => ({
+  items: items.slice((page - 1) * limit, page * limit),
+  pagination: { page, limit, total: items.length, pages: Math.ceil(items.length / limit) },
+});
+
+/**
+ * RFM scoring and saved segments for a store's customers. Scores are relative
+ * to the store's own customers, so they're recomputed on every read rather
+ * than stored.
+ */
+export class CustomerSegmentService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  /**
+   * Every customer in the store with order totals and RFM scores. Totals come
+   * from the orders table, falling back to the customer's Shopify counters
+   * when its orders haven't been synced.
+   */
+  async profiles(storeId: string, now = new Date()): Promise<CustomerProfile[]> {
+    const [customers, orderStats] = await Promise.all([
+      this.prismaClient.customer.findMany({
+        where: { storeId },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          tags: true,
+          totalSpend: true,
+          ordersCount: true,
+          lastOrderDate: true,
+        },
+      }),
+      this.prismaClient.order.groupBy({
+        by: ['customerId'],
+        where: { storeId, customerId: { not: null }, ...revenueWhere() },
+        _count: { _all: true },
+        _sum: { totalLineItemsPrice: true, totalDiscounts: true, refundedSubtotal: true },
+        _max: { processedAt: true },
+      }),
+    ]);
+    const statsByCustomer = new Map(orderStats.map((stat) => [stat.customerId, stat]));
+
+    const profiles: CustomerProfile[] = customers.map((customer) => {
+      const stats = statsByCustomer.get(customer.id);
+      const lastOrderDate = stats?._max.processedAt ?? customer.lastOrderDate;
+      return {
+        id: customer.id,
+        email: customer.email,
+        firstName: customer.firstName,
+        lastName: customer.lastName,
+        tags: customer.tags,
+        ordersCount: stats ? stats._count._all : customer.ordersCount,
+        totalSpend: Math.round((stats ? netSalesOf(stats._sum) : customer.totalSpend) * 100) / 100,
+        lastOrderDate,
+        recencyDays: lastOrderDate ? Math.max(0, Math.floor((now.getTime() - lastOrderDate.getTime()) / DAY_MS)) : null,
+        rfm: null,
+      };
+    });
+
+    const scored = profiles.filter((profile) => profile.ordersCount > 0 && profile.recencyDays !== null);
+    // Fewer days since the last order is better, so recency scores the negation
+    const recency = quintileScores(scored.map((profile) => -profile.recencyDays!));
+    const frequency = quintileScores(scored.map((profile) => profile.ordersCount));
+    const monetary = quintileScores(scored.map((profile) => profile.totalSpend));
+    scored.forEach((profile, i) => {
+      profile.rfm = {
+        recency: recency[i],
+        frequency: frequency[i],
+        monetary: monetary[i],
+        segment: rfmSegmentFor(recency[i], frequency[i], monetary[i]).key,
+      };
+    });
+
+    return profiles;
+  }
+
+  /**
+   * Size and value of each RFM segment
+   */
+  async rfmSummary(storeId: string) {
+    const profiles = await this.profiles(storeId);
+    const scored = profiles.filter((profile) => profile.rfm);
+    const totalRevenue = scored.reduce((sum, profile) => sum + profile.totalSpend, 0);
+
+    const segments = RFM_SEGMENTS.map(({ key, name, description }) => {
+      const members = scored.filter((profile) => profile.rfm!.segment === key);
+      const revenue = members.reduce((sum, profile) => sum + profile.totalSpend, 0);
+      return {
+        key,
+        name,
+        description,
+        customers: members.length,
+        share: scored.length ? Math.round((members.length / scored.length) * 1000) / 10 : 0,
+        revenue: Math.round(revenue),
+        revenueShare: totalRevenue ? Math.round((revenue / totalRevenue) * 1000) / 10 : 0,
+        avgRecencyDays: members.length
+          ? Math.round(members.reduce((sum, profile) => sum + profile.recencyDays!, 0) / members.length)
+          : null,
+        avgOrders: members.length
+          ? Math.round((members.reduce((sum, profile) => sum + profile.ordersCount, 0) / members.length) * 10) / 10
+          : null,
+      };
+    });
+
+    return { totalCustomers: profiles.length, scoredCustomers: scored.length, segments };
+  }
+
+  async rfmMembers(storeId: string, segmentKey: string, options?: PageOptions) {
+    const definition = RFM_SEGMENTS.find((segment) => segment.key === segmentKey);
+    if (!definition) {
+      throw new NotFoundError('Segment not found');
+    }
+    const members = (await this.profiles(storeId))
+      .filter((profile) => profile.rfm?.segment === segmentKey)
+      .sort((a, b) => b.totalSpend - a.totalSpend);
+    const { key, name, description } = definition;
+    return { segment: { key, name, description }, ...this.page(members, options) };
+  }
+
+  list(storeId: string): Promise<CustomerSegment[]> {
+    return this.prismaClient.customerSegment.findMany({
+      where: { storeId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Saved segments with their current member counts
+   */
+  async listWithCounts(storeId: string) {
+    const [segments, profiles] = await Promise.all([this.list(storeId), this.profiles(storeId)]);
+    const now = new Date();
+    return segments.map((segment) => ({
+      ...segment,
+      customers: profiles.filter((profile) => matchesFilters(profile, segment.filters as SegmentFilters, now)).length,
+    }));
+  }
+
+  async get(storeId: string, segmentId: string): Promise<CustomerSegment> {
+    const segment = await this.prismaClient.customerSegment.findFirst({ where: { id: segmentId, storeId } });
+    if (!segment) {
+      throw new NotFoundError('Segment not found');
+    }
+    return segment;
+  }
+
+  async create(params: {
+    storeId: string;
+    createdById?: string;
+    name: string;
+    description?: string | null;
+    filters: unknown;
+  }): Promise<CustomerSegment> {
+    const filters = parseSegmentFilters(params.filters);
+    try {
+      return await this.prismaClient.customerSegment.create({
+        data: {
+          storeId: params.storeId,
+          createdById: params.createdById,
+          name: params.name,
+          description: params.description ?? null,
+          filters: filters as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      throw this.translateError(error);
+    }
+  }
+
+  async update(
+    storeId: string,
+    segmentId: string,
+    changes: { name?: string; description?: string | null; filters?: unknown }
+  ): Promise<{ before: CustomerSegment; after: CustomerSegment }> {
+    const before = await this.get(storeId, segmentId);
+    try {
+      const after = await this.prismaClient.customerSegment.update({
+        where: { id: segmentId },
+        data: {
+          ...(changes.name !== undefined ? { name: changes.name } : {}),
+          ...(changes.description !== undefined ? { description: changes.description } : {}),
+          ...(changes.filters !== undefined
+            ? { filters: parseSegmentFilters(changes.filters) as Prisma.InputJsonValue }
+            : {}),
+        },
+      });
+      return { before, after };
+    } catch (error) {
+      throw this.translateError(error);
+    }
+  }
+
+  async delete(storeId: string, segmentId: string): Promise<CustomerSegment> {
+    const segment = await this.get(storeId, segmentId);
+    await this.prismaClient.customerSegment.delete({ where: { id: segmentId } });
+    return segment;
+  }
+
+  /**
+   * Members of a saved segment, biggest spenders first. Without paging
+   * options every member is returned (for exports).
+   */
+  async members(storeId: string, segmentId: string, options?: PageOptions) {
+    const segment = await this.get(storeId, segmentId);
+    const now = new Date();
+    const members = (await this.profiles(storeId, now))
+      .filter((profile) => matchesFilters(profile, segment.filters as SegmentFilters, now))
+      .sort((a, b) => b.totalSpend - a.totalSpend);
+    return { segment, ...this.page(members, options) };
+  }
+
+  private page(members: CustomerProfile[], options?: PageOptions) {
+    if (!options) {
+      return { customers: members, pagination: null };
+    }
+    const { items, pagination } = paginate(members, options);
+    return { customers: items, pagination };
+  }
+
+  private translateError(error: unknown) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return new ConflictError('A segment with this name already exists for this store');
+    }
+    return error;
+  }
+}
+
+export const customerSegmentService = new CustomerSegmentService();
@@ -0,0 +1,192 @@
+import type { PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { netSalesOf, revenueWhere } from '../utils/order-revenue';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Predicted CLV covers this many days from now
+export const CLV_HORIZON_DAYS = 365;
+
+// How many orders' worth of weight the store-wide averages get when blended
+// with a customer's own history; one-order customers lean entirely on them
+const PRIOR_WEIGHT = 1;
+
+// Used when no customer in the store has ordered twice yet
+const DEFAULT_INTERVAL_DAYS = 90;
+
+export type CustomerLifecycle = 'new' | 'active' | 'due' | 'overdue' | 'lapsed';
+
+export interface CustomerValue {
+  customerId: string;
+  ordersCount: number;
+  historicalClv: number;
+  averageOrderValue: number;
+  firstOrderDate: Date | null;
+  lastOrderDate: Date | null;
+  // Typical days between this customer's orders, blended with the store's
+  expectedIntervalDays: number | null;
+  expectedNextOrderDate: Date | null;
+  // Chance the customer still buys from the store at all
+  probabilityAlive: number;
+  expectedOrders: number;
+  predictedClv: number;
+  lifecycle: CustomerLifecycle | null;
+}
+
+export interface StoreValueBaseline {
+  averageOrderValue: number;
+  medianIntervalDays: number;
+  // Share of ordering customers who came back at least once
+  repeatRate: number;
+}
+
+interface OrderHistory {
+  ordersCount: number;
+  revenue: number;
+  firstOrderDate: Date | null;
+  lastOrderDate: Date | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export function storeBaseline(histories: OrderHistory[]): StoreValueBaseline {
+  const ordering = histories.filter((h) => h.ordersCount > 0);
+  const orders = ordering.reduce((sum, h) => sum + h.ordersCount, 0);
+  const revenue = ordering.reduce((sum, h) => sum + h.revenue, 0);
+  const repeaters = ordering.filter((h) => h.ordersCount > 1 && h.firstOrderDate && h.lastOrderDate);
+  const intervals = repeaters.map(
+    (h) => (h.lastOrderDate!.getTime() - h.firstOrderDate!.getTime()) / DAY_MS / (h.ordersCount - 1)
+  );
+  return {
+    averageOrderValue: orders ? revenue / orders : 0,
+    medianIntervalDays: Math.max(1, median(intervals) ?? DEFAULT_INTERVAL_DAYS),
+    repeatRate: ordering.length ? repeaters.length / ordering.length : 0,
+  };
+}
+
+/**
+ * Purchase-interval heuristic in the spirit of BG/NBD: a customer orders
+ * every `interval` days while "alive", and the longer they go past their
+ * usual interval, the less likely they are to come back. Customers with
+ * little history are pulled towards the store's averages.
+ */
+export function valueCustomer(
+  customerId: string,
+  history: OrderHistory,
+  baseline: StoreValueBaseline,
+  now = new Date()
+): CustomerValue {
+  const { ordersCount, revenue, firstOrderDate, lastOrderDate } = history;
+  const base = {
+    customerId,
+    ordersCount,
+    historicalClv: round2(revenue),
+    averageOrderValue: ordersCount ? round2(revenue / ordersCount) : 0,
+    firstOrderDate,
+    lastOrderDate,
+  };
+
+  if (!ordersCount || !firstOrderDate || !lastOrderDate) {
+    return {
+      ...base,
+      expectedIntervalDays: null,
+      expectedNextOrderDate: null,
+      probabilityAlive: 0,
+      expectedOrders: 0,
+      predictedClv: 0,
+      lifecycle: null,
+    };
+  }
+
+  const gaps = ordersCount - 1;
+  const ownInterval = gaps ? (lastOrderDate.getTime() - firstOrderDate.getTime()) / DAY_MS / gaps : 0;
+  const interval = Math.max(1, (gaps * ownInterval + PRIOR_WEIGHT * baseline.medianIntervalDays) / (gaps + PRIOR_WEIGHT));
+  const aov = (revenue + PRIOR_WEIGHT * baseline.averageOrderValue) / (ordersCount + PRIOR_WEIGHT);
+
+  const daysSinceLast = Math.max(0, (now.getTime() - lastOrderDate.getTime()) / DAY_MS);
+  const overdueDays = Math.max(0, daysSinceLast - interval);
+  // A one-time buyer first has to be one of the customers who ever come back
+  const returnChance = gaps ? 1 : baseline.repeatRate;
+  const probabilityAlive = returnChance * Math.exp(-overdueDays / interval);
+
+  const expectedOrders = (probabilityAlive * CLV_HORIZON_DAYS) / interval;
+  const expectedNextOrderDate = new Date(lastOrderDate.getTime() + interval * DAY_MS);
+
+  let lifecycle: CustomerLifecycle;
+  if (overdueDays > interval) lifecycle = 'lapsed';
+  else if (overdueDays > 0) lifecycle = 'overdue';
+  else if (interval - daysSinceLast <= Math.min(14, interval / 4)) lifecycle = 'due';
+  else lifecycle = gaps ? 'active' : 'new';
+
+  return {
+    ...base,
+    expectedIntervalDays: Math.round(interval),
+    expectedNextOrderDate,
+    probabilityAlive: Math.round(probabilityAlive * 1000) / 1000,
+    expectedOrders: Math.round(expectedOrders * 100) / 100,
+    predictedClv: round2(expectedOrders * aov),
+    lifecycle,
+  };
+}
+
+/**
+ * Historical and predicted customer lifetime value, computed from the synced
+ * order history on every read
+ */
+export class CustomerValueService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  private async histories(storeId: string, customerId?: string) {
+    const stats = await this.prismaClient.order.groupBy({
+      by: ['customerId'],
+      where: { storeId, customerId: customerId ?? { not: null }, ...revenueWhere() },
+      _count: { _all: true },
+      _sum: { totalLineItemsPrice: true, totalDiscounts: true, refundedSubtotal: true },
+      _min: { processedAt: true },
+      _max: { processedAt: true },
+    });
+    return new Map<string, OrderHistory>(
+      stats.map((stat) => [
+        stat.customerId!,
+        {
+          ordersCount: stat._count._all,
+          revenue: netSalesOf(stat._sum),
+          firstOrderDate: stat._min.processedAt,
+          lastOrderDate: stat._max.processedAt,
+        },
+      ])
+    );
+  }
+
+  async baseline(storeId: string): Promise<StoreValueBaseline> {
+    return storeBaseline(Array.from((await this.histories(storeId)).values()));
+  }
+
+  /**
+   * Values for every customer in the store that has ordered, keyed by customer ID
+   */
+  async forStore(storeId: string, now = new Date()): Promise<{ values: Map<string, CustomerValue>; baseline: StoreValueBaseline }> {
+    const histories = await this.histories(storeId);
+    const baseline = storeBaseline(Array.from(histories.values()));
+    const values = new Map<string, CustomerValue>();
+    for (const [customerId, history] of histories) {
+      values.set(customerId, valueCustomer(customerId, history, baseline, now));
+    }
+    return { values, baseline };
+  }
+
+  async forCustomer(storeId: string, customerId: string, now = new Date()): Promise<CustomerValue> {
+    const [baseline, own] = await Promise.all([this.baseline(storeId), this.histories(storeId, customerId)]);
+    const history = own.get(customerId) ?? { ordersCount: 0, revenue: 0, firstOrderDate: null, lastOrderDate: null };
+    return valueCustomer(customerId, history, baseline, now);
+  }
+}
+
+export const customerValueService = new CustomerValueService();
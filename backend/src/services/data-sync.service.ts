@@ -1,13 +1,18 @@
 import { PrismaClient, Prisma } from '@prisma/client';
-import { ShopifyService } from './shopify.service';
+import { ShopifyService, shopSettings } from './shopify.service';
+import { SyncCursorService } from './sync-cursor.service';
+import { OrderLineItemService } from './order-line-item.service';
 import type { 
+  ShopifyPage,
   ShopifyOrder as ShopifyServiceOrder, 
   ShopifyCustomer as ShopifyServiceCustomer,
   ShopifyProduct as ShopifyServiceProduct,
   ShopifyVariant,
   ShopifyImage
 } from './shopify.service';
+import { prisma as defaultPrisma } from '../utils/prisma';
 import logger from '../utils/logger';
+import { orderRevenueFields } from '../utils/order-revenue';
 
 // #region Types
 type StoreRef = {
@@ -15,15 +20,32 @@ type StoreRef = {
   tenantId: string;
   domain: string;
 };
-interface SyncResult {
+export type SyncEntity = 'products' | 'customers' | 'orders';
+
+export interface SyncStats {
+  total: number;
+  created: number;
+  updated: number;
+  errors: number;
+}
+
+export interface SyncResult {
   success: boolean;
   message: string;
-  stats: {
-    total: number;
-    created: number;
-    updated: number;
-    errors: number;
-  };
+  stats: SyncStats;
+  errorMessages: string[];
+}
+
+// What writing one Shopify record did; `skipped` when the stored version is newer
+export type UpsertOutcome = 'created' | 'updated' | 'skipped';
+
+export interface SyncOptions {
+  // Ignore the stored high-water mark and re-pull every record
+  full?: boolean;
+}
+
+export interface FullSyncResult extends SyncResult {
+  entities: Record<SyncEntity, SyncResult>;
 }
 
 interface ShopifyLineItem {
@@ -137,342 +159,393 @@ type ShopifyCustomer = Omit<ShopifyServiceCustomer, 'first_name' | 'last_name' |
 
 // #endregion
 
+// Whether an incoming Shopify updated_at predates the version already stored
+const isOlder = (incoming: Date, stored: Date | null | undefined) =>
+  !!stored && !isNaN(incoming.getTime()) && incoming < stored;
+
 export class DataSyncService {
   private prisma: PrismaClient;
+  private cursors: SyncCursorService;
+  private lineItems: OrderLineItemService;
 
   constructor(
     private readonly shopifyService: ShopifyService,
-    private readonly store: StoreRef
+    private readonly store: StoreRef,
+    prismaClient: PrismaClient = defaultPrisma
   ) {
-    this.prisma = new PrismaClient();
+    this.prisma = prismaClient;
+    this.cursors = new SyncCursorService(prismaClient);
+    this.lineItems = new OrderLineItemService(prismaClient);
   }
 
-  async syncAllData(): Promise<SyncResult> {
-    logger.info(`Starting data sync for store: ${this.store.domain}`);
+  async syncAllData(options: SyncOptions = {}): Promise<FullSyncResult> {
+    logger.info(`Starting ${options.full ? 'full' : 'incremental'} data sync for store: ${this.store.domain}`);
     try {
       const [productsResult, customersResult, ordersResult] = await Promise.all([
-        this.syncProducts(),
-        this.syncCustomers(),
-        this.syncOrders(),
+        this.syncProducts(options),
+        this.syncCustomers(options),
+        this.syncOrders(options),
       ]);
+      const entities = { products: productsResult, customers: customersResult, orders: ordersResult };
 
+      // Pick up changes to the shop's currency or timezone; a failed lookup shouldn't fail the sync
+      const shop = await this.shopifyService.getStoreInfo().catch(() => null);
       await this.prisma.store.update({
         where: { id: this.store.id },
-        data: { lastSyncedAt: new Date() },
+        data: { lastSyncedAt: new Date(), ...(shop && shopSettings(shop)) },
       });
 
-      const combinedStats = {
-        total: productsResult.stats.total + customersResult.stats.total + ordersResult.stats.total,
-        created: productsResult.stats.created + customersResult.stats.created + ordersResult.stats.created,
-        updated: productsResult.stats.updated + customersResult.stats.updated + ordersResult.stats.updated,
-        errors: productsResult.stats.errors + customersResult.stats.errors + ordersResult.stats.errors,
-      };
+      const results = Object.values(entities);
+      const combinedStats = results.reduce<SyncStats>(
+        (acc, result) => ({
+          total: acc.total + result.stats.total,
+          created: acc.created + result.stats.created,
+          updated: acc.updated + result.stats.updated,
+          errors: acc.errors + result.stats.errors,
+        }),
+        { total: 0, created: 0, updated: 0, errors: 0 }
+      );
 
       logger.info(`Completed data sync for store: ${this.store.domain}`);
       return {
-        success: true,
+        success: results.every(result => result.success),
         message: 'Data synced successfully',
         stats: combinedStats,
+        errorMessages: results.flatMap(result => result.errorMessages),
+        entities,
       };
     } catch (error) {
       logger.error(`Error during full data sync for store ${this.store.domain}:`, error);
-      return {
+      const failed: SyncResult = {
         success: false,
         message: 'Data sync failed',
         stats: { total: 0, created: 0, updated: 0, errors: 1 },
+        errorMessages: [error instanceof Error ? error.message : String(error)],
       };
+      return { ...failed, entities: { products: failed, customers: failed, orders: failed } };
     }
   }
 
   // #region Sync Methods
-  async syncProducts(): Promise<SyncResult> {
+  async syncProducts(options: SyncOptions = {}): Promise<SyncResult> {
     return this.syncPaginatedData<ShopifyProduct>(
       'products',
       async (params) => {
-        const response = await this.shopifyService.getProducts({
-          limit: params.limit,
-          page: params.page
-        });
-        
-        // Map the response to ensure all required fields are present
-        const products: ShopifyProduct[] = response.products.map(product => ({
-          ...product,
-          // Ensure required fields have non-null values
-          body_html: product.body_html || '',
-          vendor: product.vendor || '',
-          product_type: product.product_type || '',
-          status: product.status || 'active',
-          published_scope: product.published_scope || 'web',
-          admin_graphql_api_id: product.admin_graphql_api_id || `gid://shopify/Product/${product.id}`,
-          template_suffix: product.template_suffix || '',
-          handle: product.handle || `product-${product.id}`,
-          created_at: product.created_at || new Date().toISOString(),
-          updated_at: product.updated_at || new Date().toISOString(),
-          published_at: product.published_at || new Date().toISOString(),
-          tags: product.tags || '',
-          // Map variants
-          variants: (product.variants || []).map(variant => ({
-            id: variant.id,
-            title: variant.title || '',
-            price: variant.price || '0',
-            sku: variant.sku || '',
-            inventory_quantity: variant.inventory_quantity || 0,
-            created_at: variant.created_at || new Date().toISOString(),
-            updated_at: variant.updated_at || new Date().toISOString()
-          })),
-          // Map images
-          images: (product.images || []).map(image => ({
-            id: image.id,
-            src: image.src || '',
-            position: image.position || 0,
-            created_at: image.created_at || new Date().toISOString(),
-            updated_at: image.updated_at || new Date().toISOString()
-          }))
-        }));
-        
-        return { products };
+        const page = await this.shopifyService.getProductsPage(params);
+        return { ...page, items: page.items.map(product => this.normalizeProduct(product)) };
       },
-      this.upsertProduct.bind(this)
+      this.upsertProduct.bind(this),
+      options
     );
   }
 
-  async syncCustomers(): Promise<SyncResult> {
+  async syncCustomers(options: SyncOptions = {}): Promise<SyncResult> {
     return this.syncPaginatedData<ShopifyCustomer>(
       'customers',
       async (params) => {
-        const response = await this.shopifyService.getCustomers({
-          limit: params.limit,
-          page: params.page,
-          order_status: 'any'
-        });
-        
-        // Map the response to ensure all required fields are present
-        const customers: ShopifyCustomer[] = response.customers.map(customer => ({
-          ...customer,
-          first_name: customer.first_name || '',
-          last_name: customer.last_name || '',
-          email: customer.email || '',
-          phone: customer.phone || '',
-          tags: customer.tags || '',
-          total_spent: customer.total_spent || '0',
-          orders_count: customer.orders_count || 0,
-          updated_at: customer.updated_at || new Date().toISOString(),
-          accepts_marketing: customer.accepts_marketing || false,
-          verified_email: customer.verified_email || false,
-          tax_exempt: customer.tax_exempt || false,
-          state: customer.state || 'disabled',
-          created_at: customer.created_at || new Date().toISOString(),
-          currency: customer.currency || 'USD',
-          addresses: customer.addresses || [],
-          default_address: customer.default_address || null,
-          default_address_id: customer.default_address_id || null,
-          accepts_marketing_updated_at: customer.accepts_marketing_updated_at || new Date().toISOString(),
-          marketing_opt_in_level: customer.marketing_opt_in_level || null,
-          tax_exemptions: customer.tax_exemptions || [],
-          admin_graphql_api_id: customer.admin_graphql_api_id || `gid://shopify/Customer/${customer.id}`
-        }));
-        
-        return { customers };
+        const page = await this.shopifyService.getCustomersPage(params);
+        return { ...page, items: page.items.map(customer => this.normalizeCustomer(customer)) };
       },
-      this.upsertCustomer.bind(this)
+      (customer) => this.upsertCustomer(customer).then(({ outcome }) => outcome),
+      options
     );
   }
 
-  async syncOrders(): Promise<SyncResult> {
+  async syncOrders(options: SyncOptions = {}): Promise<SyncResult> {
     return this.syncPaginatedData<ShopifyOrder>(
       'orders',
       async (params) => {
-        const response = await this.shopifyService.getOrders({
-          limit: params.limit,
-          page: params.page,
-          status: 'any' as const
-        });
-        
-        // Map the response to ensure all required fields are present
-        const orders: ShopifyOrder[] = await Promise.all(response.orders.map(async (order) => {
-          // First sync the customer if it exists and create a properly typed customer object
-          let customer: ShopifyCustomer | null = null;
-          if (order.customer) {
-            // Create a properly typed customer object first
-            const typedCustomer: ShopifyCustomer = {
-              ...order.customer,
-              first_name: order.customer.first_name || '',
-              last_name: order.customer.last_name || '',
-              email: order.customer.email || '',
-              phone: order.customer.phone || '',
-              tags: order.customer.tags || '',
-              total_spent: order.customer.total_spent || '0',
-              orders_count: order.customer.orders_count || 0,
-              updated_at: order.customer.updated_at || new Date().toISOString(),
-              accepts_marketing: order.customer.accepts_marketing || false,
-              verified_email: order.customer.verified_email || false,
-              tax_exempt: order.customer.tax_exempt || false,
-              state: order.customer.state || 'disabled',
-              created_at: order.customer.created_at || new Date().toISOString(),
-              currency: order.customer.currency || 'USD',
-              addresses: order.customer.addresses || [],
-              default_address: order.customer.default_address || null,
-              default_address_id: order.customer.default_address_id || null,
-              accepts_marketing_updated_at: order.customer.accepts_marketing_updated_at || new Date().toISOString(),
-              marketing_opt_in_level: order.customer.marketing_opt_in_level || null,
-              tax_exemptions: order.customer.tax_exemptions || [],
-              // Add any other required fields with defaults
-              id: order.customer.id,
-              // Add any other missing required fields from ShopifyServiceCustomer
-              ...(order.customer as any) // Spread the rest of the customer properties
-            };
-            
-            // Now upsert the properly typed customer
-            await this.upsertCustomer(typedCustomer);
-            customer = typedCustomer;
-          }
-          
-          return {
-            ...order,
-            created_at: order.created_at || new Date().toISOString(),
-            updated_at: order.updated_at || new Date().toISOString(),
-            processed_at: order.processed_at || new Date().toISOString(),
-            financial_status: order.financial_status || 'pending',
-            fulfillment_status: order.fulfillment_status || null,
-            currency: order.currency || 'USD',
-            total_price: order.total_price || '0',
-            subtotal_price: order.subtotal_price || '0',
-            total_tax: order.total_tax || '0',
-            total_discounts: order.total_discounts || '0',
-            total_line_items_price: order.total_line_items_price || '0',
-            customer,
-            shipping_address: order.shipping_address || null,
-            billing_address: order.billing_address || null,
-            shipping_lines: order.shipping_lines || [],
-            discount_codes: order.discount_codes || [],
-            note: order.note || null,
-            tags: order.tags || '',
-            customer_locale: order.customer_locale || 'en',
-            order_status_url: order.order_status_url || null,
-            line_items: (order.line_items || []).map(item => ({
-              ...item,
-              title: item.title || '',
-              price: item.price || '0',
-              sku: item.sku || '',
-              quantity: item.quantity || 0,
-              vendor: item.vendor || null,
-              name: item.name || '',
-              requires_shipping: item.requires_shipping || false,
-              taxable: item.taxable || false,
-              fulfillment_status: item.fulfillment_status || null,
-              fulfillment_service: item.fulfillment_service || 'manual',
-              tax_lines: item.tax_lines || [],
-              discount_allocations: item.discount_allocations || [],
-              properties: item.properties || [],
-              variant_title: item.variant_title || null,
-              product_exists: item.product_exists || false,
-              fulfillable_quantity: item.fulfillable_quantity || 0,
-              grams: item.grams || 0,
-              total_discount: item.total_discount || '0',
-              admin_graphql_api_id: item.admin_graphql_api_id || `gid://shopify/LineItem/${item.id}`,
-              duties: item.duties || []
-            }))
-          };
-        }));
-        
-        return { orders };
+        const page = await this.shopifyService.getOrdersPage({ ...params, status: 'any' });
+        return { ...page, items: page.items.map(order => this.normalizeOrder(order)) };
       },
-      this.upsertOrder.bind(this)
+      this.upsertOrder.bind(this),
+      options
     );
   }
   // #endregion
 
+  // #region Webhook Methods
+  /**
+   * Apply a single product payload (products/create, products/update)
+   */
+  async applyProduct(product: ShopifyServiceProduct): Promise<UpsertOutcome> {
+    return this.upsertProduct(this.normalizeProduct(product));
+  }
+
+  /**
+   * Apply a single customer payload (customers/create, customers/update, ...)
+   */
+  async applyCustomer(customer: ShopifyServiceCustomer): Promise<UpsertOutcome> {
+    const { outcome } = await this.upsertCustomer(this.normalizeCustomer(customer));
+    return outcome;
+  }
+
+  /**
+   * Apply a single order payload (orders/create, orders/updated, orders/cancelled)
+   */
+  async applyOrder(order: ShopifyServiceOrder): Promise<UpsertOutcome> {
+    return this.upsertOrder(this.normalizeOrder(order));
+  }
+
+  /**
+   * Remove a product deleted in Shopify (products/delete)
+   */
+  async removeProduct(shopifyId: number | string): Promise<'deleted' | 'skipped'> {
+    const { count } = await this.prisma.product.deleteMany({
+      where: { storeId: this.store.id, shopifyId: shopifyId.toString() },
+    });
+    return count > 0 ? 'deleted' : 'skipped';
+  }
+
+  /**
+   * Remove a customer deleted in Shopify (customers/delete).
+   * Orders keep their customerEmail but lose the relation.
+   */
+  async removeCustomer(shopifyId: number | string): Promise<'deleted' | 'skipped'> {
+    const customer = await this.prisma.customer.findFirst({
+      where: { storeId: this.store.id, shopifyId: shopifyId.toString() },
+      select: { id: true },
+    });
+    if (!customer) return 'skipped';
+
+    await this.prisma.$transaction([
+      this.prisma.order.updateMany({ where: { customerId: customer.id }, data: { customerId: null } }),
+      this.prisma.customer.delete({ where: { id: customer.id } }),
+    ]);
+    return 'deleted';
+  }
+  // #endregion
+
+  // #region Normalizers
+  private normalizeProduct(product: ShopifyServiceProduct): ShopifyProduct {
+    return {
+      ...product,
+      // Ensure required fields have non-null values
+      body_html: product.body_html || '',
+      vendor: product.vendor || '',
+      product_type: product.product_type || '',
+      status: product.status || 'active',
+      published_scope: product.published_scope || 'web',
+      admin_graphql_api_id: product.admin_graphql_api_id || `gid://shopify/Product/${product.id}`,
+      template_suffix: product.template_suffix || '',
+      handle: product.handle || `product-${product.id}`,
+      created_at: product.created_at || new Date().toISOString(),
+      updated_at: product.updated_at || new Date().toISOString(),
+      published_at: product.published_at || new Date().toISOString(),
+      tags: product.tags || '',
+      // Map variants
+      variants: (product.variants || []).map(variant => ({
+        id: variant.id,
+        title: variant.title || '',
+        price: variant.price || '0',
+        sku: variant.sku || '',
+        inventory_quantity: variant.inventory_quantity || 0,
+        created_at: variant.created_at || new Date().toISOString(),
+        updated_at: variant.updated_at || new Date().toISOString()
+      })),
+      // Map images
+      images: (product.images || []).map(image => ({
+        id: image.id,
+        src: image.src || '',
+        position: image.position || 0,
+        created_at: image.created_at || new Date().toISOString(),
+        updated_at: image.updated_at || new Date().toISOString()
+      }))
+    };
+  }
+
+  private normalizeCustomer(customer: ShopifyServiceCustomer): ShopifyCustomer {
+    return {
+      ...customer,
+      first_name: customer.first_name || '',
+      last_name: customer.last_name || '',
+      email: customer.email || '',
+      phone: customer.phone || '',
+      tags: customer.tags || '',
+      total_spent: customer.total_spent || '0',
+      orders_count: customer.orders_count || 0,
+      updated_at: customer.updated_at || new Date().toISOString(),
+      accepts_marketing: customer.accepts_marketing || false,
+      verified_email: customer.verified_email || false,
+      tax_exempt: customer.tax_exempt || false,
+      state: customer.state || 'disabled',
+      created_at: customer.created_at || new Date().toISOString(),
+      currency: customer.currency || 'USD',
+      addresses: customer.addresses || [],
+      default_address: customer.default_address || null,
+      default_address_id: customer.default_address_id || null,
+      accepts_marketing_updated_at: customer.accepts_marketing_updated_at || new Date().toISOString(),
+      marketing_opt_in_level: customer.marketing_opt_in_level || null,
+      tax_exemptions: customer.tax_exemptions || [],
+      admin_graphql_api_id: customer.admin_graphql_api_id || `gid://shopify/Customer/${customer.id}`
+    };
+  }
+
+  private normalizeOrder(order: ShopifyServiceOrder): ShopifyOrder {
+    return {
+      ...order,
+      created_at: order.created_at || new Date().toISOString(),
+      updated_at: order.updated_at || new Date().toISOString(),
+      processed_at: order.processed_at || new Date().toISOString(),
+      financial_status: order.financial_status || 'pending',
+      fulfillment_status: order.fulfillment_status || null,
+      currency: order.currency || 'USD',
+      total_price: order.total_price || '0',
+      subtotal_price: order.subtotal_price || '0',
+      total_tax: order.total_tax || '0',
+      total_discounts: order.total_discounts || '0',
+      total_line_items_price: order.total_line_items_price || '0',
+      customer: order.customer ? this.normalizeCustomer(order.customer) : null,
+      shipping_address: order.shipping_address || null,
+      billing_address: order.billing_address || null,
+      shipping_lines: order.shipping_lines || [],
+      discount_codes: order.discount_codes || [],
+      note: order.note || null,
+      tags: order.tags || '',
+      customer_locale: order.customer_locale || 'en',
+      order_status_url: order.order_status_url || null,
+      line_items: (order.line_items || []).map(item => ({
+        ...item,
+        title: item.title || '',
+        price: item.price || '0',
+        sku: item.sku || '',
+        quantity: item.quantity || 0,
+        vendor: item.vendor || null,
+        name: item.name || '',
+        requires_shipping: item.requires_shipping || false,
+        taxable: item.taxable || false,
+        fulfillment_status: item.fulfillment_status || null,
+        fulfillment_service: item.fulfillment_service || 'manual',
+        tax_lines: item.tax_lines || [],
+        discount_allocations: item.discount_allocations || [],
+        properties: item.properties || [],
+        variant_title: item.variant_title || null,
+        product_exists: item.product_exists || false,
+        fulfillable_quantity: item.fulfillable_quantity || 0,
+        grams: item.grams || 0,
+        total_discount: item.total_discount || '0',
+        admin_graphql_api_id: item.admin_graphql_api_id || `gid://shopify/LineItem/${item.id}`,
+        duties: item.duties || []
+      }))
+    };
+  }
+  // #endregion
+
   // #region Upsert Methods
-  private async upsertProduct(product: ShopifyProduct): Promise<void> {
-    const productId = `${this.store.id}_${product.id}`;
+  // Records are matched on shopifyId so rows written by ShopifySyncService are
+  // updated in place instead of colliding on the unique constraint. A payload
+  // older than the stored version (a late webhook, say) is skipped.
+  private async lockStored(tx: Prisma.TransactionClient, table: 'products' | 'customers' | 'orders', shopifyId: string) {
+    const rows = await tx.$queryRaw<{ id: string; shopifyUpdatedAt: Date | null }[]>`
+      SELECT "id", "shopifyUpdatedAt" FROM ${Prisma.raw(`"${table}"`)} WHERE "shopifyId" = ${shopifyId} FOR UPDATE`;
+    return rows[0];
+  }
+
+  private async upsertProduct(product: ShopifyProduct): Promise<UpsertOutcome> {
+    const shopifyId = product.id.toString();
+    const variants = product.variants || [];
     const productData = {
       title: product.title,
-      bodyHtml: product.body_html || '',
+      description: product.body_html || '',
       vendor: product.vendor,
       productType: product.product_type || '',
       handle: product.handle,
-      status: product.status,
+      sku: variants[0]?.sku || null,
+      price: parseFloat(variants[0]?.price) || 0,
+      inventoryQuantity: variants.reduce((sum, variant) => sum + (variant.inventory_quantity || 0), 0),
       publishedAt: product.published_at ? new Date(product.published_at) : null,
-      createdAt: new Date(product.created_at),
-      updatedAt: new Date(product.updated_at),
-      store: { connect: { id: this.store.id } },
-      tenantId: this.store.tenantId,
-      price: parseFloat(product.variants?.[0]?.price) || 0,
-      imageUrl: product.images?.[0]?.src ?? null,
       tags: product.tags ? product.tags.split(',').map(tag => tag.trim()) : [],
+      images: product.images as Prisma.InputJsonValue,
+      variants: variants as Prisma.InputJsonValue,
+      shopifyUpdatedAt: new Date(product.updated_at),
+      updatedAt: new Date(product.updated_at),
     };
 
-    await this.prisma.product.upsert({
-      where: { id: productId },
-      create: { 
-        ...productData, 
-        id: productId, 
-        shopifyId: product.id.toString(),
-        price: productData.price,
-      },
-      update: {
-        ...productData,
-        price: productData.price,
-      },
+    return this.prisma.$transaction(async (tx) => {
+      const stored = await this.lockStored(tx, 'products', shopifyId);
+      if (isOlder(productData.shopifyUpdatedAt, stored?.shopifyUpdatedAt)) return 'skipped';
+
+      await tx.product.upsert({
+        where: { shopifyId },
+        create: {
+          ...productData,
+          id: `${this.store.id}_${product.id}`,
+          shopifyId,
+          storeId: this.store.id,
+          tenantId: this.store.tenantId,
+          createdAt: new Date(product.created_at),
+        },
+        update: productData,
+      });
+      return stored ? 'updated' : 'created';
     });
   }
 
-  private async upsertCustomer(customer: ShopifyCustomer): Promise<void> {
-    const customerId = `${this.store.id}_${customer.id}`;
+  /**
+   * Upsert a customer and return the local record id with what was done.
+   * Customers embedded in order payloads don't carry reliable totals, so
+   * `partial` leaves totalSpend/ordersCount untouched on existing rows.
+   */
+  private async upsertCustomer(
+    customer: ShopifyCustomer,
+    options: { partial?: boolean } = {}
+  ): Promise<{ id: string; outcome: UpsertOutcome }> {
+    const shopifyId = customer.id.toString();
     const customerData = {
-      email: customer.email,
+      email: customer.email || null,
       firstName: customer.first_name || null,
       lastName: customer.last_name || null,
       phone: customer.phone || null,
-      totalSpend: parseFloat(customer.total_spent) || 0,
-      ordersCount: customer.orders_count || 0,
+      acceptsMarketing: customer.accepts_marketing,
+      verifiedEmail: customer.verified_email,
+      state: customer.state || null,
       tags: customer.tags ? customer.tags.split(',').map(t => t.trim()) : [],
+      addresses: customer.addresses as Prisma.InputJsonValue,
+      defaultAddress: customer.default_address ? (customer.default_address as Prisma.InputJsonValue) : Prisma.JsonNull,
+      lastOrderId: customer.last_order_id ? customer.last_order_id.toString() : null,
+      shopifyUpdatedAt: new Date(customer.updated_at),
       updatedAt: new Date(customer.updated_at),
-      store: { connect: { id: this.store.id } },
-      tenantId: this.store.tenantId,
-      acceptsMarketing: (customer as any).accepts_marketing || false,
-      verifiedEmail: (customer as any).verified_email || false,
-      lastOrderId: (customer as any).last_order_id ? (customer as any).last_order_id.toString() : null,
-      lastOrderName: (customer as any).last_order_name || null,
-      currency: (customer as any).currency || 'USD',
+    };
+    const totals = {
+      totalSpend: parseFloat(customer.total_spent) || 0,
+      ordersCount: customer.orders_count || 0,
     };
 
-    await this.prisma.customer.upsert({
-      where: { id: customerId },
-      create: { 
-        ...customerData, 
-        id: customerId, 
-        shopifyId: customer.id.toString(),
-      },
-      update: {
-        ...customerData,
-        // Don't update these fields on existing customers
-        id: undefined,
-        shopifyId: undefined,
-        email: undefined,
-        firstName: undefined,
-        lastName: undefined,
-        phone: undefined,
-        totalSpend: undefined,
-        ordersCount: undefined,
-        updatedAt: undefined,
-      },
+    return this.prisma.$transaction(async (tx) => {
+      const stored = await this.lockStored(tx, 'customers', shopifyId);
+      if (stored && isOlder(customerData.shopifyUpdatedAt, stored.shopifyUpdatedAt)) {
+        return { id: stored.id, outcome: 'skipped' as const };
+      }
+
+      const record = await tx.customer.upsert({
+        where: { shopifyId },
+        create: {
+          ...customerData,
+          ...totals,
+          id: `${this.store.id}_${customer.id}`,
+          shopifyId,
+          storeId: this.store.id,
+          tenantId: this.store.tenantId,
+          createdAt: new Date(customer.created_at),
+        },
+        update: options.partial ? customerData : { ...customerData, ...totals },
+        select: { id: true },
+      });
+      return { id: record.id, outcome: stored ? ('updated' as const) : ('created' as const) };
     });
   }
 
-  private async upsertOrder(order: ShopifyOrder): Promise<void> {
-    const orderId = `${this.store.id}_${order.id}`;
-    let customerId: string | null = null;
+  private async upsertOrder(order: ShopifyOrder): Promise<UpsertOutcome> {
+    const shopifyId = order.id.toString();
 
     // Handle customer data if present
-    if (order.customer) {
-      await this.upsertCustomer(order.customer);
-      customerId = `${this.store.id}_${order.customer.id}`;
-    }
+    const customerId = order.customer
+      ? (await this.upsertCustomer(order.customer, { partial: true })).id
+      : null;
 
-    const totalLineItemsPrice = parseFloat(order.subtotal_price) || 0;
-    const processedAt = order.processed_at ? new Date(order.processed_at) : new Date();
-    const createdAt = order.created_at ? new Date(order.created_at) : processedAt;
+    // Shopify's own timestamps, never the sync time when Shopify has one
+    const createdAt = order.created_at ? new Date(order.created_at) : order.processed_at ? new Date(order.processed_at) : new Date();
+    const processedAt = order.processed_at ? new Date(order.processed_at) : createdAt;
     const updatedAt = order.updated_at ? new Date(order.updated_at) : new Date();
     
     // Prepare line items as JSON
@@ -502,143 +575,134 @@ export class DataSyncService {
       duties: item.duties || []
     }));
 
-    // Prepare order data for Prisma
     const orderData = {
-      orderNumber: order.order_number.toString(),
+      orderNumber: order.order_number?.toString() || shopifyId,
       customerId,
-      customerEmail: order.customer?.email || null,
+      customerEmail: order.customer?.email || order.email || null,
       financialStatus: order.financial_status || null,
       fulfillmentStatus: order.fulfillment_status || null,
       currency: order.currency || 'USD',
       totalPrice: parseFloat(order.total_price) || 0,
-      subtotalPrice: totalLineItemsPrice,
-      totalLineItemsPrice: totalLineItemsPrice,
+      subtotalPrice: parseFloat(order.subtotal_price) || 0,
+      totalLineItemsPrice: parseFloat(order.total_line_items_price) || 0,
       totalTax: parseFloat(order.total_tax) || 0,
       totalDiscounts: parseFloat(order.total_discounts) || 0,
+      ...orderRevenueFields(order),
       lineItems: lineItems as Prisma.InputJsonValue,
-      shippingAddress: order.shipping_address as Prisma.InputJsonValue,
-      billingAddress: order.billing_address as Prisma.InputJsonValue,
-      shippingLines: (order.shipping_lines || []) as Prisma.InputJsonValue[],
-      discountCodes: (order.discount_codes || []) as Prisma.InputJsonValue[],
+      shippingAddress: order.shipping_address ? (order.shipping_address as Prisma.InputJsonValue) : Prisma.JsonNull,
+      billingAddress: order.billing_address ? (order.billing_address as Prisma.InputJsonValue) : Prisma.JsonNull,
+      shippingLines: order.shipping_lines as Prisma.InputJsonValue,
+      discountCodes: order.discount_codes as Prisma.InputJsonValue,
+      refunds: ((order as any).refunds || []) as Prisma.InputJsonValue,
       note: order.note || null,
       tags: order.tags ? order.tags.split(',').map(tag => tag.trim()) : [],
       processedAt,
       createdAt,
+      shopifyUpdatedAt: updatedAt,
       updatedAt,
       cancelledAt: order.cancelled_at ? new Date(order.cancelled_at) : null,
+      closedAt: (order as any).closed_at ? new Date((order as any).closed_at) : null,
       orderStatusUrl: order.order_status_url || null,
       customerLocale: order.customer_locale || 'en',
-      store: { connect: { id: this.store.id } },
-      tenantId: this.store.tenantId,
     };
 
-    // Prepare create and update data separately to handle Prisma's type requirements
-    const createData = {
-      ...orderData,
-      id: orderId,
-      shopifyId: order.id.toString(),
-      store: { connect: { id: this.store.id } },
-      customer: customerId ? { connect: { id: customerId } } : undefined,
-    };
-
-    const updateData = {
-      ...orderData,
-      // Don't update these fields on existing orders
-      id: undefined,
-      shopifyId: undefined,
-      orderNumber: undefined,
-      createdAt: undefined,
-      customer: customerId ? { connect: { id: customerId } } : { disconnect: true },
-    };
-
-    // Remove undefined values to avoid Prisma errors
-    const cleanCreateData = Object.fromEntries(
-      Object.entries(createData).filter(([_, v]) => v !== undefined)
-    );
-
-    const cleanUpdateData = Object.fromEntries(
-      Object.entries(updateData).filter(([_, v]) => v !== undefined)
-    );
-
-    // Create or update the order
-    await this.prisma.order.upsert({
-      where: { id: orderId },
-      create: cleanCreateData as any, // We've ensured type safety above
-      update: cleanUpdateData as any, // We've ensured type safety above
+    return this.prisma.$transaction(async (tx) => {
+      const stored = await this.lockStored(tx, 'orders', shopifyId);
+      if (isOlder(updatedAt, stored?.shopifyUpdatedAt)) return 'skipped';
+
+      const saved = await tx.order.upsert({
+        where: { shopifyId },
+        create: {
+          ...orderData,
+          id: `${this.store.id}_${order.id}`,
+          shopifyId,
+          storeId: this.store.id,
+          tenantId: this.store.tenantId,
+        },
+        update: orderData,
+        select: { id: true, storeId: true, tenantId: true, processedAt: true, refunds: true },
+      });
+      await this.lineItems.replaceForOrder(saved, order.line_items, tx);
+      return stored ? 'updated' : 'created';
     });
   }
   // #endregion
 
-  private async syncPaginatedData<T extends { id: number }>(
-    dataType: 'products' | 'customers' | 'orders',
-    fetchFn: (params: { limit: number; page: number }) => Promise<{ [key: string]: T[] }>,
-    upsertFn: (item: T) => Promise<void>
+  /**
+   * Pull every record of `dataType` changed since the stored high-water mark
+   * (or everything when `full` is set or no mark exists yet), following
+   * page_info cursors. The mark only advances when every record was upserted,
+   * so a failed run is retried from the same point next time.
+   */
+  private async syncPaginatedData<T extends { id: number; updated_at: string }>(
+    dataType: SyncEntity,
+    fetchPage: (params: { limit: number; page_info?: string; updated_at_min?: string }) => Promise<ShopifyPage<T>>,
+    upsertFn: (item: T) => Promise<UpsertOutcome>,
+    options: SyncOptions = {}
   ): Promise<SyncResult> {
-    let page = 1;
-    const limit = 50;
-    let hasMore = true;
+    const limit = 250;
     const stats = { total: 0, created: 0, updated: 0, errors: 0 };
+    const errorMessages: string[] = [];
+    const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
 
-    logger.info(`Starting sync for ${dataType}...`);
+    const since = options.full ? null : await this.cursors.getHighWaterMark(this.store.id, dataType);
+    let newestUpdatedAt: Date | null = null;
+    let pageInfo: string | undefined;
+    let pageNumber = 0;
 
-    // Map data type to Prisma model name
-    const modelName = dataType.slice(0, -1); // Convert 'products' to 'product', etc.
-    
-    while (hasMore) {
+    logger.info(`Starting ${since ? `incremental sync (updated since ${since.toISOString()})` : 'full sync'} for ${dataType}...`);
+
+    do {
+      pageNumber++;
+      // Filters only go on the first request; later pages are addressed by cursor alone
+      const params = pageInfo
+        ? { limit, page_info: pageInfo }
+        : { limit, ...(since ? { updated_at_min: since.toISOString() } : {}) };
+
+      let page: ShopifyPage<T>;
       try {
-        const response = await fetchFn({ limit, page });
-        const items = response[dataType] || [];
-
-        if (items.length === 0) {
-          hasMore = false;
-          continue;
-        }
-
-        stats.total += items.length;
-
-        // Process items in batches to avoid overwhelming the database
-        const batchSize = 10;
-        for (let i = 0; i < items.length; i += batchSize) {
-          const batch = items.slice(i, i + batchSize);
-          
-          await Promise.all(batch.map(async (item: T) => {
-            try {
-              // Check if record exists to track created/updated stats
-              const recordId = `${this.store.id}_${item.id}`;
-              const record = await (this.prisma as any)[modelName].findUnique({ 
-                where: { id: recordId },
-                select: { id: true } // Only select the ID to minimize data transfer
-              });
-              
-              await upsertFn(item);
-              
-              if (record) {
-                stats.updated++;
-              } else {
-                stats.created++;
-              }
-            } catch (error) {
-              logger.error(`Error processing ${dataType} ${item.id}:`, error);
-              stats.errors++;
-            }
-          }));
-        }
-
-        // If we got fewer items than the limit, we've reached the end
-        if (items.length < limit) {
-          hasMore = false;
-        } else {
-          page++;
-        }
+        page = await fetchPage(params);
       } catch (error) {
-        logger.error(`Error fetching ${dataType} page ${page}:`, error);
+        // Without the page we can't get the next cursor, so stop here
+        logger.error(`Error fetching ${dataType} page ${pageNumber}:`, error);
         stats.errors++;
-        // Only stop if we're getting consistent errors
-        if (stats.errors > 3) {
-          logger.error('Too many errors, stopping sync');
-          hasMore = false;
-        }
+        errorMessages.push(`${dataType} page ${pageNumber}: ${describe(error)}`);
+        break;
       }
+
+      const items = page.items;
+      pageInfo = page.nextPageInfo;
+      stats.total += items.length;
+
+      // Process items in batches to avoid overwhelming the database
+      const batchSize = 10;
+      for (let i = 0; i < items.length; i += batchSize) {
+        const batch = items.slice(i, i + batchSize);
+        
+        await Promise.all(batch.map(async (item: T) => {
+          try {
+            const outcome = await upsertFn(item);
+            if (outcome === 'created') {
+              stats.created++;
+            } else if (outcome === 'updated') {
+              stats.updated++;
+            }
+
+            const updatedAt = new Date(item.updated_at);
+            if (!isNaN(updatedAt.getTime()) && (!newestUpdatedAt || updatedAt > newestUpdatedAt)) {
+              newestUpdatedAt = updatedAt;
+            }
+          } catch (error) {
+            logger.error(`Error processing ${dataType} ${item.id}:`, error);
+            stats.errors++;
+            errorMessages.push(`${dataType} ${item.id}: ${describe(error)}`);
+          }
+        }));
+      }
+    } while (pageInfo);
+
+    if (stats.errors === 0 && newestUpdatedAt) {
+      await this.cursors.advance(this.store.id, dataType, newestUpdatedAt);
     }
 
     const message = `Synced ${stats.total} ${dataType} (${stats.created} created, ${stats.updated} updated, ${stats.errors} errors)`;
@@ -652,7 +716,7 @@ export class DataSyncService {
       success: stats.errors === 0,
       message,
       stats,
+      errorMessages,
     };
-    return { success: stats.errors === 0, message: `${dataType} sync finished.`, stats };
   }
 }
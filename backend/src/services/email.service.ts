@@ -76,6 +76,33 @@ class EmailService {
     }
   }
 
+  // Send a tenant invitation with its accept link
+  async sendInvitationEmail(
+    to: string,
+    invitation: { inviterName: string; tenantName: string; roleLabel: string; acceptUrl: string; expiresIn: string }
+  ): Promise<void> {
+    if (!this.transporter) {
+      logger.warn('Email service not configured. Invitation email not sent.');
+      return;
+    }
+
+    try {
+      await this.sendEmail({
+        to,
+        subject: `${invitation.inviterName} invited you to ${invitation.tenantName}`,
+        template: 'invitation',
+        context: {
+          ...invitation,
+          currentYear: new Date().getFullYear(),
+        },
+      });
+      logger.info(`Invitation email sent to ${to}`);
+    } catch (error) {
+      logger.error(`Failed to send invitation email to ${to}:`, error);
+      throw error;
+    }
+  }
+
   private async verifyConnection(): Promise<void> {
     if (!this.transporter) return;
     
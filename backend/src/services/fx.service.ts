@@ -0,0 +1,132 @@
+import type { PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { ValidationError } from '../utils/errors';
+
+export interface FxRateInput {
+  date: Date;
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+const CSV_COLUMNS = ['date', 'base', 'quote', 'rate'] as const;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const ISO_DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse rates from CSV with a `date,base,quote,rate` header (columns in any
+ * order). Each row says one `base` bought `rate` units of `quote` on `date`
+ * (YYYY-MM-DD, UTC). Every bad row is reported with its line number.
+ */
+export function parseFxCsv(text: string): FxRateInput[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const header = (lines[0] || '').split(',').map((cell) => cell.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length) {
+    throw new ValidationError(`FX rate CSV is missing column(s): ${missing.join(', ')}`);
+  }
+  const at = Object.fromEntries(CSV_COLUMNS.map((column) => [column, header.indexOf(column)])) as Record<
+    (typeof CSV_COLUMNS)[number],
+    number
+  >;
+
+  const rows: FxRateInput[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (!line.trim()) return;
+    const cells = line.split(',').map((cell) => cell.trim());
+    const lineNumber = i + 2;
+    const date = cells[at.date];
+    const base = (cells[at.base] || '').toUpperCase();
+    const quote = (cells[at.quote] || '').toUpperCase();
+    const rate = Number(cells[at.rate]);
+
+    if (!ISO_DAY.test(date || '') || Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+      errors.push(`line ${lineNumber}: date must be YYYY-MM-DD`);
+    } else if (!CURRENCY_CODE.test(base) || !CURRENCY_CODE.test(quote)) {
+      errors.push(`line ${lineNumber}: base and quote must be 3-letter currency codes`);
+    } else if (base === quote) {
+      errors.push(`line ${lineNumber}: base and quote must differ`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`line ${lineNumber}: rate must be a positive number`);
+    } else {
+      rows.push({ date: new Date(`${date}T00:00:00Z`), base, quote, rate });
+    }
+  });
+
+  if (errors.length) {
+    throw new ValidationError(`Invalid FX rate CSV: ${errors.slice(0, 10).join('; ')}${errors.length > 10 ? ` (+${errors.length - 10} more)` : ''}`);
+  }
+  return rows;
+}
+
+/**
+ * Exchange rates for reporting. Rates are loaded from files rather than a live
+ * feed, so conversions use the latest rate on or before the requested date.
+ */
+export class FxService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  /**
+   * Insert or overwrite rates; a row replaces any rate for the same day and pair
+   */
+  async import(rows: FxRateInput[], source?: string): Promise<number> {
+    for (let i = 0; i < rows.length; i += 500) {
+      await this.prismaClient.$transaction(
+        rows.slice(i, i + 500).map((row) =>
+          this.prismaClient.fxRate.upsert({
+            where: { date_base_quote: { date: row.date, base: row.base, quote: row.quote } },
+            create: { ...row, source },
+            update: { rate: row.rate, source },
+          })
+        )
+      );
+    }
+    return rows.length;
+  }
+
+  /**
+   * Multipliers from each currency in `from` into `to` as of a date. A pair
+   * is resolved directly, through its inverse, or through one currency that
+   * both have a rate with. Currencies with no usable rate map to null.
+   */
+  async ratesTo(from: string[], to: string, asOf: Date = new Date()): Promise<Map<string, number | null>> {
+    const wanted = Array.from(new Set(from.map((code) => code.toUpperCase())));
+    const target = to.toUpperCase();
+    const codes = [...wanted, target];
+
+    // Latest rate per pair on or before asOf, for pairs touching any currency involved
+    const latest = await this.prismaClient.fxRate.findMany({
+      where: { date: { lte: asOf }, OR: [{ base: { in: codes } }, { quote: { in: codes } }] },
+      orderBy: [{ base: 'asc' }, { quote: 'asc' }, { date: 'desc' }],
+      distinct: ['base', 'quote'],
+      select: { base: true, quote: true, rate: true },
+    });
+
+    // Both directions of every pair; a direct quote wins over an inverted one
+    const graph = new Map<string, Map<string, number>>();
+    const link = (a: string, b: string, rate: number, direct: boolean) => {
+      const edges = graph.get(a) || new Map<string, number>();
+      if (direct || !edges.has(b)) edges.set(b, rate);
+      graph.set(a, edges);
+    };
+    for (const { base, quote, rate } of latest) link(base, quote, rate, true);
+    for (const { base, quote, rate } of latest) link(quote, base, 1 / rate, false);
+
+    const resolve = (code: string): number | null => {
+      if (code === target) return 1;
+      const edges = graph.get(code);
+      const direct = edges?.get(target);
+      if (direct !== undefined) return direct;
+      for (const [via, rate] of edges || []) {
+        const onward = graph.get(via)?.get(target);
+        if (onward !== undefined) return rate * onward;
+      }
+      return null;
+    };
+
+    return new Map(wanted.map((code) => [code, resolve(code)]));
+  }
+}
+
+export const fxService = new FxService();
@@ -0,0 +1,304 @@
+import { createHash, randomBytes } from 'crypto';
+import { UserRole } from '@prisma/client';
+import type { Invitation, Prisma, PrismaClient, User } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import emailService from './email.service';
+import { auditService, type AuditContext } from './audit.service';
+
+// How long an emailed invitation link stays valid
+const INVITATION_TTL_DAYS = 7;
+
+export type PublicInvitation = Omit<Invitation, 'tokenHash'>;
+
+export interface InvitationPreview {
+  email: string;
+  role: UserRole;
+  tenantName: string;
+  invitedBy: string;
+  expiresAt: Date;
+  // Whether the invitee should sign in rather than sign up
+  accountExists: boolean;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const toPublicInvitation = ({ tokenHash: _, ...invitation }: Invitation): PublicInvitation => invitation;
+
+const formatRole = (role: UserRole) => role.charAt(0) + role.slice(1).toLowerCase();
+
+/**
+ * Tenant invitations sent as emailed links. Only a hash of each link's token is
+ * stored; resending issues a new token, which invalidates the old link.
+ */
+export class InvitationService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  /**
+   * Invite an email address to a tenant. Inviting an address with a pending
+   * invitation replaces it (new role, new link).
+   */
+  async invite(params: { tenantId: string; email: string; role: UserRole; invitedById: string }): Promise<PublicInvitation> {
+    const email = params.email.trim().toLowerCase();
+
+    const member = await this.prismaClient.user.findFirst({
+      where: { email, tenantId: params.tenantId },
+      select: { id: true },
+    });
+    if (member) {
+      throw new ConflictError('That user is already a member of this tenant');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const data = {
+      role: params.role,
+      tokenHash: hashToken(token),
+      expiresAt: this.expiry(),
+      invitedById: params.invitedById,
+    };
+
+    const pending = await this.prismaClient.invitation.findFirst({
+      where: { tenantId: params.tenantId, email, acceptedAt: null, revokedAt: null },
+    });
+    const invitation = pending
+      ? await this.prismaClient.invitation.update({ where: { id: pending.id }, data })
+      : await this.prismaClient.invitation.create({ data: { ...data, tenantId: params.tenantId, email } });
+
+    await this.send(invitation, token);
+    return toPublicInvitation(invitation);
+  }
+
+  /**
+   * Invitations that haven't been accepted or revoked, including expired ones
+   * so they can be resent
+   */
+  async listOpen(tenantId: string) {
+    const invitations = await this.prismaClient.invitation.findMany({
+      where: { tenantId, acceptedAt: null, revokedAt: null },
+      include: { invitedBy: { select: { id: true, email: true, username: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+    return invitations.map(({ tokenHash: _, ...invitation }) => ({
+      ...invitation,
+      isExpired: invitation.expiresAt < new Date(),
+    }));
+  }
+
+  /**
+   * Email a fresh link and restart the expiry clock
+   */
+  async resend(tenantId: string, invitationId: string): Promise<PublicInvitation> {
+    await this.getOpen(tenantId, invitationId);
+
+    const token = randomBytes(32).toString('base64url');
+    const invitation = await this.prismaClient.invitation.update({
+      where: { id: invitationId },
+      data: { tokenHash: hashToken(token), expiresAt: this.expiry() },
+    });
+
+    await this.send(invitation, token);
+    return toPublicInvitation(invitation);
+  }
+
+  async revoke(tenantId: string, invitationId: string): Promise<PublicInvitation> {
+    await this.getOpen(tenantId, invitationId);
+
+    const invitation = await this.prismaClient.invitation.update({
+      where: { id: invitationId },
+      data: { revokedAt: new Date() },
+    });
+    return toPublicInvitation(invitation);
+  }
+
+  /**
+   * Look up the invitation behind an emailed link. Throws if the link was
+   * revoked, used, replaced by a resend or has expired.
+   */
+  async getPending(token: string): Promise<Invitation> {
+    const invitation = await this.prismaClient.invitation.findUnique({ where: { tokenHash: hashToken(token) } });
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+      throw new NotFoundError('This invitation is no longer valid');
+    }
+    if (invitation.expiresAt < new Date()) {
+      throw new ValidationError('This invitation has expired. Ask for a new one.');
+    }
+    return invitation;
+  }
+
+  async preview(token: string): Promise<InvitationPreview> {
+    const invitation = await this.getPending(token);
+    const [tenant, inviter, account] = await Promise.all([
+      this.prismaClient.tenant.findUnique({ where: { id: invitation.tenantId }, select: { name: true } }),
+      this.prismaClient.user.findUnique({ where: { id: invitation.invitedById }, select: { email: true, username: true } }),
+      this.prismaClient.user.findUnique({ where: { email: invitation.email }, select: { id: true } }),
+    ]);
+
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      tenantName: tenant?.name ?? 'a tenant',
+      invitedBy: inviter?.username || inviter?.email || 'A teammate',
+      expiresAt: invitation.expiresAt,
+      accountExists: !!account,
+    };
+  }
+
+  /**
+   * Accept an invitation as an existing, signed-in user: the user moves to the
+   * invited tenant with the invited role.
+   */
+  async acceptForUser(token: string, userId: string, context: AuditContext) {
+    const invitation = await this.getPending(token);
+    const user = await this.prismaClient.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, tenantId: true, role: true },
+    });
+    if (!user || user.email.toLowerCase() !== invitation.email) {
+      throw new ForbiddenError('This invitation was sent to a different email address');
+    }
+
+    if (user.tenantId !== invitation.tenantId && user.role === UserRole.OWNER) {
+      // Don't leave the user's current team without an owner
+      const [owners, members] = await Promise.all([
+        this.prismaClient.user.count({ where: { tenantId: user.tenantId, role: UserRole.OWNER } }),
+        this.prismaClient.user.count({ where: { tenantId: user.tenantId } }),
+      ]);
+      if (owners <= 1 && members > 1) {
+        throw new ConflictError('Make someone else an owner of your current tenant before joining another');
+      }
+    }
+
+    const updated = await this.prismaClient.$transaction(async (tx) => {
+      await this.claim(tx, invitation);
+      return tx.user.update({
+        where: { id: user.id },
+        data: { tenantId: invitation.tenantId, role: invitation.role },
+        select: { id: true, email: true, username: true, tenantId: true, role: true },
+      });
+    });
+
+    logger.info(`User ${user.id} joined tenant ${invitation.tenantId} as ${invitation.role} by invitation`);
+    await this.recordAccepted(context, invitation, updated);
+    return updated;
+  }
+
+  /**
+   * Create the account of someone signing up from an invitation link, in the
+   * invited tenant with the invited role. The emailed link already proved the
+   * address, so the account starts verified.
+   */
+  async acceptForSignup(
+    token: string,
+    account: { email: string; username?: string; passwordHash: string },
+    context: AuditContext
+  ): Promise<User> {
+    const invitation = await this.getPending(token);
+    if (invitation.email !== account.email.toLowerCase()) {
+      throw new ValidationError('This invitation was sent to a different email address');
+    }
+
+    const user = await this.prismaClient.$transaction(async (tx) => {
+      await this.claim(tx, invitation);
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          username: account.username,
+          passwordHash: account.passwordHash,
+          isVerified: true,
+          tenantId: invitation.tenantId,
+          role: invitation.role,
+        },
+      });
+    });
+
+    logger.info(`User ${user.id} signed up to tenant ${invitation.tenantId} as ${invitation.role} by invitation`);
+    // Nobody is signed in yet; the new account is who acted
+    await this.recordAccepted({ ...context, actorType: 'USER', actorId: user.id, actorLabel: user.email }, invitation, user);
+    return user;
+  }
+
+  /**
+   * Audit an accepted invitation once the transaction that claimed it has committed
+   */
+  private async recordAccepted(context: AuditContext, invitation: Invitation, user: Pick<User, 'id' | 'email'>) {
+    await auditService.record(context, {
+      tenantId: invitation.tenantId,
+      action: 'invitation.accepted',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      metadata: { email: invitation.email, role: invitation.role },
+    });
+    await auditService.record(context, {
+      tenantId: invitation.tenantId,
+      action: 'tenant.user_added',
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { email: user.email, role: invitation.role, invitationId: invitation.id },
+    });
+  }
+
+  /**
+   * Mark an invitation accepted inside the transaction that acts on it. Only
+   * succeeds while the same link is still open, so of two requests racing on
+   * one invitation the second fails and its transaction rolls back.
+   */
+  private async claim(tx: Prisma.TransactionClient, invitation: Invitation): Promise<void> {
+    const { count } = await tx.invitation.updateMany({
+      where: {
+        id: invitation.id,
+        tokenHash: invitation.tokenHash,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { acceptedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundError('This invitation is no longer valid');
+    }
+  }
+
+  private async getOpen(tenantId: string, invitationId: string): Promise<Invitation> {
+    const invitation = await this.prismaClient.invitation.findFirst({
+      where: { id: invitationId, tenantId, acceptedAt: null, revokedAt: null },
+    });
+    if (!invitation) {
+      throw new NotFoundError('Invitation not found');
+    }
+    return invitation;
+  }
+
+  private expiry(): Date {
+    return new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private async send(invitation: Invitation, token: string): Promise<void> {
+    const frontendUrl = (process.env.FRONTEND_BASE_URL || process.env.FRONTEND_URL || 'http://localhost:3000')
+      .split(',')[0]
+      .trim()
+      .replace(/\/$/, '');
+    const acceptUrl = `${frontendUrl}/invite/${token}`;
+
+    const [tenant, inviter] = await Promise.all([
+      this.prismaClient.tenant.findUnique({ where: { id: invitation.tenantId }, select: { name: true } }),
+      this.prismaClient.user.findUnique({ where: { id: invitation.invitedById }, select: { email: true, username: true } }),
+    ]);
+
+    if (!emailService.isConfigured() && process.env.NODE_ENV !== 'production') {
+      // Without SMTP in development, the log is the only way to get the link
+      logger.info(`Invitation link for ${invitation.email}: ${acceptUrl}`);
+    }
+
+    const role = formatRole(invitation.role);
+    await emailService.sendInvitationEmail(invitation.email, {
+      inviterName: inviter?.username || inviter?.email || 'A teammate',
+      tenantName: tenant?.name ?? 'their tenant',
+      roleLabel: /^[AEIOU]/.test(role) ? `an ${role}` : `a ${role}`,
+      acceptUrl,
+      expiresIn: `${INVITATION_TTL_DAYS} days`,
+    });
+  }
+}
+
+export const invitationService = new InvitationService();
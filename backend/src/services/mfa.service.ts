@@ -0,0 +1,178 @@
+import { createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import type { PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { decryptToken, encryptToken } from '../utils/crypto';
+import { generateTotpSecret, totpUri, verifyTotp } from '../utils/totp';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth URI, ready for an <img>
+  qrCode: string;
+}
+
+// A second factor: a code from the authenticator app or an unused recovery code
+export interface MfaProof {
+  code?: string;
+  recoveryCode?: string;
+}
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hashRecoveryCode = (code: string) => createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+/**
+ * Authenticator-app (TOTP) two-factor authentication. Enrolling stores a new
+ * secret that only takes effect once the user confirms a code from it, so a
+ * half-finished setup never locks anyone out.
+ *
+ * Wrong codes are validation errors rather than 401s: signed-in users enter
+ * codes in settings too, and the frontend treats any 401 as a dead session.
+ */
+export class MfaService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  async status(userId: string): Promise<MfaStatus> {
+    const user = await this.getUser(userId);
+    return { enabled: user.mfaEnabled, recoveryCodesRemaining: user.mfaRecoveryCodes.length };
+  }
+
+  /**
+   * Generate a secret for the user to add to their authenticator app
+   */
+  async startEnrollment(userId: string): Promise<MfaEnrollment> {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prismaClient.user.update({
+      where: { id: userId },
+      data: { mfaSecret: encryptToken(secret), mfaLastUsedStep: null },
+    });
+
+    const otpauthUrl = totpUri(secret, user.email, process.env.MFA_ISSUER || 'Xeno Insights');
+    return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+  }
+
+  /**
+   * Turn 2FA on once the user proves their app produces valid codes. Returns
+   * the recovery codes, which are only ever shown this once.
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new ValidationError('Start two-factor setup before confirming a code');
+    }
+
+    await this.consumeTotp(userId, user.mfaSecret, code);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.prismaClient.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: true, mfaRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    });
+
+    logger.info(`Two-factor authentication enabled for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a second factor for a user with 2FA enabled. Each authenticator code
+   * and recovery code works once.
+   */
+  async verify(userId: string, proof: MfaProof): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+
+    if (proof.recoveryCode) {
+      const hash = hashRecoveryCode(proof.recoveryCode);
+      if (!user.mfaRecoveryCodes.includes(hash)) {
+        throw new ValidationError('Invalid recovery code');
+      }
+      await this.prismaClient.user.update({
+        where: { id: userId },
+        data: { mfaRecoveryCodes: user.mfaRecoveryCodes.filter((stored) => stored !== hash) },
+      });
+      logger.info(`User ${userId} used a recovery code; ${user.mfaRecoveryCodes.length - 1} left`);
+      return;
+    }
+
+    await this.consumeTotp(userId, user.mfaSecret, proof.code ?? '', user.mfaLastUsedStep);
+  }
+
+  /**
+   * Replace all recovery codes, invalidating the old ones
+   */
+  async regenerateRecoveryCodes(userId: string, proof: MfaProof): Promise<string[]> {
+    await this.verify(userId, proof);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.prismaClient.user.update({
+      where: { id: userId },
+      data: { mfaRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    });
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, proof: MfaProof): Promise<void> {
+    await this.verify(userId, proof);
+
+    await this.prismaClient.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: false, mfaSecret: null, mfaLastUsedStep: null, mfaRecoveryCodes: [] },
+    });
+    logger.info(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  private async getUser(userId: string) {
+    const user = await this.prismaClient.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, mfaEnabled: true, mfaSecret: true, mfaLastUsedStep: true, mfaRecoveryCodes: true },
+    });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private async consumeTotp(userId: string, encryptedSecret: string, code: string, lastUsedStep?: number | null) {
+    const step = verifyTotp(decryptToken(encryptedSecret), code);
+    if (step === null || (lastUsedStep != null && step <= lastUsedStep)) {
+      throw new ValidationError('Invalid authentication code');
+    }
+
+    // Record the step only if nobody used this or a later code in the meantime
+    const { count } = await this.prismaClient.user.updateMany({
+      where: { id: userId, OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }] },
+      data: { mfaLastUsedStep: step },
+    });
+    if (count === 0) {
+      throw new ValidationError('Invalid authentication code');
+    }
+  }
+}
+
+export const mfaService = new MfaService();
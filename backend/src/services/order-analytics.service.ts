@@ -0,0 +1,150 @@
+import { Prisma } from '@prisma/client';
+import type { PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { netSalesSql, revenueColumns, revenueFilter, type RevenueBreakdown, type RevenueOptions } from '../utils/order-revenue';
+
+export interface DailySales extends Omit<RevenueBreakdown, 'totalSales'> {
+  date: string;
+  orders: number;
+}
+
+export interface HourlyActivity {
+  dow: number;
+  hour: number;
+  orders: number;
+  revenue: number;
+}
+
+export interface MonthlyOrder {
+  netSales: number;
+  customerId: string | null;
+  customerEmail: string | null;
+  month: number;
+}
+
+/**
+ * Who placed an order: the customer record, or the lowercased email for
+ * guest checkouts. Matches customerKeySql.
+ */
+export const customerKey = (order: { customerId: string | null; customerEmail: string | null }) =>
+  order.customerId ?? order.customerEmail?.toLowerCase() ?? null;
+
+const customerKeySql = Prisma.sql`COALESCE("customerId", LOWER("customerEmail"))`;
+
+/**
+ * An order timestamp column as wall-clock time in the store's zone. Columns
+ * are `timestamp without time zone` holding UTC, hence the double conversion.
+ */
+export const localTime = (column: Prisma.Sql, timeZone: string) =>
+  Prisma.sql`((${column}) AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}::TEXT`;
+
+/**
+ * Order aggregations bucketed by day, hour or month in the store's timezone.
+ * Orders are dated by when Shopify processed them.
+ */
+export class OrderAnalyticsService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  /**
+   * Revenue report lines and order counts per local calendar day
+   * (YYYY-MM-DD), oldest first, over orders that count towards revenue
+   */
+  async dailySales(
+    storeId: string,
+    timeZone: string,
+    start: Date,
+    end?: Date,
+    options: RevenueOptions = {}
+  ): Promise<DailySales[]> {
+    const day = localTime(Prisma.sql`"processedAt"`, timeZone);
+    return this.prismaClient.$queryRaw<DailySales[]>`
+      SELECT TO_CHAR(${day}, 'YYYY-MM-DD') AS "date",
+        ${revenueColumns},
+        COUNT(*)::INTEGER AS "orders"
+      FROM "orders"
+      WHERE "storeId" = ${storeId}
+        AND "processedAt" >= ${start}
+        ${end ? Prisma.sql`AND "processedAt" <= ${end}` : Prisma.empty}
+        AND ${revenueFilter(options)}
+      GROUP BY 1
+      ORDER BY 1`;
+  }
+
+  /**
+   * Revenue report lines and order count over a range (all time without one)
+   */
+  async revenueSummary(
+    storeId: string,
+    range: { start?: Date; end?: Date } = {},
+    options: RevenueOptions = {}
+  ): Promise<Omit<RevenueBreakdown, 'totalSales'> & { orders: number }> {
+    const [row] = await this.prismaClient.$queryRaw<Array<Omit<RevenueBreakdown, 'totalSales'> & { orders: number }>>`
+      SELECT ${revenueColumns},
+        COUNT(*)::INTEGER AS "orders"
+      FROM "orders"
+      WHERE "storeId" = ${storeId}
+        ${range.start ? Prisma.sql`AND "processedAt" >= ${range.start}` : Prisma.empty}
+        ${range.end ? Prisma.sql`AND "processedAt" <= ${range.end}` : Prisma.empty}
+        AND ${revenueFilter(options)}`;
+    return row;
+  }
+
+  /**
+   * Orders and net sales per local weekday (0 = Sunday) and hour, over orders
+   * that count towards revenue
+   */
+  async hourlyActivity(
+    storeId: string,
+    timeZone: string,
+    start: Date,
+    end: Date,
+    options: RevenueOptions = {}
+  ): Promise<HourlyActivity[]> {
+    const local = localTime(Prisma.sql`"processedAt"`, timeZone);
+    return this.prismaClient.$queryRaw<HourlyActivity[]>`
+      SELECT EXTRACT(DOW FROM ${local})::INTEGER AS "dow",
+        EXTRACT(HOUR FROM ${local})::INTEGER AS "hour",
+        COUNT(*)::INTEGER AS "orders",
+        SUM(${netSalesSql})::DOUBLE PRECISION AS "revenue"
+      FROM "orders"
+      WHERE "storeId" = ${storeId}
+        AND "processedAt" >= ${start}
+        AND "processedAt" <= ${end}
+        AND ${revenueFilter(options)}
+      GROUP BY 1, 2`;
+  }
+
+  /**
+   * When each of the given customers (see customerKey) first placed an order
+   * that counts towards revenue. Customers without one are left out.
+   */
+  async firstOrderDates(storeId: string, customerKeys: string[], options: RevenueOptions = {}): Promise<Map<string, Date>> {
+    if (!customerKeys.length) return new Map();
+    const rows = await this.prismaClient.$queryRaw<Array<{ customerKey: string; firstOrderAt: Date }>>`
+      SELECT ${customerKeySql} AS "customerKey",
+        MIN("processedAt") AS "firstOrderAt"
+      FROM "orders"
+      WHERE "storeId" = ${storeId}
+        AND ${customerKeySql} = ANY(${customerKeys}::TEXT[])
+        AND ${revenueFilter(options)}
+      GROUP BY 1`;
+    return new Map(rows.map((r) => [r.customerKey, r.firstOrderAt]));
+  }
+
+  /**
+   * Every order that counts towards revenue with its net sales and the local
+   * month it fell in, as year * 12 + month - 1, oldest first
+   */
+  async ordersByMonth(storeId: string, timeZone: string, options: RevenueOptions = {}): Promise<MonthlyOrder[]> {
+    const local = localTime(Prisma.sql`"processedAt"`, timeZone);
+    return this.prismaClient.$queryRaw<MonthlyOrder[]>`
+      SELECT ${netSalesSql}::DOUBLE PRECISION AS "netSales", "customerId", "customerEmail",
+        (EXTRACT(YEAR FROM ${local}) * 12 + EXTRACT(MONTH FROM ${local}) - 1)::INTEGER AS "month"
+      FROM "orders"
+      WHERE "storeId" = ${storeId}
+        AND ${revenueFilter(options)}
+      ORDER BY "processedAt" ASC`;
+  }
+}
+
+export const orderAnalyticsService = new OrderAnalyticsService();
@@ -0,0 +1,337 @@
+import { OrderBackfillStatus, Prisma, SyncTrigger } from '@prisma/client';
+import type { OrderBackfill, PrismaClient, Store, SyncRun } from '@prisma/client';
+import { addDays, format, min as minDate, startOfMonth } from 'date-fns';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { ConflictError } from '../utils/errors';
+import { STALE_HEARTBEAT_MS, WORKER_ID, startHeartbeat } from '../utils/worker';
+import { DataSyncService, SyncResult } from './data-sync.service';
+import { ShopifyService } from './shopify.service';
+import { SyncRunService } from './sync-run.service';
+
+const PAGE_LIMIT = 250;
+const DEFAULT_WINDOW_DAYS = 30;
+
+export interface BackfillProgress {
+  percent: number;
+  // Last fully imported month, e.g. "2023-04"
+  through: string | null;
+  message: string;
+}
+
+export interface StartBackfillOptions {
+  // Discard the checkpoint and walk the whole history again
+  restart?: boolean;
+  windowDays?: number;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const ALREADY_RUNNING = 'An order backfill is already running for this store';
+
+/**
+ * Imports a store's full order history in created_at windows, oldest first.
+ * The checkpoint is saved after every window, so a backfill stopped by an
+ * error or a restart picks up at the first window it hadn't finished.
+ * A running backfill is held by one process, which keeps its heartbeat
+ * fresh; other instances only take it over once the heartbeat goes stale.
+ */
+export class OrderBackfillService {
+  // Stores with a backfill loop running in this process
+  private readonly active = new Set<string>();
+  private readonly syncRuns: SyncRunService;
+
+  constructor(
+    private readonly prismaClient: PrismaClient = prisma,
+    private readonly staleAfterMs = STALE_HEARTBEAT_MS
+  ) {
+    this.syncRuns = new SyncRunService(prismaClient, staleAfterMs);
+  }
+
+  /**
+   * Whether a backfill for the store is running here or on another instance
+   */
+  async isRunning(storeId: string): Promise<boolean> {
+    if (this.active.has(storeId)) return true;
+    const running = await this.prismaClient.orderBackfill.count({
+      where: { storeId, status: OrderBackfillStatus.RUNNING, heartbeatAt: { gte: this.staleBefore() } },
+    });
+    return running > 0;
+  }
+
+  async getBackfill(storeId: string): Promise<OrderBackfill | null> {
+    return this.prismaClient.orderBackfill.findUnique({ where: { storeId } });
+  }
+
+  /**
+   * Start, resume or restart the backfill for a store. The import itself runs
+   * in the background; the returned row reflects its starting point.
+   */
+  async start(store: Store, options: StartBackfillOptions = {}): Promise<OrderBackfill> {
+    if (this.active.has(store.id)) {
+      throw new ConflictError(ALREADY_RUNNING);
+    }
+
+    const existing = await this.getBackfill(store.id);
+    if (existing?.status === OrderBackfillStatus.COMPLETED && !options.restart) {
+      return existing;
+    }
+
+    let data: Prisma.OrderBackfillUncheckedUpdateInput;
+    if (!existing || options.restart) {
+      // Walk from the day the shop was created up to now
+      const shop = await new ShopifyService(store).getStoreInfo();
+      const startDate = new Date(shop.created_at);
+      data = {
+        startDate,
+        endDate: new Date(),
+        checkpoint: startDate,
+        windowDays: options.windowDays ?? existing?.windowDays ?? DEFAULT_WINDOW_DAYS,
+        ordersImported: 0,
+        startedAt: new Date(),
+      };
+    } else {
+      data = options.windowDays ? { windowDays: options.windowDays } : {};
+    }
+
+    const backfill = existing
+      ? await this.claim(existing.id, data)
+      : await this.create(store, data as Prisma.OrderBackfillUncheckedCreateInput);
+    if (!backfill) {
+      throw new ConflictError(ALREADY_RUNNING);
+    }
+
+    this.launch(store, backfill);
+    return backfill;
+  }
+
+  /**
+   * Pick up backfills this worker's previous process was running, or whose
+   * worker has stopped refreshing them. Backfills other instances are still
+   * running are left alone, and each one is claimed first so only one
+   * instance resumes it.
+   */
+  async resumeInterruptedBackfills(): Promise<number> {
+    const interrupted = await this.prismaClient.orderBackfill.findMany({
+      where: { status: OrderBackfillStatus.RUNNING, OR: this.abandoned() },
+      include: { store: true },
+    });
+
+    let resumed = 0;
+    for (const { store, ...candidate } of interrupted) {
+      if (!store.isActive || !store.accessToken) {
+        await this.markFailed(candidate.id, 'Store is inactive or has no access token');
+        continue;
+      }
+      const backfill = await this.claim(candidate.id, {}, { status: OrderBackfillStatus.RUNNING });
+      if (!backfill) continue;
+
+      logger.info(`Resuming order backfill for store ${store.id} from ${backfill.checkpoint.toISOString()}`);
+      this.launch(store, backfill);
+      resumed++;
+    }
+    return resumed;
+  }
+
+  describeProgress(backfill: OrderBackfill): BackfillProgress {
+    const span = backfill.endDate.getTime() - backfill.startDate.getTime();
+    const done = backfill.checkpoint.getTime() - backfill.startDate.getTime();
+    const percent = span > 0 ? Math.min(100, Math.round((done / span) * 100)) : 100;
+    // Report the last calendar month that is fully imported
+    const monthStart = startOfMonth(backfill.checkpoint);
+    const through = monthStart > backfill.startDate ? format(addDays(monthStart, -1), 'yyyy-MM') : null;
+
+    let message: string;
+    if (backfill.status === OrderBackfillStatus.COMPLETED) {
+      message = `All orders through ${format(backfill.endDate, 'yyyy-MM')} imported`;
+    } else if (through) {
+      message = `Orders through ${through} imported`;
+    } else {
+      message = 'No orders imported yet';
+    }
+    return { percent, through, message };
+  }
+
+  private staleBefore() {
+    return new Date(Date.now() - this.staleAfterMs);
+  }
+
+  // Running backfills nobody is looking after any more
+  private abandoned(): Prisma.OrderBackfillWhereInput[] {
+    return [{ workerId: WORKER_ID }, { heartbeatAt: null }, { heartbeatAt: { lt: this.staleBefore() } }];
+  }
+
+  /**
+   * Take a backfill for this worker and set it running, unless another
+   * instance is running it. Resolves to undefined when it could not be taken.
+   */
+  private async claim(
+    id: string,
+    data: Prisma.OrderBackfillUncheckedUpdateInput,
+    where: Prisma.OrderBackfillWhereInput = {}
+  ): Promise<OrderBackfill | undefined> {
+    const { count } = await this.prismaClient.orderBackfill.updateMany({
+      where: {
+        ...where,
+        id,
+        OR: [{ status: { not: OrderBackfillStatus.RUNNING } }, ...this.abandoned()],
+      },
+      data: {
+        ...data,
+        status: OrderBackfillStatus.RUNNING,
+        lastError: null,
+        finishedAt: null,
+        workerId: WORKER_ID,
+        heartbeatAt: new Date(),
+      },
+    });
+    return count ? this.prismaClient.orderBackfill.findUniqueOrThrow({ where: { id } }) : undefined;
+  }
+
+  private async create(store: Store, data: Prisma.OrderBackfillUncheckedCreateInput): Promise<OrderBackfill | undefined> {
+    try {
+      return await this.prismaClient.orderBackfill.create({
+        data: {
+          ...data,
+          storeId: store.id,
+          tenantId: store.tenantId,
+          status: OrderBackfillStatus.RUNNING,
+          workerId: WORKER_ID,
+          heartbeatAt: new Date(),
+        },
+      });
+    } catch (error) {
+      // Another instance created it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return undefined;
+      throw error;
+    }
+  }
+
+  private launch(store: Store, backfill: OrderBackfill) {
+    this.active.add(store.id);
+    const stopHeartbeat = startHeartbeat(
+      `order backfill ${backfill.id}`,
+      () => this.prismaClient.orderBackfill.updateMany({
+        where: { id: backfill.id, workerId: WORKER_ID, status: OrderBackfillStatus.RUNNING },
+        data: { heartbeatAt: new Date() },
+      }),
+      this.staleAfterMs
+    );
+    this.run(store, backfill)
+      .catch((error) => logger.error(`Order backfill failed for store ${store.id}:`, error))
+      .finally(() => {
+        stopHeartbeat();
+        this.active.delete(store.id);
+      });
+  }
+
+  private async run(store: Store, backfill: OrderBackfill): Promise<void> {
+    const shopifyService = new ShopifyService(store);
+    const syncService = new DataSyncService(shopifyService, store, this.prismaClient);
+    let run: SyncRun;
+    try {
+      run = await this.syncRuns.start(store, SyncTrigger.MANUAL, ['orders']);
+    } catch (error) {
+      // A sync started since the backfill was claimed; it resumes from its checkpoint when started again
+      await this.markFailed(backfill.id, describeError(error));
+      throw error;
+    }
+    const stopRunHeartbeat = this.syncRuns.keepAlive(run.id);
+    const stats = { total: 0, created: 0, updated: 0, errors: 0 };
+    const errorMessages: string[] = [];
+
+    let checkpoint = backfill.checkpoint;
+    try {
+      while (checkpoint < backfill.endDate) {
+        const windowEnd = minDate([addDays(checkpoint, backfill.windowDays), backfill.endDate]);
+        const imported = await this.importWindow(shopifyService, syncService, checkpoint, windowEnd, stats, errorMessages);
+
+        checkpoint = windowEnd;
+        await this.prismaClient.orderBackfill.update({
+          where: { id: backfill.id },
+          data: { checkpoint, ordersImported: { increment: imported } },
+        });
+      }
+
+      await this.prismaClient.orderBackfill.update({
+        where: { id: backfill.id },
+        data: { status: OrderBackfillStatus.COMPLETED, finishedAt: new Date() },
+      });
+      logger.info(`Order backfill completed for store ${store.id}: ${stats.total} orders`);
+    } catch (error) {
+      // The checkpoint still points at the window that failed; starting again resumes there
+      stats.errors++;
+      errorMessages.push(`orders ${checkpoint.toISOString()}: ${describeError(error)}`);
+      await this.markFailed(backfill.id, describeError(error));
+    } finally {
+      stopRunHeartbeat();
+    }
+
+    const result: SyncResult = {
+      success: stats.errors === 0,
+      message: `Backfilled ${stats.total} orders (${stats.created} created, ${stats.updated} updated, ${stats.errors} errors)`,
+      stats,
+      errorMessages,
+    };
+    await this.syncRuns.complete(run.id, { orders: result });
+  }
+
+  /**
+   * Import every order created in [from, to). Page fetch errors abort the
+   * window; a single order that fails to save is recorded and skipped.
+   */
+  private async importWindow(
+    shopifyService: ShopifyService,
+    syncService: DataSyncService,
+    from: Date,
+    to: Date,
+    stats: SyncResult['stats'],
+    errorMessages: string[]
+  ): Promise<number> {
+    let pageInfo: string | undefined;
+    let imported = 0;
+
+    do {
+      const page = await shopifyService.getOrdersPage(
+        pageInfo
+          ? { limit: PAGE_LIMIT, page_info: pageInfo }
+          : {
+              limit: PAGE_LIMIT,
+              status: 'any',
+              created_at_min: from.toISOString(),
+              // created_at_max is inclusive; stop just short of the next window
+              created_at_max: new Date(to.getTime() - 1).toISOString(),
+            }
+      );
+      pageInfo = page.nextPageInfo;
+
+      for (const order of page.items) {
+        stats.total++;
+        try {
+          const outcome = await syncService.applyOrder(order);
+          if (outcome === 'created') {
+            stats.created++;
+          } else if (outcome === 'updated') {
+            stats.updated++;
+          }
+          imported++;
+        } catch (error) {
+          logger.error(`Error backfilling order ${order.id}:`, error);
+          stats.errors++;
+          errorMessages.push(`orders ${order.id}: ${describeError(error)}`);
+        }
+      }
+    } while (pageInfo);
+
+    return imported;
+  }
+
+  private async markFailed(id: string, lastError: string) {
+    await this.prismaClient.orderBackfill.update({
+      where: { id },
+      data: { status: OrderBackfillStatus.FAILED, lastError, finishedAt: new Date() },
+    });
+  }
+}
+
+export const orderBackfillService = new OrderBackfillService();
@@ -0,0 +1,165 @@
+import { Prisma } from '@prisma/client';
+import type { PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { localTime } from './order-analytics.service';
+import { refundTotals, revenueFilter, type RevenueOptions } from '../utils/order-revenue';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+export interface LineItemOrder {
+  id: string;
+  storeId: string;
+  tenantId: string;
+  processedAt: Date;
+  // The order's Shopify refunds, to record what was returned per item
+  refunds?: unknown;
+}
+
+export interface SkuDailySales {
+  day: string;
+  sku: string | null;
+  productId: string | null;
+  title: string;
+  units: number;
+  revenue: number;
+}
+
+const str = (value: unknown) => (value === null || value === undefined || value === '' ? null : String(value));
+
+const num = (value: unknown) => {
+  const n = parseFloat(value as string);
+  return Number.isFinite(n) ? n : 0;
+};
+
+/**
+ * Rows for an order's line items. Accepts raw Shopify (snake_case) items as
+ * well as the camelCase shape DataSyncService used to store.
+ */
+export function lineItemRows(order: LineItemOrder, items: unknown): Prisma.OrderLineItemCreateManyInput[] {
+  if (!Array.isArray(items)) return [];
+  const refunded = refundTotals(order.refunds).lines;
+  return items.map((item: any) => {
+    const allocations = item?.discount_allocations ?? item?.discountAllocations;
+    const returned = refunded.get(String(item?.id));
+    return {
+      orderId: order.id,
+      storeId: order.storeId,
+      tenantId: order.tenantId,
+      shopifyId: str(item?.id),
+      productId: str(item?.product_id ?? item?.productId),
+      variantId: str(item?.variant_id ?? item?.variantId),
+      sku: str(item?.sku),
+      title: item?.title || item?.name || 'Untitled item',
+      variantTitle: str(item?.variant_title ?? item?.variantTitle),
+      vendor: str(item?.vendor),
+      quantity: Math.trunc(num(item?.quantity)),
+      price: num(item?.price),
+      totalDiscount: num(item?.total_discount ?? item?.totalDiscount),
+      refundedQuantity: returned?.quantity ?? 0,
+      refundedSubtotal: returned?.subtotal ?? 0,
+      discountAllocations: Array.isArray(allocations) ? (allocations as Prisma.InputJsonValue) : Prisma.JsonNull,
+      orderProcessedAt: order.processedAt,
+    };
+  });
+}
+
+/**
+ * Writes and aggregates the normalized order_line_items table
+ */
+export class OrderLineItemService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  /**
+   * Replace an order's line items. Pass the transaction client when the
+   * order is upserted in the same transaction.
+   */
+  async replaceForOrder(order: LineItemOrder, items: unknown, client: Client = this.prismaClient): Promise<void> {
+    await client.orderLineItem.deleteMany({ where: { orderId: order.id } });
+    const rows = lineItemRows(order, items);
+    if (rows.length) {
+      await client.orderLineItem.createMany({ data: rows });
+    }
+  }
+
+  /**
+   * Units kept and net sales (after line discounts and returns) per Shopify
+   * product ID over orders that count towards revenue, best sellers first
+   */
+  async topProducts(storeId: string, limit: number, options: RevenueOptions = {}) {
+    return this.prismaClient.$queryRaw<Array<{ productId: string; units: number; revenue: number }>>`
+      SELECT li."productId",
+        SUM(li."quantity" - li."refundedQuantity")::INTEGER AS "units",
+        SUM(li."price" * li."quantity" - li."totalDiscount" - li."refundedSubtotal")::DOUBLE PRECISION AS "revenue"
+      FROM "order_line_items" li
+      JOIN "orders" o ON o."id" = li."orderId"
+      WHERE li."storeId" = ${storeId}
+        AND li."productId" IS NOT NULL
+        AND ${revenueFilter(options, 'o')}
+      GROUP BY li."productId"
+      ORDER BY "units" DESC
+      LIMIT ${limit}`;
+  }
+
+  /**
+   * Net sales (after line discounts and returns) and distinct orders per
+   * product type or vendor, as stored on the products, over orders that count
+   * towards revenue. Untyped products also return their title so callers can
+   * guess a category from it.
+   */
+  async salesByProductField(
+    storeId: string,
+    field: 'productType' | 'vendor',
+    start: Date,
+    end: Date,
+    options: RevenueOptions = {}
+  ) {
+    const key = field === 'vendor' ? Prisma.sql`p."vendor"` : Prisma.sql`p."productType"`;
+    const title =
+      field === 'vendor' ? Prisma.sql`NULL` : Prisma.sql`CASE WHEN COALESCE(TRIM(p."productType"), '') = '' THEN p."title" END`;
+    return this.prismaClient.$queryRaw<Array<{ key: string | null; title: string | null; orders: number; revenue: number }>>`
+      SELECT ${key} AS "key", ${title} AS "title",
+        COUNT(DISTINCT li."orderId")::INTEGER AS "orders",
+        SUM(li."price" * li."quantity" - li."totalDiscount" - li."refundedSubtotal")::DOUBLE PRECISION AS "revenue"
+      FROM "order_line_items" li
+      JOIN "orders" o ON o."id" = li."orderId"
+      LEFT JOIN "products" p ON p."storeId" = li."storeId" AND p."shopifyId" = li."productId"
+      WHERE li."storeId" = ${storeId}
+        AND li."productId" IS NOT NULL
+        AND li."orderProcessedAt" >= ${start}
+        AND li."orderProcessedAt" <= ${end}
+        AND ${revenueFilter(options, 'o')}
+      GROUP BY 1, 2`;
+  }
+
+  /**
+   * Units kept and net sales (after line discounts and returns) per SKU per
+   * day in the store's timezone, over orders that count towards revenue.
+   * Items without a SKU are grouped by product instead.
+   */
+  async skuDailySales(
+    storeId: string,
+    timeZone: string,
+    start: Date,
+    end: Date,
+    options: RevenueOptions = {}
+  ): Promise<SkuDailySales[]> {
+    return this.prismaClient.$queryRaw<SkuDailySales[]>`
+      SELECT
+        TO_CHAR(${localTime(Prisma.sql`li."orderProcessedAt"`, timeZone)}, 'YYYY-MM-DD') AS "day",
+        li."sku",
+        MIN(li."productId") AS "productId",
+        MIN(li."title") AS "title",
+        SUM(li."quantity" - li."refundedQuantity")::INTEGER AS "units",
+        SUM(li."price" * li."quantity" - li."totalDiscount" - li."refundedSubtotal")::DOUBLE PRECISION AS "revenue"
+      FROM "order_line_items" li
+      JOIN "orders" o ON o."id" = li."orderId"
+      WHERE li."storeId" = ${storeId}
+        AND li."orderProcessedAt" >= ${start}
+        AND li."orderProcessedAt" <= ${end}
+        AND ${revenueFilter(options, 'o')}
+      GROUP BY 1, li."sku", CASE WHEN li."sku" IS NULL THEN li."productId" END
+      ORDER BY 1, "units" DESC`;
+  }
+}
+
+export const orderLineItemService = new OrderLineItemService();
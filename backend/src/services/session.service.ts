@@ -0,0 +1,231 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Request, Response, CookieOptions } from 'express';
+import type { PrismaClient, Session } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { ACCESS_TOKEN_TTL_SECONDS, createAuthToken } from '../utils/jwt';
+import { ConflictError, UnauthorizedError } from '../utils/errors';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+// A token replaced this recently was probably sent by a second tab racing the
+// first one's refresh, not replayed by someone else
+const REUSE_GRACE_MS = 10 * 1000;
+
+export const REFRESH_COOKIE = 'refreshToken';
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  // The family ID, which stays the same across rotations
+  sessionId: string;
+  refreshExpiresAt: Date;
+}
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  authenticatedAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const sessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent')?.slice(0, 255),
+  ipAddress: req.ip,
+});
+
+const cookieBase = (): CookieOptions => {
+  const isProd = (process.env.NODE_ENV || 'development') === 'production';
+  return {
+    httpOnly: true,
+    secure: isProd, // only require HTTPS in production
+    sameSite: isProd ? 'none' : 'lax',
+  };
+};
+
+/**
+ * Set the access token cookie and the refresh token cookie. The refresh cookie
+ * is only sent to /api/auth, where it can be exchanged.
+ */
+export function setSessionCookies(res: Response, tokens: SessionTokens) {
+  res.cookie('token', tokens.accessToken, {
+    ...cookieBase(),
+    expires: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000),
+  });
+  res.cookie(REFRESH_COOKIE, tokens.refreshToken, {
+    ...cookieBase(),
+    path: '/api/auth',
+    expires: tokens.refreshExpiresAt,
+  });
+}
+
+export function clearSessionCookies(res: Response) {
+  res.clearCookie('token', cookieBase());
+  res.clearCookie(REFRESH_COOKIE, { ...cookieBase(), path: '/api/auth' });
+}
+
+/**
+ * Refresh-token sessions. Each refresh token is single use: exchanging it
+ * replaces its row with a new one in the same family. Presenting a token that
+ * was already exchanged means it leaked, so the whole family is revoked.
+ */
+export class SessionService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  /**
+   * Start a new session for a user who just authenticated
+   */
+  async issue(userId: string, context: SessionContext): Promise<SessionTokens> {
+    const familyId = randomBytes(16).toString('hex');
+
+    // Expired rows are no use to anyone; clear them out as users sign in
+    await this.prismaClient.session.deleteMany({ where: { userId, expiresAt: { lt: new Date() } } });
+
+    return this.createToken(userId, familyId, new Date(), context);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token.
+   * Throws ConflictError when a concurrent request exchanged the same token
+   * moments ago; that request's new cookies are the ones to keep.
+   */
+  async rotate(refreshToken: string, context: SessionContext): Promise<SessionTokens & { userId: string }> {
+    const session = await this.prismaClient.session.findUnique({ where: { tokenHash: hashToken(refreshToken) } });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new UnauthorizedError('Session has expired or been revoked');
+    }
+
+    if (session.replacedAt) {
+      await this.rejectReuse(session);
+    }
+
+    // Claim the row so two concurrent exchanges can't both succeed
+    const claimed = await this.prismaClient.session.updateMany({
+      where: { id: session.id, replacedAt: null, revokedAt: null },
+      data: { replacedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      const current = await this.prismaClient.session.findUnique({ where: { id: session.id } });
+      if (!current || current.revokedAt) {
+        throw new UnauthorizedError('Session has expired or been revoked');
+      }
+      throw new ConflictError('Session was just refreshed by another request');
+    }
+
+    const tokens = await this.createToken(session.userId, session.familyId, session.authenticatedAt, context);
+    return { ...tokens, userId: session.userId };
+  }
+
+  /**
+   * Whether an access token's session is still live. Checked on every request
+   * so revoking a session takes effect before its access token expires.
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const live = await this.prismaClient.session.findFirst({
+      where: { familyId: sessionId, userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true },
+    });
+    return !!live;
+  }
+
+  /**
+   * Signed-in devices for a user, most recently used first
+   */
+  async list(userId: string): Promise<ActiveSession[]> {
+    const current = await this.prismaClient.session.findMany({
+      where: { userId, replacedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+    return current.map((session) => ({
+      id: session.familyId,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      authenticatedAt: session.authenticatedAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+    }));
+  }
+
+  async revoke(userId: string, sessionId: string): Promise<boolean> {
+    const { count } = await this.prismaClient.session.updateMany({
+      where: { userId, familyId: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Revoke every session for a user, optionally keeping the caller's own
+   */
+  async revokeAll(userId: string, exceptSessionId?: string): Promise<number> {
+    const { count } = await this.prismaClient.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId ? { familyId: { not: exceptSessionId } } : {}),
+      },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const session = await this.prismaClient.session.findUnique({ where: { tokenHash: hashToken(refreshToken) } });
+    if (session) {
+      await this.revoke(session.userId, session.familyId);
+    }
+  }
+
+  private async rejectReuse(session: Session): Promise<never> {
+    if (Date.now() - session.replacedAt!.getTime() > REUSE_GRACE_MS) {
+      await this.prismaClient.session.updateMany({
+        where: { familyId: session.familyId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      logger.warn(`Refresh token reuse detected for user ${session.userId}; revoked session ${session.familyId}`);
+      throw new UnauthorizedError('Session has expired or been revoked');
+    }
+    throw new ConflictError('Session was just refreshed by another request');
+  }
+
+  private async createToken(
+    userId: string,
+    familyId: string,
+    authenticatedAt: Date,
+    context: SessionContext
+  ): Promise<SessionTokens> {
+    const refreshToken = randomBytes(48).toString('base64url');
+    const refreshExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    await this.prismaClient.session.create({
+      data: {
+        userId,
+        familyId,
+        tokenHash: hashToken(refreshToken),
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        authenticatedAt,
+        expiresAt: refreshExpiresAt,
+      },
+    });
+
+    return {
+      accessToken: createAuthToken({ id: userId }, familyId),
+      refreshToken,
+      sessionId: familyId,
+      refreshExpiresAt,
+    };
+  }
+}
+
+export const sessionService = new SessionService();
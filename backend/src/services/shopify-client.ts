@@ -0,0 +1,212 @@
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import { StatusCodes } from 'http-status-codes';
+import logger from '../utils/logger';
+import { decryptToken } from '../utils/crypto';
+import {
+  ShopifyApiError,
+  ShopifyAuthError,
+  ShopifyNotFoundError,
+  ShopifyServerError,
+  ShopifyThrottledError,
+} from '../utils/errors';
+
+export const SHOPIFY_API_VERSION = '2024-10';
+
+// REST Admin API defaults: a 40-request bucket that leaks 2 requests per second
+const DEFAULT_BUCKET_CAPACITY = 40;
+const DEFAULT_LEAK_PER_SECOND = 2;
+
+export interface ShopifyClientOptions {
+  // Overrides https://{domain}; SHOPIFY_API_BASE_URL does the same for every store (mock servers)
+  baseURL?: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+}
+
+export interface ShopifyResponse<T> {
+  data: T;
+  headers: Record<string, string | undefined>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Header values as plain strings; the ones Shopify sends are single-valued
+const headerRecord = (headers: AxiosResponse['headers'] = {}): Record<string, string | undefined> =>
+  Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, value == null ? undefined : String(value)]));
+
+/**
+ * Client-side model of Shopify's leaky bucket for one store.
+ * Requests take a slot before they are sent and wait while the bucket is full.
+ * The X-Shopify-Shop-Api-Call-Limit header ("32/40") corrects our estimate,
+ * since other apps on the same shop share the bucket.
+ */
+export class LeakyBucket {
+  private level = 0;
+  private lastLeakAt = Date.now();
+
+  constructor(
+    private capacity = DEFAULT_BUCKET_CAPACITY,
+    private readonly leakPerSecond = DEFAULT_LEAK_PER_SECOND
+  ) {}
+
+  private leak() {
+    const now = Date.now();
+    this.level = Math.max(0, this.level - ((now - this.lastLeakAt) / 1000) * this.leakPerSecond);
+    this.lastLeakAt = now;
+  }
+
+  async acquire(): Promise<void> {
+    this.leak();
+    while (this.level + 1 > this.capacity) {
+      const waitMs = Math.ceil(((this.level + 1 - this.capacity) / this.leakPerSecond) * 1000);
+      await sleep(waitMs);
+      this.leak();
+    }
+    this.level += 1;
+  }
+
+  /**
+   * Apply a "used/capacity" call-limit header reported by Shopify
+   */
+  observe(callLimitHeader?: string) {
+    const match = callLimitHeader?.match(/^(\d+)\/(\d+)$/);
+    if (!match) return;
+    this.leak();
+    this.capacity = parseInt(match[2], 10);
+    this.level = Math.max(this.level, parseInt(match[1], 10));
+  }
+
+  /**
+   * Treat the bucket as full, e.g. after a 429
+   */
+  fill() {
+    this.leak();
+    this.level = this.capacity;
+  }
+
+  get usage() {
+    this.leak();
+    return { level: this.level, capacity: this.capacity };
+  }
+}
+
+// One bucket per shop, shared by every client talking to it in this process
+const buckets = new Map<string, LeakyBucket>();
+
+export function getBucketForShop(domain: string): LeakyBucket {
+  let bucket = buckets.get(domain);
+  if (!bucket) {
+    bucket = new LeakyBucket();
+    buckets.set(domain, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Parse Retry-After (seconds, possibly fractional, or an HTTP date) into ms
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * HTTP client for the Shopify Admin REST API with per-store throttling,
+ * retries on 429/5xx/network errors with jittered exponential backoff, and
+ * typed errors for everything else.
+ */
+export class ShopifyClient {
+  private http: AxiosInstance;
+  private bucket: LeakyBucket;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+
+  constructor(
+    private readonly domain: string,
+    accessToken: string | null,
+    options: ShopifyClientOptions = {}
+  ) {
+    const origin = options.baseURL || process.env.SHOPIFY_API_BASE_URL || `https://${domain}`;
+    this.http = axios.create({
+      baseURL: `${origin.replace(/\/$/, '')}/admin/api/${SHOPIFY_API_VERSION}`,
+      timeout: options.timeoutMs ?? 30_000,
+      headers: {
+        // Stored tokens are encrypted at rest; plain tokens pass through unchanged
+        'X-Shopify-Access-Token': accessToken ? decryptToken(accessToken) : accessToken,
+        'Content-Type': 'application/json',
+      },
+    });
+    this.bucket = getBucketForShop(domain);
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30_000;
+  }
+
+  async get<T>(path: string, params: Record<string, any> = {}): Promise<ShopifyResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.acquire();
+      try {
+        const response = await this.http.get<T>(path, { params });
+        const headers = headerRecord(response.headers);
+        this.bucket.observe(headers['x-shopify-shop-api-call-limit']);
+        return { data: response.data, headers };
+      } catch (error: any) {
+        const status: number | undefined = error.response?.status;
+        const headers = error.response?.headers || {};
+        this.bucket.observe(headers['x-shopify-shop-api-call-limit']);
+
+        const retryable = status === 429 || (status !== undefined && status >= 500) || (!status && !!error.request);
+        if (!retryable || attempt >= this.maxRetries) {
+          throw this.toShopifyError(error, path);
+        }
+
+        let delayMs = this.backoff(attempt);
+        if (status === 429) {
+          this.bucket.fill();
+          delayMs = parseRetryAfter(headers['retry-after']) ?? delayMs;
+        }
+
+        logger.warn(
+          `[Shopify API] ${this.domain} GET ${path} failed with ${status ?? error.code ?? 'network error'}; ` +
+          `retry ${attempt + 1}/${this.maxRetries} in ${delayMs}ms`
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  // "Full jitter" exponential backoff
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private toShopifyError(error: any, path: string): ShopifyApiError {
+    const status: number | undefined = error.response?.status;
+    const detail = error.response?.data?.errors;
+    const reason = typeof detail === 'string' ? detail : error.message;
+
+    if (status === 401 || status === 403) {
+      return new ShopifyAuthError(`Shopify rejected the access token for ${this.domain}: ${reason}`, status);
+    }
+    if (status === 404) {
+      return new ShopifyNotFoundError(`Shopify resource not found: ${path}`);
+    }
+    if (status === 429) {
+      return new ShopifyThrottledError(
+        `Shopify API rate limit exceeded for ${this.domain}`,
+        parseRetryAfter(error.response?.headers?.['retry-after'])
+      );
+    }
+    if (status === undefined || status >= 500) {
+      return new ShopifyServerError(`Shopify API request to ${path} failed: ${reason}`, status);
+    }
+    return new ShopifyApiError(`Shopify API request to ${path} failed: ${reason}`, StatusCodes.BAD_GATEWAY, status);
+  }
+}
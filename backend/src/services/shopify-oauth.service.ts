@@ -0,0 +1,191 @@
+import axios from 'axios';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { StatusCodes } from 'http-status-codes';
+import type { PrismaClient, Store } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { AppError, UnauthorizedError, ValidationError } from '../utils/errors';
+import { ShopifyService } from './shopify.service';
+import { StoreService, storeService as defaultStoreService } from './store.service';
+import { auditService } from './audit.service';
+
+// How long a user has to approve the install on Shopify
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+const SHOP_DOMAIN_PATTERN = /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/i;
+
+export type OAuthCallbackQuery = Record<string, string | undefined>;
+
+interface AccessTokenResponse {
+  access_token: string;
+  scope: string;
+}
+
+export const isValidShopDomain = (shop?: string): shop is string => !!shop && SHOP_DOMAIN_PATTERN.test(shop);
+
+/**
+ * Verify the `hmac` Shopify adds to OAuth redirects: a hex SHA-256 HMAC of
+ * every other query parameter, sorted by key and joined as `k=v&k=v`.
+ */
+export function verifyOAuthHmac(query: OAuthCallbackQuery, secret: string): boolean {
+  const { hmac, signature: _signature, ...params } = query;
+  if (!hmac) return false;
+
+  const message = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key] ?? ''}`)
+    .join('&');
+  const digest = createHmac('sha256', secret).update(message).digest('hex');
+
+  const a = Buffer.from(digest, 'utf8');
+  const b = Buffer.from(hmac, 'utf8');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Shopify OAuth install flow: build the authorize URL with a one-time state
+ * nonce, then verify the callback and exchange its code for an offline token.
+ * SHOPIFY_API_BASE_URL redirects the token exchange (and later API calls) to a
+ * stub server for testing.
+ */
+export class ShopifyOAuthService {
+  constructor(
+    private readonly prismaClient: PrismaClient = prisma,
+    private readonly stores: StoreService = defaultStoreService
+  ) {}
+
+  private get config() {
+    const apiKey = process.env.SHOPIFY_API_KEY;
+    const apiSecret = process.env.SHOPIFY_API_SECRET;
+    if (!apiKey || !apiSecret) {
+      throw new AppError('Shopify app credentials are not configured', StatusCodes.INTERNAL_SERVER_ERROR);
+    }
+    const backendUrl = (process.env.BACKEND_BASE_URL || 'http://localhost:4000').replace(/\/$/, '');
+    return {
+      apiKey,
+      apiSecret,
+      scopes: process.env.SHOPIFY_SCOPES || 'read_products,read_customers,read_orders',
+      redirectUri: process.env.SHOPIFY_REDIRECT_URI || `${backendUrl}/api/shopify/callback`,
+    };
+  }
+
+  private shopOrigin(shop: string): string {
+    return (process.env.SHOPIFY_API_BASE_URL || `https://${shop}`).replace(/\/$/, '');
+  }
+
+  /**
+   * Create a state nonce for this user and return the URL to send them to
+   */
+  async createAuthorizeUrl(params: { shop: string; tenantId: string; userId: string }): Promise<string> {
+    const shop = params.shop.trim().toLowerCase();
+    if (!isValidShopDomain(shop)) {
+      throw new ValidationError('shop must be a *.myshopify.com domain');
+    }
+
+    const { apiKey, scopes, redirectUri } = this.config;
+    const state = randomBytes(16).toString('hex');
+
+    // Drop nonces nobody came back for
+    await this.prismaClient.oAuthState.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    await this.prismaClient.oAuthState.create({
+      data: {
+        state,
+        shop,
+        tenantId: params.tenantId,
+        userId: params.userId,
+        expiresAt: new Date(Date.now() + STATE_TTL_MS),
+      },
+    });
+
+    const query = new URLSearchParams({
+      client_id: apiKey,
+      scope: scopes,
+      redirect_uri: redirectUri,
+      state,
+    });
+    return `https://${shop}/admin/oauth/authorize?${query.toString()}`;
+  }
+
+  /**
+   * Verify a callback from Shopify and connect the store it authorizes
+   */
+  async handleCallback(query: OAuthCallbackQuery): Promise<Store> {
+    const { apiKey, apiSecret } = this.config;
+    const { shop, code, state } = query;
+
+    if (!isValidShopDomain(shop) || !code || !state) {
+      throw new ValidationError('Missing or invalid shop, code or state');
+    }
+    if (!verifyOAuthHmac(query, apiSecret)) {
+      throw new UnauthorizedError('Invalid OAuth callback signature');
+    }
+
+    // The nonce is single use whether or not the rest of the callback succeeds
+    const saved = await this.prismaClient.oAuthState.findUnique({ where: { state } });
+    if (saved) {
+      await this.prismaClient.oAuthState.delete({ where: { id: saved.id } });
+    }
+    if (!saved || saved.expiresAt < new Date() || saved.shop !== shop.toLowerCase()) {
+      throw new UnauthorizedError('OAuth state is invalid or has expired');
+    }
+
+    const token = await this.exchangeCode(shop, code, apiKey, apiSecret);
+    const scope = token.scope.split(',').map((s) => s.trim()).filter(Boolean);
+
+    // Pull the shop's name, id, currency and timezone with the new token
+    const shopInfo = await new ShopifyService({
+      id: '',
+      tenantId: saved.tenantId,
+      domain: shop,
+      accessToken: token.access_token,
+    }).getStoreInfo();
+
+    const store = await this.stores.connectStore({
+      tenantId: saved.tenantId,
+      domain: shop,
+      accessToken: token.access_token,
+      shopifyId: shopInfo.id ? String(shopInfo.id) : undefined,
+      name: shopInfo.name || shop.replace(/\.myshopify\.com$/i, ''),
+      scope,
+      currency: shopInfo.currency,
+      timezone: shopInfo.iana_timezone,
+    });
+    logger.info(`Store ${store.id} (${shop}) connected through OAuth with scopes ${scope.join(',')}`);
+
+    // The callback comes from Shopify's redirect, so the actor is whoever started the install
+    const installer = await this.prismaClient.user.findUnique({ where: { id: saved.userId }, select: { email: true } });
+    await auditService.record(
+      { actorType: 'USER', actorId: saved.userId, actorLabel: installer?.email },
+      {
+        tenantId: saved.tenantId,
+        action: 'store.connected',
+        targetType: 'store',
+        targetId: store.id,
+        metadata: { domain: store.domain, method: 'oauth', scope },
+      }
+    );
+
+    return store;
+  }
+
+  private async exchangeCode(shop: string, code: string, apiKey: string, apiSecret: string): Promise<AccessTokenResponse> {
+    try {
+      const response = await axios.post(
+        `${this.shopOrigin(shop)}/admin/oauth/access_token`,
+        { client_id: apiKey, client_secret: apiSecret, code },
+        { headers: { 'Content-Type': 'application/json', Accept: 'application/json' }, timeout: 15_000 }
+      );
+      const data = response.data as Partial<AccessTokenResponse>;
+      if (!data?.access_token) {
+        throw new Error('response did not include an access token');
+      }
+      return { access_token: data.access_token, scope: data.scope || '' };
+    } catch (error: any) {
+      const detail = error.response?.data?.error_description || error.response?.data?.error || error.message;
+      logger.error(`Shopify OAuth code exchange failed for ${shop}: ${detail}`);
+      throw new AppError(`Shopify token exchange failed: ${detail}`, StatusCodes.BAD_GATEWAY);
+    }
+  }
+}
+
+export const shopifyOAuthService = new ShopifyOAuthService();
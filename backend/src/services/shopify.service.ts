@@ -1,13 +1,16 @@
 import { Prisma } from '@prisma/client';
 import type { PrismaClient } from '@prisma/client';
-import axios from 'axios';
-import { createHmac } from 'crypto';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { subDays, formatISO } from 'date-fns';
 import { prisma } from '../utils/prisma';
 import logger from '../utils/logger';
-
-type AxiosInstance = any;
-type AxiosRequestConfig = any;
+import { ShopifyAuthError, ShopifyNotFoundError } from '../utils/errors';
+import { isValidTimeZone } from '../utils/timezone';
+import { orderRevenueFields } from '../utils/order-revenue';
+import { ShopifyClient, ShopifyClientOptions } from './shopify-client';
+import { SyncCursorService } from './sync-cursor.service';
+import { OrderLineItemService } from './order-line-item.service';
+import type { SyncEntity, SyncResult, SyncStats } from './data-sync.service';
 
 export interface ShopifyStore {
   id: number;
@@ -92,7 +95,7 @@ type StoreRef = {
 
 export interface ShopifyProductParams {
   limit?: number;
-  page?: number;
+  page_info?: string;
   collection_id?: number;
   product_type?: string;
   vendor?: string;
@@ -111,7 +114,7 @@ export interface ShopifyProductParams {
 
 export interface ShopifyOrderParams {
   limit?: number;
-  page?: number;
+  page_info?: string;
   status?: 'open' | 'closed' | 'cancelled' | 'any';
   created_at_min?: string;
   created_at_max?: string;
@@ -132,7 +135,7 @@ export interface ShopifyOrderParams {
 
 export interface ShopifyCustomerParams {
   limit?: number;
-  page?: number;
+  page_info?: string;
   created_at_min?: string;
   created_at_max?: string;
   updated_at_min?: string;
@@ -455,41 +458,73 @@ export interface ShopifyOrderListResponse {
   orders: ShopifyOrder[];
 }
 
+/**
+ * One page of a cursor-paginated list endpoint.
+ * `nextPageInfo` is the page_info cursor for the following page, if any.
+ */
+export interface ShopifyPage<T> {
+  items: T[];
+  nextPageInfo?: string;
+}
+
+/**
+ * Extract the page_info cursor of the rel="next" entry from a Link header:
+ *   <https://shop.myshopify.com/admin/api/2024-10/products.json?limit=50&page_info=abc>; rel="next"
+ */
+export function parseNextPageInfo(linkHeader?: string | null): string | undefined {
+  if (!linkHeader) return undefined;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+    if (match) {
+      try {
+        return new URL(match[1]).searchParams.get('page_info') || undefined;
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Store columns that mirror the shop's settings. A zone Node doesn't know is
+ * skipped rather than stored, since analytics queries would fail on it.
+ */
+export function shopSettings(shop: Pick<ShopifyStore, 'currency' | 'iana_timezone'>) {
+  return {
+    ...(shop.currency && { currency: shop.currency }),
+    ...(shop.iana_timezone && isValidTimeZone(shop.iana_timezone) && { timezone: shop.iana_timezone }),
+  };
+}
+
 export class ShopifyService {
-  private client: AxiosInstance;
+  private client: ShopifyClient;
   private store: StoreRef;
 
-  constructor(store: StoreRef) {
+  constructor(store: StoreRef, options: ShopifyClientOptions = {}) {
     this.store = store;
-    this.client = axios.create({
-      baseURL: `https://${store.domain}/admin/api/2024-10`,
-      headers: {
-        'X-Shopify-Access-Token': store.accessToken,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    // Add request interceptor for logging
-    this.client.interceptors.request.use(
-      (config: AxiosRequestConfig) => {
-        console.log(`[Shopify API] ${config.method?.toUpperCase()} ${config.url}`);
-        return config;
-      },
-      (error: any) => {
-        console.error('[Shopify API] Request error:', error);
-        return Promise.reject(error);
-      }
-    );
+    this.client = new ShopifyClient(store.domain, store.accessToken, options);
   }
 
   private async makeRequest<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
-    try {
-      const response = await this.client.get(endpoint, { params }) as { data: T };
-      return response.data;
-    } catch (error: any) {
-      console.error(`[Shopify API] Error fetching ${endpoint}:`, error);
-      throw new Error(`Failed to fetch data from Shopify: ${error.message}`);
-    }
+    const response = await this.client.get<T>(endpoint, params);
+    return response.data;
+  }
+
+  /**
+   * Fetch one page of a list endpoint along with the cursor for the next page.
+   * When `page_info` is set Shopify only accepts `limit` (and `fields`), so any
+   * other filters must be sent on the first request only.
+   */
+  private async makePagedRequest<T>(endpoint: string, key: string, params: Record<string, any> = {}): Promise<ShopifyPage<T>> {
+    const query = params.page_info
+      ? { limit: params.limit, page_info: params.page_info, ...(params.fields ? { fields: params.fields } : {}) }
+      : params;
+    const response = await this.client.get<Record<string, T[]>>(endpoint, query);
+    return {
+      items: response.data?.[key] || [],
+      nextPageInfo: parseNextPageInfo(response.headers.link),
+    };
   }
 
   /**
@@ -500,8 +535,12 @@ export class ShopifyService {
       await this.makeRequest('/shop.json');
       return true;
     } catch (error) {
-      console.error('Failed to verify Shopify store connection:', error);
-      return false;
+      // Throttling and Shopify outages say nothing about the token; let callers decide
+      if (error instanceof ShopifyAuthError || error instanceof ShopifyNotFoundError) {
+        logger.warn(`Shopify store connection check failed for ${this.store.domain}: ${error.message}`);
+        return false;
+      }
+      throw error;
     }
   }
 
@@ -537,28 +576,49 @@ export class ShopifyService {
     return { customers: response.customers };
   }
 
+  /**
+   * Get one page of products, following page_info cursors
+   */
+  async getProductsPage(params: ShopifyProductParams = {}): Promise<ShopifyPage<ShopifyProduct>> {
+    return this.makePagedRequest<ShopifyProduct>('/products.json', 'products', params);
+  }
+
+  /**
+   * Get one page of orders, following page_info cursors
+   */
+  async getOrdersPage(params: ShopifyOrderParams = {}): Promise<ShopifyPage<ShopifyOrder>> {
+    return this.makePagedRequest<ShopifyOrder>('/orders.json', 'orders', params);
+  }
+
+  /**
+   * Get one page of customers, following page_info cursors
+   */
+  async getCustomersPage(params: ShopifyCustomerParams = {}): Promise<ShopifyPage<ShopifyCustomer>> {
+    return this.makePagedRequest<ShopifyCustomer>('/customers.json', 'customers', params);
+  }
+
   /**
    * Get a single product by ID
    */
   async getProductById(id: number): Promise<ShopifyProduct> {
-    const response = await this.client.get(`/products/${id}.json`);
-    return response.data.product;
+    const response = await this.makeRequest<{ product: ShopifyProduct }>(`/products/${id}.json`);
+    return response.product;
   }
 
   /**
    * Get a single order by ID
    */
   async getOrderById(id: number): Promise<ShopifyOrder> {
-    const response = await this.client.get(`/orders/${id}.json`);
-    return response.data.order;
+    const response = await this.makeRequest<{ order: ShopifyOrder }>(`/orders/${id}.json`);
+    return response.order;
   }
 
   /**
    * Get a single customer by ID
    */
   async getCustomerById(id: number): Promise<ShopifyCustomer> {
-    const response = await this.client.get(`/customers/${id}.json`);
-    return response.data.customer;
+    const response = await this.makeRequest<{ customer: ShopifyCustomer }>(`/customers/${id}.json`);
+    return response.customer;
   }
 
   /**
@@ -590,17 +650,21 @@ export class ShopifyService {
 }
 
 /**
- * Verify a Shopify webhook HMAC signature
+ * Verify a Shopify webhook HMAC signature.
+ * Shopify signs the raw request body and sends the digest base64-encoded in
+ * the X-Shopify-Hmac-Sha256 header.
  */
 export function verifyWebhookHmac(
   body: string | Buffer,
   hmac: string,
   secret: string
 ): boolean {
+  if (!hmac) return false;
   const computedHmac = createHmac('sha256', secret)
     .update(body)
-    .digest('hex');
-  return computedHmac === hmac;
+    .digest();
+  const receivedHmac = Buffer.from(hmac, 'base64');
+  return receivedHmac.length === computedHmac.length && timingSafeEqual(computedHmac, receivedHmac);
 }
 
 /**
@@ -610,17 +674,22 @@ export class ShopifySyncService {
   private shopifyService: ShopifyService;
   private store: StoreRef;
   private prisma: PrismaClient;
+  private cursors: SyncCursorService;
+  private lineItems: OrderLineItemService;
 
   constructor(store: StoreRef, prismaClient: PrismaClient = prisma as unknown as PrismaClient) {
     this.store = store;
     this.shopifyService = new ShopifyService(store);
     this.prisma = prismaClient;
+    this.cursors = new SyncCursorService(prismaClient);
+    this.lineItems = new OrderLineItemService(prismaClient);
   }
 
   /**
-   * Sync all store data (products, customers, orders)
+   * Sync all store data (products, customers, orders), resolving to what each
+   * entity's sync did
    */
-  async syncAllData() {
+  async syncAllData(): Promise<Record<SyncEntity, SyncResult>> {
     try {
       logger.info(`Starting full data sync for store: ${this.store.domain}`);
       
@@ -628,15 +697,15 @@ export class ShopifySyncService {
       await this.syncStoreInfo();
       
       // Sync products
-      await this.syncProducts();
+      const products = await this.syncProducts();
       
       // Sync customers
-      await this.syncCustomers();
+      const customers = await this.syncCustomers();
       
-      // Sync orders (last 30 days by default)
+      // Sync orders changed since the last run (last 30 days on the first run)
       const endDate = new Date();
       const startDate = subDays(endDate, 30);
-      await this.syncOrders({
+      const orders = await this.syncOrdersIncrementally({
         created_at_min: formatISO(startDate),
         created_at_max: formatISO(endDate),
       });
@@ -648,7 +717,7 @@ export class ShopifySyncService {
       });
       
       logger.info(`Completed data sync for store: ${this.store.domain}`);
-      return { success: true };
+      return { products, customers, orders };
     } catch (error) {
       logger.error(`Error syncing data for store ${this.store.domain}:`, error);
       throw error;
@@ -668,6 +737,7 @@ export class ShopifySyncService {
           name: shopInfo.name,
           domain: shopInfo.domain,
           shopifyId: shopInfo.id.toString(),
+          ...shopSettings(shopInfo),
         },
       });
       
@@ -679,32 +749,13 @@ export class ShopifySyncService {
   }
 
   /**
-   * Sync products from Shopify
+   * Sync products from Shopify changed since the last high-water mark
    */
-  async syncProducts() {
+  async syncProducts(): Promise<SyncResult> {
     try {
-      const limit = 50;
-      let sinceId: number | undefined = undefined;
-
-      while (true) {
-        const params: any = { limit };
-        if (sinceId) params.since_id = sinceId;
-
-        const { products } = await this.shopifyService.getProducts(params);
-
-        if (!products.length) break;
-
-        for (const product of products) {
-          await this.upsertProduct(product);
-        }
-
-        // Advance since_id to the last seen ID
-        sinceId = products[products.length - 1].id;
-
-        if (products.length < limit) break;
-      }
-      
+      const result = await this.syncIncrementally('products', (params) => this.shopifyService.getProductsPage(params), (product) => this.upsertProduct(product));
       logger.info(`Synced products for store: ${this.store.domain}`);
+      return result;
     } catch (error) {
       logger.error('Error syncing products:', error);
       throw error;
@@ -746,6 +797,7 @@ export class ShopifySyncService {
           sku: variant.sku || '',
           inventoryQuantity: variant.inventory_quantity || 0,
         })) || [],
+        shopifyUpdatedAt: shopifyProduct.updated_at ? new Date(shopifyProduct.updated_at) : null,
       };
 
       await this.prisma.product.upsert({
@@ -767,35 +819,119 @@ export class ShopifySyncService {
   }
 
   /**
-   * Sync customers from Shopify
+   * Sync customers from Shopify changed since the last high-water mark
    */
-  async syncCustomers() {
+  async syncCustomers(): Promise<SyncResult> {
     try {
-      const limit = 50;
-      let sinceId: number | undefined = undefined;
+      const result = await this.syncIncrementally('customers', (params) => this.shopifyService.getCustomersPage(params), (customer) => this.upsertCustomer(customer));
+      logger.info(`Synced customers for store: ${this.store.domain}`);
+      return result;
+    } catch (error) {
+      logger.error('Error syncing customers:', error);
+      throw error;
+    }
+  }
 
-      while (true) {
-        const params: any = { limit };
-        if (sinceId) params.since_id = sinceId;
+  /**
+   * Page through records updated since the stored high-water mark and upsert
+   * each one. `initialFilters` are used only when no mark exists yet. The mark
+   * only advances when every record was saved, so failures are retried next time.
+   */
+  private async syncIncrementally<T extends { id: number; updated_at: string }>(
+    entity: SyncEntity,
+    fetchPage: (params: Record<string, any>) => Promise<ShopifyPage<T>>,
+    upsert: (item: T) => Promise<void>,
+    initialFilters: Record<string, any> = {}
+  ): Promise<SyncResult> {
+    const since = await this.cursors.getHighWaterMark(this.store.id, entity);
+    const { result, newest } = await this.syncPages(
+      entity,
+      fetchPage,
+      upsert,
+      since ? { updated_at_min: since.toISOString() } : initialFilters
+    );
 
-        const { customers } = await this.shopifyService.getCustomers(params);
+    if (result.success && newest) {
+      await this.cursors.advance(this.store.id, entity, newest);
+    }
+    return result;
+  }
 
-        if (!customers.length) break;
+  /**
+   * Upsert every record matching `filters`, following page_info cursors. A
+   * record that fails to save is recorded and skipped; a page that can't be
+   * fetched ends the sync, as the next cursor is lost with it.
+   */
+  private async syncPages<T extends { id: number; updated_at: string }>(
+    entity: SyncEntity,
+    fetchPage: (params: Record<string, any>) => Promise<ShopifyPage<T>>,
+    upsert: (item: T) => Promise<void>,
+    filters: Record<string, any>
+  ): Promise<{ result: SyncResult; newest: Date | null }> {
+    const limit = 250;
+    const stats: SyncStats = { total: 0, created: 0, updated: 0, errors: 0 };
+    const errorMessages: string[] = [];
+    const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+    let newest: Date | null = null;
+    let pageInfo: string | undefined;
+    let pageNumber = 0;
+
+    do {
+      pageNumber++;
+      const params = pageInfo ? { limit, page_info: pageInfo } : { limit, ...filters };
+
+      let page: ShopifyPage<T>;
+      try {
+        page = await fetchPage(entity === 'orders' && !pageInfo ? { ...params, status: 'any' } : params);
+      } catch (error) {
+        logger.error(`Error fetching ${entity} page ${pageNumber}:`, error);
+        stats.errors++;
+        errorMessages.push(`${entity} page ${pageNumber}: ${describe(error)}`);
+        break;
+      }
 
-        for (const customer of customers) {
-          await this.upsertCustomer(customer);
+      stats.total += page.items.length;
+      const stored = await this.storedIds(entity, page.items.map((item) => `${this.store.id}-${item.id}`));
+
+      for (const item of page.items) {
+        try {
+          await upsert(item);
+          if (stored.has(`${this.store.id}-${item.id}`)) {
+            stats.updated++;
+          } else {
+            stats.created++;
+          }
+          const updatedAt = new Date(item.updated_at);
+          if (!newest || updatedAt > newest) newest = updatedAt;
+        } catch (error) {
+          stats.errors++;
+          errorMessages.push(`${entity} ${item.id}: ${describe(error)}`);
         }
+      }
 
-        sinceId = customers[customers.length - 1].id;
+      pageInfo = page.nextPageInfo;
+    } while (pageInfo);
 
-        if (customers.length < limit) break;
-      }
-      
-      logger.info(`Synced customers for store: ${this.store.domain}`);
-    } catch (error) {
-      logger.error('Error syncing customers:', error);
-      throw error;
+    const message = `Synced ${stats.total} ${entity} (${stats.created} created, ${stats.updated} updated, ${stats.errors} errors)`;
+    return { result: { success: stats.errors === 0, message, stats, errorMessages }, newest };
+  }
+
+  // Which of these records are already stored, to tell creates from updates
+  private async storedIds(entity: SyncEntity, ids: string[]): Promise<Set<string>> {
+    const args = { where: { id: { in: ids } }, select: { id: true } };
+    let rows: { id: string }[];
+    switch (entity) {
+      case 'products':
+        rows = await this.prisma.product.findMany(args);
+        break;
+      case 'customers':
+        rows = await this.prisma.customer.findMany(args);
+        break;
+      case 'orders':
+        rows = await this.prisma.order.findMany(args);
+        break;
     }
+    return new Set(rows.map((row) => row.id));
   }
 
   /**
@@ -823,6 +959,7 @@ export class ShopifySyncService {
         tags: shopifyCustomer.tags ? shopifyCustomer.tags.split(',').map((tag: string) => tag.trim()) : [],
         lastOrderId: shopifyCustomer.last_order_id ? shopifyCustomer.last_order_id.toString() : null,
         lastOrderDate: shopifyCustomer.updated_at ? new Date(shopifyCustomer.updated_at) : null,
+        shopifyUpdatedAt: shopifyCustomer.updated_at ? new Date(shopifyCustomer.updated_at) : null,
         storeId: this.store.id,
         tenantId: this.store.tenantId,
       };
@@ -846,31 +983,28 @@ export class ShopifySyncService {
   }
 
   /**
-   * Sync orders from Shopify
+   * Sync orders changed since the last high-water mark. The first run has no
+   * mark, so it falls back to `initialRange` (orders created in that window).
    */
-  async syncOrders(params: { created_at_min: string; created_at_max: string }) {
+  async syncOrdersIncrementally(initialRange: { created_at_min: string; created_at_max: string }): Promise<SyncResult> {
     try {
-      const limit = 50;
-      let sinceId: number | undefined = undefined;
-
-      while (true) {
-        const reqParams: any = { ...params, limit, status: 'any' };
-        if (sinceId) reqParams.since_id = sinceId;
-
-        const { orders } = await this.shopifyService.getOrders(reqParams);
-
-        if (!orders.length) break;
-
-        for (const order of orders) {
-          await this.upsertOrder(order);
-        }
-
-        sinceId = orders[orders.length - 1].id;
+      const result = await this.syncIncrementally('orders', (params) => this.shopifyService.getOrdersPage(params), (order) => this.upsertOrder(order), initialRange);
+      logger.info(`Synced orders for store: ${this.store.domain}`);
+      return result;
+    } catch (error) {
+      logger.error('Error syncing orders:', error);
+      throw error;
+    }
+  }
 
-        if (orders.length < limit) break;
-      }
-      
+  /**
+   * Sync orders created within a date range from Shopify
+   */
+  async syncOrders(params: { created_at_min: string; created_at_max: string }): Promise<SyncResult> {
+    try {
+      const { result } = await this.syncPages('orders', (reqParams) => this.shopifyService.getOrdersPage(reqParams), (order) => this.upsertOrder(order), params);
       logger.info(`Synced orders for store: ${this.store.domain}`);
+      return result;
     } catch (error) {
       logger.error('Error syncing orders:', error);
       throw error;
@@ -907,6 +1041,7 @@ export class ShopifySyncService {
       const createdAtDate = shopifyOrder.created_at
         ? new Date(shopifyOrder.created_at)
         : (shopifyOrder.processed_at ? new Date(shopifyOrder.processed_at) : new Date());
+      const processedAtDate = shopifyOrder.processed_at ? new Date(shopifyOrder.processed_at) : createdAtDate;
 
       const orderData = {
         shopifyId: shopifyOrder.id.toString(),
@@ -921,6 +1056,7 @@ export class ShopifySyncService {
         totalTax: parseFloat(shopifyOrder.total_tax as any) || 0,
         totalDiscounts: parseFloat(shopifyOrder.total_discounts as any) || 0,
         totalLineItemsPrice: parseFloat(shopifyOrder.total_line_items_price as any) || 0,
+        ...orderRevenueFields(shopifyOrder),
         lineItems: lineItemsJson,
         shippingAddress: shippingAddressJson,
         billingAddress: billingAddressJson,
@@ -928,34 +1064,39 @@ export class ShopifySyncService {
         discountCodes: discountCodesJson,
         note: shopifyOrder.note || '',
         tags: shopifyOrder.tags ? shopifyOrder.tags.split(',').map((tag: string) => tag.trim()) : [],
-        processedAt: shopifyOrder.processed_at ? new Date(shopifyOrder.processed_at) : null,
+        processedAt: processedAtDate,
         cancelledAt: shopifyOrder.cancelled_at ? new Date(shopifyOrder.cancelled_at) : null,
         closedAt: (shopifyOrder as any).closed_at ? new Date((shopifyOrder as any).closed_at) : null,
         refunds: refundsJson,
         transactions: transactionsJson,
         customerLocale: shopifyOrder.customer_locale || '',
         orderStatusUrl: (shopifyOrder as any).order_status_url || '',
+        shopifyUpdatedAt: shopifyOrder.updated_at ? new Date(shopifyOrder.updated_at) : null,
         storeId: this.store.id,
         tenantId: this.store.tenantId,
       };
 
-      await this.prisma.order.upsert({
-        where: { 
-          id: `${this.store.id}-${shopifyOrder.id}`
-        },
-        create: {
-          ...orderData,
-          id: `${this.store.id}-${shopifyOrder.id}`,
-          storeId: this.store.id,
-          tenantId: this.store.tenantId,
-          // Ensure DB createdAt reflects Shopify's order creation time
-          createdAt: createdAtDate,
-        },
-        update: {
-          ...orderData,
-          // Backfill/Correct createdAt for previously inserted orders
-          createdAt: createdAtDate,
-        },
+      await this.prisma.$transaction(async (tx) => {
+        const saved = await tx.order.upsert({
+          where: { 
+            id: `${this.store.id}-${shopifyOrder.id}`
+          },
+          create: {
+            ...orderData,
+            id: `${this.store.id}-${shopifyOrder.id}`,
+            storeId: this.store.id,
+            tenantId: this.store.tenantId,
+            // Ensure DB createdAt reflects Shopify's order creation time
+            createdAt: createdAtDate,
+          },
+          update: {
+            ...orderData,
+            // Backfill/Correct createdAt for previously inserted orders
+            createdAt: createdAtDate,
+          },
+          select: { id: true, storeId: true, tenantId: true, processedAt: true, refunds: true },
+        });
+        await this.lineItems.replaceForOrder(saved, shopifyOrder.line_items, tx);
       });
     } catch (error) {
       logger.error(`Error upserting order ${shopifyOrder.id}:`, error);
@@ -1,6 +1,18 @@
 import { Prisma, Store } from '@prisma/client';
-import axios from 'axios';
 import { prisma } from '@/utils/prisma';
+import { encryptToken } from '@/utils/crypto';
+import { ShopifyService, shopSettings } from './shopify.service';
+import { isValidTimeZone } from '@/utils/timezone';
+import type { ShopifyClientOptions } from './shopify-client';
+
+/**
+ * Strip the access token from a store before it goes into a response
+ */
+export function toPublicStore<T extends { accessToken?: string | null }>(store: T): Omit<T, 'accessToken'> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { accessToken: _, ...rest } = store;
+  return rest;
+}
 
 export class StoreService {
   private prisma: typeof prisma;
@@ -19,8 +31,10 @@ export class StoreService {
     shopifyId?: string;
     name: string;
     scope?: string[];
+    currency?: string;
+    timezone?: string;
   }): Promise<Store> {
-    const { tenantId, domain, accessToken, shopifyId, name, scope = [] } = params;
+    const { tenantId, domain, accessToken, shopifyId, name, scope = [], currency, timezone } = params;
 
     // Clean domain (remove protocol and trailing slashes)
     const cleanDomain = domain.replace(/^https?:\/\/|\/$/g, '');
@@ -38,11 +52,13 @@ export class StoreService {
     const data: Prisma.StoreCreateInput = {
       name,
       domain: cleanDomain,
-      accessToken,
+      accessToken: encryptToken(accessToken),
       scope,
       isActive: true,
       tenant: { connect: { id: tenantId } },
       ...(shopifyId && { shopifyId }),
+      ...(currency && { currency }),
+      ...(timezone && isValidTimeZone(timezone) && { timezone }),
     };
 
     if (existingStore) {
@@ -126,27 +142,27 @@ export class StoreService {
   }
 
   /**
-   * Verify store connection by making a test API call to Shopify
+   * Verify store connection by making a test API call to Shopify.
+   * Returns false when Shopify rejects the token or the shop doesn't exist;
+   * throttling and Shopify server errors are thrown so a transient failure
+   * isn't mistaken for a revoked token.
    */
-  async verifyStoreConnection(store: Store): Promise<boolean> {
+  async verifyStoreConnection(store: Store, options?: ShopifyClientOptions): Promise<boolean> {
     if (!store.accessToken) return false;
 
-    try {
-      const response = await axios.get(
-        `https://${store.domain}/admin/api/2023-10/shop.json`,
-        {
-          headers: {
-            'X-Shopify-Access-Token': store.accessToken,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      return response.status === 200;
-    } catch (error) {
-      console.error('Error verifying store connection:', error);
-      return false;
-    }
+    return new ShopifyService(store, options).verifyConnection();
+  }
+
+  /**
+   * Copy settings that depend on the shop's configuration (its currency and
+   * timezone) from Shopify onto the store
+   */
+  async refreshShopSettings(store: Store): Promise<Store> {
+    const shop = await new ShopifyService(store).getStoreInfo();
+    return this.prisma.store.update({
+      where: { id: store.id },
+      data: shopSettings(shop),
+    });
   }
 
   /**
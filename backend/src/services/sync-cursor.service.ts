@@ -0,0 +1,46 @@
+import type { PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import type { SyncEntity } from './data-sync.service';
+
+/**
+ * Per-store, per-entity high-water marks for incremental syncs.
+ * The mark is the newest Shopify `updated_at` that has been fully upserted;
+ * the next run asks Shopify for records with `updated_at_min` set to it.
+ */
+export class SyncCursorService {
+  constructor(private readonly prismaClient: PrismaClient = prisma) {}
+
+  async getHighWaterMark(storeId: string, entity: SyncEntity): Promise<Date | null> {
+    const cursor = await this.prismaClient.syncCursor.findUnique({
+      where: { storeId_entity: { storeId, entity } },
+      select: { highWaterMark: true },
+    });
+    return cursor?.highWaterMark ?? null;
+  }
+
+  /**
+   * Move the mark forward. Never moves it backwards, so an older run finishing
+   * late can't make the next run skip records.
+   */
+  async advance(storeId: string, entity: SyncEntity, mark: Date): Promise<void> {
+    const current = await this.getHighWaterMark(storeId, entity);
+    if (current && current >= mark) return;
+
+    await this.prismaClient.syncCursor.upsert({
+      where: { storeId_entity: { storeId, entity } },
+      create: { storeId, entity, highWaterMark: mark },
+      update: { highWaterMark: mark },
+    });
+  }
+
+  /**
+   * Forget the mark(s) so the next sync re-pulls everything
+   */
+  async reset(storeId: string, entity?: SyncEntity): Promise<void> {
+    await this.prismaClient.syncCursor.deleteMany({
+      where: { storeId, ...(entity ? { entity } : {}) },
+    });
+  }
+}
+
+export const syncCursorService = new SyncCursorService();
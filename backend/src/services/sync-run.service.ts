@@ -0,0 +1,210 @@
+import { Prisma, SyncRunStatus, SyncTrigger } from '@prisma/client';
+import type { PrismaClient, SyncRun } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { ConflictError } from '../utils/errors';
+import { STALE_HEARTBEAT_MS, WORKER_ID, startHeartbeat } from '../utils/worker';
+import type { SyncEntity, SyncResult } from './data-sync.service';
+
+type StoreRef = {
+  id: string;
+  tenantId: string;
+};
+
+export type SyncRunResults = Partial<Record<SyncEntity, SyncResult>>;
+
+// Keep the stored error list bounded; a failing page can repeat the same error many times
+const MAX_STORED_ERRORS = 100;
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export class SyncRunService {
+  constructor(
+    private readonly prismaClient: PrismaClient = prisma,
+    private readonly staleAfterMs = STALE_HEARTBEAT_MS
+  ) {}
+
+  /**
+   * Open a run for a store, owned by this process. Whoever does the work keeps
+   * it alive with keepAlive() until it completes or fails. A unique index
+   * allows one running sync per store (webhook runs aside); opening a second
+   * throws a ConflictError.
+   */
+  async start(store: StoreRef, trigger: SyncTrigger, entities: SyncEntity[]): Promise<SyncRun> {
+    try {
+      return await this.prismaClient.syncRun.create({
+        data: {
+          storeId: store.id,
+          tenantId: store.tenantId,
+          trigger,
+          entities,
+          errors: [],
+          workerId: WORKER_ID,
+          heartbeatAt: new Date(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('A sync is already running for this store');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh a run's heartbeat until the returned function is called, so other
+   * instances don't take it for abandoned
+   */
+  keepAlive(runId: string): () => void {
+    return startHeartbeat(
+      `sync run ${runId}`,
+      () => this.prismaClient.syncRun.updateMany({
+        where: { id: runId, status: SyncRunStatus.RUNNING },
+        data: { heartbeatAt: new Date() },
+      }),
+      this.staleAfterMs
+    );
+  }
+
+  /**
+   * Close a run with the per-entity results it produced
+   */
+  async complete(runId: string, results: SyncRunResults): Promise<SyncRun> {
+    const entries = Object.values(results).filter((r): r is SyncResult => !!r);
+    const errors = entries.flatMap((r) => r.errorMessages);
+    const processed = entries.reduce((sum, r) => sum + r.stats.total, 0);
+
+    let status: SyncRunStatus = SyncRunStatus.SUCCEEDED;
+    if (entries.some((r) => !r.success)) {
+      status = processed > 0 && entries.some((r) => r.stats.total > r.stats.errors)
+        ? SyncRunStatus.PARTIAL
+        : SyncRunStatus.FAILED;
+    }
+
+    const stats = Object.fromEntries(
+      Object.entries(results).map(([entity, r]) => [entity, r?.stats])
+    );
+
+    return this.prismaClient.syncRun.update({
+      where: { id: runId },
+      data: {
+        status,
+        stats: stats as unknown as Prisma.InputJsonValue,
+        errors: errors.slice(0, MAX_STORED_ERRORS),
+        finishedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Close a run that threw before producing results
+   */
+  async fail(runId: string, error: unknown): Promise<SyncRun> {
+    return this.prismaClient.syncRun.update({
+      where: { id: runId },
+      data: {
+        status: SyncRunStatus.FAILED,
+        errors: [describeError(error)],
+        finishedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Run `work` inside a SyncRun, recording its results or the error it threw.
+   * Errors are re-thrown after being recorded.
+   */
+  async track(
+    store: StoreRef,
+    trigger: SyncTrigger,
+    entities: SyncEntity[],
+    work: (run: SyncRun) => Promise<SyncRunResults>
+  ): Promise<SyncRun> {
+    const run = await this.start(store, trigger, entities);
+    const stopHeartbeat = this.keepAlive(run.id);
+    try {
+      const results = await work(run);
+      return await this.complete(run.id, results);
+    } catch (error) {
+      await this.fail(run.id, error).catch((err) => logger.error(`Failed to record sync run ${run.id}:`, err));
+      throw error;
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  /**
+   * The sync running for a store, if any. Webhook runs don't block a sync and
+   * aren't reported.
+   */
+  async getActiveRun(storeId: string): Promise<SyncRun | null> {
+    return this.prismaClient.syncRun.findFirst({
+      where: { storeId, status: SyncRunStatus.RUNNING, trigger: { not: SyncTrigger.WEBHOOK } },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  async getLastRun(storeId: string): Promise<SyncRun | null> {
+    return this.prismaClient.syncRun.findFirst({
+      where: { storeId, status: { not: SyncRunStatus.RUNNING } },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  async listRuns(storeId: string, options: { page: number; limit: number; trigger?: SyncTrigger }) {
+    const where: Prisma.SyncRunWhereInput = { storeId, ...(options.trigger ? { trigger: options.trigger } : {}) };
+    const [runs, total] = await Promise.all([
+      this.prismaClient.syncRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      this.prismaClient.syncRun.count({ where }),
+    ]);
+    return { runs, total };
+  }
+
+  async getRun(storeId: string, runId: string): Promise<SyncRun | null> {
+    return this.prismaClient.syncRun.findFirst({ where: { id: runId, storeId } });
+  }
+
+  /**
+   * Runs left RUNNING by this worker's previous process, or whose heartbeat
+   * has gone stale, can never finish; mark them failed so the status endpoint
+   * doesn't report them as active forever. Runs other instances are still
+   * working on are left alone. Call at startup, before this process opens any run.
+   */
+  async failInterruptedRuns(): Promise<number> {
+    return this.failAbandoned([{ workerId: WORKER_ID }, ...this.staleHeartbeat()]);
+  }
+
+  /**
+   * Fail runs whose worker stopped refreshing their heartbeat. Unlike
+   * failInterruptedRuns this is safe while this process has runs in flight.
+   */
+  async failStaleRuns(): Promise<number> {
+    return this.failAbandoned(this.staleHeartbeat());
+  }
+
+  private staleHeartbeat(): Prisma.SyncRunWhereInput[] {
+    return [{ heartbeatAt: null }, { heartbeatAt: { lt: new Date(Date.now() - this.staleAfterMs) } }];
+  }
+
+  private async failAbandoned(abandoned: Prisma.SyncRunWhereInput[]): Promise<number> {
+    const { count } = await this.prismaClient.syncRun.updateMany({
+      where: { status: SyncRunStatus.RUNNING, OR: abandoned },
+      data: {
+        status: SyncRunStatus.FAILED,
+        errors: ['Interrupted: its worker stopped while the sync was running'],
+        finishedAt: new Date(),
+      },
+    });
+    if (count > 0) {
+      logger.warn(`Marked ${count} interrupted sync run(s) as failed`);
+    }
+    return count;
+  }
+}
+
+export const syncRunService = new SyncRunService();
@@ -0,0 +1,319 @@
+import { Prisma, SyncJobStatus, SyncRunStatus, SyncTrigger } from '@prisma/client';
+import type { PrismaClient, Store, SyncJob } from '@prisma/client';
+import { addMinutes } from 'date-fns';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { ConflictError, ShopifyThrottledError } from '../utils/errors';
+import { STALE_HEARTBEAT_MS, WORKER_ID, startHeartbeat } from '../utils/worker';
+import { DataSyncService, SyncEntity } from './data-sync.service';
+import { ShopifyService } from './shopify.service';
+import { SyncRunService } from './sync-run.service';
+
+const ALL_ENTITIES: SyncEntity[] = ['products', 'customers', 'orders'];
+
+export const MIN_SYNC_INTERVAL_MINUTES = 15;
+export const MAX_SYNC_INTERVAL_MINUTES = 7 * 24 * 60;
+
+// How long to wait before retrying a job whose store already has a sync running
+const BUSY_STORE_DELAY_MS = 60_000;
+
+const ACTIVE_JOB_STATUSES = [SyncJobStatus.QUEUED, SyncJobStatus.RUNNING];
+
+export interface SyncSchedulerOptions {
+  pollIntervalMs?: number;
+  // First retry delay; doubles with every failed attempt
+  retryBaseDelayMs?: number;
+  // A running job's lock is refreshed while it runs; one older than this
+  // belongs to a worker that has gone away
+  staleLockMs?: number;
+}
+
+export interface SyncScheduleUpdate {
+  intervalMinutes?: number | null;
+  paused?: boolean;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * In-process scheduler for incremental store syncs.
+ *
+ * Stores opt in by setting `syncIntervalMinutes`. Each poll enqueues a
+ * `SyncJob` for every store whose `nextSyncAt` has passed, then claims queued
+ * jobs one at a time with `FOR UPDATE SKIP LOCKED` so several app instances can
+ * share the table. A job is never claimed while another job for the same store
+ * is running, and a store with a manual sync in flight is retried shortly after.
+ * Running jobs keep their lock fresh, so another instance only takes over a
+ * job once its worker has stopped.
+ */
+export class SyncSchedulerService {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  private readonly workerId = WORKER_ID;
+  private readonly syncRuns: SyncRunService;
+  private readonly pollIntervalMs: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(private readonly prismaClient: PrismaClient = prisma, options: SyncSchedulerOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 60_000;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 60_000;
+    this.staleLockMs = options.staleLockMs ?? STALE_HEARTBEAT_MS;
+    this.syncRuns = new SyncRunService(prismaClient, this.staleLockMs);
+  }
+
+  start() {
+    if (this.timer) return;
+    logger.info(`Sync scheduler started (polling every ${Math.round(this.pollIntervalMs / 1000)}s)`);
+    this.timer = setInterval(() => void this.tick(), this.pollIntervalMs);
+    void this.tick();
+  }
+
+  stop() {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Recover abandoned jobs and runs, enqueue due stores and work through every job that
+   * is ready to run
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.requeueInterruptedJobs();
+      // A run whose instance went away would otherwise keep its store busy
+      await this.syncRuns.failStaleRuns();
+      await this.enqueueDueStores();
+      let job: SyncJob | null;
+      while ((job = await this.claimNextJob())) {
+        await this.runJob(job);
+      }
+    } catch (error) {
+      logger.error('Sync scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Set or clear a store's sync interval and pause flag
+   */
+  async updateSchedule(storeId: string, update: SyncScheduleUpdate): Promise<Store> {
+    const data: { syncIntervalMinutes?: number | null; syncPaused?: boolean; nextSyncAt?: Date | null } = {};
+
+    if (update.intervalMinutes !== undefined) {
+      data.syncIntervalMinutes = update.intervalMinutes;
+      data.nextSyncAt = update.intervalMinutes === null ? null : addMinutes(new Date(), update.intervalMinutes);
+    }
+    if (update.paused !== undefined) {
+      data.syncPaused = update.paused;
+    }
+
+    const store = await this.prismaClient.store.update({ where: { id: storeId }, data });
+
+    // Pausing or clearing the schedule drops anything still waiting to run
+    if (store.syncPaused || store.syncIntervalMinutes === null) {
+      await this.prismaClient.syncJob.updateMany({
+        where: { storeId, status: SyncJobStatus.QUEUED },
+        data: { status: SyncJobStatus.FAILED, lastError: 'Schedule paused or removed', finishedAt: new Date() },
+      });
+    }
+
+    return store;
+  }
+
+  async getPendingJob(storeId: string): Promise<SyncJob | null> {
+    return this.prismaClient.syncJob.findFirst({
+      where: { storeId, status: { in: ACTIVE_JOB_STATUSES } },
+      orderBy: { runAt: 'asc' },
+    });
+  }
+
+  /**
+   * Jobs left RUNNING by this worker's previous process, or by a worker whose
+   * lock has gone stale, go back on the queue; a job that has used up its
+   * attempts is marked failed instead. Jobs other instances are still running
+   * are left alone. Never called while this worker is running a job.
+   */
+  async requeueInterruptedJobs(): Promise<number> {
+    const interrupted: Prisma.SyncJobWhereInput = {
+      status: SyncJobStatus.RUNNING,
+      OR: [
+        { lockedBy: this.workerId },
+        { lockedAt: null },
+        { lockedAt: { lt: new Date(Date.now() - this.staleLockMs) } },
+      ],
+    };
+    const [exhausted, requeued] = await this.prismaClient.$transaction([
+      this.prismaClient.syncJob.updateMany({
+        where: { ...interrupted, attempts: { gte: this.prismaClient.syncJob.fields.maxAttempts } },
+        data: {
+          status: SyncJobStatus.FAILED,
+          lastError: 'Interrupted: its worker stopped while the job was running',
+          lockedAt: null,
+          lockedBy: null,
+          finishedAt: new Date(),
+        },
+      }),
+      this.prismaClient.syncJob.updateMany({
+        where: interrupted,
+        data: { status: SyncJobStatus.QUEUED, runAt: new Date(), lockedAt: null, lockedBy: null },
+      }),
+    ]);
+    const count = exhausted.count + requeued.count;
+    if (count > 0) {
+      logger.warn(`Recovered ${count} interrupted sync job(s): ${requeued.count} requeued, ${exhausted.count} failed`);
+    }
+    return count;
+  }
+
+  private async enqueueDueStores(): Promise<void> {
+    const now = new Date();
+    const stores = await this.prismaClient.store.findMany({
+      where: {
+        isActive: true,
+        syncPaused: false,
+        syncIntervalMinutes: { not: null },
+        accessToken: { not: null },
+        OR: [{ nextSyncAt: null }, { nextSyncAt: { lte: now } }],
+        syncJobs: { none: { status: { in: ACTIVE_JOB_STATUSES } } },
+      },
+      select: { id: true, tenantId: true, syncIntervalMinutes: true },
+    });
+
+    for (const store of stores) {
+      await this.prismaClient.$transaction(async (tx) => {
+        // Claim the store by moving nextSyncAt on. The row lock makes a second
+        // instance that also saw it as due re-check the condition and update nothing.
+        const claimed = await tx.store.updateMany({
+          where: {
+            id: store.id,
+            OR: [{ nextSyncAt: null }, { nextSyncAt: { lte: now } }],
+            syncJobs: { none: { status: { in: ACTIVE_JOB_STATUSES } } },
+          },
+          data: { nextSyncAt: addMinutes(now, store.syncIntervalMinutes!) },
+        });
+        if (claimed.count === 0) return;
+
+        await tx.syncJob.create({
+          data: { storeId: store.id, tenantId: store.tenantId, runAt: now },
+        });
+      });
+    }
+  }
+
+  private async claimNextJob(): Promise<SyncJob | null> {
+    const rows = await this.prismaClient.$queryRaw<SyncJob[]>`
+      UPDATE "sync_jobs"
+      SET "status" = 'RUNNING', "attempts" = "attempts" + 1, "lockedAt" = NOW(), "lockedBy" = ${this.workerId}, "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT j."id" FROM "sync_jobs" j
+        WHERE j."status" = 'QUEUED'
+          AND j."runAt" <= NOW()
+          AND NOT EXISTS (
+            SELECT 1 FROM "sync_jobs" r WHERE r."storeId" = j."storeId" AND r."status" = 'RUNNING'
+          )
+        ORDER BY j."runAt"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`;
+    return rows[0] ?? null;
+  }
+
+  private async runJob(job: SyncJob): Promise<void> {
+    const store = await this.prismaClient.store.findUnique({ where: { id: job.storeId } });
+    if (!store || !store.isActive || !store.accessToken) {
+      await this.finishJob(job, SyncJobStatus.FAILED, { lastError: 'Store is inactive or has no access token' });
+      return;
+    }
+
+    if (await this.syncRuns.getActiveRun(store.id)) {
+      await this.requeueBusy(job);
+      return;
+    }
+
+    logger.info(`Running scheduled sync for store ${store.id} (job ${job.id}, attempt ${job.attempts}/${job.maxAttempts})`);
+    const stopHeartbeat = startHeartbeat(
+      `sync job ${job.id}`,
+      () => this.prismaClient.syncJob.updateMany({ where: { id: job.id, lockedBy: this.workerId }, data: { lockedAt: new Date() } }),
+      this.staleLockMs
+    );
+    try {
+      const run = await this.syncRuns.track(store, SyncTrigger.SCHEDULED, ALL_ENTITIES, async () => {
+        const syncService = new DataSyncService(new ShopifyService(store), store, this.prismaClient);
+        const result = await syncService.syncAllData();
+        return result.entities;
+      });
+
+      if (run.status === SyncRunStatus.FAILED) {
+        await this.retryOrFail(job, run.errors[0] || 'Sync failed', run.id);
+        return;
+      }
+      await this.finishJob(job, SyncJobStatus.SUCCEEDED, { syncRunId: run.id });
+    } catch (error) {
+      // Another sync started after the check above
+      if (error instanceof ConflictError) {
+        await this.requeueBusy(job);
+        return;
+      }
+      logger.error(`Scheduled sync failed for store ${store.id}:`, error);
+      const retryAfterMs = error instanceof ShopifyThrottledError ? error.retryAfterMs : undefined;
+      await this.retryOrFail(job, describeError(error), undefined, retryAfterMs);
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  // A manual sync is already running; come back later without using up an attempt
+  private async requeueBusy(job: SyncJob): Promise<void> {
+    await this.prismaClient.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: SyncJobStatus.QUEUED,
+        attempts: { decrement: 1 },
+        runAt: new Date(Date.now() + BUSY_STORE_DELAY_MS),
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+  }
+
+  private async retryOrFail(job: SyncJob, lastError: string, syncRunId?: string, minDelayMs = 0): Promise<void> {
+    if (job.attempts >= job.maxAttempts) {
+      await this.finishJob(job, SyncJobStatus.FAILED, { lastError, syncRunId });
+      return;
+    }
+
+    const delayMs = Math.max(minDelayMs, this.retryBaseDelayMs * 2 ** (job.attempts - 1));
+    await this.prismaClient.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: SyncJobStatus.QUEUED,
+        runAt: new Date(Date.now() + delayMs),
+        lastError,
+        syncRunId,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+  }
+
+  private async finishJob(
+    job: SyncJob,
+    status: SyncJobStatus,
+    data: { lastError?: string; syncRunId?: string }
+  ): Promise<void> {
+    await this.prismaClient.syncJob.update({
+      where: { id: job.id },
+      data: { ...data, status, finishedAt: new Date(), lockedAt: null, lockedBy: null },
+    });
+  }
+}
+
+export const syncScheduler = new SyncSchedulerService(prisma, {
+  pollIntervalMs: parseInt(process.env.SYNC_SCHEDULER_POLL_SECONDS || '60', 10) * 1000,
+});
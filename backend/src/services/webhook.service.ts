@@ -0,0 +1,139 @@
+import { Prisma, SyncTrigger } from '@prisma/client';
+import type { Event, PrismaClient, Store } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { DataSyncService, SyncEntity, UpsertOutcome } from './data-sync.service';
+import { ShopifyService } from './shopify.service';
+import { SyncRunService } from './sync-run.service';
+import logger from '../utils/logger';
+
+export interface ShopifyWebhookDelivery {
+  topic: string;
+  shopDomain: string;
+  webhookId?: string;
+  payload: any;
+}
+
+export interface ShopifyWebhookResult {
+  outcome: 'applied' | 'recorded' | 'duplicate' | 'store_not_found';
+  eventId?: string;
+}
+
+type WebhookHandler = (sync: DataSyncService, payload: any) => Promise<UpsertOutcome | 'deleted'>;
+
+// Topics we apply to live data. Any other topic is still recorded as an Event.
+const handlers: Record<string, WebhookHandler> = {
+  'orders/create': (sync, payload) => sync.applyOrder(payload),
+  'orders/updated': (sync, payload) => sync.applyOrder(payload),
+  'orders/cancelled': (sync, payload) => sync.applyOrder(payload),
+  'products/create': (sync, payload) => sync.applyProduct(payload),
+  'products/update': (sync, payload) => sync.applyProduct(payload),
+  'products/delete': (sync, payload) => sync.removeProduct(payload.id),
+  'customers/create': (sync, payload) => sync.applyCustomer(payload),
+  'customers/update': (sync, payload) => sync.applyCustomer(payload),
+  'customers/enable': (sync, payload) => sync.applyCustomer(payload),
+  'customers/disable': (sync, payload) => sync.applyCustomer(payload),
+  'customers/delete': (sync, payload) => sync.removeCustomer(payload.id),
+};
+
+export const SUPPORTED_WEBHOOK_TOPICS = Object.keys(handlers);
+
+const entityForTopic = (topic: string) => topic.split('/')[0] as SyncEntity;
+
+export class ShopifyWebhookService {
+  private syncRuns: SyncRunService;
+
+  constructor(private readonly prismaClient: PrismaClient = prisma) {
+    this.syncRuns = new SyncRunService(prismaClient);
+  }
+
+  /**
+   * Record a verified webhook delivery and apply it to the store's data
+   */
+  async handleDelivery(delivery: ShopifyWebhookDelivery): Promise<ShopifyWebhookResult> {
+    const store = await this.prismaClient.store.findUnique({
+      where: { domain: delivery.shopDomain },
+    });
+
+    if (!store) {
+      logger.warn(`Webhook ${delivery.topic} received for unknown shop ${delivery.shopDomain}`);
+      return { outcome: 'store_not_found' };
+    }
+
+    const event = await this.recordEvent(store, delivery);
+    if (event.processedAt) {
+      logger.info(`Skipped redelivered webhook ${delivery.topic} (${delivery.webhookId}) for store ${store.domain}`);
+      return { outcome: 'duplicate', eventId: event.id };
+    }
+
+    const handler = handlers[delivery.topic];
+    if (!handler || !store.isActive) {
+      await this.markProcessed(event.id);
+      return { outcome: 'recorded', eventId: event.id };
+    }
+
+    // Each applied delivery is a one-record SyncRun so webhook failures show up in sync history
+    const sync = new DataSyncService(new ShopifyService(store), store, this.prismaClient);
+    const entity = entityForTopic(delivery.topic);
+    await this.syncRuns.track(store, SyncTrigger.WEBHOOK, [entity], async () => {
+      const change = await handler(sync, delivery.payload);
+      return {
+        [entity]: {
+          success: true,
+          message: `${delivery.topic}: ${change}`,
+          stats: {
+            total: 1,
+            created: change === 'created' ? 1 : 0,
+            updated: change === 'updated' ? 1 : 0,
+            errors: 0,
+          },
+          errorMessages: [],
+        },
+      };
+    });
+    await this.markProcessed(event.id);
+
+    logger.info(`Applied webhook ${delivery.topic} (${delivery.webhookId || 'no id'}) for store ${store.domain}`);
+    return { outcome: 'applied', eventId: event.id };
+  }
+
+  /**
+   * The Event for a delivery. Shopify retries with the same webhook ID, so a
+   * retry reuses the first attempt's Event; processedAt is only set once a
+   * delivery has been applied.
+   */
+  private async recordEvent(store: Store, delivery: ShopifyWebhookDelivery): Promise<Event> {
+    const data = {
+      storeId: store.id,
+      tenantId: store.tenantId,
+      type: delivery.topic,
+      payload: delivery.payload,
+    };
+    if (!delivery.webhookId) {
+      return this.prismaClient.event.create({ data });
+    }
+
+    const webhookId = delivery.webhookId;
+    try {
+      return await this.prismaClient.event.upsert({
+        where: { webhookId },
+        create: { ...data, webhookId },
+        update: {},
+      });
+    } catch (error) {
+      // A concurrent attempt of the same delivery created it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.prismaClient.event.findUniqueOrThrow({ where: { webhookId } });
+      }
+      throw error;
+    }
+  }
+
+  private async markProcessed(eventId: string) {
+    await this.prismaClient.event.update({
+      where: { id: eventId },
+      data: { processedAt: new Date() },
+    });
+  }
+}
+
+export const shopifyWebhookService = new ShopifyWebhookService();
@@ -1,7 +1,15 @@
+import type { UserRole } from '@prisma/client';
+import type { ApiKeyScope } from '../services/api-key.service';
+
 export interface AuthUser {
   id: string;
   email: string;
   tenantId?: string;
+  role?: UserRole;
+  // Session the request's access token was issued for
+  sessionId?: string;
+  // Set instead of a role when the request authenticated with a tenant API key
+  apiKey?: { id: string; prefix: string; scopes: ApiKeyScope[] };
   [key: string]: any;
 }
 
@@ -1,4 +1,4 @@
-import { User } from '@prisma/client';
+import { UserRole } from '@prisma/client';
 
 declare global {
   namespace Express {
@@ -6,7 +6,7 @@ declare global {
       user?: {
         id: string;
         email: string;
-        role: string;
+        role: UserRole;
         tenantId: string;
       };
     }
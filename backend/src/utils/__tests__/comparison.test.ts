@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { comparisonRange, delta } from '../comparison';
+import { parseZonedBound } from '../timezone';
+
+const NY = 'America/New_York';
+
+// Whole store days, as the analytics endpoints read them from the query
+const days = (start: string, end: string, timeZone = NY) => ({
+  start: parseZonedBound(start, timeZone, 'start'),
+  end: parseZonedBound(end, timeZone, 'end'),
+});
+
+describe('comparisonRange', () => {
+  it('compares whole days with the same days just before', () => {
+    const previous = comparisonRange(days('2025-01-08', '2025-01-14'), 'previous', NY);
+    expect(previous).toEqual(days('2025-01-01', '2025-01-07'));
+  });
+
+  it('keeps a previous range across a DST change on midnight', () => {
+    // Clocks went forward on 9 March 2025, so that week is an hour short
+    const previous = comparisonRange(days('2025-03-10', '2025-03-16'), 'previous', NY);
+    expect(previous).toEqual(days('2025-03-03', '2025-03-09'));
+    expect(previous.start.toISOString()).toBe('2025-03-03T05:00:00.000Z');
+    expect(previous.end.toISOString()).toBe('2025-03-10T03:59:59.999Z');
+  });
+
+  it('compares other ranges with the same length of time just before', () => {
+    const range = { start: new Date('2025-01-10T12:00:00Z'), end: new Date('2025-01-10T17:59:59.999Z') };
+    expect(comparisonRange(range, 'previous', NY)).toEqual({
+      start: new Date('2025-01-10T06:00:00Z'),
+      end: new Date('2025-01-10T11:59:59.999Z'),
+    });
+  });
+
+  it('compares 29 February with 28 February a year earlier', () => {
+    const lastYear = comparisonRange(days('2024-02-29', '2024-02-29'), 'lastYear', NY);
+    expect(lastYear).toEqual(days('2023-02-28', '2023-02-28'));
+  });
+
+  it('compares a range ending on 29 February with the same dates last year', () => {
+    const lastYear = comparisonRange(days('2024-02-01', '2024-02-29'), 'lastYear', NY);
+    expect(lastYear).toEqual(days('2023-02-01', '2023-02-28'));
+  });
+});
+
+describe('delta', () => {
+  it('reports the change and percentage change', () => {
+    expect(delta(150, 120)).toEqual({ current: 150, previous: 120, change: 30, percentChange: 25 });
+    expect(delta(90, 120).percentChange).toBe(-25);
+  });
+
+  it('has no percentage against zero', () => {
+    expect(delta(40, 0)).toEqual({ current: 40, previous: 0, change: 40, percentChange: null });
+  });
+});
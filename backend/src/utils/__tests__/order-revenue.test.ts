@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import { netSalesOf, orderRevenueFields, refundTotals } from '../order-revenue';
+
+const refund = {
+  refund_line_items: [
+    { line_item_id: 11, quantity: 1, subtotal: '20.00', total_tax: '1.60' },
+    { line_item_id: 12, quantity: 2, subtotal: '30.00', total_tax: '2.40' },
+  ],
+  order_adjustments: [
+    // Adjustment amounts are negative
+    { kind: 'shipping_refund', amount: '-5.00', tax_amount: '-0.40' },
+    { kind: 'refund_discrepancy', amount: '-2.00', tax_amount: '0.00' },
+  ],
+};
+
+describe('refundTotals', () => {
+  it('adds refunded shipping and its tax from shipping_refund adjustments', () => {
+    const totals = refundTotals([refund]);
+    expect(totals.subtotal).toBeCloseTo(50);
+    expect(totals.tax).toBeCloseTo(4.4);
+    expect(totals.shipping).toBeCloseTo(5);
+  });
+
+  it('keys refunded quantities and subtotals by line item across refunds', () => {
+    const totals = refundTotals([refund, { refund_line_items: [{ line_item_id: 11, quantity: 1, subtotal: '20.00' }] }]);
+    expect(totals.lines.get('11')).toEqual({ quantity: 2, subtotal: 40 });
+    expect(totals.lines.get('12')).toEqual({ quantity: 2, subtotal: 30 });
+  });
+
+  it('reads refunds stored as a JSON string', () => {
+    expect(refundTotals(JSON.stringify([refund])).shipping).toBeCloseTo(5);
+  });
+
+  it('treats missing refunds as none', () => {
+    expect(refundTotals(null)).toMatchObject({ subtotal: 0, tax: 0, shipping: 0 });
+  });
+});
+
+describe('orderRevenueFields', () => {
+  it('stores shipping charged and what refunds gave back', () => {
+    const fields = orderRevenueFields({
+      test: false,
+      shipping_lines: [{ price: '7.50' }, { price: '2.50' }],
+      refunds: [refund],
+    });
+    expect(fields).toMatchObject({ test: false, totalShipping: 10 });
+    expect(fields.refundedSubtotal).toBeCloseTo(50);
+    expect(fields.refundedShipping).toBeCloseTo(5);
+  });
+});
+
+describe('netSalesOf', () => {
+  it('takes discounts and returns off the line items', () => {
+    expect(netSalesOf({ totalLineItemsPrice: 120, totalDiscounts: '10.5', refundedSubtotal: 20 })).toBeCloseTo(89.5);
+  });
+});
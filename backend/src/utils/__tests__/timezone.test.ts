@@ -0,0 +1,41 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseZonedBound, startOfZonedDay, zonedParts } from '../timezone';
+
+const NY = 'America/New_York';
+
+describe('parseZonedBound', () => {
+  it('reads a start date as midnight in the zone', () => {
+    expect(parseZonedBound('2025-01-15', NY, 'start').toISOString()).toBe('2025-01-15T05:00:00.000Z');
+    expect(parseZonedBound('2025-07-15', NY, 'start').toISOString()).toBe('2025-07-15T04:00:00.000Z');
+  });
+
+  it('reads an end date as the last millisecond of that day in the zone', () => {
+    expect(parseZonedBound('2025-01-15', NY, 'end').toISOString()).toBe('2025-01-16T04:59:59.999Z');
+    expect(parseZonedBound('2025-01-15', 'UTC', 'end').toISOString()).toBe('2025-01-15T23:59:59.999Z');
+  });
+
+  it('ends the last day of a month and year before the next one starts', () => {
+    expect(parseZonedBound('2025-01-31', NY, 'end').toISOString()).toBe('2025-02-01T04:59:59.999Z');
+    expect(parseZonedBound('2024-12-31', 'Asia/Kolkata', 'end').toISOString()).toBe('2024-12-31T18:29:59.999Z');
+  });
+
+  it('ends a day on which the clocks change at the following midnight', () => {
+    // 9 March 2025 is 23 hours long in New York, 2 November 25
+    expect(parseZonedBound('2025-03-09', NY, 'end').toISOString()).toBe('2025-03-10T03:59:59.999Z');
+    expect(parseZonedBound('2025-11-02', NY, 'end').toISOString()).toBe('2025-11-03T04:59:59.999Z');
+  });
+
+  it('parses anything other than a plain date as an instant', () => {
+    expect(parseZonedBound('2025-01-15T10:30:00Z', NY, 'end').toISOString()).toBe('2025-01-15T10:30:00.000Z');
+  });
+});
+
+describe('startOfZonedDay', () => {
+  it('lands on midnight on both sides of a DST change', () => {
+    const before = startOfZonedDay(2025, 3, 9, NY);
+    const after = startOfZonedDay(2025, 3, 10, NY);
+    expect(zonedParts(before, NY)).toMatchObject({ day: 9, hour: 0, minute: 0 });
+    expect(zonedParts(after, NY)).toMatchObject({ day: 10, hour: 0, minute: 0 });
+    expect(after.getTime() - before.getTime()).toBe(23 * 3600_000);
+  });
+});
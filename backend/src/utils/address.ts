@@ -0,0 +1,20 @@
+/**
+ * Normalize a stored Shopify address (snake_case, as the REST API returns it)
+ * for display. Empty objects, which older syncs saved for missing addresses,
+ * come back as null.
+ */
+export function toAddress(raw: any) {
+  if (!raw || typeof raw !== 'object' || !Object.keys(raw).length) return null;
+  return {
+    name: raw.name || [raw.first_name, raw.last_name].filter(Boolean).join(' ') || null,
+    company: raw.company || null,
+    address1: raw.address1 || null,
+    address2: raw.address2 || null,
+    city: raw.city || null,
+    province: raw.province || null,
+    zip: raw.zip || null,
+    country: raw.country || null,
+    phone: raw.phone || null,
+    isDefault: !!raw.default,
+  };
+}
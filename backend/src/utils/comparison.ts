@@ -0,0 +1,83 @@
+import { startOfZonedDay, zonedParts } from './timezone';
+
+export const COMPARE_MODES = ['previous', 'lastYear', 'custom'] as const;
+export type CompareMode = (typeof COMPARE_MODES)[number];
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface Delta {
+  current: number;
+  previous: number;
+  change: number;
+  // Null when there is nothing to compare against
+  percentChange: number | null;
+}
+
+const DAY_MS = 24 * 3600_000;
+
+const isMidnight = (instant: Date, timeZone: string) => {
+  const p = zonedParts(instant, timeZone);
+  return p.hour === 0 && p.minute === 0 && p.second === 0 && instant.getUTCMilliseconds() === 0;
+};
+
+// Move an instant by calendar days and years on the zone's clock, keeping
+// how far into its day it was. 29 February a year on or back is the 28th.
+const shiftZoned = (instant: Date, timeZone: string, shift: { days?: number; years?: number }) => {
+  const p = zonedParts(instant, timeZone);
+  const dayStart = startOfZonedDay(p.year, p.month, p.day, timeZone);
+  const year = p.year + (shift.years ?? 0);
+  const monthLength = new Date(Date.UTC(year, p.month, 0)).getUTCDate();
+  const target = startOfZonedDay(year, p.month, Math.min(p.day, monthLength) + (shift.days ?? 0), timeZone);
+  return new Date(target.getTime() + (instant.getTime() - dayStart.getTime()));
+};
+
+/**
+ * The range a `previous` or `lastYear` comparison covers. Whole local days
+ * compare with the same number of days just before, or the same dates a year
+ * earlier, so DST changes don't drag the bounds off midnight. Other ranges
+ * compare with the same length of time just before.
+ */
+export function comparisonRange(range: TimeRange, mode: Exclude<CompareMode, 'custom'>, timeZone: string): TimeRange {
+  // Ends are inclusive; work from the instant after so whole days end at midnight
+  const after = new Date(range.end.getTime() + 1);
+  if (mode === 'lastYear') {
+    return {
+      start: shiftZoned(range.start, timeZone, { years: -1 }),
+      end: new Date(shiftZoned(after, timeZone, { years: -1 }).getTime() - 1),
+    };
+  }
+  const end = new Date(range.start.getTime() - 1);
+  if (isMidnight(range.start, timeZone) && isMidnight(after, timeZone)) {
+    const s = zonedParts(range.start, timeZone);
+    const e = zonedParts(after, timeZone);
+    const days = Math.round((Date.UTC(e.year, e.month - 1, e.day) - Date.UTC(s.year, s.month - 1, s.day)) / DAY_MS);
+    return { start: shiftZoned(range.start, timeZone, { days: -days }), end };
+  }
+  return { start: new Date(range.start.getTime() - (after.getTime() - range.start.getTime())), end };
+}
+
+/**
+ * How a value moved against the comparison, with the percentage rounded to
+ * one decimal place
+ */
+export function delta(current: number, previous: number): Delta {
+  const change = current - previous;
+  return {
+    current,
+    previous,
+    change: Math.round(change * 100) / 100,
+    percentChange: previous === 0 ? null : Math.round((change / Math.abs(previous)) * 1000) / 10,
+  };
+}
+
+/**
+ * delta() for every key of the current values
+ */
+export function deltas<K extends string>(current: Record<K, number>, previous: Record<K, number>): Record<K, Delta> {
+  return Object.fromEntries(
+    (Object.keys(current) as K[]).map((key) => [key, delta(current[key], previous[key] ?? 0)])
+  ) as Record<K, Delta>;
+}
@@ -0,0 +1,118 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for secrets stored in the database (Shopify access tokens).
+ *
+ * Each value gets its own random data key. The value is sealed with the data
+ * key (AES-256-GCM), and the data key is sealed with a master key from
+ * TOKEN_ENCRYPTION_KEYS. The result is stored as
+ *
+ *   enc:v1:<keyId>:<wrapped data key>:<sealed value>
+ *
+ * so values written under an old master key stay readable after rotation, and
+ * the re-encrypt script can find and rewrap them.
+ *
+ *   TOKEN_ENCRYPTION_KEYS=2025-01:<base64 32 bytes>,2025-06:<base64 32 bytes>
+ *   TOKEN_ENCRYPTION_ACTIVE_KEY=2025-06   # defaults to the last key listed
+ */
+
+const PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+type Keyring = { activeKeyId: string; keys: Map<string, Buffer> };
+
+let cached: { source: string; keyring: Keyring } | undefined;
+
+function loadKeyring(): Keyring {
+  const source = `${process.env.TOKEN_ENCRYPTION_KEYS || ''}|${process.env.TOKEN_ENCRYPTION_ACTIVE_KEY || ''}`;
+  if (cached?.source === source) return cached.keyring;
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of (process.env.TOKEN_ENCRYPTION_KEYS || '').split(',').map((s) => s.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (separator < 1 || key.length !== 32) {
+      throw new Error(`TOKEN_ENCRYPTION_KEYS entry "${keyId || entry}" must be <keyId>:<base64 32-byte key>`);
+    }
+    keys.set(keyId, key);
+  }
+  if (keys.size === 0) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not defined in environment variables');
+  }
+
+  const activeKeyId = process.env.TOKEN_ENCRYPTION_ACTIVE_KEY || Array.from(keys.keys()).pop()!;
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`TOKEN_ENCRYPTION_ACTIVE_KEY "${activeKeyId}" is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+
+  const keyring = { activeKeyId, keys };
+  cached = { source, keyring };
+  return keyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+export const isEncryptedToken = (value: string | null | undefined): boolean =>
+  !!value && value.startsWith(`${PREFIX}:`);
+
+/**
+ * Key ID a stored value was encrypted under, or null for plain text
+ */
+export function getTokenKeyId(value: string | null | undefined): string | null {
+  return isEncryptedToken(value) ? value!.split(':')[2] : null;
+}
+
+export function getActiveTokenKeyId(): string {
+  return loadKeyring().activeKeyId;
+}
+
+/**
+ * Encrypt a secret under the active master key (or `keyId` if given)
+ */
+export function encryptToken(plaintext: string, keyId?: string): string {
+  const { activeKeyId, keys } = loadKeyring();
+  const kid = keyId || activeKeyId;
+  const masterKey = keys.get(kid);
+  if (!masterKey) {
+    throw new Error(`Unknown token encryption key "${kid}"`);
+  }
+
+  const dataKey = randomBytes(32);
+  const wrappedKey = seal(masterKey, dataKey, kid);
+  const value = seal(dataKey, Buffer.from(plaintext, 'utf8'), kid);
+  return [PREFIX, kid, wrappedKey, value].join(':');
+}
+
+/**
+ * Decrypt a stored secret. Values written before encryption was enabled are
+ * returned unchanged so they keep working until the re-encrypt script runs.
+ */
+export function decryptToken(value: string): string {
+  if (!isEncryptedToken(value)) return value;
+
+  const [, , kid, wrappedKey, sealed] = value.split(':');
+  const masterKey = loadKeyring().keys.get(kid);
+  if (!masterKey) {
+    throw new Error(`Token was encrypted with key "${kid}", which is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+
+  const dataKey = open(masterKey, wrappedKey, kid);
+  return open(dataKey, sealed, kid).toString('utf8');
+}
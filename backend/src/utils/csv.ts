@@ -0,0 +1,25 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+// Spreadsheet apps run cells that start with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.join(', ') : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render rows as RFC 4180 CSV with a header line
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map((column) => escapeCell(column.header)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCell(column.value(row))).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -45,3 +45,44 @@ export class ConflictError extends AppError {
     super(message, StatusCodes.CONFLICT);
   }
 }
+
+/**
+ * Errors raised by the Shopify client. `shopifyStatus` is the status Shopify
+ * returned; `statusCode` is what our API responds with. Auth failures map to
+ * 424 rather than 401 so the frontend doesn't treat them as an expired session.
+ */
+export class ShopifyApiError extends AppError {
+  shopifyStatus?: number;
+
+  constructor(message: string, statusCode: number, shopifyStatus?: number) {
+    super(message, statusCode);
+    this.shopifyStatus = shopifyStatus;
+  }
+}
+
+export class ShopifyAuthError extends ShopifyApiError {
+  constructor(message = 'Shopify access token is invalid or has been revoked', shopifyStatus?: number) {
+    super(message, StatusCodes.FAILED_DEPENDENCY, shopifyStatus);
+  }
+}
+
+export class ShopifyNotFoundError extends ShopifyApiError {
+  constructor(message = 'Shopify resource not found') {
+    super(message, StatusCodes.NOT_FOUND, StatusCodes.NOT_FOUND);
+  }
+}
+
+export class ShopifyThrottledError extends ShopifyApiError {
+  retryAfterMs?: number;
+
+  constructor(message = 'Shopify API rate limit exceeded', retryAfterMs?: number) {
+    super(message, StatusCodes.TOO_MANY_REQUESTS, StatusCodes.TOO_MANY_REQUESTS);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ShopifyServerError extends ShopifyApiError {
+  constructor(message = 'Shopify API is unavailable', shopifyStatus?: number) {
+    super(message, StatusCodes.BAD_GATEWAY, shopifyStatus);
+  }
+}
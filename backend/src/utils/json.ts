@@ -0,0 +1,16 @@
+/**
+ * Read a Json column that may hold either a JSON value or a JSON-encoded string.
+ * ShopifySyncService stores stringified payloads while DataSyncService stores
+ * plain JSON, so readers must accept both.
+ */
+export function parseJsonColumn<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value === 'string') {
+    try {
+      return (JSON.parse(value) as T) ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+  return value as T;
+}
@@ -9,16 +9,20 @@ if (!JWT_SECRET) {
 // JWT payload type
 type JwtPayload = {
   id: string;
+  // Session (refresh token family) the access token was issued for
+  sid?: string;
   iat?: number;
   exp?: number;
 };
 
+// Access tokens are short-lived; clients renew them with a refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || '15', 10) * 60;
+
 // Sign JWT token
-export const signToken = (userId: string): string => {
+export const signToken = (userId: string, sessionId: string): string => {
   try {
-    const payload = { id: userId };
-    // Use a fixed expiration of 7 days
-    return jwt.sign(payload, JWT_SECRET, { expiresIn: '7d' });
+    const payload = { id: userId, sid: sessionId };
+    return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
   } catch (error) {
     logger.error('Error signing JWT token:', error);
     throw new Error('Error generating authentication token');
@@ -43,9 +47,26 @@ export const verifyToken = (token: string): Promise<JwtPayload> => {
 };
 
 // Create and sign token for user
-export const createAuthToken = (user: { id: string }): string => {
+export const createAuthToken = (user: { id: string }, sessionId: string): string => {
   if (!user || !user.id) {
     throw new Error('Invalid user data for token creation');
   }
-  return signToken(user.id);
+  return signToken(user.id, sessionId);
+};
+
+// How long a user has to enter their second factor after their password
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// Short-lived proof that the password step of a 2FA login succeeded. It has no
+// session ID, so protect() never accepts it as an access token.
+export const signMfaChallengeToken = (userId: string): string => {
+  return jwt.sign({ id: userId, purpose: 'mfa' }, JWT_SECRET, { expiresIn: MFA_CHALLENGE_TTL_SECONDS });
+};
+
+export const verifyMfaChallengeToken = async (token: string): Promise<string> => {
+  const decoded = (await verifyToken(token)) as JwtPayload & { purpose?: string };
+  if (decoded.purpose !== 'mfa' || !decoded.id) {
+    throw new Error('Invalid or expired token');
+  }
+  return decoded.id;
 };
@@ -0,0 +1,143 @@
+import { Prisma } from '@prisma/client';
+import { parseJsonColumn } from './json';
+
+export interface RevenueOptions {
+  // Cancelled orders are left out unless this is set
+  includeCancelled?: boolean;
+}
+
+export interface RefundedLine {
+  quantity: number;
+  subtotal: number;
+}
+
+const num = (value: unknown) => {
+  const n = parseFloat(value as string);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const asArray = (value: unknown): any[] => {
+  const parsed = parseJsonColumn<unknown>(value, []);
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+/**
+ * What an order's Shopify refunds gave back: the refunded items' subtotals
+ * (returns), their tax, and shipping refunded through order adjustments.
+ * Refunded quantities and subtotals are also keyed by line item ID.
+ */
+export function refundTotals(refunds: unknown) {
+  const totals = { subtotal: 0, tax: 0, shipping: 0, lines: new Map<string, RefundedLine>() };
+  for (const refund of asArray(refunds)) {
+    for (const line of asArray(refund?.refund_line_items)) {
+      const subtotal = num(line?.subtotal);
+      totals.subtotal += subtotal;
+      totals.tax += num(line?.total_tax);
+      const key = String(line?.line_item_id ?? line?.line_item?.id ?? '');
+      if (!key) continue;
+      const prev = totals.lines.get(key) || { quantity: 0, subtotal: 0 };
+      totals.lines.set(key, { quantity: prev.quantity + Math.trunc(num(line?.quantity)), subtotal: prev.subtotal + subtotal });
+    }
+    // Adjustments are negative amounts
+    for (const adjustment of asArray(refund?.order_adjustments)) {
+      if (adjustment?.kind === 'shipping_refund') {
+        totals.shipping -= num(adjustment?.amount);
+        totals.tax -= num(adjustment?.tax_amount);
+      }
+    }
+  }
+  return totals;
+}
+
+/**
+ * Amount columns derived from an order's shipping lines and refunds, for the
+ * sync writers to store next to Shopify's own totals
+ */
+export function orderRevenueFields(order: { test?: boolean | null; shipping_lines?: unknown; refunds?: unknown }) {
+  const refunds = refundTotals(order.refunds);
+  return {
+    test: order.test === true,
+    totalShipping: asArray(order.shipping_lines).reduce((sum, line) => sum + num(line?.price), 0),
+    refundedSubtotal: refunds.subtotal,
+    refundedTax: refunds.tax,
+    refundedShipping: refunds.shipping,
+  };
+}
+
+/**
+ * Orders that count towards revenue: no test or voided orders, and no
+ * cancelled ones unless asked for. Refunded orders stay in; their refunds
+ * are subtracted as returns.
+ */
+export function revenueWhere(options: RevenueOptions = {}): Prisma.OrderWhereInput {
+  return {
+    test: false,
+    OR: [{ financialStatus: null }, { financialStatus: { not: 'voided' } }],
+    ...(options.includeCancelled ? {} : { cancelledAt: null }),
+  };
+}
+
+/**
+ * revenueWhere as SQL conditions on the "orders" table, or the alias it is
+ * joined under
+ */
+export function revenueFilter(options: RevenueOptions = {}, alias?: string): Prisma.Sql {
+  const column = (name: string) => Prisma.raw(alias ? `${alias}."${name}"` : `"${name}"`);
+  return Prisma.sql`NOT ${column('test')}
+    AND ${column('financialStatus')} IS DISTINCT FROM 'voided'
+    ${options.includeCancelled ? Prisma.empty : Prisma.sql`AND ${column('cancelledAt')} IS NULL`}`;
+}
+
+/**
+ * An order's net sales: line items less discounts and returns
+ */
+export const netSalesSql = Prisma.sql`("totalLineItemsPrice" - "totalDiscounts" - "refundedSubtotal")`;
+
+/**
+ * netSalesSql for an order read through Prisma
+ */
+export function netSalesOf(order: { totalLineItemsPrice: unknown; totalDiscounts: unknown; refundedSubtotal: unknown }) {
+  return num(order.totalLineItemsPrice) - num(order.totalDiscounts) - num(order.refundedSubtotal);
+}
+
+/**
+ * Sums for Shopify's finance report lines over "orders" rows:
+ * net sales = gross sales - discounts - returns, and total sales adds taxes
+ * and shipping (both net of refunds)
+ */
+export const revenueColumns = Prisma.sql`
+  COALESCE(SUM("totalLineItemsPrice"), 0)::DOUBLE PRECISION AS "grossSales",
+  COALESCE(SUM("totalDiscounts"), 0)::DOUBLE PRECISION AS "discounts",
+  COALESCE(SUM("refundedSubtotal"), 0)::DOUBLE PRECISION AS "returns",
+  COALESCE(SUM(${netSalesSql}), 0)::DOUBLE PRECISION AS "netSales",
+  COALESCE(SUM("totalTax" - "refundedTax"), 0)::DOUBLE PRECISION AS "taxes",
+  COALESCE(SUM("totalShipping" - "refundedShipping"), 0)::DOUBLE PRECISION AS "shipping"`;
+
+export interface RevenueBreakdown {
+  grossSales: number;
+  discounts: number;
+  returns: number;
+  netSales: number;
+  taxes: number;
+  shipping: number;
+  totalSales: number;
+}
+
+/**
+ * A revenueColumns row rounded to cents, with total sales added
+ */
+export function toRevenueBreakdown(row: Partial<Record<keyof RevenueBreakdown, unknown>> | undefined): RevenueBreakdown {
+  const round = (amount: unknown) => Math.round(Number(amount || 0) * 100) / 100;
+  const netSales = round(row?.netSales);
+  const taxes = round(row?.taxes);
+  const shipping = round(row?.shipping);
+  return {
+    grossSales: round(row?.grossSales),
+    discounts: round(row?.discounts),
+    returns: round(row?.returns),
+    netSales,
+    taxes,
+    shipping,
+    totalSales: round(netSales + taxes + shipping),
+  };
+}
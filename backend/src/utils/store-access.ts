@@ -0,0 +1,22 @@
+import type { Request, NextFunction } from 'express';
+import { prisma } from './prisma';
+import { ForbiddenError, NotFoundError } from './errors';
+
+/**
+ * Load req.params.storeId and check it belongs to the caller's tenant, with
+ * the currency and timezone its analytics are reported in. Resolves to
+ * undefined after passing the error to next(), so callers must stop there.
+ */
+export async function ensureStoreAccess(req: Request, next: NextFunction) {
+  const store = await prisma.store.findUnique({
+    where: { id: req.params.storeId },
+    select: { id: true, tenantId: true, domain: true, currency: true, timezone: true },
+  });
+  if (!store) {
+    return next(new NotFoundError('Store not found'));
+  }
+  if (store.tenantId !== req.user?.tenantId) {
+    return next(new ForbiddenError('You do not have permission to access this store'));
+  }
+  return store;
+}
@@ -0,0 +1,87 @@
+const DAY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Whether Node (and so, in practice, Postgres) knows the IANA zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a zone
+ */
+export function zonedParts(instant: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at an instant
+const offsetAt = (instant: Date, timeZone: string) => {
+  const p = zonedParts(instant, timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wall - (instant.getTime() - instant.getUTCMilliseconds());
+};
+
+/**
+ * The instant a zone's clocks show midnight at the start of a calendar day.
+ * The offset is checked again at the result so days that start next to a
+ * DST change land on the right side of it.
+ */
+export function startOfZonedDay(year: number, month: number, day: number, timeZone: string): Date {
+  const wall = Date.UTC(year, month - 1, day);
+  const guess = wall - offsetAt(new Date(wall), timeZone);
+  return new Date(wall - offsetAt(new Date(guess), timeZone));
+}
+
+/**
+ * Read a range bound from the query string. A plain `YYYY-MM-DD` is a
+ * calendar day in the store's zone: the start of it, or for the end of a
+ * range, the last millisecond of it. Anything else is parsed as an instant.
+ */
+export function parseZonedBound(value: string, timeZone: string, bound: 'start' | 'end'): Date {
+  const match = DAY.exec(value);
+  if (!match) return new Date(value);
+  const [year, month, day] = match.slice(1).map(Number);
+  if (bound === 'start') return startOfZonedDay(year, month, day, timeZone);
+  // Date.UTC rolls day 32 over into the next month
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return new Date(
+    startOfZonedDay(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), timeZone).getTime() - 1
+  );
+}
@@ -0,0 +1,23 @@
+import os from 'os';
+import logger from './logger';
+
+/**
+ * This process, as recorded on the sync jobs, runs and backfills it works on.
+ * A restart on the same host with the same pid (as in a container) recognises
+ * what it left behind.
+ */
+export const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// Work in progress refreshes its heartbeat three times within this; one older
+// than this belongs to a worker that has gone away
+export const STALE_HEARTBEAT_MS = 15 * 60_000;
+
+/**
+ * Call `beat` a few times per `staleMs` until the returned function is called
+ */
+export function startHeartbeat(label: string, beat: () => Promise<unknown>, staleMs = STALE_HEARTBEAT_MS): () => void {
+  const timer = setInterval(() => {
+    beat().catch((error) => logger.error(`Failed to refresh the heartbeat of ${label}:`, error));
+  }, staleMs / 3);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api, errorMessage } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+
+type InvitationPreview = {
+  email: string;
+  role: 'OWNER' | 'ADMIN' | 'ANALYST' | 'VIEWER';
+  tenantName: string;
+  invitedBy: string;
+  expiresAt: string;
+  accountExists: boolean;
+};
+
+const accountSchema = z
+  .object({
+    username: z
+      .string()
+      .min(3, 'Username must be at least 3 characters')
+      .max(30, 'Username must be less than 30 characters'),
+    password: z
+      .string()
+      .min(8, 'Password must be at least 8 characters')
+      .regex(
+        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>/?]).{8,}$/,
+        'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
+      ),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+type AccountData = z.infer<typeof accountSchema>;
+
+// Store the session the same way login does and let the auth provider pick it up
+const storeSession = (token: string | undefined, user: any) => {
+  if (token) localStorage.setItem('token', token);
+  if (user?.id) {
+    localStorage.setItem('user', JSON.stringify(user));
+    localStorage.setItem('userId', user.id);
+  }
+  window.dispatchEvent(new Event('auth:update'));
+};
+
+export default function AcceptInvitationPage({ params }: { params: { token: string } }) {
+  const { token } = params;
+  const router = useRouter();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [error, setError] = useState('');
+
+  const { data: invitation, isLoading, error: loadError } = useQuery({
+    queryKey: ['invitation', token],
+    queryFn: async () => {
+      const res: any = await api.get(`/api/invitations/${token}`, {}, false);
+      return res?.data?.invitation as InvitationPreview;
+    },
+    retry: false,
+  });
+
+  const { register, handleSubmit, formState: { errors } } = useForm<AccountData>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: { username: '', password: '', confirmPassword: '' },
+  });
+
+  const signUp = useMutation({
+    mutationFn: async (data: AccountData) =>
+      api.post<any>('/api/auth/signup', {
+        email: invitation?.email,
+        username: data.username,
+        password: data.password,
+        passwordConfirm: data.confirmPassword,
+        invitationToken: token,
+      }),
+    onMutate: () => setError(''),
+    onSuccess: (res) => {
+      storeSession(res?.token || res?.data?.token, res?.data?.user);
+      router.push('/dashboard');
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to create your account')),
+  });
+
+  const accept = useMutation({
+    mutationFn: async () => api.post<any>(`/api/invitations/${token}/accept`),
+    onMutate: () => setError(''),
+    onSuccess: (res) => {
+      storeSession(undefined, { ...user, ...res?.data?.user });
+      router.push('/dashboard');
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to accept the invitation')),
+  });
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const signedInAsInvitee = !!user && user.email.toLowerCase() === invitation?.email;
+  const role = invitation ? invitation.role.charAt(0) + invitation.role.slice(1).toLowerCase() : '';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center dark:bg-blue-900/30 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {!invitation ? (
+          <div className="text-center space-y-4">
+            <h2 className="text-3xl font-extrabold text-white">Invitation unavailable</h2>
+            <p className="text-sm text-white">{errorMessage(loadError, 'This invitation is no longer valid.')}</p>
+            <Link href="/login" className="font-medium text-white hover:text-indigo-500">
+              Go to sign in
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h2 className="mt-6 text-center text-3xl font-extrabold text-white">Join {invitation.tenantName}</h2>
+              <p className="mt-2 text-center text-sm text-white">
+                {invitation.invitedBy} invited <strong>{invitation.email}</strong> to join as {role}.
+              </p>
+            </div>
+
+            {error && <p className="text-center text-sm text-red-500">{error}</p>}
+
+            {!invitation.accountExists ? (
+              <form onSubmit={handleSubmit((data) => signUp.mutate(data))} className="mt-8 space-y-4">
+                <Input value={invitation.email} disabled className="text-white" aria-label="Email address" />
+                <div>
+                  <Input {...register('username')} type="text" placeholder="Username" className="text-white placeholder-white" />
+                  {errors.username && <p className="mt-1 text-sm text-red-600">{errors.username.message}</p>}
+                </div>
+                <div>
+                  <Input
+                    {...register('password')}
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="Password"
+                    className="text-white placeholder-white"
+                  />
+                  {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+                </div>
+                <div>
+                  <Input
+                    {...register('confirmPassword')}
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="Confirm Password"
+                    className="text-white placeholder-white"
+                  />
+                  {errors.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>}
+                </div>
+                <Button type="submit" className="w-full" disabled={signUp.isLoading}>
+                  {signUp.isLoading ? 'Creating account...' : 'Create account and join'}
+                </Button>
+              </form>
+            ) : signedInAsInvitee ? (
+              <div className="space-y-3">
+                <p className="text-center text-sm text-white">
+                  Accepting moves your account to {invitation.tenantName}.
+                </p>
+                <Button className="w-full" disabled={accept.isLoading} onClick={() => accept.mutate()}>
+                  {accept.isLoading ? 'Joining...' : 'Accept invitation'}
+                </Button>
+              </div>
+            ) : (
+              <div className="text-center space-y-3">
+                <p className="text-sm text-white">
+                  {user
+                    ? `You're signed in as ${user.email}. Sign in as ${invitation.email} to accept.`
+                    : `Sign in as ${invitation.email} to accept this invitation.`}
+                </p>
+                <Link
+                  href={`/login?returnUrl=${encodeURIComponent(`/invite/${token}`)}`}
+                  className="font-medium text-white hover:text-indigo-500"
+                >
+                  Sign in
+                </Link>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
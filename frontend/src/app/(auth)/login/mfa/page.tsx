@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/lib/auth';
+import { errorMessage } from '@/lib/api';
+
+export default function LoginMfaPage() {
+  const router = useRouter();
+  const { verifyMfa } = useAuth();
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const returnUrl = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('returnUrl') : null;
+
+  // The password step leaves a challenge token behind; without one, start over
+  useEffect(() => {
+    const token = sessionStorage.getItem('mfaToken');
+    if (!token) {
+      router.replace('/login');
+      return;
+    }
+    setMfaToken(token);
+  }, [router]);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaToken || !value || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await verifyMfa(mfaToken, useRecoveryCode ? { recoveryCode: value } : { code: value.replace(/\s/g, '') });
+      sessionStorage.removeItem('mfaToken');
+      toast.success('Login successful!');
+      router.push(returnUrl || '/dashboard');
+    } catch (err: any) {
+      if (err?.response?.status === 401 && /expired/i.test(errorMessage(err, ''))) {
+        // The challenge token only lasts a few minutes
+        sessionStorage.removeItem('mfaToken');
+        toast.error(errorMessage(err, 'Please sign in again.'));
+        router.replace('/login');
+        return;
+      }
+      setError(errorMessage(err, 'Verification failed. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!mfaToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center dark:bg-blue-900/30 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-white">Two-factor authentication</h2>
+          <p className="mt-2 text-center text-sm text-white">
+            {useRecoveryCode
+              ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+        </div>
+
+        <form onSubmit={onSubmit} className="mt-8 space-y-6" noValidate>
+          <Input
+            type="text"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            autoFocus
+            disabled={isSubmitting}
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            className="text-white placeholder-white text-center tracking-widest"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            aria-label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+          />
+
+          {error && <p className="text-center text-sm text-red-500">{error}</p>}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting || !value}>
+            {isSubmitting ? 'Verifying...' : 'Verify'}
+          </Button>
+        </form>
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setValue('');
+              setError('');
+            }}
+          >
+            {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+          </button>
+          <Link
+            href="/login"
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+            onClick={() => sessionStorage.removeItem('mfaToken')}
+          >
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
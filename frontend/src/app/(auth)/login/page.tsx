@@ -69,7 +69,14 @@ export default function LoginPage() {
       }
       
       // Call the legacy login(email, password) function
-      await login(emailTrimmed, data.password);
+      const result = await login(emailTrimmed, data.password);
+
+      // 2FA users finish signing in on the challenge step
+      if (result.mfaRequired) {
+        sessionStorage.setItem('mfaToken', result.mfaToken);
+        router.push(returnUrl ? `/login/mfa?returnUrl=${encodeURIComponent(returnUrl)}` : '/login/mfa');
+        return;
+      }
       
       // Show success message
       toast.success('Login successful!');
@@ -0,0 +1,24 @@
+import { Metadata } from 'next';
+import { SidebarNav } from '@/components/dashboard/SidebarNav';
+
+export const metadata: Metadata = {
+  title: 'Activity | Xeno Insights',
+  description: 'Who did what in your workspace',
+};
+
+export default function ActivityLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex min-h-screen  dark:bg-gray-800 shadow">
+      <SidebarNav />
+      <div className="flex-1 ml-64">
+        <main className="max-w-7xl mx-auto w-full">
+          {children}
+        </main>
+      </div>
+    </div>
+  );
+}
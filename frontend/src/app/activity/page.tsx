@@ -0,0 +1,259 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { api } from '@/lib/api';
+import { hasRole, MANAGER_ROLES, useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type AuditEntry = {
+  id: string;
+  actorType: 'USER' | 'API_KEY' | 'SYSTEM';
+  actorId: string | null;
+  actorLabel: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+type AuditPage = {
+  entries: AuditEntry[];
+  pagination: { page: number; limit: number; total: number; pages: number };
+};
+
+const CATEGORIES = [
+  { value: '', label: 'All activity' },
+  { value: 'store', label: 'Stores' },
+  { value: 'sync', label: 'Syncs' },
+  { value: 'tenant', label: 'Team' },
+  { value: 'invitation', label: 'Invitations' },
+  { value: 'api_key', label: 'API keys' },
+  { value: 'segment', label: 'Segments' },
+  { value: 'user', label: 'Account security' },
+];
+
+const PAGE_SIZE = 25;
+
+const describeActor = (entry: AuditEntry) => {
+  if (entry.actorType === 'API_KEY') return `API key ${entry.actorLabel ?? ''}…`;
+  if (entry.actorType === 'SYSTEM') return 'System';
+  return entry.actorLabel || entry.actorId || 'Unknown user';
+};
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? '—' : JSON.stringify(value));
+
+export default function ActivityPage() {
+  const router = useRouter();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [category, setCategory] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const tenantId = user?.tenantId;
+  const canView = hasRole(user, MANAGER_ROLES);
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.replace('/login');
+    }
+  }, [isAuthLoading, user, router]);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['tenant-audit', tenantId, category, from, to, page],
+    enabled: !!tenantId && canView,
+    keepPreviousData: true,
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (category) params.set('action', category);
+      if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+      const res: any = await api.get(`/api/tenants/${tenantId}/audit?${params}`, {}, false);
+      return { entries: res?.data?.entries ?? [], pagination: res?.pagination } as AuditPage;
+    },
+  });
+
+  // Any filter change starts again from the newest entries
+  useEffect(() => setPage(1), [category, from, to]);
+
+  if (isAuthLoading || !user) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  const pages = data?.pagination?.pages ?? 1;
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="bg-white dark:bg-gray-800 shadow">
+        <div className="px-4 sm:px-6 lg:max-w-6xl lg:mx-auto lg:px-8">
+          <div className="py-6 md:flex md:items-center md:justify-between">
+            <div className="flex-1 min-w-0">
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Activity</h1>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <History className="w-5 h-5 mr-2" />
+                Audit Log
+              </CardTitle>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {!canView ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Only workspace owners and admins can see the activity log.
+                </p>
+              ) : (
+                <>
+                  <div className="flex flex-col md:flex-row md:items-center gap-3">
+                    <select
+                      aria-label="Activity type"
+                      className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                      value={category}
+                      onChange={(e) => setCategory(e.target.value)}
+                    >
+                      {CATEGORIES.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <Input type="date" aria-label="From" value={from} onChange={(e) => setFrom(e.target.value)} className="md:w-44" />
+                    <Input type="date" aria-label="To" value={to} onChange={(e) => setTo(e.target.value)} className="md:w-44" />
+                    {(category || from || to) && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setCategory('');
+                          setFrom('');
+                          setTo('');
+                        }}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+
+                  {isError && <p className="text-sm text-red-600 dark:text-red-400">Failed to load activity.</p>}
+
+                  {isLoading ? (
+                    <Skeleton className="h-48 w-full" />
+                  ) : !data?.entries.length ? (
+                    <p className="text-sm text-gray-500">No activity matches these filters.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                            <th className="py-2 pr-2 w-6" />
+                            <th className="py-2 pr-4 font-medium">When</th>
+                            <th className="py-2 pr-4 font-medium">Actor</th>
+                            <th className="py-2 pr-4 font-medium">Action</th>
+                            <th className="py-2 pr-4 font-medium">Target</th>
+                            <th className="py-2 font-medium">IP address</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                          {data.entries.map((entry) => {
+                            const hasDetails = !!entry.changes || !!entry.metadata;
+                            const isOpen = expanded === entry.id;
+                            return (
+                              <Fragment key={entry.id}>
+                                <tr
+                                  className={hasDetails ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800' : undefined}
+                                  onClick={() => hasDetails && setExpanded(isOpen ? null : entry.id)}
+                                >
+                                  <td className="py-2 pr-2 text-gray-400">
+                                    {hasDetails && (isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                                  </td>
+                                  <td className="py-2 pr-4 whitespace-nowrap text-gray-600 dark:text-gray-400">
+                                    {new Date(entry.createdAt).toLocaleString()}
+                                  </td>
+                                  <td className="py-2 pr-4 text-gray-900 dark:text-white">{describeActor(entry)}</td>
+                                  <td className="py-2 pr-4 font-mono text-xs text-gray-900 dark:text-white">{entry.action}</td>
+                                  <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">
+                                    {entry.targetType ? (
+                                      <>
+                                        {entry.targetType} <span className="font-mono text-xs">{entry.targetId}</span>
+                                      </>
+                                    ) : (
+                                      '—'
+                                    )}
+                                  </td>
+                                  <td className="py-2 font-mono text-xs text-gray-600 dark:text-gray-400">{entry.ipAddress ?? '—'}</td>
+                                </tr>
+                                {isOpen && (
+                                  <tr>
+                                    <td />
+                                    <td colSpan={5} className="pb-3 space-y-2">
+                                      {entry.changes && (
+                                        <div className="text-xs text-gray-700 dark:text-gray-300">
+                                          {Object.entries(entry.changes).map(([field, change]) => (
+                                            <div key={field}>
+                                              <span className="font-medium">{field}</span>: {formatValue(change.before)} →{' '}
+                                              {formatValue(change.after)}
+                                            </div>
+                                          ))}
+                                        </div>
+                                      )}
+                                      {entry.metadata && (
+                                        <pre className="text-xs bg-gray-50 dark:bg-gray-800 rounded p-2 overflow-x-auto">
+                                          {JSON.stringify(entry.metadata, null, 2)}
+                                        </pre>
+                                      )}
+                                      {entry.userAgent && <p className="text-xs text-gray-500">{entry.userAgent}</p>}
+                                    </td>
+                                  </tr>
+                                )}
+                              </Fragment>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {pages > 1 && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-500">
+                        Page {page} of {pages} · {data?.pagination.total} entries
+                      </span>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+                          Previous
+                        </Button>
+                        <Button variant="outline" size="sm" disabled={page >= pages} onClick={() => setPage((p) => p + 1)}>
+                          Next
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
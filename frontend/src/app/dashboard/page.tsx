@@ -12,12 +12,14 @@ import { AOVKpi } from '@/components/dashboard/analytics/AOVKpi';
 import { CustomerSplit } from '@/components/dashboard/analytics/CustomerSplit';
 import { SalesByType } from '@/components/dashboard/analytics/SalesByType';
 import { TrafficHeatmap } from '@/components/dashboard/analytics/TrafficHeatmap';
+import { CohortHeatmap } from '@/components/dashboard/analytics/CohortHeatmap';
 import { DiscountsImpact } from '@/components/dashboard/analytics/DiscountsImpact';
+import { DeltaIndicator } from '@/components/dashboard/analytics/DeltaIndicator';
 import { DateRange } from 'react-day-picker';
 import { addDays, subDays, format } from 'date-fns';
 import { DateRangePicker } from '@/components/ui/date-range-picker';
 import { api } from '@/lib/api';
-import { shopifyService } from '@/lib/shopify';
+import { shopifyService, type CompareMode, type Comparison, type Delta, type StoreAnalytics } from '@/lib/shopify';
 import { formatCurrency } from '@/lib/currency';
 
 type Store = {
@@ -34,12 +36,22 @@ export default function DashboardPage() {
   const [stores, setStores] = useState<Store[]>([]);
   const [hasConnectedStore, setHasConnectedStore] = useState(false);
   const [selectedStoreId, setSelectedStoreId] = useState<string | undefined>(undefined);
-  const [analytics, setAnalytics] = useState<{ total_revenue: number; total_orders: number; total_products: number; total_customers: number } | null>(null);
+  const [analytics, setAnalytics] = useState<StoreAnalytics | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
     from: subDays(new Date(), 30),
     to: new Date(),
   });
+  const [compareMode, setCompareMode] = useState<CompareMode | ''>('');
+  const [compareRange, setCompareRange] = useState<DateRange | undefined>(undefined);
+  const comparison: Comparison | undefined =
+    compareMode === 'custom'
+      ? compareRange?.from
+        ? { mode: 'custom', startDate: compareRange.from, endDate: compareRange.to ?? compareRange.from }
+        : undefined
+      : compareMode
+        ? { mode: compareMode }
+        : undefined;
   const fetchedRef = useRef(false);
   const fetchingRef = useRef(false);
   const mountedRef = useRef(true);
@@ -60,9 +72,7 @@ export default function DashboardPage() {
       const hasStore = items.length > 0;
       setHasConnectedStore(hasStore);
       if (hasStore) {
-        const firstId = items[0].id;
-        setSelectedStoreId(firstId);
-        await fetchAnalyticsOnly(firstId);
+        setSelectedStoreId(items[0].id);
       }
     } catch (error) {
       console.error('Error fetching stores:', error);
@@ -72,9 +82,14 @@ export default function DashboardPage() {
     }
   };
 
+  // Net sales and orders for the picked range, with deltas when comparing
   const fetchAnalyticsOnly = async (storeId: string) => {
     try {
-      const ana = await shopifyService.getStoreAnalytics(storeId);
+      const ana = await shopifyService.getStoreAnalytics(storeId, {
+        startDate: dateRange?.from,
+        endDate: dateRange?.from ? dateRange.to ?? new Date() : undefined,
+        compare: comparison,
+      });
       setAnalytics(ana);
     } catch (err) {
       console.error('Failed to ensure sync/fetch analytics', err);
@@ -125,6 +140,17 @@ export default function DashboardPage() {
     };
   }, [user, isAuthLoading]);
 
+  useEffect(() => {
+    if (selectedStoreId) fetchAnalyticsOnly(selectedStoreId);
+  }, [
+    selectedStoreId,
+    dateRange?.from?.getTime(),
+    dateRange?.to?.getTime(),
+    comparison?.mode,
+    comparison?.startDate?.getTime(),
+    comparison?.endDate?.getTime(),
+  ]);
+
   if (isAuthLoading || isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -212,11 +238,7 @@ export default function DashboardPage() {
             <select
               className="bg-blue-900/50 border border-blue-800/50 rounded-md px-3 py-2 text-white"
               value={selectedStoreId}
-              onChange={async (e) => {
-                const id = e.target.value;
-                setSelectedStoreId(id);
-                await fetchAnalyticsOnly(id);
-              }}
+              onChange={(e) => setSelectedStoreId(e.target.value)}
             >
               {stores.map((s) => (
                 <option key={s.id} value={s.id}>{s.name || s.domain}</option>
@@ -282,6 +304,28 @@ export default function DashboardPage() {
               date={dateRange} 
               setDate={setDateRange} 
             />
+            {analytics?.timezone && (
+              <p className="mt-1 text-xs text-muted-foreground">Days in {analytics.timezone.replace(/_/g, ' ')}</p>
+            )}
+          </div>
+          <div className="flex w-full flex-col gap-2 sm:w-auto sm:flex-row sm:items-center">
+            <select
+              aria-label="Compare with"
+              className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+              value={compareMode}
+              onChange={(e) => setCompareMode(e.target.value as CompareMode | '')}
+            >
+              <option value="">No comparison</option>
+              <option value="previous">Compare: previous period</option>
+              <option value="lastYear">Compare: same period last year</option>
+              <option value="custom">Compare: custom range</option>
+            </select>
+            {compareMode === 'custom' && (
+              <DateRangePicker 
+                date={compareRange} 
+                setDate={setCompareRange} 
+              />
+            )}
           </div>
         </div>
       </div>
@@ -289,35 +333,30 @@ export default function DashboardPage() {
       {/* Stats Overview */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
         {([
-          { 
-            title: 'Total Revenue', 
-            value: analytics ? formatCurrency(analytics.total_revenue) : '—', 
-            change: '', 
-            trend: 'up',
+          {
+            title: 'Net Sales',
+            value: analytics ? formatCurrency(analytics.total_revenue, analytics.currency) : '—',
+            delta: analytics?.comparison?.deltas.netSales,
             icon: '💰'
           },
-          { 
-            title: 'Total Orders', 
-            value: analytics ? `${analytics.total_orders.toLocaleString()}` : '—', 
-            change: '', 
-            trend: 'up',
+          {
+            title: 'Total Orders',
+            value: analytics ? `${analytics.total_orders.toLocaleString()}` : '—',
+            delta: analytics?.comparison?.deltas.orders,
             icon: '📦'
           },
-          { 
-            title: 'Active Products', 
-            value: analytics ? `${analytics.total_products.toLocaleString()}` : '—', 
-            change: '', 
-            trend: 'up',
+          // Catalogue and customer counts are current totals, not per range, so they have no comparison
+          {
+            title: 'Active Products',
+            value: analytics ? `${analytics.total_products.toLocaleString()}` : '—',
             icon: '🏷️'
           },
-          { 
-            title: 'Total Customers', 
-            value: analytics ? `${analytics.total_customers.toLocaleString()}` : '—', 
-            change: '', 
-            trend: 'up',
+          {
+            title: 'Total Customers',
+            value: analytics ? `${analytics.total_customers.toLocaleString()}` : '—',
             icon: '👥'
           },
-        ] as const).map((stat, index) => (
+        ] as Array<{ title: string; value: string; delta?: Delta; icon: string }>).map((stat, index) => (
           <div 
             key={index} 
             className="bg-blue-900/50 backdrop-blur-sm p-4 sm:p-6 rounded-xl border border-blue-800/50 hover:border-blue-700/50 transition-colors"
@@ -327,9 +366,9 @@ export default function DashboardPage() {
               <span className="text-xl">{stat.icon}</span>
             </div>
             <p className="text-2xl font-bold mt-2 text-white">{stat.value}</p>
-            <p className={`text-xs mt-2 flex items-center ${stat.trend === 'up' ? 'text-green-400' : 'text-red-400'}`}>
-              <span>{stat.change} {stat.change ? 'from last month' : ''}</span>
-            </p>
+            <div className="mt-2 min-h-[1rem]">
+              <DeltaIndicator delta={stat.delta} />
+            </div>
           </div>
         ))}
       </div>
@@ -338,27 +377,28 @@ export default function DashboardPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Full Width on mobile, 2/3 on desktop */}
         <div className="lg:col-span-2 space-y-6">
-          <SalesOverview dateRange={dateRange} storeId={selectedStoreId} />
+          <SalesOverview dateRange={dateRange} storeId={selectedStoreId} comparison={comparison} />
           {/* Row of compact KPIs */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-            <AOVKpi storeId={selectedStoreId} dateRange={dateRange} />
-            <DiscountsImpact storeId={selectedStoreId} dateRange={dateRange} />
+            <AOVKpi storeId={selectedStoreId} dateRange={dateRange} comparison={comparison} />
+            <DiscountsImpact storeId={selectedStoreId} dateRange={dateRange} comparison={comparison} />
           </div>
           {/* Sales by Type chart */}
-          <SalesByType storeId={selectedStoreId} dateRange={dateRange} />
+          <SalesByType storeId={selectedStoreId} dateRange={dateRange} comparison={comparison} />
         </div>
 
         {/* Right Column */}
         <div className="space-y-6">
           <RecentOrders dateRange={dateRange} storeId={selectedStoreId} />
           <TopProducts dateRange={dateRange} storeId={selectedStoreId} />
-          <CustomerSplit storeId={selectedStoreId} dateRange={dateRange} />
+          <CustomerSplit storeId={selectedStoreId} dateRange={dateRange} comparison={comparison} />
         </div>
       </div>
 
-      {/* Full-width Heatmap */}
+      {/* Full-width Heatmaps */}
       <div className="grid grid-cols-1 gap-6">
-        <TrafficHeatmap storeId={selectedStoreId} dateRange={dateRange} />
+        <TrafficHeatmap storeId={selectedStoreId} dateRange={dateRange} comparison={comparison} />
+        <CohortHeatmap storeId={selectedStoreId} />
       </div>
     </div>
   );
@@ -11,6 +11,12 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { User, Lock, Trash2, AlertCircle } from 'lucide-react';
 import { api } from '@/lib/api';
+import { SyncScheduleSettings } from '@/components/settings/SyncScheduleSettings';
+import { TeamMembersSettings } from '@/components/settings/TeamMembersSettings';
+import { TeamInvitations } from '@/components/settings/TeamInvitations';
+import { SessionsSettings } from '@/components/settings/SessionsSettings';
+import { TwoFactorSettings } from '@/components/settings/TwoFactorSettings';
+import { ApiKeysSettings } from '@/components/settings/ApiKeysSettings';
 
 // Helper function to get user initials
 const getUserInitials = (user: { username?: string } | null) => {
@@ -390,6 +396,22 @@ export default function SettingsPage(): React.ReactNode {
               </CardContent>
             </Card>
 
+            {/* Two-Factor Authentication Section */}
+            <TwoFactorSettings />
+
+            {/* Signed-in Devices Section */}
+            <SessionsSettings />
+
+            {/* Team Members Section */}
+            <TeamMembersSettings />
+            <TeamInvitations />
+
+            {/* Scheduled Sync Section */}
+            <SyncScheduleSettings />
+
+            {/* API Keys Section */}
+            <ApiKeysSettings />
+
             {/* Delete Account Section */}
             <Card>
               <CardHeader>
@@ -0,0 +1,200 @@
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+import { shopifyService } from '@/lib/shopify';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LifecycleBadge } from '@/components/customers/LifecycleBadge';
+import { AddressBlock } from '@/components/customers/AddressBlock';
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+function Stat({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-xl font-semibold">{value}</div>
+      {hint && <div className="text-xs text-muted-foreground">{hint}</div>}
+    </div>
+  );
+}
+
+export default function CustomerDetailPage() {
+  const router = useRouter();
+  const params = useParams();
+  const storeId = params?.storeId as string | undefined;
+  const customerId = params?.customerId as string | undefined;
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['store-customer', storeId, customerId],
+    queryFn: () => shopifyService.getCustomer(storeId!, customerId!),
+    enabled: !!storeId && !!customerId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError || !data?.customer) {
+    return (
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-muted-foreground">Customer not found.</p>
+        <Button variant="outline" onClick={() => router.back()}>Back</Button>
+      </div>
+    );
+  }
+
+  const { customer, horizonDays, currency } = data;
+  const { value } = customer;
+  const name = [customer.firstName, customer.lastName].filter(Boolean).join(' ') || customer.email || 'Customer';
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">{name}</h1>
+          {customer.email && <p className="text-sm text-muted-foreground">{customer.email}</p>}
+        </div>
+        <div className="space-x-2">
+          <Button variant="outline" onClick={() => router.back()}>Back</Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3">
+            Lifetime Value <LifecycleBadge lifecycle={value.lifecycle} />
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <Stat label="Historical CLV" value={formatCurrency(value.historicalClv, currency)} hint={`${value.ordersCount} orders`} />
+          <Stat
+            label="Predicted CLV"
+            value={formatCurrency(value.predictedClv, currency)}
+            hint={`~${value.expectedOrders} orders in the next ${horizonDays} days`}
+          />
+          <Stat label="Average order" value={formatCurrency(value.averageOrderValue, currency)} />
+          <Stat label="Chance still active" value={`${Math.round(value.probabilityAlive * 100)}%`} />
+          <Stat label="First order" value={formatDate(value.firstOrderDate)} />
+          <Stat label="Last order" value={formatDate(value.lastOrderDate)} />
+          <Stat
+            label="Next order (est.)"
+            value={formatDate(value.expectedNextOrderDate)}
+            hint={value.expectedIntervalDays ? `orders about every ${value.expectedIntervalDays} days` : undefined}
+          />
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div>
+              <span className="text-muted-foreground">Phone:</span> {customer.phone || '—'}
+            </div>
+            <div>
+              <span className="text-muted-foreground">Email:</span> {customer.email || '—'}
+              {customer.email && !customer.verifiedEmail && <span className="text-muted-foreground"> (unverified)</span>}
+            </div>
+            <div>
+              <span className="text-muted-foreground">Marketing:</span>{' '}
+              {customer.acceptsMarketing ? 'Accepts marketing' : 'Doesn’t accept marketing'}
+            </div>
+            <div>
+              <span className="text-muted-foreground">Account:</span> {customer.state || '—'} · customer since{' '}
+              {formatDate(customer.createdAt)}
+            </div>
+            <div className="flex flex-wrap gap-1 pt-1">
+              {customer.tags.length ? (
+                customer.tags.map((tag) => (
+                  <span key={tag} className="rounded-full bg-muted px-2 py-0.5 text-xs">
+                    {tag}
+                  </span>
+                ))
+              ) : (
+                <span className="text-muted-foreground">No tags</span>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Addresses</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!customer.addresses.length && !customer.defaultAddress ? (
+              <p className="text-sm text-muted-foreground">No addresses on file.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                {(customer.addresses.length ? customer.addresses : [customer.defaultAddress!]).map((address, i) => (
+                  <div key={i} className="space-y-0.5">
+                    {address.isDefault && <div className="text-xs font-medium text-blue-400">Default</div>}
+                    <AddressBlock address={address} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">Orders</h2>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">
+              {customer.orders.length < customer.ordersTotal
+                ? `latest ${customer.orders.length} of ${customer.ordersTotal}`
+                : `${customer.ordersTotal} orders`}
+            </span>
+            {customer.ordersTotal > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push(`/stores/${storeId}/orders?customerId=${customer.id}`)}
+              >
+                View in orders
+              </Button>
+            )}
+          </div>
+        </div>
+        {!customer.orders.length ? (
+          <p className="text-sm text-muted-foreground">No synced orders for this customer.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {customer.orders.map((o) => (
+              <li key={o.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-blue-500" />
+                <div className="flex flex-wrap items-baseline gap-x-3">
+                  <button
+                    className="font-medium hover:underline"
+                    onClick={() => router.push(`/stores/${storeId}/orders/${o.id}`)}
+                  >
+                    #{o.orderNumber}
+                  </button>
+                  <span>{formatCurrency(o.totalPrice, o.currency)}</span>
+                  <span className="text-xs text-muted-foreground">{new Date(o.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {o.itemsCount} item{o.itemsCount === 1 ? '' : 's'} · {o.financialStatus ?? 'unknown payment'} ·{' '}
+                  {o.fulfillmentStatus ?? 'unfulfilled'}
+                  {o.totalDiscounts ? ` · ${formatCurrency(o.totalDiscounts, o.currency)} discount` : ''}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+import { shopifyService, CustomerListFilters, CustomerSortField } from '@/lib/shopify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { LifecycleBadge } from '@/components/customers/LifecycleBadge';
+
+const PAGE_SIZE = 25;
+
+const COLUMNS: { field: CustomerSortField; label: string }[] = [
+  { field: 'ordersCount', label: 'Orders' },
+  { field: 'historicalClv', label: 'Historical CLV' },
+  { field: 'predictedClv', label: 'Predicted CLV' },
+  { field: 'probabilityAlive', label: 'Active chance' },
+  { field: 'lastOrderDate', label: 'Last Order' },
+  { field: 'expectedNextOrderDate', label: 'Next Order (est.)' },
+];
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+type FilterForm = { search: string; tags: string; marketing: '' | 'true' | 'false'; minSpend: string; maxSpend: string };
+
+const EMPTY_FILTERS: FilterForm = { search: '', tags: '', marketing: '', minSpend: '', maxSpend: '' };
+
+const toFilters = (form: FilterForm): CustomerListFilters => ({
+  search: form.search.trim() || undefined,
+  tags: form.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+  acceptsMarketing: form.marketing === '' ? undefined : form.marketing === 'true',
+  minSpend: form.minSpend === '' ? undefined : Number(form.minSpend),
+  maxSpend: form.maxSpend === '' ? undefined : Number(form.maxSpend),
+});
+
+export default function StoreCustomersPage() {
+  const router = useRouter();
+  const params = useParams();
+  const storeId = params?.storeId as string | undefined;
+  const [sort, setSort] = useState<CustomerSortField>('predictedClv');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<CustomerListFilters>({});
+
+  // Wait for typing to pause before querying; any filter change starts again at page 1
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(toFilters(form));
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [form]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['store-customers', storeId, sort, order, page, filters],
+    queryFn: () => shopifyService.getCustomers(storeId!, { page, limit: PAGE_SIZE, sort, order, ...filters }),
+    enabled: !!storeId,
+    keepPreviousData: true,
+  });
+
+  const toggleSort = (field: CustomerSortField) => {
+    if (field === sort) {
+      setOrder((current) => (current === 'desc' ? 'asc' : 'desc'));
+    } else {
+      setSort(field);
+      // Soonest next order and A-Z names read better than the reverse
+      setOrder(field === 'expectedNextOrderDate' || field === 'name' ? 'asc' : 'desc');
+    }
+    setPage(1);
+  };
+
+  const pages = data?.pagination?.pages ?? 1;
+
+  const sortHeader = (field: CustomerSortField, label: string) => (
+    <button className="inline-flex items-center gap-1" onClick={() => toggleSort(field)}>
+      {label}
+      {sort === field && (order === 'desc' ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+    </button>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold tracking-tight">Customers</h1>
+        <div className="space-x-2">
+          <Button variant="outline" onClick={() => router.push(`/stores/${storeId}/segments`)}>Segments</Button>
+          <Button variant="outline" onClick={() => router.back()}>Back</Button>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Predicted CLV is the expected spend over the next {data?.horizonDays ?? 365} days, based on how often each
+        customer orders and how long it&apos;s been since their last order.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <Input
+          className="col-span-2"
+          placeholder="Search name or email"
+          aria-label="Search customers"
+          value={form.search}
+          onChange={(e) => setForm((current) => ({ ...current, search: e.target.value }))}
+        />
+        <Input
+          placeholder="Tags, comma separated"
+          aria-label="Tags"
+          value={form.tags}
+          onChange={(e) => setForm((current) => ({ ...current, tags: e.target.value }))}
+        />
+        <select
+          aria-label="Marketing consent"
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          value={form.marketing}
+          onChange={(e) => setForm((current) => ({ ...current, marketing: e.target.value as FilterForm['marketing'] }))}
+        >
+          <option value="">Any marketing consent</option>
+          <option value="true">Accepts marketing</option>
+          <option value="false">Doesn&apos;t accept marketing</option>
+        </select>
+        <Input
+          type="number"
+          min={0}
+          placeholder="Min spend"
+          aria-label="Minimum spend"
+          value={form.minSpend}
+          onChange={(e) => setForm((current) => ({ ...current, minSpend: e.target.value }))}
+        />
+        <Input
+          type="number"
+          min={0}
+          placeholder="Max spend"
+          aria-label="Maximum spend"
+          value={form.maxSpend}
+          onChange={(e) => setForm((current) => ({ ...current, maxSpend: e.target.value }))}
+        />
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-muted/60 text-muted-foreground">
+              <tr>
+                <th className="px-4 py-2 text-left">{sortHeader('name', 'Customer')}</th>
+                {COLUMNS.map((column) => (
+                  <th key={column.field} className="px-4 py-2 text-left">
+                    {sortHeader(column.field, column.label)}
+                  </th>
+                ))}
+                <th className="px-4 py-2 text-left">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data?.customers.map((c) => (
+                <tr
+                  key={c.id}
+                  className="border-t cursor-pointer hover:bg-muted/40"
+                  onClick={() => router.push(`/stores/${storeId}/customers/${c.id}`)}
+                >
+                  <td className="px-4 py-2">
+                    <div className="font-medium">{[c.firstName, c.lastName].filter(Boolean).join(' ') || c.email || '—'}</div>
+                    {c.email && <div className="text-xs text-muted-foreground">{c.email}</div>}
+                    {c.tags.length > 0 && <div className="text-xs text-muted-foreground">{c.tags.join(', ')}</div>}
+                  </td>
+                  <td className="px-4 py-2">{c.value.ordersCount}</td>
+                  <td className="px-4 py-2">{formatCurrency(c.value.historicalClv, data?.currency ?? '')}</td>
+                  <td className="px-4 py-2">{formatCurrency(c.value.predictedClv, data?.currency ?? '')}</td>
+                  <td className="px-4 py-2">{Math.round(c.value.probabilityAlive * 100)}%</td>
+                  <td className="px-4 py-2">{formatDate(c.value.lastOrderDate)}</td>
+                  <td className="px-4 py-2">{formatDate(c.value.expectedNextOrderDate)}</td>
+                  <td className="px-4 py-2">
+                    <LifecycleBadge lifecycle={c.value.lifecycle} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!data?.customers.length && <p className="p-4 text-sm text-muted-foreground">No customers match these filters.</p>}
+        </div>
+      )}
+
+      {pages > 1 && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {pages} · {data?.pagination.total} customers
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= pages} onClick={() => setPage((p) => p + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
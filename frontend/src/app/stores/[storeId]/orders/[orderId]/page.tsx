@@ -0,0 +1,277 @@
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+import { shopifyService, OrderTransaction } from '@/lib/shopify';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AddressBlock } from '@/components/customers/AddressBlock';
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const label = (status: string | null) => (status ? status.replace(/_/g, ' ') : '—');
+
+function Transactions({ transactions, currency }: { transactions: OrderTransaction[]; currency: string }) {
+  return (
+    <table className="min-w-full text-sm">
+      <thead className="text-muted-foreground">
+        <tr>
+          <th className="py-1 text-left font-normal">Kind</th>
+          <th className="py-1 text-left font-normal">Gateway</th>
+          <th className="py-1 text-left font-normal">Status</th>
+          <th className="py-1 text-left font-normal">Date</th>
+          <th className="py-1 text-right font-normal">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        {transactions.map((t, i) => (
+          <tr key={t.id ?? i} className="border-t">
+            <td className="py-1 capitalize">{label(t.kind)}</td>
+            <td className="py-1">{t.gateway ?? '—'}</td>
+            <td className="py-1 capitalize">{label(t.status)}</td>
+            <td className="py-1">{formatDateTime(t.createdAt)}</td>
+            <td className="py-1 text-right">{formatCurrency(t.amount, t.currency || currency)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function SummaryRow({ name, amount, currency, strong }: { name: string; amount: number; currency: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between ${strong ? 'font-semibold' : ''}`}>
+      <span className={strong ? '' : 'text-muted-foreground'}>{name}</span>
+      <span>{formatCurrency(amount, currency)}</span>
+    </div>
+  );
+}
+
+export default function OrderDetailPage() {
+  const router = useRouter();
+  const params = useParams();
+  const storeId = params?.storeId as string | undefined;
+  const orderId = params?.orderId as string | undefined;
+
+  const { data: order, isLoading, isError } = useQuery({
+    queryKey: ['store-order', storeId, orderId],
+    queryFn: () => shopifyService.getOrder(storeId!, orderId!),
+    enabled: !!storeId && !!orderId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError || !order) {
+    return (
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-muted-foreground">Order not found.</p>
+        <Button variant="outline" onClick={() => router.back()}>Back</Button>
+      </div>
+    );
+  }
+
+  const customerName =
+    [order.customer?.firstName, order.customer?.lastName].filter(Boolean).join(' ') ||
+    order.customer?.email ||
+    order.customerEmail;
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Order #{order.orderNumber}</h1>
+          <p className="text-sm text-muted-foreground capitalize">
+            {formatDateTime(order.createdAt)} · {label(order.financialStatus)} ·{' '}
+            {label(order.fulfillmentStatus || 'unfulfilled')}
+            {order.cancelledAt && <span className="text-red-400"> · cancelled {formatDateTime(order.cancelledAt)}</span>}
+          </p>
+        </div>
+        <div className="space-x-2">
+          <Button variant="outline" onClick={() => router.back()}>Back</Button>
+        </div>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Items</h2>
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-muted/60 text-muted-foreground">
+              <tr>
+                <th className="px-4 py-2 text-left">Product</th>
+                <th className="px-4 py-2 text-left">SKU</th>
+                <th className="px-4 py-2 text-right">Price</th>
+                <th className="px-4 py-2 text-right">Qty</th>
+                <th className="px-4 py-2 text-right">Discount</th>
+                <th className="px-4 py-2 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {order.lineItems.map((item, i) => (
+                <tr key={item.id ?? i} className="border-t">
+                  <td className="px-4 py-2">
+                    <div className="font-medium">{item.title}</div>
+                    {(item.variantTitle || item.vendor) && (
+                      <div className="text-xs text-muted-foreground">
+                        {[item.variantTitle, item.vendor].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{item.sku || '—'}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(item.price, order.currency)}</td>
+                  <td className="px-4 py-2 text-right">{item.quantity}</td>
+                  <td className="px-4 py-2 text-right">{item.totalDiscount ? formatCurrency(item.totalDiscount, order.currency) : '—'}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(item.total, order.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!order.lineItems.length && <p className="p-4 text-sm text-muted-foreground">No line items were stored.</p>}
+        </div>
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Summary</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <SummaryRow name="Items" amount={order.totalLineItemsPrice} currency={order.currency} />
+            {order.discountCodes.map((discount, i) => (
+              <div key={discount.code ?? i} className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Discount {discount.code && <span className="font-mono">{discount.code}</span>}
+                </span>
+                <span>−{formatCurrency(discount.amount, order.currency)}</span>
+              </div>
+            ))}
+            {order.shippingLines.map((line, i) => (
+              <div key={`${line.code}-${i}`} className="flex justify-between">
+                <span className="text-muted-foreground">Shipping · {line.title}</span>
+                <span>{formatCurrency(line.discountedPrice, order.currency)}</span>
+              </div>
+            ))}
+            {!order.shippingLines.length && <SummaryRow name="Shipping" amount={0} currency={order.currency} />}
+            <SummaryRow name="Tax" amount={order.totalTax} currency={order.currency} />
+            <SummaryRow name="Total" amount={order.totalPrice} currency={order.currency} strong />
+            {order.totalRefunded > 0 && (
+              <>
+                <SummaryRow name="Refunded" amount={-order.totalRefunded} currency={order.currency} />
+                <SummaryRow name="Net" amount={order.totalPrice - order.totalRefunded} currency={order.currency} strong />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Customer</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {order.customer ? (
+              <button
+                className="font-medium text-blue-400 hover:underline"
+                onClick={() => router.push(`/stores/${storeId}/customers/${order.customer!.id}`)}
+              >
+                {customerName}
+              </button>
+            ) : (
+              <div>{customerName || 'Guest checkout'}</div>
+            )}
+            <div>
+              <div className="text-xs text-muted-foreground">Shipping address</div>
+              <AddressBlock address={order.shippingAddress} />
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Billing address</div>
+              <AddressBlock address={order.billingAddress} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div>
+              <span className="text-muted-foreground">Processed:</span> {formatDateTime(order.processedAt)}
+            </div>
+            <div>
+              <span className="text-muted-foreground">Closed:</span> {formatDateTime(order.closedAt)}
+            </div>
+            <div>
+              <span className="text-muted-foreground">Currency:</span> {order.currency}
+            </div>
+            {order.note && (
+              <div>
+                <span className="text-muted-foreground">Note:</span> {order.note}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-1 pt-1">
+              {order.tags.map((tag) => (
+                <span key={tag} className="rounded-full bg-muted px-2 py-0.5 text-xs">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Payments</h2>
+        {order.transactions.length ? (
+          <div className="rounded-lg border border-border px-4 py-2">
+            <Transactions transactions={order.transactions} currency={order.currency} />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No transactions were stored for this order.</p>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Refunds</h2>
+        {!order.refunds.length ? (
+          <p className="text-sm text-muted-foreground">No refunds.</p>
+        ) : (
+          order.refunds.map((refund, i) => (
+            <Card key={refund.id ?? i}>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center justify-between text-base">
+                  <span>Refund · {formatDateTime(refund.createdAt)}</span>
+                  <span>{formatCurrency(refund.amount, order.currency)}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {refund.note && <p className="text-muted-foreground">{refund.note}</p>}
+                {refund.lineItems.length > 0 && (
+                  <ul className="space-y-1">
+                    {refund.lineItems.map((item, j) => (
+                      <li key={j} className="flex justify-between">
+                        <span>
+                          {item.quantity} × {item.title}
+                          {item.variantTitle && <span className="text-muted-foreground"> ({item.variantTitle})</span>}
+                        </span>
+                        <span>{formatCurrency(item.subtotal, order.currency)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {refund.restock && <p className="text-xs text-muted-foreground">Items were restocked.</p>}
+                {refund.transactions.length > 0 && <Transactions transactions={refund.transactions} currency={order.currency} />}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </section>
+    </div>
+  );
+}
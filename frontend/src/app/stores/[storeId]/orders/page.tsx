@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Loader2, X } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+import { shopifyService, OrderFilters } from '@/lib/shopify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+
+const PAGE_SIZE = 50;
+
+const FINANCIAL_STATUSES = ['pending', 'authorized', 'paid', 'partially_paid', 'partially_refunded', 'refunded', 'voided'];
+const FULFILLMENT_STATUSES = ['unfulfilled', 'partial', 'fulfilled', 'restocked'];
+
+type FilterForm = {
+  financialStatus: string[];
+  fulfillmentStatus: string[];
+  from: string;
+  to: string;
+  minTotal: string;
+  maxTotal: string;
+  discountCode: string;
+  tag: string;
+  customer: string;
+  orderNumber: string;
+};
+
+const EMPTY_FILTERS: FilterForm = {
+  financialStatus: [],
+  fulfillmentStatus: [],
+  from: '',
+  to: '',
+  minTotal: '',
+  maxTotal: '',
+  discountCode: '',
+  tag: '',
+  customer: '',
+  orderNumber: '',
+};
+
+const FIELD_LABELS: Record<keyof FilterForm, string> = {
+  financialStatus: 'Payment',
+  fulfillmentStatus: 'Fulfillment',
+  from: 'From',
+  to: 'To',
+  minTotal: 'Min total',
+  maxTotal: 'Max total',
+  discountCode: 'Discount',
+  tag: 'Tag',
+  customer: 'Customer',
+  orderNumber: 'Order #',
+};
+
+const label = (status: string) => status.replace(/_/g, ' ');
+
+const toFilters = (form: FilterForm, customerId?: string): OrderFilters => ({
+  financialStatus: form.financialStatus,
+  fulfillmentStatus: form.fulfillmentStatus,
+  // Dates are picked in local time; "to" covers the whole day
+  from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+  minTotal: form.minTotal === '' ? undefined : Number(form.minTotal),
+  maxTotal: form.maxTotal === '' ? undefined : Number(form.maxTotal),
+  discountCode: form.discountCode.trim() || undefined,
+  tag: form.tag.trim() || undefined,
+  customer: form.customer.trim() || undefined,
+  orderNumber: form.orderNumber.trim() || undefined,
+  customerId,
+});
+
+function StatusToggles({
+  options,
+  selected,
+  onChange,
+}: {
+  options: string[];
+  selected: string[];
+  onChange: (next: string[]) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => {
+        const active = selected.includes(option);
+        return (
+          <button
+            key={option}
+            type="button"
+            className={`rounded-full border px-2.5 py-0.5 text-xs capitalize ${
+              active ? 'border-blue-500 bg-blue-500/15 text-blue-400' : 'border-border text-muted-foreground'
+            }`}
+            onClick={() => onChange(active ? selected.filter((s) => s !== option) : [...selected, option])}
+          >
+            {label(option)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function StoreOrdersPage() {
+  const router = useRouter();
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const storeId = params?.storeId as string | undefined;
+  // Linked from a customer's page to show just their orders
+  const customerId = searchParams?.get('customerId') || undefined;
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<OrderFilters>({ customerId });
+
+  // Wait for typing to pause before querying
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(toFilters(form, customerId)), 300);
+    return () => clearTimeout(timer);
+  }, [form, customerId]);
+
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ['store-orders', storeId, filters],
+    queryFn: ({ pageParam }) =>
+      shopifyService.getOrders(storeId!, { ...filters, limit: PAGE_SIZE, cursor: pageParam as string | undefined }),
+    getNextPageParam: (lastPage) => lastPage.pagination?.nextCursor ?? undefined,
+    enabled: !!storeId,
+    keepPreviousData: true,
+  });
+
+  const orders = data?.pages.flatMap((page) => page.orders) ?? [];
+  const total = data?.pages[0]?.pagination?.total ?? 0;
+
+  const set = <K extends keyof FilterForm>(key: K, value: FilterForm[K]) =>
+    setForm((current) => ({ ...current, [key]: value }));
+
+  const active = (Object.keys(form) as (keyof FilterForm)[]).filter((key) =>
+    Array.isArray(form[key]) ? (form[key] as string[]).length > 0 : form[key] !== ''
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold tracking-tight">Orders</h1>
+        <div className="space-x-2">
+          <Button variant="outline" onClick={() => router.back()}>Back</Button>
+        </div>
+      </div>
+
+      <div className="space-y-4 rounded-lg border border-border p-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">Payment status</div>
+            <StatusToggles
+              options={FINANCIAL_STATUSES}
+              selected={form.financialStatus}
+              onChange={(next) => set('financialStatus', next)}
+            />
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">Fulfillment status</div>
+            <StatusToggles
+              options={FULFILLMENT_STATUSES}
+              selected={form.fulfillmentStatus}
+              onChange={(next) => set('fulfillmentStatus', next)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Input type="date" aria-label="From date" value={form.from} onChange={(e) => set('from', e.target.value)} />
+          <Input type="date" aria-label="To date" value={form.to} onChange={(e) => set('to', e.target.value)} />
+          <Input
+            type="number"
+            min={0}
+            placeholder="Min total"
+            aria-label="Minimum total"
+            value={form.minTotal}
+            onChange={(e) => set('minTotal', e.target.value)}
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder="Max total"
+            aria-label="Maximum total"
+            value={form.maxTotal}
+            onChange={(e) => set('maxTotal', e.target.value)}
+          />
+          <Input
+            placeholder="Discount code"
+            aria-label="Discount code"
+            value={form.discountCode}
+            onChange={(e) => set('discountCode', e.target.value)}
+          />
+          <Input placeholder="Tag" aria-label="Tag" value={form.tag} onChange={(e) => set('tag', e.target.value)} />
+          <Input
+            placeholder="Customer name or email"
+            aria-label="Customer"
+            value={form.customer}
+            onChange={(e) => set('customer', e.target.value)}
+            disabled={!!customerId}
+          />
+          <Input
+            placeholder="Order #"
+            aria-label="Order number"
+            value={form.orderNumber}
+            onChange={(e) => set('orderNumber', e.target.value)}
+          />
+        </div>
+        {(active.length > 0 || customerId) && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {customerId && (
+              <span className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5">
+                One customer
+                <button aria-label="Show all customers" onClick={() => router.replace(`/stores/${storeId}/orders`)}>
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            )}
+            {active.map((key) => (
+              <span key={key} className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5">
+                {FIELD_LABELS[key]}:{' '}
+                {Array.isArray(form[key]) ? (form[key] as string[]).map(label).join(', ') : (form[key] as string)}
+                <button aria-label={`Clear ${FIELD_LABELS[key]}`} onClick={() => set(key, EMPTY_FILTERS[key])}>
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            {active.length > 0 && (
+              <button className="text-muted-foreground underline" onClick={() => setForm(EMPTY_FILTERS)}>
+                Clear all
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : (
+        <div className="space-y-3">
+          <div className="text-sm text-muted-foreground">
+            Showing {orders.length} of {total} orders
+          </div>
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="min-w-full text-sm">
+              <thead className="bg-muted/60 text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-2 text-left">Order #</th>
+                  <th className="px-4 py-2 text-left">Date</th>
+                  <th className="px-4 py-2 text-left">Customer</th>
+                  <th className="px-4 py-2 text-left">Items</th>
+                  <th className="px-4 py-2 text-left">Total</th>
+                  <th className="px-4 py-2 text-left">Payment</th>
+                  <th className="px-4 py-2 text-left">Fulfillment</th>
+                  <th className="px-4 py-2 text-left">Discounts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orders.map((o) => (
+                  <tr
+                    key={o.id}
+                    className="border-t cursor-pointer hover:bg-muted/40"
+                    onClick={() => router.push(`/stores/${storeId}/orders/${o.id}`)}
+                  >
+                    <td className="px-4 py-2 font-medium">
+                      #{o.orderNumber}
+                      {o.cancelledAt && <span className="ml-2 text-xs text-red-400">cancelled</span>}
+                    </td>
+                    <td className="px-4 py-2">{new Date(o.createdAt).toLocaleDateString()}</td>
+                    <td className="px-4 py-2">
+                      {[o.customer?.firstName, o.customer?.lastName].filter(Boolean).join(' ') ||
+                        o.customer?.email ||
+                        o.customerEmail ||
+                        '—'}
+                    </td>
+                    <td className="px-4 py-2">{o.itemsCount}</td>
+                    <td className="px-4 py-2">{formatCurrency(o.totalPrice, o.currency)}</td>
+                    <td className="px-4 py-2 capitalize">{o.financialStatus ? label(o.financialStatus) : '—'}</td>
+                    <td className="px-4 py-2 capitalize">{label(o.fulfillmentStatus || 'unfulfilled')}</td>
+                    <td className="px-4 py-2">{o.discountCodes.length ? o.discountCodes.join(', ') : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!orders.length && <p className="p-4 text-sm text-muted-foreground">No orders match these filters.</p>}
+          </div>
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { formatCurrency } from '@/lib/currency';
 import { DateRange } from 'react-day-picker';
 import { subDays } from 'date-fns';
 import { shopifyService } from '@/lib/shopify';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
 import { Button } from '@/components/ui/button';
 
 interface OrderRow {
@@ -38,6 +39,7 @@ export default function StoreDetailPage() {
   const router = useRouter();
   const params = useParams();
   const storeId = params?.storeId as string | undefined;
+  const currency = useStoreSettings(storeId)?.currency ?? '';
 
   const [isLoading, setIsLoading] = useState(true);
   const [dateRange] = useState<DateRange | undefined>({
@@ -64,7 +66,7 @@ export default function StoreDetailPage() {
           email: o.customer?.email ?? o.customerEmail ?? null,
           total: Number(o.total_price ?? o.totalPrice ?? 0),
           status: o.financial_status ?? o.financialStatus ?? null,
-          createdAt: o.created_at ?? o.createdAt ?? new Date().toISOString(),
+          createdAt: o.processedAt ?? o.created_at ?? o.createdAt ?? new Date().toISOString(),
         }));
         setOrders(orderRows);
 
@@ -111,6 +113,9 @@ export default function StoreDetailPage() {
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-semibold tracking-tight">Store Overview</h1>
         <div className="space-x-2">
+          <Button variant="outline" onClick={() => router.push(`/stores/${storeId}/orders`)}>Orders</Button>
+          <Button variant="outline" onClick={() => router.push(`/stores/${storeId}/customers`)}>Customers</Button>
+          <Button variant="outline" onClick={() => router.push(`/stores/${storeId}/segments`)}>Customer Segments</Button>
           <Button variant="outline" onClick={() => router.back()}>Back</Button>
         </div>
       </div>
@@ -135,11 +140,15 @@ export default function StoreDetailPage() {
             </thead>
             <tbody>
               {orders.map((o) => (
-                <tr key={o.id} className="border-t">
+                <tr
+                  key={o.id}
+                  className="border-t cursor-pointer hover:bg-muted/40"
+                  onClick={() => router.push(`/stores/${storeId}/orders/${o.id}`)}
+                >
                   <td className="px-4 py-2 font-medium">{o.number}</td>
                   <td className="px-4 py-2">{o.customer ?? '—'}</td>
                   <td className="px-4 py-2">{o.email ?? '—'}</td>
-                  <td className="px-4 py-2">{formatCurrency(o.total)}</td>
+                  <td className="px-4 py-2">{formatCurrency(o.total, currency)}</td>
                   <td className="px-4 py-2">{o.status ?? '—'}</td>
                   <td className="px-4 py-2">{new Date(o.createdAt).toLocaleDateString()}</td>
                 </tr>
@@ -171,7 +180,7 @@ export default function StoreDetailPage() {
                   <td className="px-4 py-2 font-medium">{c.name}</td>
                   <td className="px-4 py-2">{c.email ?? '—'}</td>
                   <td className="px-4 py-2">{c.orders}</td>
-                  <td className="px-4 py-2">{formatCurrency(c.totalSpent)}</td>
+                  <td className="px-4 py-2">{formatCurrency(c.totalSpent, currency)}</td>
                 </tr>
               ))}
             </tbody>
@@ -203,7 +212,7 @@ export default function StoreDetailPage() {
                     ) : null}
                     {p.title}
                   </td>
-                  <td className="px-4 py-2">{formatCurrency(p.price)}</td>
+                  <td className="px-4 py-2">{formatCurrency(p.price, currency)}</td>
                 </tr>
               ))}
             </tbody>
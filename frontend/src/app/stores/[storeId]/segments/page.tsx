@@ -0,0 +1,339 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Download, Trash2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+import { hasRole, SYNC_ROLES, useAuth } from '@/lib/auth';
+import { shopifyService, SegmentFilters, SegmentRef } from '@/lib/shopify';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { errorMessage } from '@/lib/api';
+
+const PAGE_SIZE = 25;
+
+const describeFilters = (filters: SegmentFilters, currency: string) => {
+  const parts: string[] = [];
+  if (filters.tags?.length) parts.push(`tagged ${filters.tags.join(' or ')}`);
+  if (filters.minSpend !== undefined) parts.push(`spent ≥ ${formatCurrency(filters.minSpend, currency)}`);
+  if (filters.maxSpend !== undefined) parts.push(`spent ≤ ${formatCurrency(filters.maxSpend, currency)}`);
+  if (filters.minOrders !== undefined) parts.push(`≥ ${filters.minOrders} orders`);
+  if (filters.maxOrders !== undefined) parts.push(`≤ ${filters.maxOrders} orders`);
+  if (filters.lastOrderWithinDays !== undefined) parts.push(`ordered in the last ${filters.lastOrderWithinDays} days`);
+  if (filters.noOrderForDays !== undefined) parts.push(`no order for ${filters.noOrderForDays} days`);
+  if (filters.lastOrderAfter) parts.push(`last order after ${new Date(filters.lastOrderAfter).toLocaleDateString()}`);
+  if (filters.lastOrderBefore) parts.push(`last order before ${new Date(filters.lastOrderBefore).toLocaleDateString()}`);
+  if (filters.rfmSegments?.length) parts.push(`in ${filters.rfmSegments.join(', ')}`);
+  return parts.join(' · ');
+};
+
+type SegmentForm = {
+  name: string;
+  tags: string;
+  minSpend: string;
+  maxSpend: string;
+  minOrders: string;
+  maxOrders: string;
+  lastOrderWithinDays: string;
+  noOrderForDays: string;
+};
+
+const EMPTY_FORM: SegmentForm = {
+  name: '',
+  tags: '',
+  minSpend: '',
+  maxSpend: '',
+  minOrders: '',
+  maxOrders: '',
+  lastOrderWithinDays: '',
+  noOrderForDays: '',
+};
+
+const toFilters = (form: SegmentForm): SegmentFilters => {
+  const filters: SegmentFilters = {};
+  const tags = form.tags.split(',').map((tag) => tag.trim()).filter(Boolean);
+  if (tags.length) filters.tags = tags;
+  for (const key of ['minSpend', 'maxSpend', 'minOrders', 'maxOrders', 'lastOrderWithinDays', 'noOrderForDays'] as const) {
+    if (form[key] !== '') filters[key] = Number(form[key]);
+  }
+  return filters;
+};
+
+export default function StoreSegmentsPage() {
+  const router = useRouter();
+  const params = useParams();
+  const storeId = params?.storeId as string | undefined;
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<{ ref: SegmentRef; name: string } | null>(null);
+  const [page, setPage] = useState(1);
+  const [form, setForm] = useState<SegmentForm>(EMPTY_FORM);
+  const [error, setError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const canEdit = hasRole(user, SYNC_ROLES);
+  const savedKey = ['saved-segments', storeId];
+
+  const { data: rfm, isLoading: isRfmLoading } = useQuery({
+    queryKey: ['rfm-segments', storeId],
+    queryFn: () => shopifyService.getRfmSegments(storeId!),
+    enabled: !!storeId,
+  });
+
+  const { data: saved, isLoading: isSavedLoading } = useQuery({
+    queryKey: savedKey,
+    queryFn: () => shopifyService.listSavedSegments(storeId!),
+    enabled: !!storeId,
+  });
+
+  const { data: members, isLoading: isMembersLoading } = useQuery({
+    queryKey: ['segment-members', storeId, selected?.ref, page],
+    queryFn: () => shopifyService.getSegmentMembers(storeId!, selected!.ref, { page, limit: PAGE_SIZE }),
+    enabled: !!storeId && !!selected,
+    keepPreviousData: true,
+  });
+
+  const create = useMutation({
+    mutationFn: () => shopifyService.createSavedSegment(storeId!, { name: form.name, filters: toFilters(form) }),
+    onMutate: () => setError(''),
+    onSuccess: (segment) => {
+      setForm(EMPTY_FORM);
+      queryClient.invalidateQueries({ queryKey: savedKey });
+      select({ segmentId: segment.id }, segment.name);
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to save segment')),
+  });
+
+  const remove = useMutation({
+    mutationFn: (segmentId: string) => shopifyService.deleteSavedSegment(storeId!, segmentId),
+    onMutate: () => setError(''),
+    onSuccess: (_, segmentId) => {
+      if (selected && 'segmentId' in selected.ref && selected.ref.segmentId === segmentId) setSelected(null);
+      queryClient.invalidateQueries({ queryKey: savedKey });
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to delete segment')),
+  });
+
+  const select = (ref: SegmentRef, name: string) => {
+    setSelected({ ref, name });
+    setPage(1);
+  };
+
+  const exportMembers = async () => {
+    if (!storeId || !selected) return;
+    setIsExporting(true);
+    try {
+      const blob = await shopifyService.exportSegmentMembers(storeId, selected.ref);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${selected.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to export segment'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const isSelected = (ref: SegmentRef) =>
+    !!selected &&
+    (('rfm' in ref && 'rfm' in selected.ref && ref.rfm === selected.ref.rfm) ||
+      ('segmentId' in ref && 'segmentId' in selected.ref && ref.segmentId === selected.ref.segmentId));
+
+  const numberInput = (key: keyof SegmentForm, placeholder: string) => (
+    <Input
+      type="number"
+      min={0}
+      placeholder={placeholder}
+      aria-label={placeholder}
+      value={form[key]}
+      onChange={(e) => setForm((current) => ({ ...current, [key]: e.target.value }))}
+    />
+  );
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold tracking-tight">Customer Segments</h1>
+        <div className="space-x-2">
+          <Button variant="outline" onClick={() => router.back()}>Back</Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {/* RFM segments */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">RFM Segments</h2>
+          {rfm && (
+            <span className="text-sm text-muted-foreground">
+              {rfm.scoredCustomers} of {rfm.totalCustomers} customers have ordered
+            </span>
+          )}
+        </div>
+        {isRfmLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {rfm?.segments.map((segment) => (
+              <button
+                key={segment.key}
+                onClick={() => select({ rfm: segment.key }, segment.name)}
+                className={`text-left rounded-lg border p-4 transition-colors ${
+                  isSelected({ rfm: segment.key }) ? 'border-blue-500 bg-blue-500/10' : 'border-border hover:bg-muted/40'
+                }`}
+                title={segment.description}
+              >
+                <div className="font-medium">{segment.name}</div>
+                <div className="text-2xl font-semibold">{segment.customers}</div>
+                <div className="text-xs text-muted-foreground">
+                  {segment.share}% of customers · {segment.revenueShare}% of revenue
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Saved segments */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Saved Segments</h2>
+        {isSavedLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : !saved?.length ? (
+          <p className="text-sm text-muted-foreground">No saved segments yet.</p>
+        ) : (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {saved.map((segment) => (
+              <div key={segment.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                <button className="text-left flex-1" onClick={() => select({ segmentId: segment.id }, segment.name)}>
+                  <div className={`font-medium ${isSelected({ segmentId: segment.id }) ? 'text-blue-400' : ''}`}>
+                    {segment.name} <span className="text-sm text-muted-foreground">({segment.customers})</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{describeFilters(segment.filters, rfm?.currency ?? '')}</div>
+                </button>
+                {canEdit && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    aria-label={`Delete ${segment.name}`}
+                    disabled={remove.isLoading && remove.variables === segment.id}
+                    onClick={() => remove.mutate(segment.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <form
+            className="rounded-lg border border-border p-4 space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (form.name) create.mutate();
+            }}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <Input
+                placeholder="Segment name"
+                aria-label="Segment name"
+                value={form.name}
+                onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+              />
+              <Input
+                placeholder="Tags, comma separated"
+                aria-label="Tags"
+                value={form.tags}
+                onChange={(e) => setForm((current) => ({ ...current, tags: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {numberInput('minSpend', 'Min spend')}
+              {numberInput('maxSpend', 'Max spend')}
+              {numberInput('minOrders', 'Min orders')}
+              {numberInput('maxOrders', 'Max orders')}
+              {numberInput('lastOrderWithinDays', 'Ordered within days')}
+              {numberInput('noOrderForDays', 'No order for days')}
+            </div>
+            <Button type="submit" disabled={!form.name || create.isLoading}>
+              {create.isLoading ? 'Saving...' : 'Save segment'}
+            </Button>
+          </form>
+        )}
+      </section>
+
+      {/* Members */}
+      {selected && (
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium">{selected.name}</h2>
+            <div className="flex items-center gap-3">
+              {members && <span className="text-sm text-muted-foreground">{members.pagination.total} customers</span>}
+              <Button variant="outline" size="sm" disabled={isExporting} onClick={exportMembers}>
+                <Download className="h-4 w-4 mr-1" />
+                {isExporting ? 'Exporting...' : 'Export CSV'}
+              </Button>
+            </div>
+          </div>
+          {isMembersLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <table className="min-w-full text-sm">
+                <thead className="bg-muted/60 text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Customer</th>
+                    <th className="px-4 py-2 text-left">Email</th>
+                    <th className="px-4 py-2 text-left">Orders</th>
+                    <th className="px-4 py-2 text-left">Total Spent</th>
+                    <th className="px-4 py-2 text-left">Last Order</th>
+                    <th className="px-4 py-2 text-left">R / F / M</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {members?.customers.map((c) => (
+                    <tr key={c.id} className="border-t">
+                      <td className="px-4 py-2 font-medium">{[c.firstName, c.lastName].filter(Boolean).join(' ') || '—'}</td>
+                      <td className="px-4 py-2">{c.email ?? '—'}</td>
+                      <td className="px-4 py-2">{c.ordersCount}</td>
+                      <td className="px-4 py-2">{formatCurrency(c.totalSpend, members.currency)}</td>
+                      <td className="px-4 py-2">{c.lastOrderDate ? new Date(c.lastOrderDate).toLocaleDateString() : '—'}</td>
+                      <td className="px-4 py-2">{c.rfm ? `${c.rfm.recency} / ${c.rfm.frequency} / ${c.rfm.monetary}` : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {members && members.pagination.pages > 1 && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {members.pagination.pages}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= members.pagination.pages}
+                  onClick={() => setPage((p) => p + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
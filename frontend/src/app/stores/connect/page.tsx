@@ -1,22 +1,56 @@
 "use client";
 
 import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { shopifyService } from "@/lib/shopify";
 
+// Failure codes the OAuth callback redirects back with
+const INSTALL_ERRORS: Record<string, string> = {
+  invalid_request: "Shopify sent back an incomplete install request. Please try again.",
+  unauthorized: "The install link was invalid or has expired. Please start the install again.",
+  connect_failed: "We couldn't connect the store. Please try again.",
+};
+
 export default function ConnectStorePage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [name, setName] = useState("");
   const [domain, setDomain] = useState("");
   const [token, setToken] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isInstalling, setIsInstalling] = useState(false);
+  // The OAuth callback sends failures back here as ?error=<code>
+  const callbackError = searchParams?.get("error");
+  const [error, setError] = useState<string | null>(
+    callbackError ? INSTALL_ERRORS[callbackError] ?? INSTALL_ERRORS.connect_failed : null
+  );
+
+  const onInstall = async () => {
+    if (!domain.trim()) {
+      setError("Enter your myshopify.com domain first");
+      return;
+    }
+    setIsInstalling(true);
+    setError(null);
+    try {
+      const shop = domain.trim().replace(/^https?:\/\//, "").replace(/\/$/, "");
+      window.location.href = await shopifyService.getInstallUrl(shop);
+    } catch (err: any) {
+      const msg = err?.response?.data?.message || err?.message || "Failed to start Shopify install";
+      setError(msg);
+      setIsInstalling(false);
+    }
+  };
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!token.trim()) {
+      setError("Paste an access token, or use Install with Shopify");
+      return;
+    }
     setIsSubmitting(true);
     setError(null);
     try {
@@ -65,14 +99,26 @@ export default function ConnectStorePage() {
                 required
               />
             </div>
+            <div className="flex flex-col gap-2">
+              <Button type="button" onClick={onInstall} disabled={isInstalling || isSubmitting}>
+                {isInstalling ? "Redirecting to Shopify..." : "Install with Shopify"}
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Recommended: approve the app on Shopify and we’ll connect the store with the permissions you grant.
+              </p>
+            </div>
+            <div className="flex items-center gap-3 text-xs text-blue-200">
+              <div className="h-px flex-1 bg-blue-800/60" />
+              or paste an Admin API access token
+              <div className="h-px flex-1 bg-blue-800/60" />
+            </div>
             <div>
-              <label className="block text-sm text-blue-200 mb-1">Admin Access Token</label>
+              <label className="block text-sm text-blue-200 mb-1">Admin Access Token (optional)</label>
               <Input
                 type="password"
                 value={token}
                 onChange={(e) => setToken(e.target.value)}
                 placeholder="shpat_..."
-                required
               />
             </div>
             {error ? (
@@ -80,7 +126,7 @@ export default function ConnectStorePage() {
             ) : null}
             <div className="flex gap-3">
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Connecting..." : "Connect & Sync"}
+                {isSubmitting ? "Connecting..." : "Connect with Token & Sync"}
               </Button>
               <Button type="button" variant="outline" onClick={() => router.push("/stores")}>Cancel</Button>
             </div>
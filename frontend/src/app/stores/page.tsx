@@ -3,13 +3,17 @@
 import { useEffect, useState } from 'react';
 import { ChevronDown, Loader2 } from 'lucide-react';
 import { api } from '@/lib/api';
+import { hasRole, SYNC_ROLES, useAuth } from '@/lib/auth';
 import { shopifyService } from '@/lib/shopify';
 import { formatCurrency } from '@/lib/currency';
+import { OrderBackfillStatus } from '@/components/stores/OrderBackfillStatus';
+import { TenantTotals } from '@/components/stores/TenantTotals';
 
 type Store = {
   id: string;
   name: string;
   domain: string;
+  currency: string;
   isActive: boolean;
 };
 
@@ -18,6 +22,8 @@ type CustomerRow = { id: string; name: string; email: string | null; orders: num
 type ProductRow = { id: string; title: string; price: number; image?: string | null };
 
 export default function StoresPage() {
+  const { user } = useAuth();
+  const canSync = hasRole(user, SYNC_ROLES);
   const [isLoading, setIsLoading] = useState(true);
   const [stores, setStores] = useState<Store[]>([]);
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
@@ -109,7 +115,9 @@ export default function StoresPage() {
       <h1 className="text-2xl font-semibold tracking-tight text-white">Stores</h1>
       {stores.length === 0 ? (
         <p className="text-blue-200">No stores found for your account.</p>
-      ) : null}
+      ) : (
+        <TenantTotals />
+      )}
 
       <div className="space-y-3">
         {stores.map((store) => (
@@ -131,21 +139,24 @@ export default function StoresPage() {
                 <div className="text-xs text-blue-200">{store.domain}</div>
               </div>
               <div className="flex items-center gap-2">
-                <button
-                  className="text-xs px-2 py-1 rounded border border-blue-700 text-blue-200 hover:bg-blue-900/40"
-                  onClick={async (e) => {
-                    e.stopPropagation();
-                    try {
-                      await api.post(`/api/shopify/stores/${store.id}/sync`);
-                      // Hard reload to reflect latest data immediately across views
-                      setTimeout(() => window.location.reload(), 100);
-                    } catch (err) {
-                      console.error('Manual sync failed', err);
-                    }
-                  }}
-                >
-                  Manual Sync
-                </button>
+                <OrderBackfillStatus storeId={store.id} />
+                {canSync ? (
+                  <button
+                    className="text-xs px-2 py-1 rounded border border-blue-700 text-blue-200 hover:bg-blue-900/40"
+                    onClick={async (e) => {
+                      e.stopPropagation();
+                      try {
+                        await api.post(`/api/shopify/stores/${store.id}/sync`);
+                        // Hard reload to reflect latest data immediately across views
+                        setTimeout(() => window.location.reload(), 100);
+                      } catch (err) {
+                        console.error('Manual sync failed', err);
+                      }
+                    }}
+                  >
+                    Manual Sync
+                  </button>
+                ) : null}
               </div>
               <ChevronDown className={`h-4 w-4 transition-transform ${expanded[store.id] ? 'rotate-180' : ''}`} />
             </div>
@@ -175,7 +186,7 @@ export default function StoresPage() {
                             <td className="px-3 py-2 font-medium">{o.number}</td>
                             <td className="px-3 py-2">{o.customer ?? '—'}</td>
                             <td className="px-3 py-2">{o.email ?? '—'}</td>
-                            <td className="px-3 py-2">{formatCurrency(o.total)}</td>
+                            <td className="px-3 py-2">{formatCurrency(o.total, store.currency)}</td>
                             <td className="px-3 py-2">{o.status ?? '—'}</td>
                             <td className="px-3 py-2">{new Date(o.createdAt).toLocaleDateString()}</td>
                           </tr>
@@ -207,7 +218,7 @@ export default function StoresPage() {
                             <td className="px-3 py-2 font-medium">{c.name}</td>
                             <td className="px-3 py-2">{c.email ?? '—'}</td>
                             <td className="px-3 py-2">{c.orders}</td>
-                            <td className="px-3 py-2">{formatCurrency(c.totalSpent)}</td>
+                            <td className="px-3 py-2">{formatCurrency(c.totalSpent, store.currency)}</td>
                           </tr>
                         ))}
                       </tbody>
@@ -239,7 +250,7 @@ export default function StoresPage() {
                               ) : null}
                               {p.title}
                             </td>
-                            <td className="px-3 py-2">{formatCurrency(p.price)}</td>
+                            <td className="px-3 py-2">{formatCurrency(p.price, store.currency)}</td>
                           </tr>
                         ))}
                       </tbody>
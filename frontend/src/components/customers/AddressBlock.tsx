@@ -0,0 +1,21 @@
+import type { CustomerAddress } from '@/lib/shopify';
+
+export function AddressBlock({ address }: { address: CustomerAddress | null }) {
+  if (!address) return <p className="text-muted-foreground">None</p>;
+  const lines = [
+    address.name,
+    address.company,
+    address.address1,
+    address.address2,
+    [address.city, address.province, address.zip].filter(Boolean).join(', '),
+    address.country,
+    address.phone,
+  ].filter(Boolean) as string[];
+  return (
+    <div className="space-y-0.5">
+      {lines.map((line) => (
+        <div key={line}>{line}</div>
+      ))}
+    </div>
+  );
+}
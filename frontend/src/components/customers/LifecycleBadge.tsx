@@ -0,0 +1,19 @@
+import type { CustomerLifecycle } from '@/lib/shopify';
+
+const LIFECYCLE: Record<CustomerLifecycle, { label: string; className: string; hint: string }> = {
+  new: { label: 'New', className: 'bg-sky-500/15 text-sky-400', hint: 'One order so far' },
+  active: { label: 'Active', className: 'bg-green-500/15 text-green-400', hint: 'Ordering at their usual pace' },
+  due: { label: 'Due soon', className: 'bg-yellow-500/15 text-yellow-400', hint: 'Next order expected within days' },
+  overdue: { label: 'Overdue', className: 'bg-orange-500/15 text-orange-400', hint: 'Past their expected next order' },
+  lapsed: { label: 'Lapsed', className: 'bg-red-500/15 text-red-400', hint: 'Gone more than twice their usual interval' },
+};
+
+export function LifecycleBadge({ lifecycle }: { lifecycle: CustomerLifecycle | null }) {
+  if (!lifecycle) return <span className="text-muted-foreground">—</span>;
+  const { label, className, hint } = LIFECYCLE[lifecycle];
+  return (
+    <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${className}`} title={hint}>
+      {label}
+    </span>
+  );
+}
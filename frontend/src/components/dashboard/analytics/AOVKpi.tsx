@@ -4,20 +4,37 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DateRange } from "react-day-picker";
 import { useQuery } from "@tanstack/react-query";
-import { shopifyService } from "@/lib/shopify";
+import { shopifyService, type Comparison, type Delta, type SalesDay } from "@/lib/shopify";
+import { formatCurrency } from "@/lib/currency";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { DeltaIndicator } from "./DeltaIndicator";
 
-export function AOVKpi({ storeId, dateRange }: { storeId?: string; dateRange?: DateRange }) {
-  const { data, isLoading } = useQuery({
-    queryKey: ["aov", storeId, dateRange?.from?.toISOString(), dateRange?.to?.toISOString()],
-    queryFn: async () => {
-      if (!storeId || !dateRange?.from) return [] as Array<{ date: string; sales: number; orders: number }>;
-      return shopifyService.getSalesData(storeId, {
-        startDate: dateRange.from,
-        endDate: dateRange.to ?? new Date(),
-      });
+export function AOVKpi({ storeId, dateRange, comparison }: { storeId?: string; dateRange?: DateRange; comparison?: Comparison }) {
+  const currency = useStoreSettings(storeId)?.currency;
+  const { data: sales, isLoading } = useQuery({
+    queryKey: [
+      "aov",
+      storeId,
+      dateRange?.from?.toISOString(),
+      dateRange?.to?.toISOString(),
+      comparison?.mode,
+      comparison?.startDate?.toISOString(),
+      comparison?.endDate?.toISOString(),
+    ],
+    queryFn: async (): Promise<{ data: SalesDay[]; deltas?: Record<"sales" | "orders" | "averageOrderValue", Delta> }> => {
+      if (!storeId || !dateRange?.from) return { data: [] };
+      const range = { startDate: dateRange.from, endDate: dateRange.to ?? new Date() };
+      if (comparison) {
+        const { data, comparison: compared } = await shopifyService.compareSalesData(storeId, range, comparison);
+        return { data, deltas: compared.deltas };
+      }
+      const { data } = await shopifyService.getSalesData(storeId, range);
+      return { data };
     },
     enabled: !!storeId && !!dateRange?.from,
   });
+  const data = sales?.data;
+  const deltas = sales?.deltas;
 
   if (isLoading) {
     return (
@@ -40,15 +57,18 @@ export function AOVKpi({ storeId, dateRange }: { storeId?: string; dateRange?: D
       <CardContent className="space-y-4">
         <div>
           <div className="text-sm text-blue-200">Total Sales</div>
-          <div className="text-xl font-semibold text-white">{new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(totalSales)}</div>
+          <div className="text-xl font-semibold text-white">{formatCurrency(totalSales, currency ?? '', { maximumFractionDigits: 2 })}</div>
+          <DeltaIndicator delta={deltas?.sales} />
         </div>
         <div>
           <div className="text-sm text-blue-200">Total Orders</div>
           <div className="text-xl font-semibold text-white">{totalOrders}</div>
+          <DeltaIndicator delta={deltas?.orders} />
         </div>
         <div>
           <div className="text-sm text-blue-200">Average Order Value</div>
-          <div className="text-2xl font-semibold text-white">{new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(aov)}</div>
+          <div className="text-2xl font-semibold text-white">{formatCurrency(aov, currency ?? '', { maximumFractionDigits: 2 })}</div>
+          <DeltaIndicator delta={deltas?.averageOrderValue} />
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,96 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useQuery } from "@tanstack/react-query";
+import { shopifyService } from "@/lib/shopify";
+import { formatCurrency } from "@/lib/currency";
+
+type Metric = 'customers' | 'revenue';
+
+function RetentionCell({ rate, detail }: { rate: number; detail: string }) {
+  // Month 0 is always 100%, so scale against 100 rather than the max
+  const intensity = Math.min(rate, 100) / 100;
+  const bg = `rgba(59, 130, 246, ${0.08 + intensity * 0.85})`;
+  return (
+    <div className="h-7 rounded text-[10px] flex items-center justify-center text-white" style={{ backgroundColor: bg }} title={detail}>
+      {rate.toFixed(rate >= 10 ? 0 : 1)}%
+    </div>
+  );
+}
+
+export function CohortHeatmap({ storeId, months = 12 }: { storeId?: string; months?: number }) {
+  const [metric, setMetric] = useState<Metric>('customers');
+  const { data, isLoading } = useQuery({
+    queryKey: ["customer-cohorts", storeId, months],
+    queryFn: async () => {
+      if (!storeId) return null as any;
+      return shopifyService.getCustomerCohorts(storeId, { months });
+    },
+    enabled: !!storeId,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <Card className="w-full">
+        <CardHeader><Skeleton className="h-6 w-48" /></CardHeader>
+        <CardContent><Skeleton className="h-[320px] w-full" /></CardContent>
+      </Card>
+    );
+  }
+
+  const horizon: number = data.horizon ?? 12;
+  const cohorts = (data.cohorts || []).filter((c: any) => c.customers > 0);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Cohort Retention ({metric === 'revenue' ? 'Revenue' : 'Customers'})</CardTitle>
+        <div className="flex gap-1 text-xs">
+          {(['customers', 'revenue'] as Metric[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-2 py-1 rounded ${metric === m ? 'bg-blue-600 text-white' : 'text-blue-200 hover:bg-blue-900/40'}`}
+            >
+              {m === 'revenue' ? 'Revenue' : 'Customers'}
+            </button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!cohorts.length ? (
+          <p className="text-sm text-blue-200">No first-time customers in the last {months} months.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="min-w-[720px]">
+              <div className="grid gap-1" style={{ gridTemplateColumns: `72px 56px repeat(${horizon + 1}, 1fr)` }}>
+                <div className="text-[10px] text-blue-200">Cohort</div>
+                <div className="text-[10px] text-blue-200 text-right pr-1">Size</div>
+                {Array.from({ length: horizon + 1 }, (_, m) => (
+                  <div key={m} className="text-[10px] text-blue-200 text-center">M{m}</div>
+                ))}
+                {cohorts.map((c: any) => (
+                  <Fragment key={c.cohort}>
+                    <div className="text-xs text-blue-200 h-7 flex items-center">{c.cohort}</div>
+                    <div className="text-xs text-blue-200 h-7 flex items-center justify-end pr-1">{c.customers}</div>
+                    {Array.from({ length: horizon + 1 }, (_, m) => {
+                      const cell = c.retention[m];
+                      if (!cell) return <div key={m} />;
+                      return metric === 'revenue' ? (
+                        <RetentionCell key={m} rate={cell.revenueRate} detail={`${formatCurrency(cell.revenue, data.currency)} revenue in month ${m}`} />
+                      ) : (
+                        <RetentionCell key={m} rate={cell.rate} detail={`${cell.customers} of ${c.customers} customers ordered in month ${m}`} />
+                      );
+                    })}
+                  </Fragment>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
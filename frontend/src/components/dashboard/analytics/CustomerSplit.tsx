@@ -4,15 +4,28 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DateRange } from "react-day-picker";
 import { useQuery } from "@tanstack/react-query";
-import { shopifyService } from "@/lib/shopify";
+import { shopifyService, type Comparison } from "@/lib/shopify";
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid } from "recharts";
+import { DeltaIndicator } from "./DeltaIndicator";
 
-export function CustomerSplit({ storeId, dateRange }: { storeId?: string; dateRange?: DateRange }) {
+export function CustomerSplit({ storeId, dateRange, comparison }: { storeId?: string; dateRange?: DateRange; comparison?: Comparison }) {
   const { data, isLoading } = useQuery({
-    queryKey: ["customer-split", storeId, dateRange?.from?.toISOString(), dateRange?.to?.toISOString()],
+    queryKey: [
+      "customer-split",
+      storeId,
+      dateRange?.from?.toISOString(),
+      dateRange?.to?.toISOString(),
+      comparison?.mode,
+      comparison?.startDate?.toISOString(),
+      comparison?.endDate?.toISOString(),
+    ],
     queryFn: async () => {
       if (!storeId || !dateRange?.from) return null as any;
-      return shopifyService.getCustomerSplit(storeId, { startDate: dateRange.from, endDate: dateRange.to ?? new Date() });
+      return shopifyService.getCustomerSplit(storeId, {
+        startDate: dateRange.from,
+        endDate: dateRange.to ?? new Date(),
+        compare: comparison,
+      });
     },
     enabled: !!storeId && !!dateRange?.from,
   });
@@ -30,6 +43,7 @@ export function CustomerSplit({ storeId, dateRange }: { storeId?: string; dateRa
     { type: "New", orders: data.new.orders, revenue: data.new.revenue },
     { type: "Returning", orders: data.returning.orders, revenue: data.returning.revenue },
   ];
+  const deltas = data.comparison?.deltas;
 
   return (
     <Card className="w-full">
@@ -48,6 +62,20 @@ export function CustomerSplit({ storeId, dateRange }: { storeId?: string; dateRa
           </BarChart>
         </ResponsiveContainer>
       </CardContent>
+      {deltas && (
+        <CardContent className="grid grid-cols-2 gap-2 pt-0 text-xs text-blue-200">
+          {([
+            ["New", deltas.newOrders, deltas.newRevenue],
+            ["Returning", deltas.returningOrders, deltas.returningRevenue],
+          ] as const).map(([label, orders, revenue]) => (
+            <div key={label} className="space-y-1">
+              <div>{label}</div>
+              <DeltaIndicator delta={orders} label="orders" />
+              <DeltaIndicator delta={revenue} label="revenue" />
+            </div>
+          ))}
+        </CardContent>
+      )}
     </Card>
   );
 }
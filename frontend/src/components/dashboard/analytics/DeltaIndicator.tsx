@@ -0,0 +1,25 @@
+"use client";
+
+import { ArrowDownRight, ArrowUpRight, Minus } from "lucide-react";
+import type { Delta } from "@/lib/shopify";
+
+/**
+ * Up/down arrow with the percent change against the comparison range
+ */
+export function DeltaIndicator({ delta, label }: { delta?: Delta; label?: string }) {
+  if (!delta) return null;
+
+  const { change, percentChange } = delta;
+  const Icon = change > 0 ? ArrowUpRight : change < 0 ? ArrowDownRight : Minus;
+  const tone = change > 0 ? "text-emerald-400" : change < 0 ? "text-red-400" : "text-blue-200";
+  // No percentage against zero; anything above it is simply new
+  const text = percentChange === null ? (change === 0 ? "0.0%" : "new") : `${Math.abs(percentChange).toFixed(1)}%`;
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 text-xs font-medium ${tone}`} title={label}>
+      <Icon className="h-3.5 w-3.5" />
+      {text}
+      {label && <span className="ml-1 font-normal text-blue-200">{label}</span>}
+    </span>
+  );
+}
@@ -4,14 +4,28 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DateRange } from "react-day-picker";
 import { useQuery } from "@tanstack/react-query";
-import { shopifyService } from "@/lib/shopify";
+import { shopifyService, type Comparison } from "@/lib/shopify";
+import { formatCurrency } from "@/lib/currency";
+import { DeltaIndicator } from "./DeltaIndicator";
 
-export function DiscountsImpact({ storeId, dateRange }: { storeId?: string; dateRange?: DateRange }) {
+export function DiscountsImpact({ storeId, dateRange, comparison }: { storeId?: string; dateRange?: DateRange; comparison?: Comparison }) {
   const { data, isLoading } = useQuery({
-    queryKey: ["discounts-impact", storeId, dateRange?.from?.toISOString(), dateRange?.to?.toISOString()],
+    queryKey: [
+      "discounts-impact",
+      storeId,
+      dateRange?.from?.toISOString(),
+      dateRange?.to?.toISOString(),
+      comparison?.mode,
+      comparison?.startDate?.toISOString(),
+      comparison?.endDate?.toISOString(),
+    ],
     queryFn: async () => {
       if (!storeId || !dateRange?.from) return null as any;
-      return shopifyService.getDiscountsSummary(storeId, { startDate: dateRange.from, endDate: dateRange.to ?? new Date() });
+      return shopifyService.getDiscountsSummary(storeId, {
+        startDate: dateRange.from,
+        endDate: dateRange.to ?? new Date(),
+        compare: comparison,
+      });
     },
     enabled: !!storeId && !!dateRange?.from,
   });
@@ -32,11 +46,31 @@ export function DiscountsImpact({ storeId, dateRange }: { storeId?: string; date
       </CardHeader>
       <CardContent className="space-y-2">
         <div className="text-sm text-blue-200">Total Discounts</div>
-        <div className="text-xl font-semibold text-white">{new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(data.totalDiscounts)}</div>
+        <div className="text-xl font-semibold text-white">{formatCurrency(data.totalDiscounts, data.currency)}</div>
+        <DeltaIndicator delta={data.comparison?.deltas.totalDiscounts} />
         <div className="text-sm text-blue-200">Avg Discount / Order</div>
-        <div className="text-xl font-semibold text-white">{new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(data.avgDiscountPerOrder)}</div>
-        <div className="text-sm text-blue-200">Net Revenue</div>
-        <div className="text-xl font-semibold text-white">{new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(data.netRevenue)}</div>
+        <div className="text-xl font-semibold text-white">{formatCurrency(data.avgDiscountPerOrder, data.currency)}</div>
+        <DeltaIndicator delta={data.comparison?.deltas.avgDiscountPerOrder} />
+        <div className="text-sm text-blue-200">Net Sales</div>
+        <div className="text-xl font-semibold text-white">{formatCurrency(data.netRevenue, data.currency)}</div>
+        <DeltaIndicator delta={data.comparison?.deltas.netRevenue} />
+        {data.revenue && (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 pt-2 text-xs text-blue-200">
+            {([
+              ['Gross sales', data.revenue.grossSales],
+              ['Discounts', -data.revenue.discounts],
+              ['Returns', -data.revenue.returns],
+              ['Taxes', data.revenue.taxes],
+              ['Shipping', data.revenue.shipping],
+              ['Total sales', data.revenue.totalSales],
+            ] as const).map(([label, amount]) => (
+              <div key={label} className="contents">
+                <dt>{label}</dt>
+                <dd className="text-right text-white">{formatCurrency(amount, data.currency)}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
       </CardContent>
     </Card>
   );
@@ -6,6 +6,7 @@ import { shopifyService, Order } from '@/lib/shopify';
 import { useParams } from 'next/navigation';
 import { Skeleton } from '@/components/ui/skeleton';
 import { DateRange } from 'react-day-picker';
+import { formatCurrency } from '@/lib/currency';
 
 interface RecentOrdersProps {
   dateRange?: DateRange;
@@ -33,23 +34,28 @@ export function RecentOrders({ dateRange, storeId: passedStoreId }: RecentOrders
       return date;
     };
 
-    return Array.from({ length: 5 }, (_, i) => ({
-      id: `#${Math.floor(10000 + Math.random() * 90000)}`,
-      name: `Order #${1000 + i}`,
-      createdAt: daysAgo(Math.floor(Math.random() * 30)).toISOString(),
-      financialStatus: statuses[Math.floor(Math.random() * statuses.length)],
-      totalPrice: (Math.random() * 500 + 50).toFixed(2),
-      lineItems: [{
-        title: `Product ${i + 1}`,
-        quantity: Math.floor(Math.random() * 5) + 1,
-        originalTotalPrice: (Math.random() * 400 + 50).toFixed(2)
-      }],
-      customer: {
-        firstName: 'Customer',
-        lastName: `${i + 1}`,
-        email: `customer${i + 1}@example.com`
-      }
-    }));
+    return Array.from({ length: 5 }, (_, i) => {
+      const placed = daysAgo(Math.floor(Math.random() * 30)).toISOString();
+      return {
+        id: `#${Math.floor(10000 + Math.random() * 90000)}`,
+        name: `Order #${1000 + i}`,
+        createdAt: placed,
+        processedAt: placed,
+        financialStatus: statuses[Math.floor(Math.random() * statuses.length)],
+        totalPrice: (Math.random() * 500 + 50).toFixed(2),
+        currency: 'USD',
+        lineItems: [{
+          title: `Product ${i + 1}`,
+          quantity: Math.floor(Math.random() * 5) + 1,
+          originalTotalPrice: (Math.random() * 400 + 50).toFixed(2)
+        }],
+        customer: {
+          firstName: 'Customer',
+          lastName: `${i + 1}`,
+          email: `customer${i + 1}@example.com`
+        }
+      };
+    });
   };
 
   const ordersData = orders || generateMockData();
@@ -123,10 +129,10 @@ export function RecentOrders({ dateRange, storeId: passedStoreId }: RecentOrders
               </div>
               <div className="text-right">
                 <p className="text-sm font-medium text-gray-900 dark:text-white">
-                  ₹{parseFloat(order.totalPrice).toFixed(2)}
+                  {formatCurrency(parseFloat(order.totalPrice), order.currency, { maximumFractionDigits: 2 })}
                 </p>
                 <p className="text-xs text-gray-500 dark:text-gray-400">
-                  {new Date(order.createdAt).toLocaleDateString(undefined, {
+                  {new Date(order.processedAt).toLocaleDateString(undefined, {
                     month: 'short',
                     day: 'numeric',
                   })}
@@ -4,15 +4,38 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DateRange } from "react-day-picker";
 import { useQuery } from "@tanstack/react-query";
-import { shopifyService } from "@/lib/shopify";
+import { shopifyService, type Comparison, type Delta, type SalesByTypeRow } from "@/lib/shopify";
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid } from "recharts";
+import { DeltaIndicator } from "./DeltaIndicator";
 
-export function SalesByType({ storeId, dateRange, groupBy = 'productType' as 'productType' | 'vendor' }: { storeId?: string; dateRange?: DateRange; groupBy?: 'productType' | 'vendor' }) {
-  const { data, isLoading } = useQuery({
-    queryKey: ["sales-by-type", storeId, groupBy, dateRange?.from?.toISOString(), dateRange?.to?.toISOString()],
-    queryFn: async () => {
-      if (!storeId || !dateRange?.from) return [] as Array<{ type: string; revenue: number; orders: number }>;
-      return shopifyService.getSalesByType(storeId, { startDate: dateRange.from, endDate: dateRange.to ?? new Date(), groupBy });
+type SalesByTypeProps = {
+  storeId?: string;
+  dateRange?: DateRange;
+  groupBy?: 'productType' | 'vendor';
+  comparison?: Comparison;
+};
+
+export function SalesByType({ storeId, dateRange, groupBy = 'productType', comparison }: SalesByTypeProps) {
+  const { data: sales, isLoading } = useQuery({
+    queryKey: [
+      "sales-by-type",
+      storeId,
+      groupBy,
+      dateRange?.from?.toISOString(),
+      dateRange?.to?.toISOString(),
+      comparison?.mode,
+      comparison?.startDate?.toISOString(),
+      comparison?.endDate?.toISOString(),
+    ],
+    queryFn: async (): Promise<{ rows: SalesByTypeRow[]; deltas?: Record<string, Delta> }> => {
+      if (!storeId || !dateRange?.from) return { rows: [] };
+      const { data, comparison: compared } = await shopifyService.getSalesByType(storeId, {
+        startDate: dateRange.from,
+        endDate: dateRange.to ?? new Date(),
+        groupBy,
+        compare: comparison,
+      });
+      return { rows: data, deltas: compared?.deltas };
     },
     enabled: !!storeId && !!dateRange?.from,
   });
@@ -26,6 +49,9 @@ export function SalesByType({ storeId, dateRange, groupBy = 'productType' as 'pr
     );
   }
 
+  const data = sales?.rows;
+  const deltas = sales?.deltas;
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -42,6 +68,13 @@ export function SalesByType({ storeId, dateRange, groupBy = 'productType' as 'pr
           </BarChart>
         </ResponsiveContainer>
       </CardContent>
+      {deltas && data && data.length > 0 && (
+        <CardContent className="flex flex-wrap gap-x-4 gap-y-1 pt-0">
+          {data.map((row) => (
+            <DeltaIndicator key={row.type} delta={deltas[row.type]} label={row.type} />
+          ))}
+        </CardContent>
+      )}
     </Card>
   );
 }
@@ -2,36 +2,54 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useQuery } from '@tanstack/react-query';
-import { shopifyService } from '@/lib/shopify';
+import { shopifyService, type Comparison, type SalesData } from '@/lib/shopify';
+import { formatCurrency } from '@/lib/currency';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
 import { useParams } from 'next/navigation';
 import { Skeleton } from '@/components/ui/skeleton';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { DateRange } from 'react-day-picker';
-import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { DeltaIndicator } from './DeltaIndicator';
 
 interface SalesOverviewProps {
   dateRange?: DateRange;
   storeId?: string;
+  // Draws the compared range as a ghost line behind the current one
+  comparison?: Comparison;
 }
 
-export function SalesOverview({ dateRange, storeId: passedStoreId }: SalesOverviewProps) {
+// A bound the API returned, as the calendar day it falls on in the store's zone
+const storeDayOf = (iso: string, timeZone?: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: timeZone || 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(iso));
+
+export function SalesOverview({ dateRange, storeId: passedStoreId, comparison }: SalesOverviewProps) {
   const params = useParams();
   const storeId = (passedStoreId ?? (params?.storeId as string | undefined)) as string | undefined;
+  const settings = useStoreSettings(storeId);
+  const currency = settings?.currency ?? '';
   
-  // Fetch server-aggregated sales for the date range
-  const { data: salesData, isLoading } = useQuery({
-    queryKey: ['sales-data', storeId, dateRange?.from?.toISOString(), dateRange?.to?.toISOString()],
-    queryFn: async () => {
-      if (!storeId || !dateRange?.from) return [] as Array<{ date: string; sales: number; orders: number }>;
-      return shopifyService.getSalesData(storeId as string, {
-        startDate: dateRange.from,
-        endDate: dateRange.to ?? new Date(),
-      });
+  // Fetch server-aggregated sales for the date range, and the compared range if any
+  const { data: sales, isLoading } = useQuery({
+    queryKey: [
+      'sales-data',
+      storeId,
+      dateRange?.from?.toISOString(),
+      dateRange?.to?.toISOString(),
+      comparison?.mode,
+      comparison?.startDate?.toISOString(),
+      comparison?.endDate?.toISOString(),
+    ],
+    queryFn: async (): Promise<Pick<SalesData, 'data' | 'comparison'>> => {
+      if (!storeId || !dateRange?.from) return { data: [] };
+      const range = { startDate: dateRange.from, endDate: dateRange.to ?? new Date() };
+      if (comparison) return shopifyService.compareSalesData(storeId, range, comparison);
+      return shopifyService.getSalesData(storeId, range);
     },
     enabled: !!storeId && !!dateRange?.from,
   });
-
-  // Note: No comparison line needed per requirement
+  const salesData = sales?.data;
+  const compared = sales?.comparison;
 
   // Helper: zero-fill days between start and end, and align previous period to current x-axis for visual comparison
   const buildContinuousSeries = (
@@ -40,9 +58,10 @@ export function SalesOverview({ dateRange, storeId: passedStoreId }: SalesOvervi
     end: Date
   ) => {
     const map = new Map<string, { sales: number; orders: number }>();
+    // Dates are already the store's calendar days; parsing them would shift
+    // them by the browser's offset
     for (const r of data || []) {
-      const key = format(new Date(r.date), 'yyyy-MM-dd');
-      map.set(key, { sales: r.sales, orders: r.orders });
+      map.set(r.date, { sales: r.sales, orders: r.orders });
     }
     const out: Array<{ dateISO: string; dateLabel: string; sales: number; orders: number }> = [];
     const totalDays = Math.max(1, differenceInCalendarDays(end, start) + 1);
@@ -58,12 +77,21 @@ export function SalesOverview({ dateRange, storeId: passedStoreId }: SalesOvervi
   const rangeStart = dateRange?.from ?? new Date();
   const rangeEnd = dateRange?.to ?? new Date();
   const currentSeries = buildContinuousSeries(salesData || [], rangeStart, rangeEnd);
+  const previousSeries = compared
+    ? buildContinuousSeries(
+        compared.data,
+        parseISO(storeDayOf(compared.startDate, settings?.timezone)),
+        parseISO(storeDayOf(compared.endDate, settings?.timezone))
+      )
+    : [];
 
-  // Build single-series chart data
-  const chartData = currentSeries.map((row) => ({
+  // The compared range lines up with the current one day by day
+  const chartData = currentSeries.map((row, i) => ({
     date: row.dateLabel,
     sales: row.sales,
     orders: row.orders,
+    previousSales: previousSeries[i]?.sales,
+    previousDate: previousSeries[i]?.dateLabel,
   }));
 
   const totalRevenue = currentSeries.reduce((s, r) => s + (r.sales || 0), 0);
@@ -72,6 +100,9 @@ export function SalesOverview({ dateRange, storeId: passedStoreId }: SalesOvervi
         ? `${dateRange.from.toLocaleDateString()} - ${dateRange.to.toLocaleDateString()}`
         : `${dateRange.from.toLocaleDateString()}`)
     : '';
+  const comparisonLabel = compared
+    ? `${parseISO(storeDayOf(compared.startDate, settings?.timezone)).toLocaleDateString()} - ${parseISO(storeDayOf(compared.endDate, settings?.timezone)).toLocaleDateString()}`
+    : '';
   // Let Recharts auto-calculate ticks; we rotate labels to avoid overlap
 
   if (isLoading) {
@@ -94,12 +125,21 @@ export function SalesOverview({ dateRange, storeId: passedStoreId }: SalesOvervi
       <CardHeader>
         <div className="flex flex-col gap-1">
           <CardTitle>Sales Overview</CardTitle>
-          <div className="text-2xl font-semibold text-white">{new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(totalRevenue)}</div>
+          <div className="flex items-baseline gap-3">
+            <div className="text-2xl font-semibold text-white">{formatCurrency(totalRevenue, currency, { maximumFractionDigits: 2 })}</div>
+            <DeltaIndicator delta={compared?.deltas.sales} />
+          </div>
           <div className="flex items-center gap-4 text-xs text-muted-foreground">
             <div className="flex items-center gap-2">
               <span className="inline-block w-6 h-[2px] bg-blue-400 rounded" />
               <span>{periodLabel}</span>
             </div>
+            {compared && (
+              <div className="flex items-center gap-2">
+                <span className="inline-block w-6 border-t-2 border-dashed border-gray-400" />
+                <span>{comparisonLabel}</span>
+              </div>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -135,7 +175,7 @@ export function SalesOverview({ dateRange, storeId: passedStoreId }: SalesOvervi
               tick={{ fill: '#9CA3AF' }}
               axisLine={{ stroke: '#4B5563' }}
               tickLine={{ stroke: '#4B5563' }}
-              tickFormatter={(value) => new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(Number(value))}
+              tickFormatter={(value) => formatCurrency(Number(value), currency)}
             />
             <Tooltip 
               contentStyle={{ 
@@ -146,11 +186,23 @@ export function SalesOverview({ dateRange, storeId: passedStoreId }: SalesOvervi
               itemStyle={{ color: '#E5E7EB' }}
               labelStyle={{ color: '#9CA3AF' }}
               formatter={(value: number, name, props: any) => {
-                const label = 'Sales';
-                const inr = new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(Number(value));
-                return [inr, label];
+                const label = name === 'previousSales' ? `Sales (${props?.payload?.previousDate ?? 'compared'})` : 'Sales';
+                return [formatCurrency(Number(value), currency, { maximumFractionDigits: 2 }), label];
               }}
             />
+            {compared && (
+              <Line
+                type="monotone"
+                dataKey="previousSales"
+                name="previousSales"
+                stroke="#9CA3AF"
+                strokeOpacity={0.6}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                activeDot={false}
+              />
+            )}
             <Line 
               type="monotone" 
               dataKey="sales" 
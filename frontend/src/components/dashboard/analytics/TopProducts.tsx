@@ -14,6 +14,7 @@ interface ProductData {
   price: number;
   sold: number;
   revenue: number;
+  currency: string;
 }
 
 interface TopProductsProps {
@@ -74,7 +75,7 @@ export function TopProducts({ dateRange, storeId: passedStoreId }: TopProductsPr
                   {product.title}
                 </p>
                 <p className="text-xs text-gray-500 dark:text-gray-400">
-                  {formatCurrency(product.price)}
+                  {formatCurrency(product.price, product.currency)}
                 </p>
               </div>
               <div className="text-right ml-2">
@@ -82,7 +83,7 @@ export function TopProducts({ dateRange, storeId: passedStoreId }: TopProductsPr
                   {product.sold} sold
                 </p>
                 <p className="text-xs text-gray-500 dark:text-gray-400">
-                  {formatCurrency(product.revenue)} revenue
+                  {formatCurrency(product.revenue, product.currency)} revenue
                 </p>
               </div>
             </div>
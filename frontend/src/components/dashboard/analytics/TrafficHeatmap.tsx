@@ -4,7 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DateRange } from "react-day-picker";
 import { useQuery } from "@tanstack/react-query";
-import { shopifyService } from "@/lib/shopify";
+import { shopifyService, type Comparison } from "@/lib/shopify";
+import { DeltaIndicator } from "./DeltaIndicator";
 
 function HeatCell({ value, max }: { value: number; max: number }) {
   const intensity = max > 0 ? value / max : 0;
@@ -14,12 +15,33 @@ function HeatCell({ value, max }: { value: number; max: number }) {
 
 const days = ["Sun","Mon","Tue","Wed","Thu","Fri","Sat"];
 
-export function TrafficHeatmap({ storeId, dateRange, metric = 'orders' as 'orders' | 'revenue' }: { storeId?: string; dateRange?: DateRange; metric?: 'orders' | 'revenue' }) {
+type TrafficHeatmapProps = {
+  storeId?: string;
+  dateRange?: DateRange;
+  metric?: 'orders' | 'revenue';
+  comparison?: Comparison;
+};
+
+export function TrafficHeatmap({ storeId, dateRange, metric = 'orders', comparison }: TrafficHeatmapProps) {
   const { data, isLoading } = useQuery({
-    queryKey: ["traffic-heatmap", storeId, metric, dateRange?.from?.toISOString(), dateRange?.to?.toISOString()],
+    queryKey: [
+      "traffic-heatmap",
+      storeId,
+      metric,
+      dateRange?.from?.toISOString(),
+      dateRange?.to?.toISOString(),
+      comparison?.mode,
+      comparison?.startDate?.toISOString(),
+      comparison?.endDate?.toISOString(),
+    ],
     queryFn: async () => {
       if (!storeId || !dateRange?.from) return null as any;
-      return shopifyService.getTrafficHeatmap(storeId, { startDate: dateRange.from, endDate: dateRange.to ?? new Date(), metric });
+      return shopifyService.getTrafficHeatmap(storeId, {
+        startDate: dateRange.from,
+        endDate: dateRange.to ?? new Date(),
+        metric,
+        compare: comparison,
+      });
     },
     enabled: !!storeId && !!dateRange?.from,
   });
@@ -40,6 +62,7 @@ export function TrafficHeatmap({ storeId, dateRange, metric = 'orders' as 'order
     <Card className="w-full">
       <CardHeader>
         <CardTitle>Traffic Heatmap ({metric === 'revenue' ? 'Revenue' : 'Orders'})</CardTitle>
+        <DeltaIndicator delta={data.comparison?.deltas.total} label={`total ${metric}`} />
       </CardHeader>
       <CardContent>
         <div className="overflow-x-auto">
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { KeyRound } from 'lucide-react';
+import { api, errorMessage } from '@/lib/api';
+import { hasRole, MANAGER_ROLES, useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type ApiKeyScope = 'read:analytics' | 'write:sync';
+
+type ApiKey = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  isExpired: boolean;
+  createdBy: { id: string; email: string; username: string | null };
+};
+
+const SCOPES: { value: ApiKeyScope; label: string }[] = [
+  { value: 'read:analytics', label: 'Read analytics' },
+  { value: 'write:sync', label: 'Trigger syncs' },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'Never' },
+];
+
+export function ApiKeysSettings() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read:analytics']);
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const tenantId = user?.tenantId;
+  const queryKey = ['tenant-api-keys', tenantId];
+
+  const canManage = hasRole(user, MANAGER_ROLES);
+
+  const { data: apiKeys, isLoading } = useQuery({
+    queryKey,
+    enabled: !!tenantId && canManage,
+    queryFn: async () => {
+      // Bypass the API client's GET cache so new and revoked keys show up right away
+      const res: any = await api.get(`/api/tenants/${tenantId}/api-keys`, {}, false);
+      return (res?.data?.apiKeys ?? []) as ApiKey[];
+    },
+  });
+
+  const create = useMutation({
+    mutationFn: async () =>
+      api.post<any>(`/api/tenants/${tenantId}/api-keys`, {
+        name,
+        scopes,
+        expiresAt: expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString() : null,
+      }),
+    onMutate: () => {
+      setError('');
+      setCreatedKey(null);
+    },
+    onSuccess: (res) => {
+      setCreatedKey(res?.data?.key ?? null);
+      setName('');
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to create API key')),
+  });
+
+  const revoke = useMutation({
+    mutationFn: async (apiKey: ApiKey) => api.delete(`/api/tenants/${tenantId}/api-keys/${apiKey.id}`),
+    onMutate: () => setError(''),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (err) => setError(errorMessage(err, 'Failed to revoke API key')),
+  });
+
+  const toggleScope = (scope: ApiKeyScope) =>
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]));
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="w-5 h-5 mr-2" />
+          API Keys
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Keys let scripts call the <code>/api/shopify</code> analytics routes for this workspace&apos;s stores. Send one
+          as <code>Authorization: Bearer &lt;key&gt;</code> or <code>X-API-Key</code>.
+        </p>
+
+        <form
+          className="flex flex-col md:flex-row md:items-center gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name && scopes.length) create.mutate();
+          }}
+        >
+          <Input placeholder="Key name, e.g. Looker export" value={name} onChange={(e) => setName(e.target.value)} aria-label="Key name" />
+          <div className="flex items-center gap-3">
+            {SCOPES.map((scope) => (
+              <label key={scope.value} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                <input type="checkbox" checked={scopes.includes(scope.value)} onChange={() => toggleScope(scope.value)} />
+                {scope.label}
+              </label>
+            ))}
+          </div>
+          <select
+            aria-label="Key expiry"
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(Number(e.target.value))}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" disabled={!name || !scopes.length || create.isLoading}>
+            {create.isLoading ? 'Creating...' : 'Create key'}
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {createdKey && (
+          <div className="rounded-md border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 p-4 space-y-2">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              Copy this key now. It won&apos;t be shown again.
+            </p>
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input readOnly value={createdKey} className="font-mono" aria-label="New API key" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={() => navigator.clipboard?.writeText(createdKey)}>
+                Copy
+              </Button>
+              <Button variant="outline" onClick={() => setCreatedKey(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : !apiKeys?.length ? (
+          <p className="text-sm text-gray-500">No API keys yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {apiKeys.map((apiKey) => (
+              <div key={apiKey.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <div className="font-medium text-gray-900 dark:text-white">
+                    {apiKey.name} <span className="ml-1 font-mono text-xs text-gray-500">{apiKey.prefix}…</span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {apiKey.scopes.join(', ')} · created by {apiKey.createdBy.username || apiKey.createdBy.email} ·{' '}
+                    {apiKey.lastUsedAt ? `last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : 'never used'} ·{' '}
+                    {apiKey.isExpired ? (
+                      <span className="text-red-500">expired</span>
+                    ) : apiKey.expiresAt ? (
+                      `expires ${new Date(apiKey.expiresAt).toLocaleDateString()}`
+                    ) : (
+                      'no expiry'
+                    )}
+                  </div>
+                </div>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={revoke.isLoading && revoke.variables?.id === apiKey.id}
+                  onClick={() => revoke.mutate(apiKey)}
+                >
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
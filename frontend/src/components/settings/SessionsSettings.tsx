@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { MonitorSmartphone } from 'lucide-react';
+import { api, errorMessage } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type Session = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  authenticatedAt: string;
+  lastUsedAt: string;
+  current: boolean;
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Good enough to tell devices apart; we don't need a full user-agent parser
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) return userAgent.slice(0, 60);
+  return [browser, system].filter(Boolean).join(' on ');
+};
+
+export function SessionsSettings() {
+  const { logout } = useAuth();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState('');
+  const queryKey = ['auth-sessions'];
+
+  const { data: sessions, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      // Bypass the API client's GET cache so signed-out devices disappear right away
+      const res: any = await api.get('/api/auth/sessions', {}, false);
+      return (res?.data?.sessions ?? []) as Session[];
+    },
+  });
+
+  const revoke = useMutation({
+    mutationFn: async (session: Session) => api.delete(`/api/auth/sessions/${session.id}`),
+    onMutate: () => setError(''),
+    onSuccess: (_res, session) => {
+      if (session.current) {
+        logout();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to sign out that device')),
+  });
+
+  const revokeAll = useMutation({
+    mutationFn: async () => api.delete('/api/auth/sessions'),
+    onMutate: () => setError(''),
+    onSuccess: () => logout(),
+    onError: (err) => setError(errorMessage(err, 'Failed to sign out everywhere')),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <MonitorSmartphone className="w-5 h-5 mr-2" />
+          Signed-in Devices
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : !sessions?.length ? (
+          <p className="text-sm text-gray-500">No active sessions.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {sessions.map((session) => (
+              <div key={session.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <div className="font-medium text-gray-900 dark:text-white">
+                    {describeDevice(session.userAgent)}
+                    {session.current ? <span className="ml-2 text-xs text-gray-500">(this device)</span> : null}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                    last active {new Date(session.lastUsedAt).toLocaleString()} · signed in{' '}
+                    {new Date(session.authenticatedAt).toLocaleDateString()}
+                  </div>
+                </div>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={revoke.isLoading && revoke.variables?.id === session.id}
+                  onClick={() => revoke.mutate(session)}
+                >
+                  Sign out
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" disabled={revokeAll.isLoading} onClick={() => revokeAll.mutate()}>
+            {revokeAll.isLoading ? 'Signing out...' : 'Sign out everywhere'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { RefreshCw } from 'lucide-react';
+import { api } from '@/lib/api';
+import { hasRole, MANAGER_ROLES, useAuth } from '@/lib/auth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type ScheduledStore = {
+  id: string;
+  name: string;
+  domain: string;
+  isActive: boolean;
+  lastSyncedAt: string | null;
+  syncIntervalMinutes: number | null;
+  syncPaused: boolean;
+  nextSyncAt: string | null;
+};
+
+type ScheduleUpdate = {
+  intervalMinutes?: number | null;
+  paused?: boolean;
+};
+
+// Interval choices offered in the UI; the API accepts any value from 15 minutes to 7 days
+const INTERVAL_OPTIONS: { label: string; value: number | null }[] = [
+  { label: 'Off', value: null },
+  { label: 'Every 15 minutes', value: 15 },
+  { label: 'Every 30 minutes', value: 30 },
+  { label: 'Every hour', value: 60 },
+  { label: 'Every 6 hours', value: 360 },
+  { label: 'Every 12 hours', value: 720 },
+  { label: 'Daily', value: 1440 },
+];
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+export function SyncScheduleSettings() {
+  const { user } = useAuth();
+  const canEdit = hasRole(user, MANAGER_ROLES);
+  const queryClient = useQueryClient();
+  const [error, setError] = useState('');
+
+  const { data: stores, isLoading } = useQuery({
+    queryKey: ['stores', 'sync-schedules'],
+    queryFn: async () => {
+      // Bypass the API client's GET cache so saved changes show up right away
+      const res: any = await api.get('/api/stores', { params: { limit: 100 } }, false);
+      return (res?.data?.stores ?? []) as ScheduledStore[];
+    },
+  });
+
+  const updateSchedule = useMutation({
+    mutationFn: async ({ storeId, update }: { storeId: string; update: ScheduleUpdate }) =>
+      api.patch(`/api/sync/store/${storeId}/schedule`, update),
+    onMutate: () => setError(''),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['stores', 'sync-schedules'] }),
+    onError: (err: any) => {
+      setError(err?.response?.data?.error || err?.message || 'Failed to update sync schedule');
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <RefreshCw className="w-5 h-5 mr-2" />
+          Scheduled Syncs
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Stores with a schedule are synced incrementally in the background. Pausing keeps the interval but skips runs
+          until resumed.
+        </p>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : !stores?.length ? (
+          <p className="text-sm text-gray-500">No stores connected yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {stores.map((store) => {
+              const saving = updateSchedule.isLoading && updateSchedule.variables?.storeId === store.id;
+              return (
+                <div key={store.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">{store.name || store.domain}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Last sync {formatDateTime(store.lastSyncedAt)}
+                      {store.syncIntervalMinutes && !store.syncPaused
+                        ? ` · Next sync ${formatDateTime(store.nextSyncAt)}`
+                        : ''}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4">
+                    <select
+                      aria-label={`Sync interval for ${store.name || store.domain}`}
+                      className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                      value={store.syncIntervalMinutes ?? ''}
+                      disabled={!canEdit || saving || !store.isActive}
+                      onChange={(e) =>
+                        updateSchedule.mutate({
+                          storeId: store.id,
+                          update: { intervalMinutes: e.target.value ? Number(e.target.value) : null },
+                        })
+                      }
+                    >
+                      {INTERVAL_OPTIONS.map((option) => (
+                        <option key={option.label} value={option.value ?? ''}>
+                          {option.label}
+                        </option>
+                      ))}
+                      {store.syncIntervalMinutes &&
+                      !INTERVAL_OPTIONS.some((o) => o.value === store.syncIntervalMinutes) ? (
+                        <option value={store.syncIntervalMinutes}>Every {store.syncIntervalMinutes} minutes</option>
+                      ) : null}
+                    </select>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`sync-paused-${store.id}`}
+                        checked={store.syncPaused}
+                        disabled={!canEdit || saving || !store.syncIntervalMinutes}
+                        onCheckedChange={(paused) => updateSchedule.mutate({ storeId: store.id, update: { paused } })}
+                      />
+                      <Label htmlFor={`sync-paused-${store.id}`} className="text-sm">
+                        Paused
+                      </Label>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Mail } from 'lucide-react';
+import { api, errorMessage } from '@/lib/api';
+import { hasRole, MANAGER_ROLES, USER_ROLES, useAuth, type UserRole } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type Invitation = {
+  id: string;
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+  createdAt: string;
+  isExpired: boolean;
+  invitedBy: { id: string; email: string; username: string | null };
+};
+
+const formatRole = (role: UserRole) => role.charAt(0) + role.slice(1).toLowerCase();
+
+export function TeamInvitations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('VIEWER');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const tenantId = user?.tenantId;
+  const queryKey = ['tenant-invitations', tenantId];
+
+  const canManage = hasRole(user, MANAGER_ROLES);
+  const isOwner = user?.role === 'OWNER';
+
+  const { data: invitations, isLoading } = useQuery({
+    queryKey,
+    enabled: !!tenantId && canManage,
+    queryFn: async () => {
+      // Bypass the API client's GET cache so new invitations show up right away
+      const res: any = await api.get(`/api/tenants/${tenantId}/invitations`, {}, false);
+      return (res?.data?.invitations ?? []) as Invitation[];
+    },
+  });
+
+  const onDone = (message: string) => {
+    setNotice(message);
+    queryClient.invalidateQueries({ queryKey });
+  };
+  const onStart = () => {
+    setError('');
+    setNotice('');
+  };
+
+  const invite = useMutation({
+    mutationFn: async () => api.post(`/api/tenants/${tenantId}/invitations`, { email, role }),
+    onMutate: onStart,
+    onSuccess: () => {
+      onDone(`Invitation sent to ${email}`);
+      setEmail('');
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to send invitation')),
+  });
+
+  const resend = useMutation({
+    mutationFn: async (invitation: Invitation) =>
+      api.post(`/api/tenants/${tenantId}/invitations/${invitation.id}/resend`),
+    onMutate: onStart,
+    onSuccess: (_res, invitation) => onDone(`Invitation resent to ${invitation.email}`),
+    onError: (err) => setError(errorMessage(err, 'Failed to resend invitation')),
+  });
+
+  const revoke = useMutation({
+    mutationFn: async (invitation: Invitation) => api.delete(`/api/tenants/${tenantId}/invitations/${invitation.id}`),
+    onMutate: onStart,
+    onSuccess: (_res, invitation) => onDone(`Invitation for ${invitation.email} revoked`),
+    onError: (err) => setError(errorMessage(err, 'Failed to revoke invitation')),
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Mail className="w-5 h-5 mr-2" />
+          Invitations
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-col md:flex-row gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (email) invite.mutate();
+          }}
+        >
+          <Input
+            type="email"
+            placeholder="teammate@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            aria-label="Email to invite"
+          />
+          <select
+            aria-label="Role for the invitation"
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+            value={role}
+            onChange={(e) => setRole(e.target.value as UserRole)}
+          >
+            {USER_ROLES.filter((r) => isOwner || r !== 'OWNER').map((r) => (
+              <option key={r} value={r}>
+                {formatRole(r)}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" disabled={!email || invite.isLoading}>
+            {invite.isLoading ? 'Sending...' : 'Send invite'}
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {notice && <p className="text-sm text-green-600 dark:text-green-400">{notice}</p>}
+
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : !invitations?.length ? (
+          <p className="text-sm text-gray-500">No pending invitations.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {invitations.map((invitation) => {
+              const busy =
+                (resend.isLoading && resend.variables?.id === invitation.id) ||
+                (revoke.isLoading && revoke.variables?.id === invitation.id);
+              return (
+                <div key={invitation.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">{invitation.email}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatRole(invitation.role)} · invited by {invitation.invitedBy.username || invitation.invitedBy.email} ·{' '}
+                      {invitation.isExpired ? (
+                        <span className="text-red-500">expired</span>
+                      ) : (
+                        `expires ${new Date(invitation.expiresAt).toLocaleDateString()}`
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" disabled={busy} onClick={() => resend.mutate(invitation)}>
+                      Resend
+                    </Button>
+                    <Button variant="outline" size="sm" disabled={busy} onClick={() => revoke.mutate(invitation)}>
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Users } from 'lucide-react';
+import { api } from '@/lib/api';
+import { hasRole, MANAGER_ROLES, USER_ROLES, useAuth, type UserRole } from '@/lib/auth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type Member = {
+  id: string;
+  email: string;
+  username: string | null;
+  role: UserRole;
+  isVerified: boolean;
+  createdAt: string;
+};
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  OWNER: 'Full access, including deleting the workspace',
+  ADMIN: 'Manage stores, schedules and members',
+  ANALYST: 'View dashboards and run syncs',
+  VIEWER: 'View dashboards only',
+};
+
+const formatRole = (role: UserRole) => role.charAt(0) + role.slice(1).toLowerCase();
+
+export function TeamMembersSettings() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState('');
+  const tenantId = user?.tenantId;
+  const queryKey = ['tenant-users', tenantId];
+
+  const canManage = hasRole(user, MANAGER_ROLES);
+  const isOwner = user?.role === 'OWNER';
+
+  const { data: members, isLoading } = useQuery({
+    queryKey,
+    enabled: !!tenantId,
+    queryFn: async () => {
+      // Bypass the API client's GET cache so role changes show up right away
+      const res: any = await api.get(`/api/tenants/${tenantId}/users`, {}, false);
+      return (res?.data?.users ?? []) as Member[];
+    },
+  });
+
+  const updateRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: UserRole }) =>
+      api.patch(`/api/tenants/${tenantId}/users/${userId}/role`, { role }),
+    onMutate: () => setError(''),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (err: any) => {
+      setError(err?.response?.data?.message || err?.response?.data?.error || err?.message || 'Failed to update role');
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="w-5 h-5 mr-2" />
+          Team Members
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {USER_ROLES.map((role) => `${formatRole(role)}: ${ROLE_DESCRIPTIONS[role].toLowerCase()}`).join(' · ')}
+        </p>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : !members?.length ? (
+          <p className="text-sm text-gray-500">No team members found.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {members.map((member) => {
+              const saving = updateRole.isLoading && updateRole.variables?.userId === member.id;
+              // Admins can't touch owners or make new ones; the API enforces the same rules
+              const editable = canManage && (isOwner || member.role !== 'OWNER');
+              return (
+                <div key={member.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {member.username || member.email}
+                      {member.id === user?.id ? <span className="ml-2 text-xs text-gray-500">(you)</span> : null}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{member.email}</div>
+                  </div>
+
+                  {editable ? (
+                    <select
+                      aria-label={`Role for ${member.email}`}
+                      className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                      value={member.role}
+                      disabled={saving}
+                      onChange={(e) => updateRole.mutate({ userId: member.id, role: e.target.value as UserRole })}
+                    >
+                      {USER_ROLES.filter((role) => isOwner || role !== 'OWNER').map((role) => (
+                        <option key={role} value={role}>
+                          {formatRole(role)}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-sm text-gray-700 dark:text-gray-300" title={ROLE_DESCRIPTIONS[member.role]}>
+                      {formatRole(member.role)}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ShieldCheck } from 'lucide-react';
+import { api, errorMessage } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type MfaStatus = {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type Enrollment = {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+};
+
+export function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const queryKey = ['mfa-status'];
+
+  const { data: status, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const res: any = await api.get('/api/auth/mfa', {}, false);
+      return res?.data?.mfa as MfaStatus;
+    },
+  });
+
+  const onStart = () => setError('');
+  const onDone = () => {
+    setCode('');
+    setPassword('');
+    queryClient.invalidateQueries({ queryKey });
+    // Keep the cached user's mfaEnabled flag in step
+    window.dispatchEvent(new Event('auth:update'));
+  };
+
+  const setup = useMutation({
+    mutationFn: async () => api.post<any>('/api/auth/mfa/setup'),
+    onMutate: () => {
+      onStart();
+      setRecoveryCodes(null);
+    },
+    onSuccess: (res) => setEnrollment(res?.data ?? null),
+    onError: (err) => setError(errorMessage(err, 'Failed to start two-factor setup')),
+  });
+
+  const enable = useMutation({
+    mutationFn: async () => api.post<any>('/api/auth/mfa/enable', { code }),
+    onMutate: onStart,
+    onSuccess: (res) => {
+      setEnrollment(null);
+      setRecoveryCodes(res?.data?.recoveryCodes ?? []);
+      onDone();
+    },
+    onError: (err) => setError(errorMessage(err, 'That code did not work')),
+  });
+
+  const regenerate = useMutation({
+    mutationFn: async () => api.post<any>('/api/auth/mfa/recovery-codes', { code }),
+    onMutate: onStart,
+    onSuccess: (res) => {
+      setRecoveryCodes(res?.data?.recoveryCodes ?? []);
+      onDone();
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to generate new recovery codes')),
+  });
+
+  const disable = useMutation({
+    mutationFn: async () => api.post('/api/auth/mfa/disable', { password, code }),
+    onMutate: onStart,
+    onSuccess: () => {
+      setRecoveryCodes(null);
+      onDone();
+    },
+    onError: (err) => setError(errorMessage(err, 'Failed to turn off two-factor authentication')),
+  });
+
+  const codeInput = (
+    <Input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="6-digit code"
+      value={code}
+      onChange={(e) => setCode(e.target.value.trim())}
+      aria-label="Authentication code"
+      className="md:w-40"
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2" />
+          Two-Factor Authentication
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {recoveryCodes && (
+          <div className="rounded-md border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 p-4 space-y-2">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app, and
+              they won&apos;t be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm text-gray-800 dark:text-gray-200">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+              I&apos;ve saved them
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : status?.enabled ? (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Two-factor authentication is on. Signing in asks for a code from your authenticator app.{' '}
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+            </p>
+
+            <div className="flex flex-col md:flex-row gap-3">
+              {codeInput}
+              <Input
+                type="password"
+                autoComplete="current-password"
+                placeholder="Password (to turn off)"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                aria-label="Password"
+                className="md:w-56"
+              />
+              <Button variant="outline" disabled={!code || regenerate.isLoading} onClick={() => regenerate.mutate()}>
+                {regenerate.isLoading ? 'Generating...' : 'New recovery codes'}
+              </Button>
+              <Button variant="outline" disabled={!code || !password || disable.isLoading} onClick={() => disable.mutate()}>
+                {disable.isLoading ? 'Turning off...' : 'Turn off'}
+              </Button>
+            </div>
+          </>
+        ) : enrollment ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy...), then enter the code
+              it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qrCode} alt="Two-factor setup QR code" className="h-44 w-44 rounded bg-white p-2" />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Can&apos;t scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+            </p>
+            <form
+              className="flex flex-col md:flex-row gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (code) enable.mutate();
+              }}
+            >
+              {codeInput}
+              <Button type="submit" disabled={!code || enable.isLoading}>
+                {enable.isLoading ? 'Verifying...' : 'Turn on'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+            </form>
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Protect your account with a code from an authenticator app as well as your password.
+            </p>
+            <Button disabled={setup.isLoading} onClick={() => setup.mutate()}>
+              {setup.isLoading ? 'Starting...' : 'Set up'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { hasRole, SYNC_ROLES, useAuth } from '@/lib/auth';
+
+type Backfill = {
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  ordersImported: number;
+  lastError: string | null;
+  startDate: string;
+  checkpoint: string;
+};
+
+type BackfillResponse = {
+  backfill: Backfill | null;
+  isRunning: boolean;
+  progress: { percent: number; through: string | null; message: string } | null;
+};
+
+export function OrderBackfillStatus({ storeId }: { storeId: string }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState('');
+  const queryKey = ['order-backfill', storeId];
+
+  const { data } = useQuery({
+    queryKey,
+    // Skip the API client's GET cache; this endpoint is polled while a backfill runs
+    queryFn: () => api.get<BackfillResponse>(`/api/sync/store/${storeId}/backfill`, {}, false),
+    refetchInterval: (res) => (res?.backfill?.status === 'RUNNING' ? 5000 : false),
+  });
+
+  const start = useMutation({
+    mutationFn: (restart: boolean) =>
+      api.post(`/api/sync/store/${storeId}/backfill${restart ? '?restart=true' : ''}`),
+    onMutate: () => setError(''),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (err: any) => setError(err?.response?.data?.error || err?.message || 'Failed to start backfill'),
+  });
+
+  const backfill = data?.backfill;
+  const running = backfill?.status === 'RUNNING';
+
+  let label = 'Import full order history';
+  if (backfill?.status === 'FAILED' || (running && !data?.isRunning)) label = 'Resume backfill';
+  if (backfill?.status === 'COMPLETED') label = 'Re-import history';
+
+  return (
+    <div
+      className="flex items-center gap-3 text-xs text-blue-200"
+      // Keep clicks and key presses from toggling the store row this sits in
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      {backfill && data?.progress ? (
+        <div className="flex items-center gap-2" title={backfill.lastError ?? undefined}>
+          <div className="h-1.5 w-24 rounded bg-blue-950/60 overflow-hidden">
+            <div
+              className={`h-full ${backfill.status === 'FAILED' ? 'bg-red-400' : 'bg-blue-400'}`}
+              style={{ width: `${data.progress.percent}%` }}
+            />
+          </div>
+          <span>
+            {data.progress.message}
+            {backfill.status === 'FAILED' ? ' (stopped)' : ''}
+          </span>
+        </div>
+      ) : null}
+      {error ? <span className="text-red-300">{error}</span> : null}
+      {hasRole(user, SYNC_ROLES) && !(running && data?.isRunning) ? (
+        <button
+          className="px-2 py-1 rounded border border-blue-700 hover:bg-blue-900/40 disabled:opacity-50"
+          disabled={start.isLoading}
+          onClick={() => start.mutate(backfill?.status === 'COMPLETED')}
+        >
+          {label}
+        </button>
+      ) : null}
+    </div>
+  );
+}
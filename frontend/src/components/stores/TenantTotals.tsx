@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { useAuth } from '@/lib/auth';
+import { shopifyService } from '@/lib/shopify';
+import { formatCurrency, REPORTING_CURRENCIES } from '@/lib/currency';
+
+const RANGES = [
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'Last 365 days', days: 365 },
+  { label: 'All time', days: 0 },
+];
+
+/**
+ * Revenue across every store in the tenant, converted into one reporting
+ * currency with the loaded exchange rates
+ */
+export function TenantTotals() {
+  const { user } = useAuth();
+  const tenantId = user?.tenantId;
+  const [currency, setCurrency] = useState('USD');
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['tenant-totals', tenantId, currency, days],
+    queryFn: () =>
+      shopifyService.getTenantTotals(tenantId!, {
+        currency,
+        startDate: days ? subDays(new Date(), days) : undefined,
+      }),
+    enabled: !!tenantId,
+    keepPreviousData: true,
+  });
+
+  if (!tenantId) return null;
+
+  return (
+    <div className="rounded-xl border border-blue-800/50 bg-blue-900/40 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-xs text-blue-200">All stores · {data?.totalOrders ?? 0} orders</div>
+          <div className="text-2xl font-semibold text-white">
+            {isLoading || !data ? '—' : formatCurrency(data.totalRevenue, data.currency)}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="Date range"
+            className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+          >
+            {RANGES.map((range) => (
+              <option key={range.days} value={range.days}>
+                {range.label}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Reporting currency"
+            className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+          >
+            {REPORTING_CURRENCIES.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {data && data.stores.length > 1 && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-blue-200">
+          {data.stores.map((store) => (
+            <span key={store.storeId}>
+              {store.name || store.domain}: {formatCurrency(store.revenue, data.currency)}
+              {store.currency !== data.currency && <span className="text-blue-300/70"> (sells in {store.currency})</span>}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {data && data.missingRates.length > 0 && (
+        <p className="text-xs text-amber-300">
+          No exchange rate loaded from {data.missingRates.join(', ')} to {data.currency}; those sales are left out of the
+          total.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { shopifyService } from '@/lib/shopify';
+
+/**
+ * The store's currency and timezone, for formatting amounts from endpoints
+ * that return plain lists and labelling dates. Undefined until it has loaded.
+ */
+export function useStoreSettings(storeId?: string) {
+  const { data } = useQuery({
+    queryKey: ['store-settings', storeId],
+    queryFn: () => shopifyService.getStoreSettings(storeId!),
+    enabled: !!storeId,
+    staleTime: 5 * 60_000,
+  });
+  return data;
+}
@@ -17,10 +17,14 @@ interface PendingRequest {
   controller: AbortController;
 }
 
+// A 401 from these means the credentials themselves were rejected, so don't try a refresh
+const NO_REFRESH_PATHS = ['/api/auth/login', '/api/auth/signup', '/api/auth/refresh', '/api/auth/logout'];
+
 class ApiClient {
   private client: AxiosInstance;
   private pendingRequests: Map<string, PendingRequest>;
   private static lastAuthRedirectAt = 0;
+  private refreshing: Promise<boolean> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -112,7 +116,7 @@ class ApiClient {
         }
         return response;
       },
-      (error: unknown) => {
+      async (error: unknown) => {
         // Clean up pending requests on error
         if (axios.isAxiosError(error)) {
           const axiosError = error as AxiosError;
@@ -143,6 +147,21 @@ class ApiClient {
 
           if (DEBUG_API) console.error('API Error:', JSON.stringify(errorData, null, 2));
 
+          // An expired access token gets one retry after renewing the session
+          const original = axiosError.config as (AxiosRequestConfig & { _retried?: boolean }) | undefined;
+          if (
+            axiosError.response?.status === 401 &&
+            typeof window !== 'undefined' &&
+            original &&
+            !original._retried &&
+            !NO_REFRESH_PATHS.some((path) => original.url?.includes(path))
+          ) {
+            original._retried = true;
+            if (await this.refreshSession()) {
+              return this.client(original);
+            }
+          }
+
           // Handle 401 Unauthorized errors (debounced to avoid redirect loops)
           if (axiosError.response?.status === 401) {
             console.warn('Authentication error - Invalid or expired token');
@@ -170,6 +189,27 @@ class ApiClient {
     );
   }
 
+  // Swap the refresh cookie for a new access token. Concurrent 401s share one
+  // refresh, since each refresh token can only be used once.
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshing) {
+      const staleToken = localStorage.getItem('token');
+      this.refreshing = axios
+        .post(`${API_BASE_URL}/api/auth/refresh`, {}, { withCredentials: true })
+        .then((res) => {
+          const token = res.data?.token;
+          if (token) localStorage.setItem('token', token);
+          return !!token;
+        })
+        // Another tab may have refreshed with the same cookie first
+        .catch(() => !!localStorage.getItem('token') && localStorage.getItem('token') !== staleToken)
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
   // Generic request method with caching and deduplication
   async request<T = any>(config: AxiosRequestConfig, useCache = true): Promise<T> {
     const requestKey = generateRequestKey(config);
@@ -263,3 +303,7 @@ class ApiClient {
 }
 
 export const api = new ApiClient();
+
+// What to show for a failed request: the API's message, else the client's, else `fallback`
+export const errorMessage = (err: any, fallback: string): string =>
+  err?.response?.data?.message || err?.response?.data?.error || err?.message || fallback;
@@ -4,19 +4,40 @@
 // preserving the previous API shape used across the app.
 
 import React, { type ReactNode } from 'react';
-import { AuthProvider as RealAuthProvider, useAuth as useRealAuth } from '@/providers/AuthProvider';
+import {
+  AuthProvider as RealAuthProvider,
+  useAuth as useRealAuth,
+  type LoginResult,
+  type MfaProof,
+} from '@/providers/AuthProvider';
+
+export type { LoginResult, MfaProof };
+
+export type UserRole = 'OWNER' | 'ADMIN' | 'ANALYST' | 'VIEWER';
+
+export const USER_ROLES: UserRole[] = ['OWNER', 'ADMIN', 'ANALYST', 'VIEWER'];
+
+// Mirrors the backend's route rules
+export const MANAGER_ROLES: UserRole[] = ['OWNER', 'ADMIN'];
+export const SYNC_ROLES: UserRole[] = ['OWNER', 'ADMIN', 'ANALYST'];
 
 export interface User {
   id: string;
   name?: string;
   username?: string;
   email: string;
+  tenantId?: string;
+  role?: UserRole;
+  mfaEnabled?: boolean;
 }
 
+export const hasRole = (user: User | null, roles: UserRole[]) => !!user?.role && roles.includes(user.role);
+
 type LegacyAuthContext = {
   user: User | null;
   isLoading: boolean; // alias to `loading`
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyMfa: (mfaToken: string, proof: MfaProof) => Promise<void>;
   logout: () => Promise<void> | void;
   register: (userData: { name: string; email: string; password: string }) => Promise<void>;
 };
@@ -32,6 +53,7 @@ export function useAuth(): LegacyAuthContext {
     user: ctx.user || null,
     isLoading: !!ctx.loading,
     login: ctx.login,
+    verifyMfa: ctx.verifyMfa,
     logout: ctx.logout,
     register: async ({ name, email, password }: { name: string; email: string; password: string }) => {
       await ctx.register(name, email, password);
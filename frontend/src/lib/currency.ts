@@ -1,11 +1,16 @@
 /**
- * Formats a number as INR currency
+ * Formats a number in the given ISO 4217 currency, using the viewer's locale
+ * for separators and symbol placement. Pass the currency the API returned with
+ * the amount; stores can sell in different currencies.
  */
-export const formatCurrency = (amount: number, options: Intl.NumberFormatOptions = {}) => {
-  return new Intl.NumberFormat('en-IN', {
+export const formatCurrency = (amount: number, currency: string, options: Intl.NumberFormatOptions = {}) => {
+  return new Intl.NumberFormat(undefined, {
     style: 'currency',
-    currency: 'INR',
+    currency: currency || 'USD',
     maximumFractionDigits: 0,
     ...options
   }).format(amount);
 };
+
+// Currencies offered when choosing a reporting currency for tenant totals
+export const REPORTING_CURRENCIES = ['USD', 'EUR', 'GBP', 'INR', 'CAD', 'AUD', 'JPY', 'SGD', 'AED'];
@@ -1,3 +1,4 @@
+import { format } from 'date-fns';
 import { api } from '@/lib/api';
 
 export interface Product {
@@ -18,8 +19,11 @@ export interface Order {
   id: string;
   name: string;
   createdAt: string;
+  // When the sale happened; recent orders are sorted by it
+  processedAt: string;
   financialStatus: string;
   totalPrice: string;
+  currency: string;
   lineItems: Array<{
     title: string;
     quantity: number;
@@ -42,6 +46,345 @@ export interface Customer {
   lastOrderDate?: string;
 }
 
+export interface SegmentFilters {
+  tags?: string[];
+  minSpend?: number;
+  maxSpend?: number;
+  minOrders?: number;
+  maxOrders?: number;
+  lastOrderAfter?: string;
+  lastOrderBefore?: string;
+  lastOrderWithinDays?: number;
+  noOrderForDays?: number;
+  rfmSegments?: string[];
+}
+
+export interface RfmSegmentSummary {
+  key: string;
+  name: string;
+  description: string;
+  customers: number;
+  share: number;
+  revenue: number;
+  revenueShare: number;
+  avgRecencyDays: number | null;
+  avgOrders: number | null;
+}
+
+export interface SavedSegment {
+  id: string;
+  name: string;
+  description: string | null;
+  filters: SegmentFilters;
+  customers: number;
+  createdAt: string;
+}
+
+export interface SegmentCustomer {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  tags: string[];
+  ordersCount: number;
+  totalSpend: number;
+  lastOrderDate: string | null;
+  recencyDays: number | null;
+  rfm: { recency: number; frequency: number; monetary: number; segment: string } | null;
+}
+
+export type CustomerLifecycle = 'new' | 'active' | 'due' | 'overdue' | 'lapsed';
+
+export interface CustomerValue {
+  ordersCount: number;
+  historicalClv: number;
+  averageOrderValue: number;
+  firstOrderDate: string | null;
+  lastOrderDate: string | null;
+  expectedIntervalDays: number | null;
+  expectedNextOrderDate: string | null;
+  probabilityAlive: number;
+  expectedOrders: number;
+  predictedClv: number;
+  lifecycle: CustomerLifecycle | null;
+}
+
+export type CustomerSortField =
+  | 'name'
+  | 'createdAt'
+  | 'predictedClv'
+  | 'historicalClv'
+  | 'expectedNextOrderDate'
+  | 'probabilityAlive'
+  | 'ordersCount'
+  | 'lastOrderDate';
+
+export interface CustomerListItem {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  tags: string[];
+  acceptsMarketing: boolean;
+  createdAt: string;
+  value: CustomerValue;
+}
+
+export interface CustomerAddress {
+  name: string | null;
+  company: string | null;
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  province: string | null;
+  zip: string | null;
+  country: string | null;
+  phone: string | null;
+  isDefault: boolean;
+}
+
+export interface CustomerListFilters {
+  search?: string;
+  tags?: string[];
+  acceptsMarketing?: boolean;
+  minSpend?: number;
+  maxSpend?: number;
+}
+
+export interface CustomerDetail extends CustomerListItem {
+  phone: string | null;
+  state: string | null;
+  verifiedEmail: boolean;
+  defaultAddress: CustomerAddress | null;
+  addresses: CustomerAddress[];
+  // Newest first, capped; ordersTotal is the full count
+  orders: Array<{
+    id: string;
+    orderNumber: string;
+    totalPrice: number;
+    totalDiscounts: number | null;
+    currency: string;
+    financialStatus: string | null;
+    fulfillmentStatus: string | null;
+    itemsCount: number;
+    createdAt: string;
+  }>;
+  ordersTotal: number;
+}
+
+export interface OrderFilters {
+  financialStatus?: string[];
+  fulfillmentStatus?: string[];
+  from?: string;
+  to?: string;
+  minTotal?: number;
+  maxTotal?: number;
+  discountCode?: string;
+  tag?: string;
+  customer?: string;
+  customerId?: string;
+  orderNumber?: string;
+}
+
+type OrderCustomer = { id: string; firstName: string | null; lastName: string | null; email: string | null } | null;
+
+export interface OrderListItem {
+  id: string;
+  orderNumber: string;
+  customerEmail: string | null;
+  financialStatus: string | null;
+  fulfillmentStatus: string | null;
+  currency: string;
+  totalPrice: number;
+  totalDiscounts: number;
+  itemsCount: number;
+  discountCodes: string[];
+  tags: string[];
+  cancelledAt: string | null;
+  createdAt: string;
+  customer: OrderCustomer;
+}
+
+export interface OrderTransaction {
+  id: string | null;
+  kind: string | null;
+  status: string | null;
+  gateway: string | null;
+  amount: number;
+  currency: string | null;
+  createdAt: string | null;
+}
+
+export interface OrderDetail extends Omit<OrderListItem, 'itemsCount' | 'discountCodes'> {
+  subtotalPrice: number;
+  totalTax: number;
+  totalLineItemsPrice: number;
+  totalRefunded: number;
+  note: string | null;
+  processedAt: string | null;
+  closedAt: string | null;
+  orderStatusUrl: string | null;
+  lineItems: Array<{
+    id: string | null;
+    productId: string | null;
+    title: string;
+    variantTitle: string | null;
+    sku: string | null;
+    vendor: string | null;
+    quantity: number;
+    price: number;
+    totalDiscount: number;
+    total: number;
+    fulfillmentStatus: string | null;
+  }>;
+  shippingLines: Array<{ title: string; code: string | null; source: string | null; price: number; discountedPrice: number }>;
+  discountCodes: Array<{ code: string | null; type: string | null; amount: number }>;
+  refunds: Array<{
+    id: string | null;
+    createdAt: string | null;
+    note: string | null;
+    restock: boolean;
+    lineItems: Array<{ title: string; variantTitle: string | null; quantity: number; subtotal: number }>;
+    transactions: OrderTransaction[];
+    amount: number;
+  }>;
+  transactions: OrderTransaction[];
+  shippingAddress: CustomerAddress | null;
+  billingAddress: CustomerAddress | null;
+}
+
+// Shopify finance report lines. Net sales = gross sales - discounts - returns;
+// total sales adds taxes and shipping. Test, voided and cancelled orders are
+// left out.
+export interface RevenueBreakdown {
+  grossSales: number;
+  discounts: number;
+  returns: number;
+  netSales: number;
+  taxes: number;
+  shipping: number;
+  totalSales: number;
+}
+
+export type CompareMode = 'previous' | 'lastYear' | 'custom';
+
+// What to compare a range with; custom ranges need both dates
+export interface Comparison {
+  mode: CompareMode;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface Delta {
+  current: number;
+  previous: number;
+  change: number;
+  // Null when the comparison value was zero
+  percentChange: number | null;
+}
+
+// What a range endpoint adds when asked for a comparison: the compared range,
+// its figures and deltas of the headline ones
+export type Compared<Figures, DeltaKey extends string> = Figures & {
+  mode: CompareMode;
+  startDate: string;
+  endDate: string;
+  deltas: Record<DeltaKey, Delta>;
+};
+
+export type SalesDay = RevenueBreakdown & { date: string; sales: number; orders: number; currency: string };
+
+export interface SalesData {
+  data: SalesDay[];
+  currency: string;
+  timezone: string;
+  startDate: string;
+  endDate: string;
+  // Only with a comparison
+  comparison?: {
+    mode: CompareMode;
+    startDate: string;
+    endDate: string;
+    data: SalesDay[];
+    deltas: Record<'sales' | 'orders' | 'averageOrderValue', Delta>;
+  };
+}
+
+export type SalesByTypeRow = { type: string; revenue: number; orders: number; currency: string };
+
+export interface StoreAnalytics {
+  total_revenue: number;
+  total_orders: number;
+  total_products: number;
+  total_customers: number;
+  revenue: RevenueBreakdown;
+  currency: string;
+  timezone: string;
+  // Only with a range or comparison
+  startDate?: string;
+  endDate?: string;
+  comparison?: Compared<
+    { total_revenue: number; total_orders: number; revenue: RevenueBreakdown },
+    'orders' | keyof RevenueBreakdown
+  >;
+}
+
+export type CustomerSplitFigures = {
+  new: { orders: number; revenue: number };
+  returning: { orders: number; revenue: number };
+};
+
+export type DiscountsFigures = {
+  totalDiscounts: number;
+  avgDiscountPerOrder: number;
+  netRevenue: number;
+  revenue: RevenueBreakdown;
+  ordersCount: number;
+};
+
+export interface TenantStoreTotal {
+  storeId: string;
+  name: string;
+  domain: string;
+  currency: string;
+  orders: number;
+  // In the reporting currency; amounts without a rate are left out
+  revenue: number;
+  amounts: Array<{ currency: string; orders: number; revenue: number; rate: number | null; converted: number | null }>;
+}
+
+export interface TenantTotals {
+  currency: string;
+  startDate: string | null;
+  endDate: string;
+  totalRevenue: number;
+  totalOrders: number;
+  stores: TenantStoreTotal[];
+  // Currencies with sales but no loaded exchange rate into `currency`
+  missingRates: string[];
+}
+
+// Range bounds go to the analytics endpoints as the calendar day picked, which
+// the API reads in the store's timezone
+const storeDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const compareParams = (compare?: Comparison) => {
+  if (!compare) return [];
+  const params = [`compare=${compare.mode}`];
+  if (compare.mode === 'custom' && compare.startDate && compare.endDate) {
+    params.push(`compareStartDate=${storeDay(compare.startDate)}`, `compareEndDate=${storeDay(compare.endDate)}`);
+  }
+  return params;
+};
+
+// A built-in RFM segment by key, or a saved segment by id
+export type SegmentRef = { rfm: string } | { segmentId: string };
+
+const segmentMembersUrl = (storeId: string, ref: SegmentRef) =>
+  'rfm' in ref
+    ? `/api/shopify/stores/${storeId}/customers/rfm/${ref.rfm}/members`
+    : `/api/shopify/stores/${storeId}/customers/segments/${ref.segmentId}/members`;
+
 export const shopifyService = {
   // List stores for current tenant
   async listStores(params?: { page?: number; limit?: number; search?: string }) {
@@ -60,15 +403,36 @@ export const shopifyService = {
     return data;
   },
 
+  // Start the OAuth install flow; returns Shopify's authorize URL to navigate to
+  async getInstallUrl(shop: string) {
+    const res: any = await api.get(
+      `/api/shopify/install?shop=${encodeURIComponent(shop)}`,
+      { headers: { Accept: 'application/json' } },
+      false
+    );
+    return (res?.data?.authorizeUrl ?? res?.authorizeUrl) as string;
+  },
+
   // Trigger manual sync for a store
   async manualSync(storeId: string) {
     const data = await api.post(`/api/shopify/stores/${storeId}/sync`);
     return data;
   },
-  // Fetch store analytics
-  async getStoreAnalytics(storeId: string) {
-    const data = await api.get(`/api/shopify/stores/${storeId}/analytics`);
-    return data;
+  // Fetch store analytics; orders and revenue are all-time unless a range or comparison is given
+  async getStoreAnalytics(storeId: string, options?: { startDate?: Date; endDate?: Date; compare?: Comparison }) {
+    const qs: string[] = [];
+    if (options?.startDate) qs.push(`startDate=${storeDay(options.startDate)}`);
+    if (options?.endDate) qs.push(`endDate=${storeDay(options.endDate)}`);
+    qs.push(...compareParams(options?.compare));
+    const q = qs.length ? `?${qs.join('&')}` : '';
+    return api.get(`/api/shopify/stores/${storeId}/analytics${q}`) as Promise<StoreAnalytics>;
+  },
+
+  // The currency the store's amounts are reported in and the timezone its
+  // analytics days are counted in
+  async getStoreSettings(storeId: string) {
+    const data: any = await api.get(`/api/shopify/stores/${storeId}/analytics`);
+    return { currency: (data?.currency ?? 'USD') as string, timezone: (data?.timezone ?? 'UTC') as string };
   },
 
   // Get top performing products
@@ -123,16 +487,23 @@ export const shopifyService = {
       params.push(`period=${period}`);
     }
     if (options?.startDate) {
-      params.push(`startDate=${encodeURIComponent(options.startDate.toISOString())}`);
+      params.push(`startDate=${storeDay(options.startDate)}`);
     }
     if (options?.endDate) {
-      params.push(`endDate=${encodeURIComponent(options.endDate.toISOString())}`);
+      params.push(`endDate=${storeDay(options.endDate)}`);
     }
     const qs = params.length ? `?${params.join('&')}` : '';
-    const data = await api.get(
-      `/api/shopify/stores/${storeId}/sales${qs}`
-    );
-    return data as Array<{ date: string; sales: number; orders: number }>;
+    // `sales` is net sales, rounded
+    return api.get(`/api/shopify/stores/${storeId}/sales${qs}`) as Promise<SalesData>;
+  },
+
+  // Daily sales for a range and for the range it's compared with, plus
+  // deltas of the totals
+  async compareSalesData(storeId: string, options: { startDate: Date; endDate: Date }, compare: Comparison) {
+    const params = [`startDate=${storeDay(options.startDate)}`, `endDate=${storeDay(options.endDate)}`, ...compareParams(compare)];
+    return api.get(`/api/shopify/stores/${storeId}/sales?${params.join('&')}`) as Promise<
+      SalesData & { comparison: NonNullable<SalesData['comparison']> }
+    >;
   },
 
   // Get inventory status
@@ -144,41 +515,189 @@ export const shopifyService = {
   },
 
   // New analytics helpers
-  async getCustomerSplit(storeId: string, options?: { startDate?: Date; endDate?: Date }) {
+  async getCustomerSplit(storeId: string, options?: { startDate?: Date; endDate?: Date; compare?: Comparison }) {
     const qs: string[] = [];
-    if (options?.startDate) qs.push(`startDate=${encodeURIComponent(options.startDate.toISOString())}`);
-    if (options?.endDate) qs.push(`endDate=${encodeURIComponent(options.endDate.toISOString())}`);
+    if (options?.startDate) qs.push(`startDate=${storeDay(options.startDate)}`);
+    if (options?.endDate) qs.push(`endDate=${storeDay(options.endDate)}`);
+    qs.push(...compareParams(options?.compare));
     const q = qs.length ? `?${qs.join('&')}` : '';
-    return api.get(`/api/shopify/stores/${storeId}/customers/split${q}`) as Promise<{
-      new: { orders: number; revenue: number };
-      returning: { orders: number; revenue: number };
+    return api.get(`/api/shopify/stores/${storeId}/customers/split${q}`) as Promise<CustomerSplitFigures & {
+      currency: string;
       startDate: string; endDate: string;
+      comparison?: Compared<CustomerSplitFigures, 'newOrders' | 'newRevenue' | 'returningOrders' | 'returningRevenue'>;
+    }>;
+  },
+
+  async getCustomerCohorts(storeId: string, options?: { months?: number }) {
+    const q = options?.months ? `?months=${options.months}` : '';
+    return api.get(`/api/shopify/stores/${storeId}/customers/cohorts${q}`) as Promise<{
+      months: number;
+      horizon: number;
+      currency: string;
+      cohorts: Array<{
+        cohort: string;
+        customers: number;
+        revenue: number;
+        retention: Array<{ month: number; customers: number; rate: number; revenue: number; revenueRate: number }>;
+      }>;
     }>;
   },
 
-  async getSalesByType(storeId: string, options?: { startDate?: Date; endDate?: Date; groupBy?: 'productType' | 'vendor' }) {
+  async getSalesByType(
+    storeId: string,
+    options?: { startDate?: Date; endDate?: Date; groupBy?: 'productType' | 'vendor'; compare?: Comparison }
+  ) {
     const qs: string[] = [];
-    if (options?.startDate) qs.push(`startDate=${encodeURIComponent(options.startDate.toISOString())}`);
-    if (options?.endDate) qs.push(`endDate=${encodeURIComponent(options.endDate.toISOString())}`);
+    if (options?.startDate) qs.push(`startDate=${storeDay(options.startDate)}`);
+    if (options?.endDate) qs.push(`endDate=${storeDay(options.endDate)}`);
     if (options?.groupBy) qs.push(`groupBy=${options.groupBy}`);
+    qs.push(...compareParams(options?.compare));
     const q = qs.length ? `?${qs.join('&')}` : '';
-    return api.get(`/api/shopify/stores/${storeId}/sales/by-type${q}`) as Promise<Array<{ type: string; revenue: number; orders: number }>>;
+    return api.get(`/api/shopify/stores/${storeId}/sales/by-type${q}`) as Promise<{
+      groupBy: 'productType' | 'vendor';
+      data: SalesByTypeRow[];
+      currency: string;
+      startDate: string;
+      endDate: string;
+      // Revenue deltas keyed by type
+      comparison?: Compared<{ data: SalesByTypeRow[] }, string>;
+    }>;
   },
 
-  async getTrafficHeatmap(storeId: string, options?: { startDate?: Date; endDate?: Date; metric?: 'orders' | 'revenue' }) {
+  async getTrafficHeatmap(
+    storeId: string,
+    options?: { startDate?: Date; endDate?: Date; metric?: 'orders' | 'revenue'; compare?: Comparison }
+  ) {
     const qs: string[] = [];
-    if (options?.startDate) qs.push(`startDate=${encodeURIComponent(options.startDate.toISOString())}`);
-    if (options?.endDate) qs.push(`endDate=${encodeURIComponent(options.endDate.toISOString())}`);
+    if (options?.startDate) qs.push(`startDate=${storeDay(options.startDate)}`);
+    if (options?.endDate) qs.push(`endDate=${storeDay(options.endDate)}`);
     if (options?.metric) qs.push(`metric=${options.metric}`);
+    qs.push(...compareParams(options?.compare));
     const q = qs.length ? `?${qs.join('&')}` : '';
-    return api.get(`/api/shopify/stores/${storeId}/traffic/heatmap${q}`) as Promise<{ metric: 'orders' | 'revenue'; heatmap: number[][]; startDate: string; endDate: string }>;
+    return api.get(`/api/shopify/stores/${storeId}/traffic/heatmap${q}`) as Promise<{
+      metric: 'orders' | 'revenue';
+      heatmap: number[][];
+      currency: string;
+      timezone: string;
+      startDate: string;
+      endDate: string;
+      comparison?: Compared<{ heatmap: number[][] }, 'total'>;
+    }>;
   },
 
-  async getDiscountsSummary(storeId: string, options?: { startDate?: Date; endDate?: Date }) {
+  async getDiscountsSummary(storeId: string, options?: { startDate?: Date; endDate?: Date; compare?: Comparison }) {
     const qs: string[] = [];
-    if (options?.startDate) qs.push(`startDate=${encodeURIComponent(options.startDate.toISOString())}`);
-    if (options?.endDate) qs.push(`endDate=${encodeURIComponent(options.endDate.toISOString())}`);
+    if (options?.startDate) qs.push(`startDate=${storeDay(options.startDate)}`);
+    if (options?.endDate) qs.push(`endDate=${storeDay(options.endDate)}`);
+    qs.push(...compareParams(options?.compare));
     const q = qs.length ? `?${qs.join('&')}` : '';
-    return api.get(`/api/shopify/stores/${storeId}/discounts/summary${q}`) as Promise<{ totalDiscounts: number; avgDiscountPerOrder: number; netRevenue: number; ordersCount: number; startDate: string; endDate: string }>;
+    return api.get(`/api/shopify/stores/${storeId}/discounts/summary${q}`) as Promise<DiscountsFigures & {
+      currency: string;
+      startDate: string;
+      endDate: string;
+      comparison?: Compared<DiscountsFigures, Exclude<keyof DiscountsFigures, 'revenue'>>;
+    }>;
+  },
+
+  async getRfmSegments(storeId: string) {
+    const res: any = await api.get(`/api/shopify/stores/${storeId}/customers/rfm`);
+    return res?.data as { totalCustomers: number; scoredCustomers: number; segments: RfmSegmentSummary[]; currency: string };
+  },
+
+  async getSegmentMembers(storeId: string, ref: SegmentRef, options?: { page?: number; limit?: number }) {
+    const qs = `?page=${options?.page ?? 1}&limit=${options?.limit ?? 25}`;
+    const res: any = await api.get(`${segmentMembersUrl(storeId, ref)}${qs}`);
+    return res?.data as {
+      customers: SegmentCustomer[];
+      pagination: { page: number; limit: number; total: number; pages: number };
+      currency: string;
+    };
+  },
+
+  // Every member as a CSV file
+  async exportSegmentMembers(storeId: string, ref: SegmentRef) {
+    return api.get(`${segmentMembersUrl(storeId, ref)}?format=csv`, { responseType: 'blob' }, false) as Promise<Blob>;
+  },
+
+  async listSavedSegments(storeId: string) {
+    // Skip the GET cache so new segments show up right away
+    const res: any = await api.get(`/api/shopify/stores/${storeId}/customers/segments`, {}, false);
+    return (res?.data?.segments ?? []) as SavedSegment[];
+  },
+
+  async createSavedSegment(storeId: string, input: { name: string; description?: string; filters: SegmentFilters }) {
+    const res: any = await api.post(`/api/shopify/stores/${storeId}/customers/segments`, input);
+    return res?.data?.segment as SavedSegment;
+  },
+
+  async deleteSavedSegment(storeId: string, segmentId: string) {
+    await api.delete(`/api/shopify/stores/${storeId}/customers/segments/${segmentId}`);
+  },
+
+  async getCustomers(
+    storeId: string,
+    options?: { page?: number; limit?: number; sort?: CustomerSortField; order?: 'asc' | 'desc' } & CustomerListFilters
+  ) {
+    const qs: string[] = [];
+    if (options?.page) qs.push(`page=${options.page}`);
+    if (options?.limit) qs.push(`limit=${options.limit}`);
+    if (options?.sort) qs.push(`sort=${options.sort}`);
+    if (options?.order) qs.push(`order=${options.order}`);
+    if (options?.search) qs.push(`search=${encodeURIComponent(options.search)}`);
+    if (options?.tags?.length) qs.push(`tags=${encodeURIComponent(options.tags.join(','))}`);
+    if (options?.acceptsMarketing !== undefined) qs.push(`acceptsMarketing=${options.acceptsMarketing}`);
+    if (options?.minSpend !== undefined) qs.push(`minSpend=${options.minSpend}`);
+    if (options?.maxSpend !== undefined) qs.push(`maxSpend=${options.maxSpend}`);
+    const q = qs.length ? `?${qs.join('&')}` : '';
+    const res: any = await api.get(`/api/shopify/stores/${storeId}/customers${q}`);
+    return {
+      customers: (res?.data?.customers ?? []) as CustomerListItem[],
+      horizonDays: res?.data?.horizonDays as number,
+      currency: res?.data?.currency as string,
+      pagination: res?.pagination as { page: number; limit: number; total: number; pages: number },
+    };
+  },
+
+  async getCustomer(storeId: string, customerId: string) {
+    const res: any = await api.get(`/api/shopify/stores/${storeId}/customers/${customerId}`);
+    return {
+      customer: res?.data?.customer as CustomerDetail,
+      horizonDays: res?.data?.horizonDays as number,
+      currency: res?.data?.currency as string,
+    };
+  },
+
+  async getOrders(storeId: string, options?: { cursor?: string; limit?: number } & OrderFilters) {
+    const qs = new URLSearchParams();
+    if (options?.cursor) qs.set('cursor', options.cursor);
+    if (options?.limit) qs.set('limit', String(options.limit));
+    if (options?.financialStatus?.length) qs.set('financialStatus', options.financialStatus.join(','));
+    if (options?.fulfillmentStatus?.length) qs.set('fulfillmentStatus', options.fulfillmentStatus.join(','));
+    for (const key of ['from', 'to', 'discountCode', 'tag', 'customer', 'customerId', 'orderNumber'] as const) {
+      if (options?.[key]) qs.set(key, options[key] as string);
+    }
+    if (options?.minTotal !== undefined) qs.set('minTotal', String(options.minTotal));
+    if (options?.maxTotal !== undefined) qs.set('maxTotal', String(options.maxTotal));
+    const q = qs.toString() ? `?${qs.toString()}` : '';
+    const res: any = await api.get(`/api/shopify/stores/${storeId}/orders${q}`);
+    return {
+      orders: (res?.data?.orders ?? []) as OrderListItem[],
+      currency: res?.data?.currency as string,
+      pagination: res?.pagination as { limit: number; total: number; hasMore: boolean; nextCursor: string | null },
+    };
+  },
+
+  async getOrder(storeId: string, orderId: string) {
+    const res: any = await api.get(`/api/shopify/stores/${storeId}/orders/${orderId}`);
+    return res?.data?.order as OrderDetail;
+  },
+
+  // Sales across all of a tenant's stores, converted into one currency
+  async getTenantTotals(tenantId: string, options: { currency: string; startDate?: Date; endDate?: Date }) {
+    const qs = new URLSearchParams({ currency: options.currency });
+    if (options.startDate) qs.set('startDate', options.startDate.toISOString());
+    if (options.endDate) qs.set('endDate', options.endDate.toISOString());
+    const res: any = await api.get(`/api/tenants/${tenantId}/totals?${qs.toString()}`);
+    return res?.data as TenantTotals;
   },
 };
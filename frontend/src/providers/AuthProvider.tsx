@@ -8,13 +8,21 @@ interface User {
   id: string;
   email: string;
   name: string;
+  tenantId?: string;
+  role?: 'OWNER' | 'ADMIN' | 'ANALYST' | 'VIEWER';
   // Add other user properties as needed
 }
 
+// Users with 2FA on get a challenge token instead of a session from the password step
+export type LoginResult = { mfaRequired: false } | { mfaRequired: true; mfaToken: string };
+
+export type MfaProof = { code: string } | { recoveryCode: string };
+
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyMfa: (mfaToken: string, proof: MfaProof) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => void;
   verifyOtp: (email: string, otp: string) => Promise<boolean>;
@@ -23,7 +31,7 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 // List of public paths that don't require authentication
-const publicPaths = ['/login', '/signup', '/verify-otp', '/forgot-password', '/reset-otp', '/reset-password'];
+const publicPaths = ['/login', '/signup', '/verify-otp', '/forgot-password', '/reset-otp', '/reset-password', '/invite'];
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
@@ -108,9 +116,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [user, loading, pathname, router]);
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       const resp: any = await api.post('/api/auth/login', { email, password });
+      if (resp?.mfaRequired && resp?.mfaToken) {
+        return { mfaRequired: true, mfaToken: resp.mfaToken };
+      }
       const token = resp?.token || resp?.data?.token;
       const u = resp?.data?.user || resp?.user;
       if (!token || !u?.id) throw new Error('Invalid login response');
@@ -119,6 +130,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       localStorage.setItem('userId', u.id);
       setUser(u);
       router.push('/dashboard');
+      return { mfaRequired: false };
     } catch (error) {
       console.error('Login failed:', error);
       // Clear any bad state
@@ -128,6 +140,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const verifyMfa = async (mfaToken: string, proof: MfaProof) => {
+    const resp: any = await api.post('/api/auth/login/mfa', { mfaToken, ...proof });
+    const token = resp?.token || resp?.data?.token;
+    const u = resp?.data?.user || resp?.user;
+    if (!token || !u?.id) throw new Error('Invalid login response');
+    localStorage.setItem('token', token);
+    localStorage.setItem('user', JSON.stringify(u));
+    localStorage.setItem('userId', u.id);
+    setUser(u);
+  };
+
   const register = async (name: string, email: string, password: string) => {
     try {
       await api.post('/api/auth/signup', { username: name, email, password, passwordConfirm: password });
@@ -174,7 +197,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, login, register, logout, verifyOtp }}>
+    <AuthContext.Provider value={{ user, loading, login, verifyMfa, register, logout, verifyOtp }}>
       {children}
     </AuthContext.Provider>
   );